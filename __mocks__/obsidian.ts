@@ -4,6 +4,7 @@
 
 export class App {
     vault: Vault = new Vault();
+    metadataCache: MetadataCache = new MetadataCache();
     plugins: { plugins: Record<string, any> } = { plugins: {} };
 }
 
@@ -15,6 +16,11 @@ export class Vault {
     getMarkdownFiles = jest.fn();
 }
 
+export class MetadataCache {
+    getCache = jest.fn();
+    getFileCache = jest.fn();
+}
+
 export class TFile {
     path: string = '';
     name: string = '';
@@ -1,21 +1,42 @@
-import { App, Editor, MarkdownView, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import { CalDAVSettings, DEFAULT_CALDAV_SETTINGS } from './src/types';
+import { App, Editor, MarkdownView, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TextComponent } from 'obsidian';
+import { AuthType, CalDAVSettings, CalendarBinding, CalendarScopeType, Credentials, DEFAULT_CALDAV_SETTINGS, EMPTY_CREDENTIALS, ReminderFormat, ServerProfile, SyncDirection, TimeFormat } from './src/types';
 import { ensureTaskId, extractTaskId, isValidTaskId } from './src/utils/taskIdGenerator';
 import { SyncEngine } from './src/sync/syncEngine';
 import { dumpCalDAVRequests } from './src/caldav/requestDumper';
+import { probeServer } from './src/caldav/serverProbe';
+import { CassetteRecorder, saveCassette } from './src/caldav/cassette';
+import { ObsidianHttpClient } from './src/caldav/httpClient';
+import { RetryingHttpClient } from './src/caldav/retryingHttpClient';
+import { systemDnsResolver } from './src/caldav/serviceDiscovery';
+import { CalDAVClientDirect, CalendarInfo } from './src/caldav/calDAVClientDirect';
+import { AuthProvider, createAuthProvider } from './src/caldav/auth';
+import { CredentialStore, CredentialsLockedError, createCredentialId, extractLegacyCredentials } from './src/storage/credentialStore';
+import { ServerProfileStorage } from './src/storage/serverProfileStorage';
 import { SyncResultModal } from './src/ui/syncResultModal';
+import { CreateCalendarModal } from './src/ui/createCalendarModal';
 import { AutoSyncScheduler } from './src/sync/autoSync';
+import { DEFAULT_FRONTMATTER_KEY, createCalendarBinding, migrateLegacyCalendar } from './src/sync/calendarBindings';
 
 export default class CalDAVSyncPlugin extends Plugin {
 	settings: CalDAVSettings;
+	credentialStore: CredentialStore;
+	// The account's secrets; null while the credential store is locked
+	credentials: Credentials | null = null;
+	// Plaintext secrets read from an older data.json, kept there until the store takes them
+	private legacyCredentials: Partial<Credentials> | null = null;
+	// Capabilities recorded by the last probe of the configured server
+	serverProfile: ServerProfile | null = null;
 	syncEngine: SyncEngine | null = null;
+	// Captures the server traffic of syncs while a session recording runs
+	private recorder: CassetteRecorder | null = null;
 	private autoSync: AutoSyncScheduler | null = null;
 
 	async onload() {
 		await this.loadSettings();
+		this.serverProfile = await new ServerProfileStorage(this.app).load(this.settings.serverUrl);
 
 		// Initialize sync engine
-		this.syncEngine = new SyncEngine(this.app, this.settings);
+		this.syncEngine = this.createSyncEngine();
 		const ready = await this.syncEngine.initialize();
 		if (!ready) {
 			new Notice('CalDAV sync: obsidian-tasks plugin not available');
@@ -151,6 +172,38 @@ export default class CalDAVSyncPlugin extends Plugin {
 			}
 		});
 
+		// Command: Create a task calendar on the server
+		this.addCommand({
+			id: 'create-task-calendar',
+			name: 'Create task calendar on CalDAV server',
+			callback: () => {
+				new CreateCalendarModal(this.app, async (displayName, color) => {
+					await this.createTaskCalendar(displayName, color);
+				}).open();
+			}
+		});
+
+		// Command: Probe the server's capabilities
+		this.addCommand({
+			id: 'probe-caldav-server',
+			name: 'Probe CalDAV server capabilities',
+			callback: async () => {
+				new Notice('Probing CalDAV server...');
+				try {
+					const profile = await this.probeServer();
+					new Notice(`Server profile saved to .caldav-sync/server-profile.json\n` +
+						`ETag on PUT: ${profile.etagOnPut ? 'yes' : 'no'}\n` +
+						`Categories: ${profile.categories}\n` +
+						`sync-collection: ${profile.syncCollection ? 'yes' : 'no'}\n` +
+						`DTSTART on tasks: ${profile.vtodoDtstart ? 'yes' : 'no'}`, 10000);
+				} catch (error) {
+					const msg = error instanceof Error ? error.message : String(error);
+					new Notice(`CalDAV probe failed: ${msg}`, 8000);
+					console.error('[CalDAV] Probe failed:', error);
+				}
+			}
+		});
+
 		// Command: Dump CalDAV requests for debugging
 		this.addCommand({
 			id: 'dump-caldav-requests',
@@ -158,7 +211,7 @@ export default class CalDAVSyncPlugin extends Plugin {
 			callback: async () => {
 				new Notice('Dumping CalDAV requests...');
 				try {
-					const result = await dumpCalDAVRequests(this.app, this.settings);
+					const result = await dumpCalDAVRequests(this.app, this.settings, this.createAuth());
 					new Notice(`${result}\nCheck .caldav-sync/test-caldav-requests/ in your vault.`, 10000);
 				} catch (error) {
 					const msg = error instanceof Error ? error.message : String(error);
@@ -168,12 +221,61 @@ export default class CalDAVSyncPlugin extends Plugin {
 			}
 		});
 
+		// Commands: Record the server traffic of syncs for a bug report
+		this.addCommand({
+			id: 'start-session-recording',
+			name: 'Start recording CalDAV session',
+			checkCallback: (checking) => {
+				if (this.recorder) return false;
+				if (!checking) {
+					this.startRecording().then(() => {
+						new Notice('Recording CalDAV requests. Reproduce the problem, then save the session.', 8000);
+					}).catch(error => {
+						const msg = error instanceof Error ? error.message : String(error);
+						new Notice(`Starting the CalDAV session recording failed: ${msg}`, 8000);
+						console.error('[CalDAV] Starting session recording failed:', error);
+					});
+				}
+				return true;
+			}
+		});
+		for (const scrub of [false, true]) {
+			this.addCommand({
+				id: scrub ? 'save-session-recording-scrubbed' : 'save-session-recording',
+				name: scrub ? 'Save recorded CalDAV session without task content' : 'Save recorded CalDAV session',
+				checkCallback: (checking) => {
+					if (!this.recorder) return false;
+					if (!checking) {
+						this.saveRecording(scrub).then(path => {
+							new Notice(`CalDAV session saved to ${path}`, 8000);
+						}).catch(error => {
+							const msg = error instanceof Error ? error.message : String(error);
+							new Notice(`Saving the CalDAV session failed: ${msg}`, 8000);
+							console.error('[CalDAV] Saving session failed:', error);
+						});
+					}
+					return true;
+				}
+			});
+		}
+
 		// Add settings tab
 		this.addSettingTab(new CalDAVSettingTab(this.app, this));
 
-		// Auto-sync scheduler
+		// Track vault edits so auto-sync can skip ticks where nothing changed
+		const markVaultDirty = (file: TAbstractFile) => {
+			if (file instanceof TFile && file.extension === 'md') {
+				this.syncEngine?.markVaultDirty();
+			}
+		};
+		this.registerEvent(this.app.vault.on('modify', markVaultDirty));
+		this.registerEvent(this.app.vault.on('create', markVaultDirty));
+		this.registerEvent(this.app.vault.on('delete', markVaultDirty));
+		this.registerEvent(this.app.vault.on('rename', markVaultDirty));
+
+		// Auto-sync scheduler: pre-flight check first, full sync only on changes
 		this.autoSync = new AutoSyncScheduler(
-			() => this.syncEngine!.sync().then(() => {}),
+			() => this.syncEngine!.syncIfChanged().then(() => {}),
 			(id) => this.registerInterval(id),
 		);
 		this.autoSync.start(this.settings.syncInterval);
@@ -184,27 +286,215 @@ export default class CalDAVSyncPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_CALDAV_SETTINGS, await this.loadData() as Partial<CalDAVSettings>);
+		const data = (await this.loadData() ?? {}) as Record<string, unknown>;
+		this.legacyCredentials = extractLegacyCredentials(data);
+		this.settings = Object.assign({}, DEFAULT_CALDAV_SETTINGS, data as Partial<CalDAVSettings>);
+		// Own copy, so adding calendars never mutates the shared defaults
+		this.settings.calendars = [...(this.settings.calendars ?? [])];
+		let changed = migrateLegacyCalendar(this.settings);
+		if (!this.settings.credentialId) {
+			this.settings.credentialId = createCredentialId();
+			changed = true;
+		}
+
+		this.credentialStore = new CredentialStore({
+			load: (key) => this.app.loadLocalStorage(key) as unknown,
+			save: (key, value) => this.app.saveLocalStorage(key, value),
+		});
+		try {
+			await this.unlockCredentials();
+		} catch (error) {
+			if (error instanceof CredentialsLockedError) {
+				new Notice('CalDAV sync: enter your credentials passphrase in the settings to sync');
+			} else {
+				const msg = error instanceof Error ? error.message : String(error);
+				new Notice(`CalDAV sync: ${msg}`, 8000);
+			}
+			if (this.legacyCredentials) {
+				this.credentials = { ...EMPTY_CREDENTIALS, ...this.legacyCredentials };
+			}
+		}
+
+		if (changed) {
+			await this.persistSettings();
+		}
+	}
+
+	/**
+	 * Unlock the credential store and load the account's secrets, moving
+	 * plaintext secrets from an older data.json into the store.
+	 * @param passphrase Needed when the store is protected by one
+	 */
+	async unlockCredentials(passphrase?: string): Promise<void> {
+		await this.credentialStore.unlock(passphrase);
+		const credentials = this.credentialStore.get(this.settings.credentialId);
+		if (this.legacyCredentials) {
+			Object.assign(credentials, this.legacyCredentials);
+			await this.credentialStore.set(this.settings.credentialId, credentials);
+			this.legacyCredentials = null;
+			await this.persistSettings();
+		}
+		this.credentials = credentials;
+	}
+
+	/**
+	 * Delete the saved credentials on this device and start over with an
+	 * empty store, e.g. after the passphrase was forgotten.
+	 */
+	async resetCredentials(): Promise<void> {
+		await this.credentialStore.reset();
+		await this.unlockCredentials();
+		await this.saveSettings();
+	}
+
+	/**
+	 * Write the account's secrets to the credential store.
+	 */
+	async saveCredentials(): Promise<void> {
+		if (this.credentials && !this.credentialStore.isLocked()) {
+			await this.credentialStore.set(this.settings.credentialId, this.credentials);
+		}
+	}
+
+	/**
+	 * Create a task calendar on the server and select it: it fills the
+	 * first calendar entry that has none chosen yet, or becomes a new entry.
+	 */
+	async createTaskCalendar(displayName: string, color: string): Promise<CalendarInfo> {
+		const client = this.createClient();
+		const calendar = await client.createCalendar(displayName, color);
+
+		const unassigned = this.settings.calendars.find(b => !b.calendarName && !b.calendarUrl);
+		if (unassigned) {
+			unassigned.calendarName = calendar.displayName;
+			unassigned.calendarUrl = calendar.url;
+		} else {
+			const binding = createCalendarBinding(calendar.displayName);
+			binding.calendarUrl = calendar.url;
+			this.settings.calendars.push(binding);
+		}
+		await this.saveSettings();
+
+		new Notice(`Created calendar '${calendar.displayName}'`);
+		return calendar;
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		await this.persistSettings();
 		// Re-initialize sync engine with new settings
-		this.syncEngine = new SyncEngine(this.app, this.settings);
+		this.syncEngine = this.createSyncEngine();
 		await this.syncEngine.initialize();
 		this.autoSync?.start(this.settings.syncInterval);
 	}
 
+	/**
+	 * CalDAV client for one-off requests outside a sync.
+	 */
+	createClient(): CalDAVClientDirect {
+		// A recorder is a custom transport, which would otherwise turn off DNS discovery
+		return new CalDAVClientDirect(
+			this.settings, this.recorder ?? undefined, this.createAuth(), this.activeServerProfile(), systemDnsResolver);
+	}
+
+	/**
+	 * Probe the configured server, save its profile and restart the sync
+	 * engine so it adapts to it.
+	 */
+	async probeServer(): Promise<ServerProfile> {
+		const profile = await probeServer(this.settings, this.createAuth());
+		await new ServerProfileStorage(this.app).save(profile);
+		this.serverProfile = profile;
+		this.syncEngine = this.createSyncEngine();
+		await this.syncEngine.initialize();
+		return profile;
+	}
+
+	/**
+	 * Route requests of syncs and one-off clients through a recorder,
+	 * until saveRecording().
+	 */
+	async startRecording(): Promise<void> {
+		this.recorder = new CassetteRecorder(new RetryingHttpClient(new ObsidianHttpClient(), {
+			timeoutMs: this.settings.requestTimeout * 1000,
+			maxRetries: this.settings.maxRetries,
+		}));
+		try {
+			const engine = this.createSyncEngine();
+			await engine.initialize();
+			this.syncEngine = engine;
+		} catch (error) {
+			this.recorder = null;
+			throw error;
+		}
+	}
+
+	/**
+	 * Stop recording and write the session, with credentials redacted.
+	 * @param scrubContent Also replace task titles and notes
+	 * @returns Path of the cassette in the vault
+	 */
+	async saveRecording(scrubContent: boolean): Promise<string> {
+		if (!this.recorder) throw new Error('No CalDAV session is being recorded');
+		const cassette = this.recorder.cassette(this.settings, scrubContent);
+		this.recorder = null;
+		this.syncEngine = this.createSyncEngine();
+		await this.syncEngine.initialize();
+		return await saveCassette(this.app, cassette);
+	}
+
+	/** The server profile, unless the server URL changed since it was probed. */
+	private activeServerProfile(): ServerProfile | null {
+		return this.serverProfile?.serverUrl === this.settings.serverUrl ? this.serverProfile : null;
+	}
+
+	/**
+	 * Authentication for requests; while the credentials are locked,
+	 * requests fail with a message asking for the passphrase.
+	 */
+	private createAuth(): AuthProvider {
+		if (!this.credentials) {
+			return {
+				authorize: () => Promise.reject(new CredentialsLockedError()),
+				handleUnauthorized: async () => false,
+			};
+		}
+		// Refreshed tokens are saved without restarting the sync engine
+		return createAuthProvider(this.settings, this.credentials, {
+			onTokensRefreshed: () => this.saveCredentials(),
+		});
+	}
+
+	private createSyncEngine(): SyncEngine {
+		return new SyncEngine(
+			this.app, this.settings, this.createAuth(), this.activeServerProfile(), this.recorder ?? undefined, systemDnsResolver);
+	}
+
+	private persistSettings(): Promise<void> {
+		// Until the store has taken them, legacy secrets stay in data.json rather than being lost
+		return this.saveData({ ...this.settings, ...this.legacyCredentials });
+	}
+
 }
 
 class CalDAVSettingTab extends PluginSettingTab {
 	plugin: CalDAVSyncPlugin;
+	// Result of the last "Test connection", kept across re-renders
+	private connectionStatus: { success: boolean; message: string } | null = null;
+	private availableCalendars: CalendarInfo[] = [];
+	// "Passphrase" picked in the dropdown, but none set yet
+	private choosingPassphrase = false;
+	// A password or token was typed but not saved yet
+	private credentialsEdited = false;
 
 	constructor(app: App, plugin: CalDAVSyncPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
 
+	hide(): void {
+		void this.saveEditedCredentials();
+	}
+
 	display(): void {
 		const { containerEl } = this;
 
@@ -226,41 +516,118 @@ class CalDAVSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Username')
-			.setDesc('CalDAV username')
-			.addText(text => text
-				.setPlaceholder('Enter username')
-				.setValue(this.plugin.settings.username)
+			.setName('Authentication')
+			.setDesc('Basic works with most servers; some only accept digest, or OAuth2 tokens from a single sign-on gateway')
+			.addDropdown(dropdown => dropdown
+				.addOption('basic', 'Basic')
+				.addOption('digest', 'Digest')
+				.addOption('bearer', 'OAuth2 bearer token')
+				.setValue(this.plugin.settings.authType)
 				.onChange(async (value) => {
-					this.plugin.settings.username = value;
+					this.plugin.settings.authType = value as AuthType;
 					await this.plugin.saveSettings();
+					this.display();
 				}));
 
-		new Setting(containerEl)
-			.setName('Password')
-			.setDesc('CalDAV password')
-			.addText(text => {
-				text.inputEl.type = 'password';
-				text
-					.setPlaceholder('Enter password')
-					.setValue(this.plugin.settings.password)
+		const credentials = this.plugin.credentials;
+		if (this.plugin.settings.authType === 'bearer') {
+			this.displayTokenSettings(containerEl);
+		} else {
+			new Setting(containerEl)
+				.setName('Username')
+				.setDesc('CalDAV username')
+				.addText(text => text
+					.setPlaceholder('Enter username')
+					.setValue(this.plugin.settings.username)
 					.onChange(async (value) => {
-						this.plugin.settings.password = value;
+						this.plugin.settings.username = value;
 						await this.plugin.saveSettings();
+					}));
+
+			if (credentials) {
+				new Setting(containerEl)
+					.setName('Password')
+					.setDesc('CalDAV password')
+					.addText(text => {
+						text.inputEl.type = 'password';
+						text
+							.setPlaceholder('Enter password')
+							.setValue(credentials.password)
+							.onChange((value) => {
+								credentials.password = value;
+								this.credentialsEdited = true;
+							});
+						this.saveCredentialsOnBlur(text);
 					});
-			});
+			}
+		}
+
+		this.displayCredentialStorageSettings(containerEl);
 
 		new Setting(containerEl)
-			.setName('Calendar name')
-			.setDesc('Name of the calendar to sync with')
+			.setName('Request timeout')
+			.setDesc('Seconds to wait for the server before giving up on a request (0 = wait forever)')
 			.addText(text => text
-				.setPlaceholder('Tasks')
-				.setValue(this.plugin.settings.calendarName)
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.requestTimeout))
 				.onChange(async (value) => {
-					this.plugin.settings.calendarName = value;
-					await this.plugin.saveSettings();
+					const num = parseInt(value);
+					if (!isNaN(num) && num >= 0) {
+						this.plugin.settings.requestTimeout = num;
+						await this.plugin.saveSettings();
+					}
 				}));
 
+		new Setting(containerEl)
+			.setName('Retries')
+			.setDesc('How often to retry a request after a network error, timeout, rate limit or temporary server error')
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.maxRetries))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (!isNaN(num) && num >= 0) {
+						this.plugin.settings.maxRetries = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel writes')
+			.setDesc('How many task changes to send to the server at the same time')
+			.addText(text => text
+				.setPlaceholder('4')
+				.setValue(String(this.plugin.settings.writeConcurrency))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (!isNaN(num) && num > 0) {
+						this.plugin.settings.writeConcurrency = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Test connection')
+			.setDesc('Check the server and credentials, and load the list of calendars to pick from')
+			.addButton(button => button
+				.setButtonText('Test connection')
+				.onClick(async () => {
+					button.setDisabled(true);
+					button.setButtonText('Testing...');
+					const client = this.plugin.createClient();
+					const result = await client.testConnection();
+					this.connectionStatus = { success: result.success, message: result.message };
+					this.availableCalendars = (result.calendars ?? []).filter(c => c.supportsVTODO);
+					this.display();
+				}));
+
+		if (this.connectionStatus) {
+			containerEl.createDiv({
+				cls: `caldav-connection-status ${this.connectionStatus.success ? 'is-success' : 'is-error'}`,
+				text: this.connectionStatus.message,
+			});
+		}
+
 		new Setting(containerEl)
 			.setName('Sync tag')
 			.setDesc('Tag to filter tasks for sync (e.g., "sync" for #sync). Leave empty to sync all tasks.')
@@ -272,6 +639,40 @@ class CalDAVSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Filter by sync tag on the server')
+			.setDesc('Only download tasks whose categories contain the sync tag. Faster on large calendars, but tasks tagged only in the vault are not found on the server until synced.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.filterTagOnServer)
+				.onChange(async (value) => {
+					this.plugin.settings.filterTagOnServer = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Time format')
+			.setDesc('How due and start times are written in tasks. Tasks are read in both formats.')
+			.addDropdown(dropdown => dropdown
+				.addOption('emoji', 'Emoji (⏰ 09:00, 🛫 08:00)')
+				.addOption('dataview', 'Dataview ([dueTime:: 09:00])')
+				.setValue(this.plugin.settings.timeFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.timeFormat = value as TimeFormat;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reminder format')
+			.setDesc('How reminders from calendar alarms are written in tasks, in the syntax of the reminder plugin. Tasks are read in both formats.')
+			.addDropdown(dropdown => dropdown
+				.addOption('emoji', 'Emoji (⏰ 2026-03-01 08:45)')
+				.addOption('reminder', 'Reminder ((@2026-03-01 08:45))')
+				.setValue(this.plugin.settings.reminderFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.reminderFormat = value as ReminderFormat;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Sync interval')
 			.setDesc('How often to sync (in minutes)')
@@ -287,14 +688,59 @@ class CalDAVSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('New tasks destination')
-			.setDesc('File where new CalDAV tasks will be added')
-			.addText(text => text
-				.setPlaceholder('Inbox.md')
-				.setValue(this.plugin.settings.newTasksDestination)
+			.setName('Sync completed tasks')
+			.setDesc('Also fetch tasks completed or cancelled long ago. Tasks already synced are always kept up to date.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncCompletedTasks)
 				.onChange(async (value) => {
-					this.plugin.settings.newTasksDestination = value;
+					this.plugin.settings.syncCompletedTasks = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (!this.plugin.settings.syncCompletedTasks) {
+			new Setting(containerEl)
+				.setName('Completed task age')
+				.setDesc('Days after which completed and cancelled tasks are no longer fetched from the server')
+				.addText(text => text
+					.setPlaceholder('30')
+					.setValue(String(this.plugin.settings.completedTaskMaxAge))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num >= 0) {
+							this.plugin.settings.completedTaskMaxAge = num;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Calendars')
+			.setDesc('Each calendar syncs the part of the vault it covers. A task goes to the first calendar whose scope matches, and stays with it once synced.')
+			.setHeading();
+
+		this.plugin.settings.calendars.forEach((binding, index) => {
+			this.displayCalendarBinding(containerEl, binding, index);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add calendar')
+				.onClick(async () => {
+					this.plugin.settings.calendars.push(createCalendarBinding());
 					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Create calendar on server')
+				.onClick(() => {
+					new CreateCalendarModal(this.app, async (displayName, color) => {
+						const calendar = await this.plugin.createTaskCalendar(displayName, color);
+						if (this.availableCalendars.length > 0) {
+							this.availableCalendars.push(calendar);
+						}
+						this.display();
+					}).open();
 				}));
 
 		new Setting(containerEl)
@@ -321,4 +767,292 @@ class CalDAVSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 	}
+
+	/**
+	 * Save a secret field when it loses focus, not on every keystroke:
+	 * saving re-encrypts the credential store, with a key derived from the
+	 * passphrase if there is one, and restarts the sync engine.
+	 */
+	private saveCredentialsOnBlur(text: TextComponent): void {
+		text.inputEl.addEventListener('blur', () => {
+			void this.saveEditedCredentials();
+		});
+	}
+
+	private async saveEditedCredentials(): Promise<void> {
+		if (!this.credentialsEdited) return;
+		this.credentialsEdited = false;
+		try {
+			await this.plugin.saveCredentials();
+			await this.plugin.saveSettings();
+		} catch (error) {
+			const msg = error instanceof Error ? error.message : String(error);
+			new Notice(`Saving the credentials failed: ${msg}`, 8000);
+			console.error('[CalDAV] Saving credentials failed:', error);
+		}
+	}
+
+	private displayTokenSettings(containerEl: HTMLElement): void {
+		const credentials = this.plugin.credentials;
+		if (credentials) {
+			new Setting(containerEl)
+				.setName('Access token')
+				.setDesc('Sent as a bearer token with every request')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text
+						.setValue(credentials.accessToken)
+						.onChange((value) => {
+							credentials.accessToken = value.trim();
+							// A pasted token's lifetime is unknown
+							credentials.tokenExpiresAt = 0;
+							this.credentialsEdited = true;
+						});
+					this.saveCredentialsOnBlur(text);
+				});
+
+			new Setting(containerEl)
+				.setName('Refresh token')
+				.setDesc('Optional. Used to get a new access token when the current one expires.')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text
+						.setValue(credentials.refreshToken)
+						.onChange((value) => {
+							credentials.refreshToken = value.trim();
+							this.credentialsEdited = true;
+						});
+					this.saveCredentialsOnBlur(text);
+				});
+		}
+
+		new Setting(containerEl)
+			.setName('Token endpoint')
+			.setDesc('OAuth2 token URL of your identity provider, needed for refreshing')
+			.addText(text => text
+				.setPlaceholder('https://login.example.com/oauth2/token')
+				.setValue(this.plugin.settings.tokenUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.tokenUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Client ID')
+			.setDesc('OAuth2 client ID sent with refresh requests, if your provider requires one')
+			.addText(text => text
+				.setValue(this.plugin.settings.clientId)
+				.onChange(async (value) => {
+					this.plugin.settings.clientId = value.trim();
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayCredentialStorageSettings(containerEl: HTMLElement): void {
+		const store = this.plugin.credentialStore;
+
+		if (store.isLocked()) {
+			let passphrase = '';
+			new Setting(containerEl)
+				.setName('Unlock credentials')
+				.setDesc('Your password and tokens on this device are protected by a passphrase. Enter it to sync.')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.onChange(value => passphrase = value);
+				})
+				.addButton(button => button
+					.setButtonText('Unlock')
+					.setCta()
+					.onClick(async () => {
+						try {
+							await this.plugin.unlockCredentials(passphrase);
+						} catch (error) {
+							new Notice(error instanceof Error ? error.message : String(error));
+							return;
+						}
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			new Setting(containerEl)
+				.setName('Forgot the passphrase?')
+				.setDesc('Delete the credentials saved on this device, so you can enter them again')
+				.addButton(button => button
+					.setButtonText('Reset credentials')
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.resetCredentials();
+						this.display();
+					}));
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Credential protection')
+			.setDesc('Passwords and tokens are stored encrypted on this device only, never in the synced plugin data. A passphrase also protects them from others using this device, but has to be entered once per session.')
+			.addDropdown(dropdown => dropdown
+				.addOption('device', 'Device key')
+				.addOption('passphrase', 'Passphrase')
+				.setValue(this.choosingPassphrase ? 'passphrase' : store.keySource)
+				.onChange(async (value) => {
+					this.choosingPassphrase = value === 'passphrase';
+					if (value === 'device' && store.keySource !== 'device') {
+						await store.setKeySource('device');
+						new Notice('Credentials are now encrypted with this device\'s key');
+					}
+					this.display();
+				}));
+
+		if (this.choosingPassphrase || store.keySource === 'passphrase') {
+			let passphrase = '';
+			new Setting(containerEl)
+				.setName(store.keySource === 'passphrase' ? 'Change passphrase' : 'Passphrase')
+				.setDesc('There is no way to recover the credentials if you forget it')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.onChange(value => passphrase = value);
+				})
+				.addButton(button => button
+					.setButtonText('Set passphrase')
+					.onClick(async () => {
+						if (!passphrase) {
+							new Notice('Enter a passphrase first');
+							return;
+						}
+						await store.setKeySource('passphrase', passphrase);
+						this.choosingPassphrase = false;
+						new Notice('Credentials are now encrypted with your passphrase');
+						this.display();
+					}));
+		}
+	}
+
+	private displayCalendarBinding(containerEl: HTMLElement, binding: CalendarBinding, index: number): void {
+		const calendarSetting = new Setting(containerEl)
+			.setName(`Calendar ${index + 1}`);
+
+		if (this.availableCalendars.length > 0) {
+			// Pick from the server's task calendars; the URL is stored so
+			// calendars sharing a display name stay distinguishable
+			const nameCounts = new Map<string, number>();
+			for (const calendar of this.availableCalendars) {
+				nameCounts.set(calendar.displayName, (nameCounts.get(calendar.displayName) ?? 0) + 1);
+			}
+			calendarSetting
+				.setDesc('Calendar on the server')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Select a calendar');
+					for (const calendar of this.availableCalendars) {
+						let label = (nameCounts.get(calendar.displayName) ?? 0) > 1
+							? `${calendar.displayName} (${new URL(calendar.url).pathname})`
+							: calendar.displayName;
+						if (calendar.owner) label += ` — shared by ${calendar.owner}`;
+						if (!calendar.writable) label += ' (read-only)';
+						dropdown.addOption(calendar.url, label);
+					}
+					const selected = this.availableCalendars.find(c => binding.calendarUrl
+						? c.url === binding.calendarUrl
+						: c.displayName === binding.calendarName);
+					dropdown
+						.setValue(selected?.url ?? '')
+						.onChange(async (value) => {
+							const calendar = this.availableCalendars.find(c => c.url === value);
+							binding.calendarUrl = calendar?.url;
+							binding.calendarName = calendar?.displayName ?? '';
+							await this.plugin.saveSettings();
+						});
+				});
+		} else {
+			calendarSetting
+				.setDesc('Name of the calendar on the server. Test the connection to pick from a list.')
+				.addText(text => text
+					.setPlaceholder('Tasks')
+					.setValue(binding.calendarName)
+					.onChange(async (value) => {
+						binding.calendarName = value;
+						// A typed name no longer refers to the previously picked URL
+						binding.calendarUrl = undefined;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		calendarSetting
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove calendar')
+				.onClick(async () => {
+					this.plugin.settings.calendars.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Scope')
+			.setDesc('Which vault tasks belong to this calendar')
+			.addDropdown(dropdown => dropdown
+				.addOption('vault', 'Whole vault')
+				.addOption('folder', 'Folder')
+				.addOption('tag', 'Tag')
+				.addOption('frontmatter', 'Frontmatter')
+				.setValue(binding.scopeType)
+				.onChange(async (value) => {
+					binding.scopeType = value as CalendarScopeType;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (binding.scopeType === 'frontmatter') {
+			new Setting(containerEl)
+				.setName('Frontmatter key')
+				.setDesc('Property of the note that selects the calendar')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_FRONTMATTER_KEY)
+					.setValue(binding.frontmatterKey)
+					.onChange(async (value) => {
+						binding.frontmatterKey = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		if (binding.scopeType !== 'vault') {
+			const scopeDescriptions: Record<Exclude<CalendarScopeType, 'vault'>, string> = {
+				folder: 'Folder whose notes (including subfolders) belong to this calendar',
+				tag: 'Tag that puts a task in this calendar (e.g., "work" for #work)',
+				frontmatter: 'Value of the frontmatter key. Leave empty to match any value.',
+			};
+			new Setting(containerEl)
+				.setName(binding.scopeType === 'folder' ? 'Folder' : binding.scopeType === 'tag' ? 'Tag' : 'Frontmatter value')
+				.setDesc(scopeDescriptions[binding.scopeType])
+				.addText(text => text
+					.setValue(binding.scopeValue)
+					.onChange(async (value) => {
+						binding.scopeValue = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName('Sync direction')
+			.setDesc('Pull-only never writes to the calendar; push-only never changes the vault. Read-only calendars are always pulled only.')
+			.addDropdown(dropdown => dropdown
+				.addOption('bidirectional', 'Both ways')
+				.addOption('pull-only', 'Pull only (calendar → vault)')
+				.addOption('push-only', 'Push only (vault → calendar)')
+				.setValue(binding.syncDirection ?? 'bidirectional')
+				.onChange(async (value) => {
+					binding.syncDirection = value as SyncDirection;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('New tasks destination')
+			.setDesc('File where new tasks from this calendar will be added')
+			.addText(text => text
+				.setPlaceholder('Inbox.md')
+				.setValue(binding.newTasksDestination)
+				.onChange(async (value) => {
+					binding.newTasksDestination = value;
+					await this.plugin.saveSettings();
+				}));
+	}
 }
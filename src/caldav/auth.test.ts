@@ -0,0 +1,202 @@
+import { AuthorizingHttpClient, BearerAuthProvider, DigestAuthProvider, AuthProvider } from './auth';
+import { HttpResponse } from './httpClient';
+import { ScriptedHttpClient, respond } from '../../test/helpers/fakeHttp';
+import { CalDAVSettings, Credentials, DEFAULT_CALDAV_SETTINGS } from '../types';
+
+// RFC 7616 Section 3.9.1
+const RFC_CHALLENGE = 'Digest realm="http-auth@example.org", qop="auth, auth-int", algorithm=MD5, '
+  + 'nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"';
+const RFC_CNONCE = 'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ';
+
+describe('AuthorizingHttpClient', () => {
+  it('should add the Authorization header and retry once after a 401 the provider handled', async () => {
+    const auth: AuthProvider = {
+      authorize: jest.fn().mockResolvedValueOnce('Token a').mockResolvedValueOnce('Token b'),
+      handleUnauthorized: jest.fn().mockResolvedValue(true),
+    };
+    const inner = new ScriptedHttpClient([respond(401), respond(207)]);
+
+    const response = await new AuthorizingHttpClient(inner, auth)
+      .request({ url: 'https://dav.example.com/', method: 'PROPFIND', headers: { 'Depth': '0' } });
+
+    expect(response.status).toBe(207);
+    expect(inner.requests.map(r => r.headers)).toEqual([
+      { 'Depth': '0', 'Authorization': 'Token a' },
+      { 'Depth': '0', 'Authorization': 'Token b' },
+    ]);
+  });
+
+  it('should return the 401 when the provider cannot do better', async () => {
+    const auth: AuthProvider = {
+      authorize: jest.fn().mockResolvedValue(null),
+      handleUnauthorized: jest.fn().mockResolvedValue(false),
+    };
+    const inner = new ScriptedHttpClient([respond(401)]);
+
+    const response = await new AuthorizingHttpClient(inner, auth)
+      .request({ url: 'https://dav.example.com/', method: 'GET' });
+
+    expect(response.status).toBe(401);
+    expect(inner.requests).toHaveLength(1);
+    expect(inner.requests[0].headers).toBeUndefined();
+  });
+});
+
+describe('DigestAuthProvider', () => {
+  describe('parseChallenge', () => {
+    it('should parse quoted and bare parameters and pick qop=auth', () => {
+      expect(DigestAuthProvider.parseChallenge(RFC_CHALLENGE)).toEqual({
+        realm: 'http-auth@example.org',
+        nonce: '7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v',
+        opaque: 'FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS',
+        algorithm: 'MD5',
+        qop: 'auth',
+        stale: false,
+      });
+    });
+
+    it('should find the Digest challenge among several schemes', () => {
+      const challenge = DigestAuthProvider.parseChallenge(
+        'Basic realm="dav", Digest realm="dav", nonce="n1", stale=TRUE, Bearer realm="x"');
+
+      expect(challenge).toMatchObject({ realm: 'dav', nonce: 'n1', stale: true, qop: undefined });
+    });
+
+    it('should reject missing and unsupported challenges', () => {
+      expect(DigestAuthProvider.parseChallenge('Basic realm="dav"')).toBeNull();
+      expect(DigestAuthProvider.parseChallenge('Digest realm="dav", nonce="n1", algorithm=SHA-512-256')).toBeNull();
+      expect(DigestAuthProvider.parseChallenge('Digest realm="dav", nonce="n1", qop="auth-int"')).toBeNull();
+    });
+  });
+
+  it('should send nothing before the first challenge', async () => {
+    const provider = new DigestAuthProvider('Mufasa', 'Circle of Life');
+    expect(await provider.authorize('GET', 'http://www.example.org/dir/index.html')).toBeNull();
+  });
+
+  it('should answer the RFC 7616 MD5 example', async () => {
+    const provider = new DigestAuthProvider('Mufasa', 'Circle of Life', () => RFC_CNONCE);
+
+    expect(await provider.handleUnauthorized(respond(401, '', { 'WWW-Authenticate': RFC_CHALLENGE }))).toBe(true);
+    const header = await provider.authorize('GET', 'http://www.example.org/dir/index.html');
+
+    expect(header).toContain('response="8ca523f5e9506fed4657c9700eebdbec"');
+    expect(header).toContain('uri="/dir/index.html"');
+    expect(header).toContain('nc=00000001');
+    expect(header).toContain('opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"');
+  });
+
+  it('should answer the RFC 7616 SHA-256 example', async () => {
+    const provider = new DigestAuthProvider('Mufasa', 'Circle of Life', () => RFC_CNONCE);
+
+    await provider.handleUnauthorized(respond(401, '', {
+      'www-authenticate': RFC_CHALLENGE.replace('algorithm=MD5', 'algorithm=SHA-256'),
+    }));
+    const header = await provider.authorize('GET', 'http://www.example.org/dir/index.html');
+
+    expect(header).toContain('response="753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1"');
+  });
+
+  it('should count nonce uses', async () => {
+    const provider = new DigestAuthProvider('u', 'p', () => 'c');
+    await provider.handleUnauthorized(respond(401, '', { 'WWW-Authenticate': RFC_CHALLENGE }));
+
+    await provider.authorize('GET', 'https://dav.example.com/a');
+    expect(await provider.authorize('GET', 'https://dav.example.com/b')).toContain('nc=00000002');
+  });
+
+  it('should not retry when the server repeats the nonce it just rejected', async () => {
+    const provider = new DigestAuthProvider('u', 'wrong');
+    const challenge = respond(401, '', { 'WWW-Authenticate': 'Digest realm="dav", nonce="n1"' });
+
+    expect(await provider.handleUnauthorized(challenge)).toBe(true);
+    expect(await provider.handleUnauthorized(challenge)).toBe(false);
+    expect(await provider.handleUnauthorized(
+      respond(401, '', { 'WWW-Authenticate': 'Digest realm="dav", nonce="n1", stale=true' }))).toBe(true);
+  });
+});
+
+describe('BearerAuthProvider', () => {
+  const NOW = 1_700_000_000_000;
+  const settings: CalDAVSettings = {
+    ...DEFAULT_CALDAV_SETTINGS,
+    authType: 'bearer',
+    tokenUrl: 'https://auth.example.com/token',
+    clientId: 'obsidian',
+  };
+  let credentials: Credentials;
+
+  beforeEach(() => {
+    credentials = {
+      password: '',
+      accessToken: 'old-access',
+      refreshToken: 'refresh-1',
+      tokenExpiresAt: NOW + 3600 * 1000,
+    };
+  });
+
+  function tokenResponse(body: object, status = 200): HttpResponse {
+    return respond(status, JSON.stringify(body), { 'Content-Type': 'application/json' });
+  }
+
+  it('should send the current access token', async () => {
+    const http = new ScriptedHttpClient([]);
+    const provider = new BearerAuthProvider(settings, credentials, http, undefined, () => NOW);
+
+    expect(await provider.authorize()).toBe('Bearer old-access');
+    expect(http.requests).toHaveLength(0);
+  });
+
+  it('should refresh shortly before the token expires', async () => {
+    const http = new ScriptedHttpClient([tokenResponse({ access_token: 'new-access', expires_in: 600 })]);
+    const onRefreshed = jest.fn().mockResolvedValue(undefined);
+    const provider = new BearerAuthProvider(settings, credentials, http, onRefreshed, () => NOW + 3570 * 1000);
+
+    expect(await provider.authorize()).toBe('Bearer new-access');
+
+    expect(http.requests[0].method).toBe('POST');
+    expect(http.requests[0].url).toBe('https://auth.example.com/token');
+    expect(new URLSearchParams(http.requests[0].body)).toEqual(new URLSearchParams(
+      'grant_type=refresh_token&refresh_token=refresh-1&client_id=obsidian'));
+    expect(credentials.accessToken).toBe('new-access');
+    expect(credentials.refreshToken).toBe('refresh-1');
+    expect(credentials.tokenExpiresAt).toBe(NOW + 3570 * 1000 + 600 * 1000);
+    expect(onRefreshed).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh after a 401 and keep a rotated refresh token', async () => {
+    const http = new ScriptedHttpClient([tokenResponse({ access_token: 'new-access', refresh_token: 'refresh-2' })]);
+    const provider = new BearerAuthProvider(settings, credentials, http, undefined, () => NOW);
+
+    expect(await provider.handleUnauthorized()).toBe(true);
+    expect(credentials.accessToken).toBe('new-access');
+    expect(credentials.refreshToken).toBe('refresh-2');
+    expect(credentials.tokenExpiresAt).toBe(0);
+  });
+
+  it('should refresh once for concurrent requests', async () => {
+    credentials.tokenExpiresAt = NOW;
+    const http = new ScriptedHttpClient([tokenResponse({ access_token: 'new-access', expires_in: 600 })]);
+    const provider = new BearerAuthProvider(settings, credentials, http, undefined, () => NOW);
+
+    const headers = await Promise.all([provider.authorize(), provider.authorize()]);
+
+    expect(headers).toEqual(['Bearer new-access', 'Bearer new-access']);
+    expect(http.requests).toHaveLength(1);
+  });
+
+  it('should not retry a 401 without a refresh token', async () => {
+    credentials.refreshToken = '';
+    const provider = new BearerAuthProvider(settings, credentials, new ScriptedHttpClient([]), undefined, () => NOW);
+
+    expect(await provider.handleUnauthorized()).toBe(false);
+  });
+
+  it('should report a rejected refresh', async () => {
+    const http = new ScriptedHttpClient([tokenResponse({ error: 'invalid_grant' }, 400)]);
+    const provider = new BearerAuthProvider(settings, credentials, http, undefined, () => NOW);
+
+    await expect(provider.handleUnauthorized()).rejects.toThrow('Token refresh failed: 400 invalid_grant');
+    expect(credentials.accessToken).toBe('old-access');
+  });
+});
@@ -0,0 +1,352 @@
+import { HttpClient, HttpRequest, HttpResponse, ObsidianHttpClient, headerValue } from './httpClient';
+import { CalDAVSettings, Credentials } from '../types';
+import { md5 } from '../utils/md5';
+
+/**
+ * Supplies the Authorization header for CalDAV requests.
+ */
+export interface AuthProvider {
+  /**
+   * Authorization header value for a request, or null to send none.
+   */
+  authorize(method: string, url: string): Promise<string | null>;
+
+  /**
+   * Handle a 401 response. Returns true if the provider learned something
+   * new (a Digest challenge, a refreshed token) and the request should be
+   * sent once more; false if retrying would fail the same way.
+   */
+  handleUnauthorized(response: HttpResponse): Promise<boolean>;
+}
+
+/**
+ * Build the provider for the configured auth type.
+ * @param options.httpClient Transport for OAuth2 token refreshes
+ * @param options.onTokensRefreshed Called after a refresh has updated
+ * the token fields in `credentials`, so they can be persisted
+ */
+export function createAuthProvider(
+  settings: CalDAVSettings,
+  credentials: Credentials,
+  options: { httpClient?: HttpClient; onTokensRefreshed?: () => Promise<void> } = {},
+): AuthProvider {
+  switch (settings.authType) {
+    case 'digest':
+      return new DigestAuthProvider(settings.username, credentials.password);
+    case 'bearer':
+      return new BearerAuthProvider(
+        settings, credentials, options.httpClient ?? new ObsidianHttpClient(), options.onTokensRefreshed);
+    case 'basic':
+    default:
+      return new BasicAuthProvider(settings.username, credentials.password);
+  }
+}
+
+/**
+ * Sends requests without credentials.
+ */
+export class AnonymousAuthProvider implements AuthProvider {
+  async authorize(): Promise<string | null> {
+    return null;
+  }
+
+  async handleUnauthorized(): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * HttpClient decorator that adds the Authorization header and, when a
+ * request is rejected with 401, lets the provider react and retries once.
+ * Anonymous requests are passed through untouched.
+ */
+export class AuthorizingHttpClient implements HttpClient {
+  private inner: HttpClient;
+  private auth: AuthProvider;
+
+  constructor(inner: HttpClient, auth: AuthProvider) {
+    this.inner = inner;
+    this.auth = auth;
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    if (params.anonymous) return this.inner.request(params);
+    const response = await this.inner.request(await this.withAuthorization(params));
+    if (response.status !== 401 || !(await this.auth.handleUnauthorized(response))) {
+      return response;
+    }
+    return this.inner.request(await this.withAuthorization(params));
+  }
+
+  private async withAuthorization(params: HttpRequest): Promise<HttpRequest> {
+    const authorization = await this.auth.authorize(params.method, params.url);
+    if (!authorization) return params;
+    return { ...params, headers: { ...params.headers, 'Authorization': authorization } };
+  }
+}
+
+/**
+ * HTTP Basic (RFC 7617): credentials are sent with every request.
+ */
+export class BasicAuthProvider implements AuthProvider {
+  private header: string;
+
+  constructor(username: string, password: string) {
+    this.header = 'Basic ' + btoa(`${username}:${password}`);
+  }
+
+  async authorize(): Promise<string | null> {
+    return this.header;
+  }
+
+  async handleUnauthorized(): Promise<boolean> {
+    return false;
+  }
+}
+
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque?: string;
+  algorithm: string;
+  qop?: string; // 'auth' when offered; auth-int is not supported
+  stale: boolean;
+}
+
+/**
+ * HTTP Digest (RFC 7616) with MD5, SHA-256 and their -sess variants.
+ * The first request goes out without credentials; the server's 401
+ * challenge is remembered and answered on every following request, with
+ * the nonce count increasing until the server issues a new nonce.
+ */
+export class DigestAuthProvider implements AuthProvider {
+  private username: string;
+  private password: string;
+  private challenge: DigestChallenge | null = null;
+  private nonceCount = 0;
+  private randomHex: () => string;
+
+  /**
+   * @param randomHex Client nonce source, for tests
+   */
+  constructor(username: string, password: string, randomHex?: () => string) {
+    this.username = username;
+    this.password = password;
+    this.randomHex = randomHex ?? (() => {
+      const bytes = crypto.getRandomValues(new Uint8Array(8));
+      return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    });
+  }
+
+  async authorize(method: string, url: string): Promise<string | null> {
+    const challenge = this.challenge;
+    if (!challenge) return null;
+
+    const parsed = new URL(url);
+    const uri = `${parsed.pathname}${parsed.search}`;
+    const hash = (value: string) => DigestAuthProvider.hash(challenge.algorithm, value);
+
+    const cnonce = this.randomHex();
+    const nc = (++this.nonceCount).toString(16).padStart(8, '0');
+
+    let ha1 = await hash(`${this.username}:${challenge.realm}:${this.password}`);
+    if (challenge.algorithm.toUpperCase().endsWith('-SESS')) {
+      ha1 = await hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+    }
+    const ha2 = await hash(`${method}:${uri}`);
+    const response = challenge.qop
+      ? await hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${challenge.qop}:${ha2}`)
+      : await hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+    const parts = [
+      `username="${quote(this.username)}"`,
+      `realm="${quote(challenge.realm)}"`,
+      `nonce="${quote(challenge.nonce)}"`,
+      `uri="${quote(uri)}"`,
+      `algorithm=${challenge.algorithm}`,
+      `response="${response}"`,
+    ];
+    if (challenge.qop) {
+      parts.push(`qop=${challenge.qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+    }
+    if (challenge.opaque !== undefined) {
+      parts.push(`opaque="${quote(challenge.opaque)}"`);
+    }
+    return `Digest ${parts.join(', ')}`;
+  }
+
+  async handleUnauthorized(response: HttpResponse): Promise<boolean> {
+    const header = headerValue(response.headers, 'www-authenticate');
+    const challenge = header ? DigestAuthProvider.parseChallenge(header) : null;
+    if (!challenge) return false;
+
+    // A repeated challenge for the nonce we just answered means the
+    // credentials are wrong, unless the server says the nonce went stale
+    const retry = !this.challenge || challenge.stale || challenge.nonce !== this.challenge.nonce;
+    this.challenge = challenge;
+    this.nonceCount = 0;
+    return retry;
+  }
+
+  /**
+   * Parse the Digest challenge from a WWW-Authenticate header
+   * (static for testing). Returns null if there is none, or if it only
+   * offers algorithms or qop values that are not supported.
+   */
+  static parseChallenge(header: string): DigestChallenge | null {
+    const start = header.search(/(^|[\s,])Digest\s/i);
+    if (start === -1) return null;
+
+    const params: Record<string, string> = {};
+    const paramRegex = /([\w-]+)\s*=\s*("((?:[^"\\]|\\.)*)"|[^\s,]*)/g;
+    const rest = header.slice(start).replace(/^[\s,]*Digest\s+/i, '');
+    let match;
+    while ((match = paramRegex.exec(rest)) !== null) {
+      const key = match[1].toLowerCase();
+      if (key in params) break; // the next challenge's parameters
+      params[key] = match[3] !== undefined ? match[3].replace(/\\(.)/g, '$1') : match[2];
+    }
+
+    if (params.realm === undefined || !params.nonce) return null;
+
+    const algorithm = params.algorithm ?? 'MD5';
+    if (!['MD5', 'MD5-SESS', 'SHA-256', 'SHA-256-SESS'].includes(algorithm.toUpperCase())) return null;
+
+    let qop: string | undefined;
+    if (params.qop !== undefined) {
+      const offered = params.qop.split(',').map(q => q.trim().toLowerCase());
+      if (!offered.includes('auth')) return null;
+      qop = 'auth';
+    }
+
+    return {
+      realm: params.realm,
+      nonce: params.nonce,
+      opaque: params.opaque,
+      algorithm,
+      qop,
+      stale: params.stale?.toLowerCase() === 'true',
+    };
+  }
+
+  private static async hash(algorithm: string, value: string): Promise<string> {
+    if (algorithm.toUpperCase().startsWith('MD5')) {
+      return md5(value);
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+// Token endpoint response fields used (RFC 6749 Section 5)
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+}
+
+/** Refresh this long before the recorded expiry, to allow for clock skew. */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * OAuth2 bearer tokens (RFC 6750).
+ * The access token is refreshed with the refresh token (RFC 6749
+ * Section 6) shortly before it expires, and when the server rejects it.
+ * Refreshed tokens are written back into the credentials object.
+ */
+export class BearerAuthProvider implements AuthProvider {
+  private settings: CalDAVSettings;
+  private credentials: Credentials;
+  private httpClient: HttpClient;
+  private onTokensRefreshed?: () => Promise<void>;
+  private now: () => number;
+  // Shared by concurrent requests, so a token is refreshed only once
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    settings: CalDAVSettings,
+    credentials: Credentials,
+    httpClient: HttpClient,
+    onTokensRefreshed?: () => Promise<void>,
+    now: () => number = Date.now,
+  ) {
+    this.settings = settings;
+    this.credentials = credentials;
+    this.httpClient = httpClient;
+    this.onTokensRefreshed = onTokensRefreshed;
+    this.now = now;
+  }
+
+  async authorize(): Promise<string | null> {
+    const expiresAt = this.credentials.tokenExpiresAt;
+    if (this.canRefresh() && expiresAt > 0 && this.now() >= expiresAt - TOKEN_EXPIRY_MARGIN_MS) {
+      await this.refresh();
+    }
+    return this.credentials.accessToken ? `Bearer ${this.credentials.accessToken}` : null;
+  }
+
+  async handleUnauthorized(): Promise<boolean> {
+    if (!this.canRefresh()) return false;
+    await this.refresh();
+    return true;
+  }
+
+  private canRefresh(): boolean {
+    return this.credentials.refreshToken !== '' && this.settings.tokenUrl !== '';
+  }
+
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.requestTokens().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async requestTokens(): Promise<void> {
+    const form = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: this.credentials.refreshToken,
+    });
+    if (this.settings.clientId) {
+      form.set('client_id', this.settings.clientId);
+    }
+
+    const response = await this.httpClient.request({
+      url: this.settings.tokenUrl,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body: form.toString(),
+      throw: false
+    });
+
+    let body: TokenResponse = {};
+    try {
+      body = JSON.parse(response.text) as TokenResponse;
+    } catch {
+      // Reported below
+    }
+    if (response.status !== 200 || !body.access_token) {
+      throw new Error(`Token refresh failed: ${response.status}${body.error ? ` ${body.error}` : ''}`);
+    }
+
+    this.credentials.accessToken = body.access_token;
+    // Servers may rotate the refresh token; keep the old one otherwise
+    if (body.refresh_token) {
+      this.credentials.refreshToken = body.refresh_token;
+    }
+    this.credentials.tokenExpiresAt = typeof body.expires_in === 'number'
+      ? this.now() + body.expires_in * 1000
+      : 0;
+    await this.onTokensRefreshed?.();
+  }
+}
+
+function quote(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
@@ -1,21 +1,107 @@
-import { CalDAVClientDirect } from './calDAVClientDirect';
-import { CalDAVSettings } from '../types';
+import { CalDAVClientDirect, CalendarSnapshot } from './calDAVClientDirect';
+import { HttpClient, HttpRequest, HttpResponse } from './httpClient';
+import { multistatus, respond } from '../../test/helpers/fakeHttp';
+import { AuthenticationError, CalendarMissingError, PreconditionFailedError, UnsupportedMediaTypeError } from './errors';
+import { BasicAuthProvider } from './auth';
+import { CalDAVSettings, ServerProfile } from '../types';
 
 const mockSettings: CalDAVSettings = {
     serverUrl: 'https://caldav.example.com',
+    authType: 'basic',
     username: 'testuser',
-    password: 'testpass',
+    credentialId: '',
+    tokenUrl: '',
+    clientId: '',
     calendarName: 'Tasks',
+    calendars: [],
     syncTag: 'sync',
+    filterTagOnServer: false,
+    timeFormat: 'emoji',
+    reminderFormat: 'emoji',
     syncInterval: 5,
+    requestTimeout: 30,
+    maxRetries: 3,
+    writeConcurrency: 4,
     newTasksDestination: 'Inbox.md',
     newTasksSection: '',
     requireManualConflictResolution: false,
     autoResolveObsidianWins: true,
     syncCompletedTasks: false,
+    completedTaskMaxAge: 30,
     deleteBehavior: 'ask'
 };
 
+const CALENDAR_URL = 'https://caldav.example.com/calendars/user/tasks/';
+
+function vtodoResponse(href: string, etag: string, uid: string, summary: string): string {
+    return `<d:response>
+        <d:href>${href}</d:href>
+        <d:propstat>
+            <d:prop>
+                <d:getetag>"${etag}"</d:getetag>
+                <c:calendar-data>BEGIN:VCALENDAR
+BEGIN:VTODO
+UID:${uid}
+SUMMARY:${summary}
+END:VTODO
+END:VCALENDAR</c:calendar-data>
+            </d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>`;
+}
+
+/**
+ * Fake HttpClient that answers by request kind and records every request.
+ */
+class FakeHttpClient implements HttpClient {
+    requests: HttpRequest[] = [];
+    handlers: Array<(req: HttpRequest) => HttpResponse | undefined> = [];
+
+    on(handler: (req: HttpRequest) => HttpResponse | undefined): this {
+        this.handlers.push(handler);
+        return this;
+    }
+
+    async request(params: HttpRequest): Promise<HttpResponse> {
+        this.requests.push(params);
+        for (const handler of this.handlers) {
+            const response = handler(params);
+            if (response) return response;
+        }
+        return { status: 404, text: '', headers: {} };
+    }
+
+    count(kind: string): number {
+        return this.requests.filter(r => (r.body ?? '').includes(kind)).length;
+    }
+}
+
+function calendarResponse(href: string, name: string, component: string): string {
+    return `<d:response>
+        <d:href>${href}</d:href>
+        <d:propstat>
+            <d:prop>
+                <d:displayname>${name}</d:displayname>
+                <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                <c:supported-calendar-component-set><c:comp name="${component}"/></c:supported-calendar-component-set>
+            </d:prop>
+        </d:propstat>
+    </d:response>`;
+}
+
+/**
+ * Fake server answering the discovery chain: principal → calendar home → calendars.
+ */
+function discoveryServer(calendars: string): FakeHttpClient {
+    return new FakeHttpClient()
+        .on(req => req.body?.includes('current-user-principal') ? respond(207, multistatus(
+            '<d:response><d:href>/</d:href><d:propstat><d:prop><d:current-user-principal><d:href>/principals/user/</d:href></d:current-user-principal></d:prop></d:propstat></d:response>')) : undefined)
+        .on(req => req.body?.includes('calendar-home-set') ? respond(207, multistatus(
+            '<d:response><d:href>/principals/user/</d:href><d:propstat><d:prop><c:calendar-home-set><d:href>/calendars/user/</d:href></c:calendar-home-set></d:prop></d:propstat></d:response>')) : undefined)
+        .on(req => req.headers?.['Depth'] === '1' ? respond(207, multistatus(calendars)) : undefined);
+}
+
 describe('CalDAVClientDirect', () => {
     let client: CalDAVClientDirect;
 
@@ -25,11 +111,23 @@ describe('CalDAVClientDirect', () => {
     });
 
     describe('Authentication', () => {
-        it('should encode credentials correctly for Basic Auth', () => {
-            const authHeader = (client as any).authHeader;
+        it('should encode credentials correctly for Basic Auth', async () => {
+            const http = new FakeHttpClient().on(() => respond(404));
+            const auth = new BasicAuthProvider(mockSettings.username, 'testpass');
+            await new CalDAVClientDirect(mockSettings, http, auth).fetchVTODO(`${CALENDAR_URL}a.ics`);
+
+            const authHeader = http.requests[0].headers!['Authorization'];
             const decoded = atob(authHeader.replace('Basic ', ''));
             expect(decoded).toBe('testuser:testpass');
         });
+
+        it('should use a given auth provider', async () => {
+            const http = new FakeHttpClient().on(() => respond(404));
+            const auth = { authorize: async () => 'Bearer t1', handleUnauthorized: async () => false };
+            await new CalDAVClientDirect(mockSettings, http, auth).fetchVTODO(`${CALENDAR_URL}a.ics`);
+
+            expect(http.requests[0].headers!['Authorization']).toBe('Bearer t1');
+        });
     });
 
     describe('Connection state', () => {
@@ -49,6 +147,18 @@ describe('CalDAVClientDirect', () => {
         it('should throw when creating VTODO without connection', async () => {
             await expect(client.createVTODO('VTODO data', 'uid-123')).rejects.toThrow('Not connected to CalDAV server');
         });
+
+        it('should select a discovered calendar by display name', () => {
+            (client as any).calendars = [
+                { url: 'https://caldav.example.com/calendars/work/', displayName: 'Work', supportsVTODO: true },
+                { url: 'https://caldav.example.com/calendars/home/', displayName: 'Home', supportsVTODO: true },
+            ];
+
+            client.selectCalendar('Home');
+            expect((client as any).calendarUrl).toBe('https://caldav.example.com/calendars/home/');
+
+            expect(() => client.selectCalendar('Missing')).toThrow("Calendar 'Missing' not found. Available: Work, Home");
+        });
     });
 
     describe('parseCalendarsFromXML - pure function XML parsing', () => {
@@ -78,10 +188,40 @@ describe('CalDAVClientDirect', () => {
             expect(calendars[0]).toEqual({
                 displayName: 'Reminders',
                 supportsVTODO: true,
+                writable: true,
                 url: 'https://caldav.example.com/calendars/user/calendar1/'
             });
         });
 
+        it('should read write access from current-user-privilege-set', () => {
+            const calendar = (name: string, privileges: string) => `
+    <d:response>
+        <d:href>/cal/${name}/</d:href>
+        <d:propstat>
+            <d:prop>
+                <d:displayname>${name}</d:displayname>
+                <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                <d:current-user-privilege-set>${privileges}</d:current-user-privilege-set>
+            </d:prop>
+        </d:propstat>
+    </d:response>`;
+            const response = `<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+${calendar('own', '<d:privilege><d:read/></d:privilege><d:privilege><d:write/></d:privilege>')}
+${calendar('all', '<d:privilege><d:all/></d:privilege>')}
+${calendar('content', '<d:privilege><d:read/></d:privilege><d:privilege><d:write-content/></d:privilege>')}
+${calendar('shared', '<d:privilege><d:read/></d:privilege><d:privilege><d:write-properties/></d:privilege>')}
+</d:multistatus>`;
+
+            const calendars = CalDAVClientDirect.parseCalendarsFromXML(response, 'https://caldav.example.com');
+
+            expect(calendars.map(c => [c.displayName, c.writable])).toEqual([
+                ['own', true],
+                ['all', true],
+                ['content', true],
+                ['shared', false],
+            ]);
+        });
+
         it('should correctly identify calendars that do not support VTODOs', () => {
             const response = `<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
     <d:response>
@@ -155,6 +295,27 @@ describe('CalDAVClientDirect', () => {
         });
     });
 
+    describe('parseCalendarsFromXML - escaping and namespaces', () => {
+        it('should decode entities in display names and accept any prefixes', () => {
+            const response = `<multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+    <response>
+        <href>/cal/</href>
+        <propstat>
+            <prop>
+                <displayname>Work &amp; Home</displayname>
+                <resourcetype><collection/><C:calendar/></resourcetype>
+                <C:supported-calendar-component-set><C:comp name="VTODO"/></C:supported-calendar-component-set>
+            </prop>
+            <status>HTTP/1.1 200 OK</status>
+        </propstat>
+    </response>
+</multistatus>`;
+
+            const calendars = CalDAVClientDirect.parseCalendarsFromXML(response, 'https://caldav.example.com');
+            expect(calendars).toEqual([{ url: 'https://caldav.example.com/cal/', displayName: 'Work & Home', supportsVTODO: true, writable: true }]);
+        });
+    });
+
     describe('parseVTODOsFromXML - pure function VTODO extraction', () => {
         it('should extract VTODO data with etag and convert relative URLs', () => {
             const response = `<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
@@ -248,4 +409,862 @@ END:VCALENDAR</c:calendar-data>
             expect(vtodos[1].data).toContain('todo-2');
         });
     });
+
+    describe('parseVTODOsFromXML - escaping and propstat status', () => {
+        it('should decode escaped calendar-data that is not CDATA-wrapped', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/task.ics</d:href>
+        <d:propstat>
+            <d:prop><c:calendar-data>BEGIN:VTODO\nUID:1\nSUMMARY:a &lt; b &amp; c\nEND:VTODO</c:calendar-data></d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>`);
+
+            const vtodos = CalDAVClientDirect.parseVTODOsFromXML(response, 'https://caldav.example.com');
+            expect(vtodos[0].data).toContain('SUMMARY:a < b & c');
+        });
+
+        it('should skip members whose calendar-data propstat failed', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/task.ics</d:href>
+        <d:propstat>
+            <d:prop><d:getetag>"e1"</d:getetag></d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+        <d:propstat>
+            <d:prop><c:calendar-data>stale</c:calendar-data></d:prop>
+            <d:status>HTTP/1.1 404 Not Found</d:status>
+        </d:propstat>
+    </d:response>`);
+
+            expect(CalDAVClientDirect.parseVTODOsFromXML(response, 'https://caldav.example.com')).toEqual([]);
+        });
+    });
+
+    describe('discovery parsing', () => {
+        it('should read the principal URL', () => {
+            const response = multistatus(
+                '<d:response><d:href>/</d:href><d:propstat><d:prop><d:current-user-principal><d:href>/principals/user/</d:href></d:current-user-principal></d:prop></d:propstat></d:response>');
+
+            expect(CalDAVClientDirect.parsePrincipalFromXML(response, 'https://caldav.example.com/dav/'))
+                .toBe('https://caldav.example.com/principals/user/');
+        });
+
+        it('should return every calendar-home-set href', () => {
+            const response = multistatus(`<d:response><d:href>/principals/user/</d:href><d:propstat><d:prop>
+                <c:calendar-home-set><d:href>/calendars/user/</d:href><d:href>https://shared.example.com/calendars/team/</d:href></c:calendar-home-set>
+            </d:prop></d:propstat></d:response>`);
+
+            expect(CalDAVClientDirect.parseCalendarHomesFromXML(response, 'https://caldav.example.com/principals/user/')).toEqual([
+                'https://caldav.example.com/calendars/user/',
+                'https://shared.example.com/calendars/team/',
+            ]);
+        });
+
+        it('should list calendars from all calendar homes', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('current-user-principal') ? respond(207, multistatus(
+                    '<d:response><d:href>/</d:href><d:propstat><d:prop><d:current-user-principal><d:href>/principals/user/</d:href></d:current-user-principal></d:prop></d:propstat></d:response>')) : undefined)
+                .on(req => req.body?.includes('calendar-home-set') ? respond(207, multistatus(
+                    '<d:response><d:href>/principals/user/</d:href><d:propstat><d:prop><c:calendar-home-set><d:href>/home-a/</d:href><d:href>/home-b/</d:href></c:calendar-home-set></d:prop></d:propstat></d:response>')) : undefined)
+                .on(req => req.url.endsWith('/home-a/') ? respond(207, multistatus(calendarResponse('/home-a/tasks/', 'A', 'VTODO'))) : undefined)
+                .on(req => req.url.endsWith('/home-b/') ? respond(207, multistatus(calendarResponse('/home-b/tasks/', 'B', 'VTODO'))) : undefined);
+
+            const calendars = await new CalDAVClientDirect(mockSettings, http).discoverCalendars();
+            expect(calendars.map(c => c.displayName)).toEqual(['A', 'B']);
+        });
+
+        it('should read delegations and group memberships from the principal', () => {
+            const response = multistatus(`<d:response><d:href>/principals/user/</d:href><d:propstat><d:prop>
+                <cs:calendar-proxy-read-for xmlns:cs="http://calendarserver.org/ns/"><d:href>/principals/boss/</d:href></cs:calendar-proxy-read-for>
+                <cs:calendar-proxy-write-for xmlns:cs="http://calendarserver.org/ns/"><d:href>/principals/assistant/</d:href></cs:calendar-proxy-write-for>
+                <d:group-membership><d:href>/principals/groups/team/</d:href><d:href>/principals/boss/</d:href></d:group-membership>
+            </d:prop></d:propstat></d:response>`);
+
+            expect(CalDAVClientDirect.parseRelatedPrincipalsFromXML(response, 'https://caldav.example.com/principals/user/')).toEqual([
+                'https://caldav.example.com/principals/boss/',
+                'https://caldav.example.com/principals/assistant/',
+                'https://caldav.example.com/principals/groups/team/',
+            ]);
+        });
+
+        it('should label calendars owned by another principal', () => {
+            const response = multistatus(`
+                <d:response><d:href>/calendars/user/own/</d:href><d:propstat><d:prop>
+                    <d:displayname>Own</d:displayname>
+                    <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                    <d:owner><d:href>/principals/user/</d:href></d:owner>
+                    <nc:owner-displayname xmlns:nc="http://nextcloud.com/ns">Me</nc:owner-displayname>
+                </d:prop></d:propstat></d:response>
+                <d:response><d:href>/calendars/user/tasks_shared_by_alice/</d:href><d:propstat><d:prop>
+                    <d:displayname>Team tasks</d:displayname>
+                    <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                    <d:owner><d:href>/principals/alice/</d:href></d:owner>
+                    <nc:owner-displayname xmlns:nc="http://nextcloud.com/ns">Alice Smith</nc:owner-displayname>
+                </d:prop></d:propstat></d:response>
+                <d:response><d:href>/calendars/user/from_bob/</d:href><d:propstat><d:prop>
+                    <d:displayname>Errands</d:displayname>
+                    <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+                    <d:owner><d:href>/principals/bob/</d:href></d:owner>
+                </d:prop></d:propstat></d:response>`);
+
+            const calendars = CalDAVClientDirect.parseCalendarsFromXML(
+                response, 'https://caldav.example.com', 'https://caldav.example.com/principals/user');
+
+            expect(calendars.map(c => c.owner)).toEqual([undefined, 'Alice Smith', 'bob']);
+        });
+
+        it('should list the calendars of delegators and groups, labelled with their owner', async () => {
+            const principal = (href: string, props: string) => respond(207, multistatus(
+                `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop></d:propstat></d:response>`));
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('current-user-principal') ? principal('/', '<d:current-user-principal><d:href>/principals/user/</d:href></d:current-user-principal>') : undefined)
+                .on(req => req.url.endsWith('/principals/user/') ? principal('/principals/user/', `
+                    <c:calendar-home-set><d:href>/calendars/user/</d:href></c:calendar-home-set>
+                    <cs:calendar-proxy-write-for xmlns:cs="http://calendarserver.org/ns/"><d:href>/principals/boss/</d:href></cs:calendar-proxy-write-for>
+                    <d:group-membership><d:href>/principals/groups/team/</d:href><d:href>/principals/groups/empty/</d:href></d:group-membership>`) : undefined)
+                .on(req => req.url.endsWith('/principals/boss/') ? principal('/principals/boss/', `
+                    <d:displayname>The Boss</d:displayname>
+                    <c:calendar-home-set><d:href>/calendars/boss/</d:href></c:calendar-home-set>`) : undefined)
+                .on(req => req.url.endsWith('/principals/groups/team/') ? principal('/principals/groups/team/', `
+                    <c:calendar-home-set><d:href>/calendars/__groups__/team/</d:href></c:calendar-home-set>`) : undefined)
+                .on(req => req.url.endsWith('/calendars/user/') ? respond(207, multistatus(calendarResponse('/calendars/user/tasks/', 'Tasks', 'VTODO'))) : undefined)
+                .on(req => req.url.endsWith('/calendars/boss/') ? respond(207, multistatus(calendarResponse('/calendars/boss/todo/', 'Todo', 'VTODO'))) : undefined)
+                .on(req => req.url.endsWith('/calendars/__groups__/team/') ? respond(403) : undefined);
+
+            const client = new CalDAVClientDirect(mockSettings, http);
+            const calendars = await client.discoverCalendars();
+
+            expect(calendars.map(c => [c.displayName, c.owner])).toEqual([
+                ['Tasks', undefined],
+                ['Todo', 'The Boss'],
+            ]);
+
+            // The other principals are asked only once per client
+            await client.discoverCalendars();
+            const principalRequests = (path: string) => http.requests.filter(r => r.url.endsWith(path)).length;
+            expect(principalRequests('/principals/user/')).toBe(2);
+            expect(principalRequests('/principals/boss/')).toBe(1);
+            expect(principalRequests('/principals/groups/team/')).toBe(1);
+            expect(principalRequests('/principals/groups/empty/')).toBe(1);
+        });
+    });
+
+    describe('parseSyncCollectionFromXML - pure function sync-collection parsing', () => {
+        it('should separate changed members from deleted members and read the new token', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/changed.ics</d:href>
+        <d:propstat>
+            <d:prop><d:getetag>"etag-2"</d:getetag></d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>
+    <d:response>
+        <d:href>/calendars/user/tasks/removed.ics</d:href>
+        <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:response>
+    <d:sync-token>http://example.com/sync/42</d:sync-token>`);
+
+            const delta = CalDAVClientDirect.parseSyncCollectionFromXML(response, 'https://caldav.example.com');
+
+            expect(delta.changed).toEqual([{
+                href: '/calendars/user/tasks/changed.ics',
+                url: 'https://caldav.example.com/calendars/user/tasks/changed.ics',
+                etag: 'etag-2',
+            }]);
+            expect(delta.deleted).toEqual(['https://caldav.example.com/calendars/user/tasks/removed.ics']);
+            expect(delta.syncToken).toBe('http://example.com/sync/42');
+            expect(delta.truncated).toBe(false);
+        });
+
+        it('should not treat a 404 propstat as a deleted member', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/task.ics</d:href>
+        <d:propstat>
+            <d:prop><d:getetag>"e1"</d:getetag></d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+        <d:propstat>
+            <d:prop><d:displayname/></d:prop>
+            <d:status>HTTP/1.1 404 Not Found</d:status>
+        </d:propstat>
+    </d:response>
+    <d:sync-token>tok</d:sync-token>`);
+
+            const delta = CalDAVClientDirect.parseSyncCollectionFromXML(response, 'https://caldav.example.com');
+            expect(delta.changed).toHaveLength(1);
+            expect(delta.deleted).toHaveLength(0);
+        });
+
+        it('should flag truncated results reported as 507 on the collection', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/</d:href>
+        <d:status>HTTP/1.1 507 Insufficient Storage</d:status>
+    </d:response>
+    <d:sync-token>tok-partial</d:sync-token>`);
+
+            const delta = CalDAVClientDirect.parseSyncCollectionFromXML(response, 'https://caldav.example.com');
+            expect(delta.truncated).toBe(true);
+            expect(delta.changed).toHaveLength(0);
+            expect(delta.syncToken).toBe('tok-partial');
+        });
+
+        it('should return a null token when the response has none', () => {
+            const delta = CalDAVClientDirect.parseSyncCollectionFromXML(multistatus(''), 'https://caldav.example.com');
+            expect(delta.syncToken).toBeNull();
+        });
+    });
+
+    describe('parseCalendarVersionFromXML - pure function change marker parsing', () => {
+        it('should extract ctag and sync-token', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/</d:href>
+        <d:propstat>
+            <d:prop>
+                <cs:getctag xmlns:cs="http://calendarserver.org/ns/">"ctag-7"</cs:getctag>
+                <d:sync-token>http://sabre.io/ns/sync/7</d:sync-token>
+            </d:prop>
+            <d:status>HTTP/1.1 200 OK</d:status>
+        </d:propstat>
+    </d:response>`);
+
+            expect(CalDAVClientDirect.parseCalendarVersionFromXML(response, CALENDAR_URL)).toEqual({
+                calendarUrl: CALENDAR_URL,
+                ctag: '"ctag-7"',
+                syncToken: 'http://sabre.io/ns/sync/7',
+            });
+        });
+
+        it('should return nulls for properties reported in a 404 propstat', () => {
+            const response = multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/</d:href>
+        <d:propstat>
+            <d:prop><x1:getctag xmlns:x1="http://calendarserver.org/ns/"/><d:sync-token/></d:prop>
+            <d:status>HTTP/1.1 404 Not Found</d:status>
+        </d:propstat>
+    </d:response>`);
+
+            const version = CalDAVClientDirect.parseCalendarVersionFromXML(response, CALENDAR_URL);
+            expect(version.ctag).toBeNull();
+            expect(version.syncToken).toBeNull();
+        });
+    });
+
+    describe('testConnection - settings connection check', () => {
+        const calendars = [
+            calendarResponse('/calendars/user/tasks/', 'Tasks', 'VTODO'),
+            calendarResponse('/calendars/user/events/', 'Events', 'VEVENT'),
+        ].join('');
+
+        it('should return the discovered calendars on success', async () => {
+            const result = await new CalDAVClientDirect(mockSettings, discoveryServer(calendars)).testConnection();
+
+            expect(result.success).toBe(true);
+            expect(result.message).toContain('Found 1 task calendar(s)');
+            expect(result.calendars?.map(c => c.displayName)).toEqual(['Tasks', 'Events']);
+        });
+
+        it('should report a missing configured calendar but still list the calendars', async () => {
+            const settings = { ...mockSettings, calendarName: 'Taks' };
+            const result = await new CalDAVClientDirect(settings, discoveryServer(calendars)).testConnection();
+
+            expect(result.success).toBe(false);
+            expect(result.message).toContain("Calendar 'Taks' not found");
+            expect(result.calendars).toHaveLength(2);
+        });
+
+        it('should report discovery failures without calendars', async () => {
+            const result = await new CalDAVClientDirect(mockSettings, new FakeHttpClient()).testConnection();
+
+            expect(result.success).toBe(false);
+            expect(result.message).toContain('PROPFIND failed: 404');
+            expect(result.calendars).toBeUndefined();
+        });
+    });
+
+    describe('selectCalendar - calendars sharing a display name', () => {
+        it('should prefer the stored calendar URL over the display name', async () => {
+            const http = discoveryServer([
+                calendarResponse('/calendars/user/a/', 'Tasks', 'VTODO'),
+                calendarResponse('/calendars/user/b/', 'Tasks', 'VTODO'),
+            ].join(''));
+            const c = new CalDAVClientDirect(mockSettings, http);
+            await c.discoverCalendars();
+
+            c.selectCalendar('Tasks', 'https://caldav.example.com/calendars/user/b/');
+            expect((c as any).calendarUrl).toBe('https://caldav.example.com/calendars/user/b/');
+
+            expect(() => c.selectCalendar('Tasks', 'https://caldav.example.com/calendars/user/gone/'))
+                .toThrow("Calendar 'Tasks' not found");
+        });
+    });
+
+    describe('createCalendar - MKCALENDAR', () => {
+        it('should create a VTODO-only calendar under the calendar home and select it', async () => {
+            const http = discoveryServer('')
+                .on(req => req.method === 'MKCALENDAR' ? respond(201) : undefined);
+            const c = new CalDAVClientDirect(mockSettings, http);
+
+            const calendar = await c.createCalendar('Work & Home', '#ff0000');
+
+            const mkcalendar = http.requests.find(r => r.method === 'MKCALENDAR')!;
+            expect(mkcalendar.url).toMatch(/^https:\/\/caldav\.example\.com\/calendars\/user\/work-home-[0-9a-f]{6}\/$/);
+            expect(mkcalendar.body).toContain('<d:displayname>Work &amp; Home</d:displayname>');
+            expect(mkcalendar.body).toContain('#ff0000');
+            expect(mkcalendar.body).toContain('<c:comp name="VTODO" />');
+            expect(mkcalendar.body).not.toContain('VEVENT');
+            expect(calendar).toEqual({ url: mkcalendar.url, displayName: 'Work & Home', supportsVTODO: true, writable: true });
+            expect(c.isConnected()).toBe(true);
+        });
+
+        it('should throw when the server rejects MKCALENDAR', async () => {
+            const http = discoveryServer('')
+                .on(req => req.method === 'MKCALENDAR' ? respond(403, 'Forbidden') : undefined);
+
+            await expect(new CalDAVClientDirect(mockSettings, http).createCalendar('Tasks'))
+                .rejects.toThrow('MKCALENDAR failed: 403');
+        });
+    });
+
+    describe('fetchCalendarVersion - pre-flight PROPFIND', () => {
+        it('should query an explicit calendar URL without being connected', async () => {
+            const http = new FakeHttpClient()
+                .on(() => respond(207, multistatus(`
+    <d:response><d:href>/calendars/user/tasks/</d:href><d:propstat>
+        <d:prop><cs:getctag xmlns:cs="http://calendarserver.org/ns/">c1</cs:getctag></d:prop>
+        <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat></d:response>`)));
+
+            const version = await new CalDAVClientDirect(mockSettings, http).fetchCalendarVersion(CALENDAR_URL);
+
+            expect(version.ctag).toBe('c1');
+            expect(http.requests).toHaveLength(1);
+            expect(http.requests[0]).toMatchObject({ url: CALENDAR_URL, method: 'PROPFIND' });
+            expect(http.requests[0].headers!['Depth']).toBe('0');
+        });
+
+        it('should throw when the server rejects the PROPFIND', async () => {
+            const http = new FakeHttpClient().on(() => respond(405));
+            await expect(new CalDAVClientDirect(mockSettings, http).fetchCalendarVersion(CALENDAR_URL))
+                .rejects.toThrow('PROPFIND calendar version failed: 405');
+        });
+
+        it('should throw without a URL when not connected', async () => {
+            await expect(client.fetchCalendarVersion()).rejects.toThrow('Not connected to CalDAV server');
+        });
+    });
+
+    describe('syncVTODOs - incremental fetch with sync tokens', () => {
+        function connectedClient(http: FakeHttpClient): CalDAVClientDirect {
+            const c = new CalDAVClientDirect(mockSettings, http);
+            (c as any).calendarUrl = CALENDAR_URL;
+            return c;
+        }
+
+        function cachedSnapshot(): CalendarSnapshot {
+            return {
+                calendarUrl: CALENDAR_URL,
+                syncToken: 'token-1',
+                objects: [
+                    { url: `${CALENDAR_URL}keep.ics`, etag: 'k1', data: 'BEGIN:VTODO\nUID:keep\nEND:VTODO' },
+                    { url: `${CALENDAR_URL}edit.ics`, etag: 'e1', data: 'BEGIN:VTODO\nUID:edit\nSUMMARY:Old\nEND:VTODO' },
+                    { url: `${CALENDAR_URL}gone.ics`, etag: 'g1', data: 'BEGIN:VTODO\nUID:gone\nEND:VTODO' },
+                ],
+            };
+        }
+
+        it('should do a full fetch and record the sync token when there is no previous snapshot', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus(`
+    <d:response><d:href>/calendars/user/tasks/</d:href><d:propstat>
+        <d:prop><d:sync-token>token-1</d:sync-token></d:prop>
+        <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat></d:response>`)) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/a.ics', 'a1', 'a', 'Task A'))) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(null);
+
+            expect(snapshot.syncToken).toBe('token-1');
+            expect(snapshot.calendarUrl).toBe(CALENDAR_URL);
+            expect(snapshot.objects).toHaveLength(1);
+            expect(http.count('sync-collection')).toBe(0);
+        });
+
+        it('should store a null token when the server has no sync-token property', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus(`
+    <d:response><d:href>/calendars/user/tasks/</d:href><d:propstat>
+        <d:prop><d:sync-token/></d:prop>
+        <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:propstat></d:response>`)) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus('')) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(null);
+            expect(snapshot.syncToken).toBeNull();
+        });
+
+        it('should apply changed and deleted members to the previous snapshot', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('sync-collection') ? respond(207, multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/edit.ics</d:href>
+        <d:propstat><d:prop><d:getetag>"e2"</d:getetag></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+    </d:response>
+    <d:response>
+        <d:href>/calendars/user/tasks/new.ics</d:href>
+        <d:propstat><d:prop><d:getetag>"n1"</d:getetag></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+    </d:response>
+    <d:response>
+        <d:href>/calendars/user/tasks/gone.ics</d:href>
+        <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:response>
+    <d:sync-token>token-2</d:sync-token>`)) : undefined)
+                .on(req => req.body?.includes('calendar-multiget') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/edit.ics', 'e2', 'edit', 'New') +
+                    vtodoResponse('/calendars/user/tasks/new.ics', 'n1', 'new', 'Added'))) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(cachedSnapshot());
+
+            expect(snapshot.syncToken).toBe('token-2');
+            const byUrl = new Map(snapshot.objects.map(o => [o.url, o]));
+            expect(Array.from(byUrl.keys()).sort()).toEqual([
+                `${CALENDAR_URL}edit.ics`,
+                `${CALENDAR_URL}keep.ics`,
+                `${CALENDAR_URL}new.ics`,
+            ]);
+            expect(byUrl.get(`${CALENDAR_URL}edit.ics`)!.data).toContain('SUMMARY:New');
+            expect(byUrl.get(`${CALENDAR_URL}edit.ics`)!.etag).toBe('e2');
+            // Only the delta was downloaded, never the full calendar
+            expect(http.count('calendar-query')).toBe(0);
+            const multiget = http.requests.find(r => r.body?.includes('calendar-multiget'))!;
+            expect(multiget.body).toContain('<d:href>/calendars/user/tasks/edit.ics</d:href>');
+            expect(multiget.body).not.toContain('keep.ics');
+        });
+
+        it('should skip the multiget when reported etags match the cache', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('sync-collection') ? respond(207, multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/keep.ics</d:href>
+        <d:propstat><d:prop><d:getetag>"k1"</d:getetag></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+    </d:response>
+    <d:sync-token>token-2</d:sync-token>`)) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(cachedSnapshot());
+
+            expect(snapshot.objects).toHaveLength(3);
+            expect(http.count('calendar-multiget')).toBe(0);
+        });
+
+        it('should follow truncated sync-collection results with the partial token', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('<d:sync-token>token-1</d:sync-token>') ? respond(207, multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/gone.ics</d:href>
+        <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:response>
+    <d:response>
+        <d:href>/calendars/user/tasks/</d:href>
+        <d:status>HTTP/1.1 507 Insufficient Storage</d:status>
+    </d:response>
+    <d:sync-token>token-partial</d:sync-token>`)) : undefined)
+                .on(req => req.body?.includes('<d:sync-token>token-partial</d:sync-token>') ? respond(207, multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/keep.ics</d:href>
+        <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:response>
+    <d:sync-token>token-2</d:sync-token>`)) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(cachedSnapshot());
+
+            expect(snapshot.syncToken).toBe('token-2');
+            expect(snapshot.objects.map(o => o.url)).toEqual([`${CALENDAR_URL}edit.ics`]);
+        });
+
+        it('should drop changed members that are not VTODOs', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('sync-collection') ? respond(207, multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/event.ics</d:href>
+        <d:propstat><d:prop><d:getetag>"v1"</d:getetag></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+    </d:response>
+    <d:sync-token>token-2</d:sync-token>`)) : undefined)
+                .on(req => req.body?.includes('calendar-multiget') ? respond(207, multistatus(`
+    <d:response>
+        <d:href>/calendars/user/tasks/event.ics</d:href>
+        <d:propstat><d:prop><d:getetag>"v1"</d:getetag>
+            <c:calendar-data>BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:ev
+END:VEVENT
+END:VCALENDAR</c:calendar-data>
+        </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>
+    </d:response>`)) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(cachedSnapshot());
+            expect(snapshot.objects).toHaveLength(3);
+            expect(snapshot.objects.some(o => o.url.endsWith('event.ics'))).toBe(false);
+        });
+
+        it('should fall back to a full fetch when the server rejects the token', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('sync-collection') ? respond(403, `<d:error xmlns:d="DAV:"><d:valid-sync-token/></d:error>`) : undefined)
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus(`
+    <d:response><d:href>/calendars/user/tasks/</d:href><d:propstat>
+        <d:prop><d:sync-token>token-fresh</d:sync-token></d:prop>
+        <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat></d:response>`)) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/a.ics', 'a1', 'a', 'Task A'))) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(cachedSnapshot());
+
+            expect(snapshot.syncToken).toBe('token-fresh');
+            expect(snapshot.objects.map(o => o.url)).toEqual([`${CALENDAR_URL}a.ics`]);
+            expect(http.count('calendar-query')).toBe(1);
+        });
+
+        it('should fall back to a full fetch when the report is not supported', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('sync-collection') ? respond(501) : undefined)
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus('')) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus('')) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(cachedSnapshot());
+
+            expect(snapshot.objects).toEqual([]);
+            expect(snapshot.syncToken).toBeNull();
+        });
+
+        it('should do a full fetch when the snapshot belongs to another calendar', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus('')) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus('')) : undefined);
+
+            const previous = { ...cachedSnapshot(), calendarUrl: 'https://caldav.example.com/calendars/user/other/' };
+            await connectedClient(http).syncVTODOs(previous);
+
+            expect(http.count('sync-collection')).toBe(0);
+            expect(http.count('calendar-query')).toBe(1);
+        });
+
+        it('should throw when not connected', async () => {
+            await expect(client.syncVTODOs(null)).rejects.toThrow('Not connected to CalDAV server');
+        });
+    });
+
+    describe('fetchVTODOs - server-side filters', () => {
+        function connectedClient(http: FakeHttpClient): CalDAVClientDirect {
+            const c = new CalDAVClientDirect(mockSettings, http);
+            (c as any).calendarUrl = CALENDAR_URL;
+            return c;
+        }
+
+        const filter = { completedSince: '2025-03-01T12:00:00.000Z', category: 'sync' };
+
+        it('should query open and recently changed tasks with the category and merge the results', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('DTSTAMP') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/a.ics', 'a1', 'a', 'Open') +
+                    vtodoResponse('/calendars/user/tasks/b.ics', 'b1', 'b', 'Done yesterday'))) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/a.ics', 'a1', 'a', 'Open'))) : undefined);
+
+            const objects = await connectedClient(http).fetchVTODOs(filter);
+
+            expect(objects.map(o => o.url)).toEqual([`${CALENDAR_URL}a.ics`, `${CALENDAR_URL}b.ics`]);
+            const queries = http.requests.map(r => r.body!);
+            expect(queries).toHaveLength(3);
+            expect(queries[0]).toContain('<c:text-match collation="i;ascii-casemap" negate-condition="yes">CANCELLED</c:text-match>');
+            expect(queries[1]).toMatch(/<c:prop-filter name="COMPLETED">\s*<c:is-not-defined \/>/);
+            expect(queries[2]).toContain('<c:time-range start="20250301T120000Z" />');
+            for (const query of queries) {
+                expect(query).toMatch(/<c:prop-filter name="CATEGORIES">\s*<c:text-match collation="i;ascii-casemap">sync<\/c:text-match>/);
+            }
+        });
+
+        it('should fetch everything when the server rejects a filter', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.body?.includes('prop-filter') ? respond(400) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/a.ics', 'a1', 'a', 'Any'))) : undefined);
+
+            const objects = await connectedClient(http).fetchVTODOs({ category: 'sync' });
+
+            expect(objects).toHaveLength(1);
+            expect(http.requests[1].body).toContain('<c:comp-filter name="VTODO" />');
+        });
+
+        it('should fetch kept tasks the filter left out by href, and drop those that are gone', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus('')) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/a.ics', 'a1', 'a', 'Open'))) : undefined)
+                .on(req => req.body?.includes('calendar-multiget') ? respond(207, multistatus(
+                    vtodoResponse('/calendars/user/tasks/old.ics', 'o1', 'old', 'Done long ago'))) : undefined);
+
+            const snapshot = await connectedClient(http).syncVTODOs(null, filter,
+                [`${CALENDAR_URL}a.ics`, `${CALENDAR_URL}old.ics`, `${CALENDAR_URL}gone.ics`]);
+
+            expect(snapshot.objects.map(o => o.url)).toEqual([`${CALENDAR_URL}a.ics`, `${CALENDAR_URL}old.ics`]);
+            expect(snapshot.filter).toEqual(filter);
+            const multiget = http.requests.find(r => r.body?.includes('calendar-multiget'))!;
+            expect(multiget.body).toContain('<d:href>/calendars/user/tasks/old.ics</d:href>');
+            expect(multiget.body).not.toContain('a.ics');
+        });
+
+        it('should not build on a snapshot fetched with a narrower filter', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'PROPFIND' ? respond(207, multistatus('')) : undefined)
+                .on(req => req.body?.includes('calendar-query') ? respond(207, multistatus('')) : undefined);
+            const previous: CalendarSnapshot = { calendarUrl: CALENDAR_URL, syncToken: 'token-1', objects: [], filter };
+
+            await connectedClient(http).syncVTODOs(previous, { completedSince: '2025-02-01T00:00:00.000Z', category: 'sync' });
+
+            expect(http.count('sync-collection')).toBe(0);
+            expect(CalDAVClientDirect.coversFilter(filter, { completedSince: '2025-04-01T00:00:00.000Z', category: 'SYNC' })).toBe(true);
+            expect(CalDAVClientDirect.coversFilter(filter, { completedSince: '2025-04-01T00:00:00.000Z' })).toBe(false);
+            expect(CalDAVClientDirect.coversFilter(undefined, filter)).toBe(true);
+        });
+    });
+
+    describe('conditional writes - 412 Precondition Failed', () => {
+        const object = { url: `${CALENDAR_URL}task.ics`, etag: 'e1', data: 'BEGIN:VTODO\nUID:task\nEND:VTODO' };
+
+        it('should throw PreconditionFailedError when an update is rejected', async () => {
+            const http = new FakeHttpClient().on(() => respond(412));
+            const error = await new CalDAVClientDirect(mockSettings, http)
+                .updateVTODO(object, object.data).catch(e => e);
+
+            expect(error).toBeInstanceOf(PreconditionFailedError);
+            expect(error).toMatchObject({ method: 'PUT', url: object.url });
+            expect(http.requests[0].headers!['If-Match']).toBe('"e1"');
+        });
+
+        it('should throw PreconditionFailedError when a delete is rejected', async () => {
+            const http = new FakeHttpClient().on(() => respond(412));
+            await expect(new CalDAVClientDirect(mockSettings, http).deleteVTODO(object))
+                .rejects.toBeInstanceOf(PreconditionFailedError);
+        });
+
+        it('should treat a delete of an object that is already gone as done', async () => {
+            const http = new FakeHttpClient().on(() => respond(404));
+            await expect(new CalDAVClientDirect(mockSettings, http).deleteVTODO(object)).resolves.toBeUndefined();
+        });
+
+        it('should re-fetch a single object with its current etag', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'GET' ? { status: 200, text: 'BEGIN:VTODO\nUID:task\nEND:VTODO', headers: { etag: 'W/"e2"' } } : undefined);
+
+            const current = await new CalDAVClientDirect(mockSettings, http).fetchVTODO(object.url);
+
+            expect(current).toEqual({ url: object.url, etag: 'e2', data: 'BEGIN:VTODO\nUID:task\nEND:VTODO' });
+        });
+
+        it('should return null when the object was deleted', async () => {
+            const http = new FakeHttpClient().on(() => respond(404));
+            expect(await new CalDAVClientDirect(mockSettings, http).fetchVTODO(object.url)).toBeNull();
+        });
+    });
+
+    describe('writes - resource locations', () => {
+        function connectedClient(http: FakeHttpClient): CalDAVClientDirect {
+            const c = new CalDAVClientDirect(mockSettings, http);
+            (c as any).calendarUrl = CALENDAR_URL;
+            return c;
+        }
+
+        it('should return the created object with its URL and etag', async () => {
+            const http = new FakeHttpClient().on(() => ({ status: 201, text: '', headers: { ETag: '"c1"' } }));
+
+            const created = await connectedClient(http).createVTODO('BEGIN:VCALENDAR', 'obsidian-a b');
+
+            expect(http.requests[0].url).toBe(`${CALENDAR_URL}obsidian-a%20b.ics`);
+            expect(created).toEqual({ data: 'BEGIN:VCALENDAR', url: `${CALENDAR_URL}obsidian-a%20b.ics`, etag: 'c1' });
+        });
+
+        it('should follow a Location header and tolerate a missing etag', async () => {
+            const http = new FakeHttpClient().on(() => ({ status: 201, text: '', headers: { location: '/calendars/user/tasks/server-name.ics' } }));
+
+            const created = await connectedClient(http).createVTODO('BEGIN:VCALENDAR', 'uid-1');
+
+            expect(created.url).toBe(`${CALENDAR_URL}server-name.ics`);
+            expect(created.etag).toBeUndefined();
+        });
+
+        it('should return the new etag of an update', async () => {
+            const http = new FakeHttpClient().on(() => ({ status: 204, text: '', headers: { etag: '"e2"' } }));
+
+            const etag = await connectedClient(http).updateVTODO({ url: `${CALENDAR_URL}a.ics`, etag: 'e1', data: '' }, 'BEGIN:VCALENDAR');
+
+            expect(etag).toBe('e2');
+            expect(http.requests[0].headers!['If-Match']).toBe('"e1"');
+        });
+    });
+
+    describe('server profile', () => {
+        const profile: ServerProfile = {
+            version: 1,
+            serverUrl: mockSettings.serverUrl,
+            probedAt: '2025-01-01T00:00:00.000Z',
+            principalUrl: null,
+            etagOnPut: true,
+            categories: 'comma',
+            syncCollection: true,
+            vtodoDtstart: true,
+        };
+
+        function profiledClient(http: FakeHttpClient, overrides: Partial<ServerProfile>): CalDAVClientDirect {
+            const c = new CalDAVClientDirect(mockSettings, http, undefined, { ...profile, ...overrides });
+            (c as any).calendarUrl = CALENDAR_URL;
+            return c;
+        }
+
+        it('should read back the etag after writes when PUT does not return one', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.method === 'PUT' ? respond(201) : undefined)
+                .on(req => req.method === 'GET' ? { status: 200, text: 'BEGIN:VCALENDAR', headers: { ETag: '"g1"' } } : undefined);
+            const c = profiledClient(http, { etagOnPut: false });
+
+            expect((await c.createVTODO('BEGIN:VCALENDAR', 'uid-1')).etag).toBe('g1');
+            expect(await c.updateVTODO({ url: `${CALENDAR_URL}uid-1.ics`, etag: 'g1', data: '' }, 'BEGIN:VCALENDAR')).toBe('g1');
+            expect(http.requests.map(r => r.method)).toEqual(['PUT', 'GET', 'PUT', 'GET']);
+        });
+
+        it('should not use sync tokens when sync-collection does not work', async () => {
+            const http = new FakeHttpClient().on(req => req.method === 'REPORT' ? respond(207, multistatus('')) : undefined);
+            const previous: CalendarSnapshot = { calendarUrl: CALENDAR_URL, syncToken: 'token-1', objects: [] };
+
+            const snapshot = await profiledClient(http, { syncCollection: false }).syncVTODOs(previous);
+
+            expect(snapshot.syncToken).toBeNull();
+            expect(http.count('sync-collection')).toBe(0);
+            expect(http.requests.map(r => r.method)).toEqual(['REPORT']);
+        });
+
+        it('should start discovery at the probed principal', async () => {
+            const http = discoveryServer(calendarResponse('/calendars/user/tasks/', 'Tasks', 'VTODO'));
+            const c = new CalDAVClientDirect(mockSettings, http, undefined, {
+                ...profile, principalUrl: 'https://caldav.example.com/principals/user/',
+            });
+
+            await c.discoverCalendars();
+
+            expect(http.count('current-user-principal')).toBe(0);
+            expect(http.requests[0].url).toBe('https://caldav.example.com/principals/user/');
+        });
+    });
+
+    describe('discovery - redirects and other hosts', () => {
+        const icloudSettings: CalDAVSettings = { ...mockSettings, serverUrl: 'https://caldav.icloud.com' };
+
+        function principalResponse(href: string): string {
+            return multistatus(`<d:response><d:href>/</d:href><d:propstat><d:prop><d:current-user-principal><d:href>${href}</d:href></d:current-user-principal></d:prop></d:propstat></d:response>`);
+        }
+
+        function homeResponse(href: string): string {
+            return multistatus(`<d:response><d:href>/</d:href><d:propstat><d:prop><c:calendar-home-set><d:href>${href}</d:href></c:calendar-home-set></d:prop></d:propstat></d:response>`);
+        }
+
+        it('should follow the well-known redirect and list calendars on the partition host', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.url === 'https://caldav.icloud.com/.well-known/caldav'
+                    ? { status: 301, text: '', headers: { Location: 'https://caldav.icloud.com/' } } : undefined)
+                .on(req => req.url === 'https://caldav.icloud.com/' ? respond(207, principalResponse('/123456/principal/')) : undefined)
+                .on(req => req.url === 'https://caldav.icloud.com/123456/principal/'
+                    ? respond(207, homeResponse('https://p42-caldav.icloud.com:443/123456/calendars/')) : undefined)
+                .on(req => new URL(req.url).host === 'p42-caldav.icloud.com' && req.method === 'PROPFIND'
+                    ? respond(207, multistatus(calendarResponse('/123456/calendars/tasks/', 'Tasks', 'VTODO'))) : undefined)
+                .on(req => req.method === 'REPORT'
+                    ? respond(207, multistatus(vtodoResponse('/123456/calendars/tasks/a.ics', 'e1', 'uid-a', 'A'))) : undefined);
+            const c = new CalDAVClientDirect(icloudSettings, http, new BasicAuthProvider('user', 'secret'));
+
+            const calendars = await c.discoverCalendars();
+            c.selectCalendar('Tasks');
+            const vtodos = await c.fetchVTODOs();
+
+            expect(calendars.map(cal => cal.url)).toEqual(['https://p42-caldav.icloud.com/123456/calendars/tasks/']);
+            expect(vtodos[0].url).toBe('https://p42-caldav.icloud.com/123456/calendars/tasks/a.ics');
+            expect(http.requests[1]).toMatchObject({ url: 'https://caldav.icloud.com/', method: 'PROPFIND' });
+            expect(http.requests[1].headers?.['Authorization']).toMatch(/^Basic /);
+        });
+
+        it('should fall back to the servers named by SRV records', async () => {
+            const http = new FakeHttpClient()
+                .on(req => req.url === 'https://dav.example.com:8443/caldav/' ? respond(207, principalResponse('/principals/user/')) : undefined)
+                .on(req => req.url === 'https://dav.example.com:8443/principals/user/' ? respond(207, homeResponse('/calendars/user/')) : undefined)
+                .on(req => req.headers?.['Depth'] === '1' ? respond(207, multistatus(calendarResponse('/calendars/user/tasks/', 'Tasks', 'VTODO'))) : undefined);
+            const resolver = {
+                resolveSrv: jest.fn().mockResolvedValue([{ name: 'dav.example.com', port: 8443, priority: 0, weight: 0 }]),
+                resolveTxt: jest.fn().mockResolvedValue([['path=/caldav/']]),
+            };
+            const c = new CalDAVClientDirect({ ...mockSettings, serverUrl: 'https://example.com' }, http, undefined, null, resolver);
+
+            const calendars = await c.discoverCalendars();
+
+            expect(resolver.resolveSrv).toHaveBeenCalledWith('_caldavs._tcp.example.com');
+            expect(calendars.map(cal => cal.url)).toEqual(['https://dav.example.com:8443/calendars/user/tasks/']);
+        });
+
+        it('should report the server URL failure when SRV records lead nowhere', async () => {
+            const http = new FakeHttpClient();
+            const resolver = {
+                resolveSrv: jest.fn().mockResolvedValue([{ name: 'dav.example.com', port: 443, priority: 0, weight: 0 }]),
+                resolveTxt: jest.fn().mockRejectedValue(new Error('ENODATA')),
+            };
+            const c = new CalDAVClientDirect({ ...mockSettings, serverUrl: 'https://example.com' }, http, undefined, null, resolver);
+
+            await expect(c.discoverCalendars()).rejects.toThrow('PROPFIND failed: 404');
+            expect(http.requests.map(r => r.url)).toEqual([
+                'https://example.com/.well-known/caldav',
+                'https://example.com',
+                'https://dav.example.com/.well-known/caldav',
+            ]);
+        });
+    });
+
+    describe('typed errors', () => {
+        it('should raise AuthenticationError with the failing request when discovery is rejected', async () => {
+            const http = new FakeHttpClient().on(() => respond(401));
+            const c = new CalDAVClientDirect(mockSettings, http);
+
+            const error = await c.discoverCalendars().catch(e => e);
+
+            expect(error).toBeInstanceOf(AuthenticationError);
+            expect(error).toMatchObject({ kind: 'authentication', method: 'PROPFIND', url: mockSettings.serverUrl, status: 401 });
+            expect(error.remediation).toContain('app-specific password');
+        });
+
+        it('should raise UnsupportedMediaTypeError when the calendar refuses tasks', async () => {
+            const http = new FakeHttpClient().on(req => req.method === 'PUT' ? respond(415) : undefined);
+            const c = new CalDAVClientDirect(mockSettings, http);
+            (c as any).calendarUrl = CALENDAR_URL;
+
+            const error = await c.createVTODO('BEGIN:VCALENDAR', 'uid-1').catch(e => e);
+
+            expect(error).toBeInstanceOf(UnsupportedMediaTypeError);
+            expect(error.url).toBe(`${CALENDAR_URL}uid-1.ics`);
+            expect(error.remediation).toContain('does not accept VTODO');
+        });
+
+        it('should raise CalendarMissingError for a calendar the server does not list', () => {
+            expect(() => client.selectCalendar('Missing')).toThrow(CalendarMissingError);
+        });
+
+        it('should add the remediation to a failed connection test', async () => {
+            const c = new CalDAVClientDirect(mockSettings, new FakeHttpClient().on(() => respond(401)));
+
+            const result = await c.testConnection();
+
+            expect(result.message).toMatch(/^PROPFIND failed: 401 *\nCheck the username and password/);
+        });
+    });
 });
@@ -1,49 +1,155 @@
-import { CalDAVSettings } from '../types';
+import { CalDAVSettings, CalendarVersion, ServerProfile } from '../types';
 import { VTODOMapper, CalendarObject } from './vtodoMapper';
-import { HttpClient, ObsidianHttpClient } from './httpClient';
-import { PROPFIND_PRINCIPAL, PROPFIND_CALENDAR_HOME, PROPFIND_CALENDARS, REPORT_VTODOS } from './templates';
+import { HttpClient, HttpResponse, ObsidianHttpClient, headerValue } from './httpClient';
+import { RetryingHttpClient } from './retryingHttpClient';
+import { RedirectingHttpClient } from './redirectingHttpClient';
+import { DnsResolver, lookupCalDAVService, systemDnsResolver } from './serviceDiscovery';
+import { AnonymousAuthProvider, AuthProvider, AuthorizingHttpClient } from './auth';
+import {
+  PROPFIND_PRINCIPAL,
+  PROPFIND_CALENDAR_HOME,
+  PROPFIND_CALENDARS,
+  PROPFIND_COLLECTION_VERSION,
+  REPORT_VTODOS,
+  VTODOQueryFilter,
+  buildCalendarMultiget,
+  buildMkcalendar,
+  buildSyncCollection,
+  buildVTODOQueries,
+} from './templates';
+import {
+  CALDAV_NS,
+  CALENDARSERVER_NS,
+  DAV_NS,
+  NEXTCLOUD_NS,
+  childElement,
+  childElements,
+  findProp,
+  hrefsOf,
+  parseMultistatus,
+  propText,
+  resolveHref,
+} from './multistatus';
+import { CalDAVError, CalendarMissingError, PreconditionFailedError } from './errors';
+import { resolveCalendarBindings } from '../sync/calendarBindings';
+
+/**
+ * A calendar collection found in the user's calendar home.
+ */
+export interface CalendarInfo {
+  url: string;
+  displayName: string;
+  supportsVTODO: boolean;
+  writable: boolean; // false when the user may only read it
+  owner?: string; // who shared or delegated it; unset for the user's own calendars
+}
+
+/**
+ * A calendar home, with its owner's name when it belongs to another
+ * principal reached through delegation or group membership.
+ */
+interface CalendarHome {
+  url: string;
+  owner?: string;
+}
+
+/**
+ * Locally cached copy of a calendar's VTODOs, together with the
+ * sync-token (RFC 6578) the server reported when they were fetched.
+ * A null syncToken means the server does not support sync-collection.
+ */
+export interface CalendarSnapshot {
+  calendarUrl: string;
+  syncToken: string | null;
+  objects: CalendarObject[];
+  filter?: VTODOQueryFilter; // server-side filter of the full fetch the snapshot started from
+}
+
+/**
+ * Parsed body of a sync-collection REPORT.
+ */
+export interface SyncCollectionDelta {
+  changed: Array<{ href: string; url: string; etag?: string }>;
+  deleted: string[]; // absolute URLs
+  syncToken: string | null;
+  truncated: boolean; // 507 on the collection: more changes pending
+}
+
+/** Upper bound on sync-collection round-trips when the server truncates results. */
+const MAX_SYNC_COLLECTION_PAGES = 50;
+
+/** Number of hrefs per calendar-multiget request. */
+const MULTIGET_BATCH_SIZE = 100;
+
+/**
+ * Privileges (RFC 3744 Section 3) any of which lets the user add or
+ * change tasks in a calendar. DAV:write-properties alone does not.
+ */
+const WRITE_PRIVILEGES = ['all', 'write', 'write-content', 'bind'];
 
 /**
  * Direct CalDAV client implementation.
  * Uses an HttpClient abstraction so the transport layer can be swapped
- * (ObsidianHttpClient in production, FetchHttpClient in E2E tests).
+ * (ObsidianHttpClient wrapped in the settings' retry policy in production,
+ * FetchHttpClient in E2E tests).
  */
 export class CalDAVClientDirect {
   private settings: CalDAVSettings;
   private mapper: VTODOMapper;
   private calendarUrl: string | null = null;
-  private authHeader: string;
+  private calendars: CalendarInfo[] = [];
+  private principalUrl: string | null = null;
+  private sharedHomes = new Map<string, CalendarHome[]>(); // by principal URL, see discoverSharedHomes()
   private httpClient: HttpClient;
+  private profile: ServerProfile | null;
+  private dnsResolver: DnsResolver | null;
 
-  constructor(settings: CalDAVSettings, httpClient?: HttpClient) {
+  /**
+   * @param httpClient Transport; defaults to Obsidian's requestUrl with the
+   * settings' timeout and retry policy
+   * @param auth Credentials for the server; without them requests are
+   * sent unauthenticated
+   * @param profile Probed server capabilities (see probeServer); requests
+   * and serialization adapt to it. Without one, nothing is assumed.
+   * @param dnsResolver For SRV/TXT discovery when the server URL itself
+   * does not lead to a principal; defaults to the system resolver with
+   * the default transport, and to none with a custom one
+   */
+  constructor(
+    settings: CalDAVSettings,
+    httpClient?: HttpClient,
+    auth?: AuthProvider,
+    profile: ServerProfile | null = null,
+    dnsResolver?: DnsResolver | null,
+  ) {
     this.settings = settings;
-    this.mapper = new VTODOMapper();
-    this.httpClient = httpClient ?? new ObsidianHttpClient();
-
-    // Create Basic Auth header
-    const credentials = `${settings.username}:${settings.password}`;
-    this.authHeader = 'Basic ' + btoa(credentials);
+    this.profile = profile;
+    this.mapper = new VTODOMapper(profile);
+    this.dnsResolver = dnsResolver !== undefined ? dnsResolver : httpClient ? null : systemDnsResolver;
+    const transport = httpClient ?? new RetryingHttpClient(new ObsidianHttpClient(), {
+      timeoutMs: settings.requestTimeout * 1000,
+      maxRetries: settings.maxRetries,
+    });
+    this.httpClient = new RedirectingHttpClient(
+      new AuthorizingHttpClient(transport, auth ?? new AnonymousAuthProvider()));
   }
 
   /**
-   * Connect to CalDAV server and find the calendar
+   * Connect to CalDAV server and discover its calendars.
+   * With the legacy single-calendar settings the configured calendar is
+   * selected right away; with calendar bindings the caller picks one
+   * per binding via selectCalendar().
    */
   async connect(): Promise<void> {
     try {
-      // Step 1: Discover calendar home URL
-      const homeUrl = await this.discoverCalendarHome();
-
-      // Step 2: Find calendars
-      const calendars = await this.findCalendars(homeUrl);
+      // Step 1 & 2: Discover calendar home URL and its calendars
+      await this.discoverCalendars();
 
       // Step 3: Find our specific calendar
-      const calendar = calendars.find(c => c.displayName === this.settings.calendarName);
-      if (!calendar) {
-        throw new Error(`Calendar '${this.settings.calendarName}' not found. Available: ${calendars.map(c => c.displayName).join(', ')}`);
+      if (!this.settings.calendars || this.settings.calendars.length === 0) {
+        this.selectCalendar(this.settings.calendarName);
       }
 
-      this.calendarUrl = calendar.url;
-
     } catch (error) {
       console.error('[CalDAV] Connection failed:', error);
       throw error;
@@ -51,78 +157,191 @@ export class CalDAVClientDirect {
   }
 
   /**
-   * Discover the calendar home URL using well-known or PROPFIND
+   * Discover the calendar homes and list the calendars in them.
+   * Homes of other principals that cannot be listed are skipped.
+   * The result is kept for selectCalendar().
+   */
+  async discoverCalendars(): Promise<CalendarInfo[]> {
+    const calendars: CalendarInfo[] = [];
+    for (const home of await this.discoverCalendarHomes()) {
+      let found: CalendarInfo[];
+      try {
+        found = await this.findCalendars(home);
+      } catch (error) {
+        if (!home.owner) throw error;
+        console.warn(`[CalDAV] Skipping calendars of ${home.owner}:`, error);
+        continue;
+      }
+      for (const calendar of found) {
+        if (!calendars.some(c => c.url === calendar.url)) calendars.push(calendar);
+      }
+    }
+    this.calendars = calendars;
+    return this.calendars;
+  }
+
+  /**
+   * Select one of the discovered calendars for subsequent operations.
+   * A stored calendar URL takes precedence over the display name, which
+   * may be ambiguous or change on the server.
+   */
+  selectCalendar(displayName: string, calendarUrl?: string): void {
+    const calendar = calendarUrl
+      ? this.calendars.find(c => c.url === calendarUrl)
+      : this.calendars.find(c => c.displayName === displayName);
+    if (!calendar) {
+      throw new CalendarMissingError(displayName, this.calendars.map(c => c.displayName), calendarUrl ?? this.settings.serverUrl);
+    }
+
+    this.calendarUrl = calendar.url;
+  }
+
+  /**
+   * The user's principal URL found by the last discovery, or null.
+   */
+  getPrincipalUrl(): string | null {
+    return this.principalUrl;
+  }
+
+  /**
+   * The calendar chosen with selectCalendar() or createCalendar(), or null.
+   */
+  getSelectedCalendar(): CalendarInfo | null {
+    return this.calendars.find(c => c.url === this.calendarUrl) ?? null;
+  }
+
+  /**
+   * Create a task-only calendar under the calendar home and select it.
+   * The collection name is derived from the display name plus a random
+   * suffix, so it never collides with an existing calendar.
+   */
+  async createCalendar(displayName: string, color?: string): Promise<CalendarInfo> {
+    const homeUrl = await this.discoverCalendarHome();
+    const slug = displayName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'tasks';
+    const suffix = Math.floor(Math.random() * 0x1000000).toString(16).padStart(6, '0');
+    const url = `${homeUrl.replace(/\/+$/, '')}/${slug}-${suffix}/`;
+
+    const response = await this.httpClient.request({
+      url,
+      method: 'MKCALENDAR',
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8'
+      },
+      body: buildMkcalendar(displayName, color),
+      throw: false
+    });
+
+    if (response.status !== 201) {
+      throw CalDAVError.fromResponse('MKCALENDAR', url, response.status,
+        `MKCALENDAR failed: ${response.status} ${response.text.substring(0, 500)}`);
+    }
+
+    const calendar: CalendarInfo = { url, displayName, supportsVTODO: true, writable: true };
+    this.calendars = [...this.calendars.filter(c => c.url !== url), calendar];
+    this.calendarUrl = url;
+    return calendar;
+  }
+
+  /**
+   * Discover the user's (first) own calendar home URL
    */
   private async discoverCalendarHome(): Promise<string> {
+    return (await this.discoverCalendarHomes())[0].url;
+  }
+
+  /**
+   * Discover all calendar homes using well-known, PROPFIND on the server
+   * URL or DNS SRV records, in that order: the user's own first, then
+   * those of other principals.
+   */
+  private async discoverCalendarHomes(): Promise<CalendarHome[]> {
+    // Start at the principal found by the probe: saves the well-known
+    // round-trips and, on iCloud, the redirect to the account's partition
+    if (this.profile?.principalUrl) {
+      try {
+        return await this.discoverHomesOfPrincipal(this.profile.principalUrl);
+      } catch (error) {
+        console.warn('[CalDAV] Stored principal failed, running full discovery:', error);
+      }
+    }
+
     // Try well-known CalDAV endpoint first (RFC 6764)
     const baseUrl = new URL(this.settings.serverUrl);
     const wellKnownUrl = `${baseUrl.protocol}//${baseUrl.host}/.well-known/caldav`;
 
     try {
-      const wellKnownResponse = await this.httpClient.request({
-        url: wellKnownUrl,
-        method: 'PROPFIND',
-        headers: {
-          'Authorization': this.authHeader,
-          'Content-Type': 'application/xml; charset=utf-8',
-          'Depth': '0'
-        },
-        body: PROPFIND_PRINCIPAL,
-        throw: false
-      });
+      // Usually redirected to the actual context path, which the response names
+      const wellKnownResponse = await this.propfindPrincipal(wellKnownUrl);
 
       // If well-known works, discover from there
       if (wellKnownResponse.status === 207) {
-        return await this.discoverFromPrincipal(wellKnownResponse.text, wellKnownUrl);
+        return await this.discoverFromPrincipal(wellKnownResponse.text, wellKnownResponse.url ?? wellKnownUrl);
       }
     } catch {
       // Well-known not supported, fall back to direct PROPFIND
     }
 
     // Fall back to direct PROPFIND on server URL
-    const response = await this.httpClient.request({
-      url: this.settings.serverUrl,
+    const response = await this.propfindPrincipal(this.settings.serverUrl);
+    if (response.status === 207) {
+      return await this.discoverFromPrincipal(response.text, response.url ?? this.settings.serverUrl);
+    }
+
+    // Last, the servers named by the domain's SRV records (RFC 6764 Section 3)
+    const serviceUrls = this.dnsResolver ? await lookupCalDAVService(this.settings.serverUrl, this.dnsResolver) : [];
+    for (const serviceUrl of serviceUrls) {
+      try {
+        const serviceResponse = await this.propfindPrincipal(serviceUrl);
+        if (serviceResponse.status === 207) {
+          return await this.discoverFromPrincipal(serviceResponse.text, serviceResponse.url ?? serviceUrl);
+        }
+      } catch (error) {
+        console.warn(`[CalDAV] Discovery via ${serviceUrl} failed:`, error);
+      }
+    }
+
+    throw CalDAVError.fromResponse('PROPFIND', this.settings.serverUrl, response.status,
+      `PROPFIND failed: ${response.status} ${response.text.substring(0, 500)}`);
+  }
+
+  /**
+   * PROPFIND for the current-user-principal, following redirects
+   */
+  private propfindPrincipal(url: string): Promise<HttpResponse> {
+    return this.httpClient.request({
+      url,
       method: 'PROPFIND',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': 'application/xml; charset=utf-8',
         'Depth': '0'
       },
       body: PROPFIND_PRINCIPAL,
       throw: false
     });
-
-    if (response.status !== 207) {
-      throw new Error(`PROPFIND failed: ${response.status} ${response.text.substring(0, 500)}`);
-    }
-
-    return await this.discoverFromPrincipal(response.text, this.settings.serverUrl);
   }
 
   /**
-   * Discover calendar home from principal URL
+   * Discover calendar homes from principal URL, including the homes of
+   * principals that delegated to the user or whose groups the user is in
    */
-  private async discoverFromPrincipal(propfindResponse: string, contextUrl: string): Promise<string> {
-    // Extract current-user-principal (handle any namespace prefix or none)
-    const principalMatch = propfindResponse.match(/<(?:\w+:)?current-user-principal>\s*<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/);
-    if (!principalMatch) {
+  private async discoverFromPrincipal(propfindResponse: string, contextUrl: string): Promise<CalendarHome[]> {
+    const principalUrl = CalDAVClientDirect.parsePrincipalFromXML(propfindResponse, contextUrl);
+    if (!principalUrl) {
       throw new Error('Could not find current-user-principal in response');
     }
+    return await this.discoverHomesOfPrincipal(principalUrl);
+  }
 
-    let principalUrl = principalMatch[1];
-
-    // Make absolute URL if relative
-    if (!principalUrl.startsWith('http')) {
-      const baseUrl = new URL(contextUrl);
-      principalUrl = `${baseUrl.protocol}//${baseUrl.host}${principalUrl}`;
-    }
-
-    // Now get calendar-home-set from principal
+  /**
+   * Calendar homes of the user's principal and of the principals it
+   * reaches, as in discoverFromPrincipal()
+   */
+  private async discoverHomesOfPrincipal(principalUrl: string): Promise<CalendarHome[]> {
+    // Get calendar-home-set from principal
     const calendarHomeResponse = await this.httpClient.request({
       url: principalUrl,
       method: 'PROPFIND',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': 'application/xml; charset=utf-8',
         'Depth': '0'
       },
@@ -131,76 +350,179 @@ export class CalDAVClientDirect {
     });
 
     if (calendarHomeResponse.status !== 207) {
-      throw new Error(`Failed to get calendar-home-set: ${calendarHomeResponse.status}`);
+      throw CalDAVError.fromResponse('PROPFIND', principalUrl, calendarHomeResponse.status,
+        `Failed to get calendar-home-set: ${calendarHomeResponse.status}`);
     }
 
-    // Extract calendar-home-set (handle any namespace prefix or none)
-    const homeMatch = calendarHomeResponse.text.match(/<(?:\w+:)?calendar-home-set>\s*<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/);
-    if (!homeMatch) {
+    const homeUrls = CalDAVClientDirect.parseCalendarHomesFromXML(
+      calendarHomeResponse.text, calendarHomeResponse.url ?? principalUrl);
+    if (homeUrls.length === 0) {
       throw new Error('Could not find calendar-home-set in principal response');
     }
-
-    let homeUrl = homeMatch[1];
-
-    // Make absolute URL if relative
-    if (!homeUrl.startsWith('http')) {
-      const baseUrl = new URL(principalUrl);
-      homeUrl = `${baseUrl.protocol}//${baseUrl.host}${homeUrl}`;
+    this.principalUrl = principalUrl;
+
+    const homes: CalendarHome[] = homeUrls.map(url => ({ url }));
+    const related = CalDAVClientDirect.parseRelatedPrincipalsFromXML(calendarHomeResponse.text, principalUrl)
+      .filter(url => !sameUrl(url, principalUrl));
+    for (const relatedUrl of related) {
+      for (const home of await this.discoverSharedHomes(relatedUrl)) {
+        if (!homes.some(h => h.url === home.url)) homes.push(home);
+      }
     }
 
-    return homeUrl;
+    return homes;
   }
 
   /**
-   * Parse calendars from PROPFIND XML response (static for testing)
+   * Calendar homes of another principal, labelled with its name. Many
+   * principals (groups in particular) have none, or cannot be read by
+   * the user; both give an empty list.
+   * This is one PROPFIND per delegator and group, so the answer is kept
+   * for the client's lifetime rather than asked again at every connect;
+   * homes shared later show up once the client is created anew (after a
+   * settings change or restart). Network failures are not kept.
    */
-  static parseCalendarsFromXML(xmlText: string, baseServerUrl: string): Array<{ url: string; displayName: string; supportsVTODO: boolean }> {
-    const calendars: Array<{ url: string; displayName: string; supportsVTODO: boolean }> = [];
-    const responseRegex = /<(?:\w+:)?response>([\s\S]*?)<\/(?:\w+:)?response>/g;
-    let match;
-
-    while ((match = responseRegex.exec(xmlText)) !== null) {
-      const responseBlock = match[1];
+  private async discoverSharedHomes(principalUrl: string): Promise<CalendarHome[]> {
+    const cached = this.sharedHomes.get(principalUrl);
+    if (cached) return cached;
 
-      // Check if it's a calendar (has calendar resourcetype, any namespace prefix)
-      if (!/< ?\w*:?calendar[\s/>]/i.test(responseBlock)) {
-        continue;
-      }
+    let response: HttpResponse;
+    try {
+      response = await this.httpClient.request({
+        url: principalUrl,
+        method: 'PROPFIND',
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Depth': '0'
+        },
+        body: PROPFIND_CALENDAR_HOME,
+        throw: false
+      });
+    } catch (error) {
+      console.warn(`[CalDAV] Could not read principal ${principalUrl}:`, error);
+      return [];
+    }
+    let homes: CalendarHome[] = [];
+    if (response.status === 207) {
+      const responses = parseMultistatus(response.text).responses;
+      const owner = (responses[0] && propText(responses[0], DAV_NS, 'displayname')) ?? principalName(principalUrl);
+      homes = CalDAVClientDirect.parseCalendarHomesFromXML(response.text, response.url ?? principalUrl)
+        .map(url => ({ url, owner }));
+    }
+    this.sharedHomes.set(principalUrl, homes);
+    return homes;
+  }
 
-      // Extract href (any namespace prefix or none)
-      const hrefMatch = responseBlock.match(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/);
-      if (!hrefMatch) continue;
+  /**
+   * Parse the current-user-principal URL from a PROPFIND response (static for testing)
+   */
+  static parsePrincipalFromXML(xmlText: string, contextUrl: string): string | null {
+    for (const response of parseMultistatus(xmlText).responses) {
+      const principal = findProp(response, DAV_NS, 'current-user-principal');
+      const href = principal ? hrefsOf(principal)[0] : undefined;
+      if (href) return resolveHref(href, contextUrl);
+    }
+    return null;
+  }
 
-      let url = hrefMatch[1];
+  /**
+   * Parse every calendar-home-set href from a principal PROPFIND response (static for testing)
+   */
+  static parseCalendarHomesFromXML(xmlText: string, principalUrl: string): string[] {
+    const homes: string[] = [];
+    for (const response of parseMultistatus(xmlText).responses) {
+      const homeSet = findProp(response, CALDAV_NS, 'calendar-home-set');
+      if (!homeSet) continue;
+      for (const href of hrefsOf(homeSet)) {
+        const url = resolveHref(href, principalUrl);
+        if (!homes.includes(url)) homes.push(url);
+      }
+    }
+    return homes;
+  }
 
-      // Make absolute URL if relative
-      if (!url.startsWith('http')) {
-        const baseUrl = new URL(baseServerUrl);
-        url = `${baseUrl.protocol}//${baseUrl.host}${url}`;
+  /**
+   * Parse the principals whose calendars a principal can reach from its
+   * PROPFIND response (static for testing): calendar-proxy-read-for,
+   * calendar-proxy-write-for and group-membership, in that order.
+   */
+  static parseRelatedPrincipalsFromXML(xmlText: string, principalUrl: string): string[] {
+    const principals: string[] = [];
+    for (const response of parseMultistatus(xmlText).responses) {
+      const props = [
+        findProp(response, CALENDARSERVER_NS, 'calendar-proxy-read-for'),
+        findProp(response, CALENDARSERVER_NS, 'calendar-proxy-write-for'),
+        findProp(response, DAV_NS, 'group-membership'),
+      ];
+      for (const prop of props) {
+        for (const href of prop ? hrefsOf(prop) : []) {
+          const url = resolveHref(href, principalUrl);
+          if (!principals.includes(url)) principals.push(url);
+        }
       }
+    }
+    return principals;
+  }
 
-      // Extract display name (handle CDATA, any namespace prefix)
-      const nameMatch = responseBlock.match(/<(?:\w+:)?displayname>(?:<!\[CDATA\[)?(.*?)(?:\]\]>)?<\/(?:\w+:)?displayname>/);
-      const displayName = nameMatch ? nameMatch[1].trim() : url;
+  /**
+   * Parse calendars from PROPFIND XML response (static for testing)
+   * @param baseUrl URL the response came from; hrefs are resolved against
+   * it, since the home may be on another host than the server URL
+   * (iCloud serves discovery from caldav.icloud.com and calendars from
+   * pNN-caldav.icloud.com)
+   * @param principalUrl The user's principal; calendars owned by another
+   * principal are labelled with that owner
+   */
+  static parseCalendarsFromXML(xmlText: string, baseUrl: string, principalUrl?: string): CalendarInfo[] {
+    const calendars: CalendarInfo[] = [];
 
-      // Check if calendar supports VTODO (any namespace prefix, case-insensitive)
-      const supportsVTODO = /< ?\w*:?comp name="VTODO"/i.test(responseBlock);
+    for (const response of parseMultistatus(xmlText).responses) {
+      // Only collections with a calendar resourcetype
+      const resourceType = findProp(response, DAV_NS, 'resourcetype');
+      if (!resourceType || !childElement(resourceType, CALDAV_NS, 'calendar')) {
+        continue;
+      }
+      if (response.hrefs.length === 0) continue;
+
+      const url = resolveHref(response.hrefs[0], baseUrl);
+      const displayName = propText(response, DAV_NS, 'displayname') ?? url;
+
+      // Without supported-calendar-component-set the calendar accepts
+      // every component type (RFC 4791 Section 5.2.3)
+      const componentSet = findProp(response, CALDAV_NS, 'supported-calendar-component-set');
+      const supportsVTODO = !componentSet || childElements(componentSet, CALDAV_NS, 'comp')
+        .some(comp => (comp.attributes['name'] ?? '').toUpperCase() === 'VTODO');
+
+      // Without current-user-privilege-set, assume writes are allowed and
+      // let the server reject them
+      const privilegeSet = findProp(response, DAV_NS, 'current-user-privilege-set');
+      const writable = !privilegeSet || childElements(privilegeSet, DAV_NS, 'privilege')
+        .some(privilege => WRITE_PRIVILEGES.some(name => childElement(privilege, DAV_NS, name)));
+
+      const calendar: CalendarInfo = { url, displayName, supportsVTODO, writable };
+
+      // Calendars shared into the user's home (e.g. on Nextcloud) have
+      // another principal as their owner
+      const ownerProp = findProp(response, DAV_NS, 'owner');
+      const ownerHref = ownerProp ? hrefsOf(ownerProp)[0] : undefined;
+      if (principalUrl && ownerHref && !sameUrl(resolveHref(ownerHref, baseUrl), principalUrl)) {
+        calendar.owner = propText(response, NEXTCLOUD_NS, 'owner-displayname') ?? principalName(ownerHref);
+      }
 
-      calendars.push({ url, displayName, supportsVTODO });
+      calendars.push(calendar);
     }
 
     return calendars;
   }
 
   /**
-   * Find all calendars in the calendar home
+   * Find all calendars in a calendar home
    */
-  private async findCalendars(homeUrl: string): Promise<Array<{ url: string; displayName: string; supportsVTODO: boolean }>> {
+  private async findCalendars(home: CalendarHome): Promise<CalendarInfo[]> {
     const response = await this.httpClient.request({
-      url: homeUrl,
+      url: home.url,
       method: 'PROPFIND',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': 'application/xml; charset=utf-8',
         'Depth': '1'
       },
@@ -209,10 +531,15 @@ export class CalDAVClientDirect {
     });
 
     if (response.status !== 207) {
-      throw new Error(`PROPFIND calendars failed: ${response.status}`);
+      throw CalDAVError.fromResponse('PROPFIND', home.url, response.status, `PROPFIND calendars failed: ${response.status}`);
     }
 
-    return CalDAVClientDirect.parseCalendarsFromXML(response.text, this.settings.serverUrl);
+    const calendars = CalDAVClientDirect.parseCalendarsFromXML(
+      response.text, response.url ?? home.url, this.principalUrl ?? undefined);
+    if (home.owner) {
+      for (const calendar of calendars) calendar.owner ??= home.owner;
+    }
+    return calendars;
   }
 
   /**
@@ -223,35 +550,22 @@ export class CalDAVClientDirect {
   }
 
   /**
-   * Parse VTODOs from calendar-query XML response (static for testing)
+   * Parse VTODOs from calendar-query XML response (static for testing).
+   * Members whose calendar-data came back in a failed propstat are skipped.
+   * @param baseUrl URL the response came from (the calendar's), for
+   * resolving hrefs
    */
-  static parseVTODOsFromXML(xmlText: string, baseServerUrl: string): CalendarObject[] {
+  static parseVTODOsFromXML(xmlText: string, baseUrl: string): CalendarObject[] {
     const vtodos: CalendarObject[] = [];
-    const responseRegex = /<(?:\w+:)?response>([\s\S]*?)<\/(?:\w+:)?response>/g;
-    let match;
-
-    while ((match = responseRegex.exec(xmlText)) !== null) {
-      const responseBlock = match[1];
-
-      // Extract href (any namespace prefix or none)
-      const hrefMatch = responseBlock.match(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/);
-      if (!hrefMatch) continue;
-
-      let url = hrefMatch[1];
-      if (!url.startsWith('http')) {
-        const baseUrl = new URL(baseServerUrl);
-        url = `${baseUrl.protocol}//${baseUrl.host}${url}`;
-      }
 
-      // Extract etag (any namespace prefix or none)
-      const etagMatch = responseBlock.match(/<(?:\w+:)?getetag>([^<]+)<\/(?:\w+:)?getetag>/);
-      const etag = etagMatch ? etagMatch[1].replace(/"/g, '') : undefined;
+    for (const response of parseMultistatus(xmlText).responses) {
+      if (response.hrefs.length === 0) continue;
+      const url = resolveHref(response.hrefs[0], baseUrl);
 
-      // Extract calendar data (VTODO) — handle optional CDATA wrapping, any namespace prefix
-      const dataMatch = responseBlock.match(/<(?:\w+:)?calendar-data>(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?<\/(?:\w+:)?calendar-data>/);
-      if (!dataMatch) continue;
+      const data = propText(response, CALDAV_NS, 'calendar-data');
+      if (!data) continue;
 
-      const data = dataMatch[1].trim();
+      const etag = propText(response, DAV_NS, 'getetag')?.replace(/"/g, '');
 
       vtodos.push({ data, url, etag });
     }
@@ -260,19 +574,25 @@ export class CalDAVClientDirect {
   }
 
   /**
-   * Fetch all VTODOs from the calendar
+   * Fetch all VTODOs from the calendar, or with a filter those the server
+   * matches against it. A server rejecting the filtered queries gets the
+   * unfiltered one instead; one ignoring them returns everything.
    */
-  async fetchVTODOs(): Promise<CalendarObject[]> {
+  async fetchVTODOs(filter?: VTODOQueryFilter): Promise<CalendarObject[]> {
     if (!this.calendarUrl) {
       throw new Error('Not connected to CalDAV server');
     }
 
+    if (filter && (filter.completedSince || filter.category)) {
+      const filtered = await this.queryVTODOs(buildVTODOQueries(filter));
+      if (filtered) return filtered;
+    }
+
     // REPORT query to get all VTODOs
     const response = await this.httpClient.request({
       url: this.calendarUrl,
       method: 'REPORT',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': 'application/xml; charset=utf-8',
         'Depth': '1'
       },
@@ -281,10 +601,307 @@ export class CalDAVClientDirect {
     });
 
     if (response.status !== 207) {
-      throw new Error(`REPORT VTODOs failed: ${response.status}`);
+      throw CalDAVError.fromResponse('REPORT', this.calendarUrl, response.status, `REPORT VTODOs failed: ${response.status}`);
     }
 
-    return CalDAVClientDirect.parseVTODOsFromXML(response.text, this.settings.serverUrl);
+    return CalDAVClientDirect.parseVTODOsFromXML(response.text, response.url ?? this.calendarUrl);
+  }
+
+  /**
+   * Run calendar-queries and merge their results, which may overlap.
+   * Returns null if the server rejects one of them.
+   */
+  private async queryVTODOs(queries: string[]): Promise<CalendarObject[] | null> {
+    const objectsByUrl = new Map<string, CalendarObject>();
+
+    for (const query of queries) {
+      const response = await this.httpClient.request({
+        url: this.calendarUrl!,
+        method: 'REPORT',
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Depth': '1'
+        },
+        body: query,
+        throw: false
+      });
+
+      // 400/403/501: filter not supported (CALDAV:supported-filter)
+      if (response.status !== 207) {
+        console.warn(`[CalDAV] Filtered calendar-query failed (${response.status}), fetching all VTODOs`);
+        return null;
+      }
+
+      for (const object of CalDAVClientDirect.parseVTODOsFromXML(response.text, response.url ?? this.calendarUrl!)) {
+        objectsByUrl.set(object.url, object);
+      }
+    }
+
+    return Array.from(objectsByUrl.values());
+  }
+
+  /**
+   * Parse a sync-collection REPORT response (static for testing).
+   * Members with a response-level 404 status were removed; every other
+   * member was added or modified since the token in the request.
+   */
+  static parseSyncCollectionFromXML(xmlText: string, baseUrl: string): SyncCollectionDelta {
+    const multistatus = parseMultistatus(xmlText);
+    const delta: SyncCollectionDelta = { changed: [], deleted: [], syncToken: multistatus.syncToken, truncated: false };
+
+    for (const response of multistatus.responses) {
+      if (response.hrefs.length === 0) continue;
+
+      const href = response.hrefs[0];
+      const url = resolveHref(href, baseUrl);
+
+      // Status outside a propstat applies to the whole member
+      if (response.status === 404) {
+        delta.deleted.push(url);
+        continue;
+      }
+      if (response.status === 507) {
+        delta.truncated = true;
+        continue;
+      }
+
+      const etag = propText(response, DAV_NS, 'getetag')?.replace(/"/g, '');
+
+      delta.changed.push({ href, url, etag });
+    }
+
+    return delta;
+  }
+
+  /**
+   * Bring a calendar snapshot up to date.
+   * Uses sync-collection (RFC 6578) when the previous snapshot carries a
+   * sync-token for the connected calendar, so only changed and deleted
+   * resources are transferred. Falls back to a full calendar-query when
+   * there is no usable token, or the server rejects the token or report.
+   * @param filter Narrows the full fetch, see fetchVTODOs(). A previous
+   * snapshot fetched with a filter leaving out tasks this one wants is
+   * not built on.
+   * @param keep URLs of objects to fetch even if the filter leaves them
+   * out, so that they are not taken for deleted
+   */
+  async syncVTODOs(previous: CalendarSnapshot | null, filter?: VTODOQueryFilter, keep: string[] = []): Promise<CalendarSnapshot> {
+    if (!this.calendarUrl) {
+      throw new Error('Not connected to CalDAV server');
+    }
+
+    const incremental = this.profile?.syncCollection !== false;
+    if (incremental && previous && previous.syncToken && previous.calendarUrl === this.calendarUrl &&
+        CalDAVClientDirect.coversFilter(previous.filter, filter)) {
+      try {
+        const snapshot = await this.fetchChangesSince(previous);
+        if (snapshot) return snapshot;
+      } catch (error) {
+        console.warn('[CalDAV] Incremental sync failed, falling back to full fetch:', error);
+      }
+    }
+
+    return await this.fetchSnapshot(filter, keep);
+  }
+
+  /**
+   * Whether everything `wanted` matches was fetched with `fetched`
+   * (static for testing): no filter, or one at most as narrow.
+   */
+  static coversFilter(fetched: VTODOQueryFilter | undefined, wanted: VTODOQueryFilter | undefined): boolean {
+    if (!fetched) return true;
+    if (fetched.category && fetched.category.toLowerCase() !== wanted?.category?.toLowerCase()) return false;
+    if (fetched.completedSince) {
+      return !!wanted?.completedSince && Date.parse(wanted.completedSince) >= Date.parse(fetched.completedSince);
+    }
+    return true;
+  }
+
+  /**
+   * Fetch a full snapshot: current sync-token (if supported) plus all VTODOs.
+   * The token is read first so changes racing with the query are reported
+   * again on the next incremental sync rather than lost.
+   */
+  private async fetchSnapshot(filter?: VTODOQueryFilter, keep: string[] = []): Promise<CalendarSnapshot> {
+    let syncToken: string | null = null;
+    if (this.profile?.syncCollection !== false) {
+      try {
+        syncToken = (await this.fetchCalendarVersion()).syncToken;
+      } catch {
+        // No token support — every sync will use the full query
+      }
+    }
+    const objects = await this.fetchVTODOs(filter);
+
+    // Fetch the kept objects the filter left out; those the multiget
+    // does not return are really gone
+    const fetched = new Set(objects.map(o => o.url));
+    const missing = keep.filter(url => !fetched.has(url));
+    if (filter && missing.length > 0) {
+      objects.push(...await this.fetchVTODOsByHref(missing.map(url => new URL(url).pathname)));
+    }
+
+    return { calendarUrl: this.calendarUrl!, syncToken, objects, ...(filter ? { filter } : {}) };
+  }
+
+  /**
+   * Read the change markers (ctag and sync-token) of a calendar collection.
+   * A single Depth: 0 PROPFIND, cheap enough to poll before every sync.
+   * Defaults to the connected calendar; pass a URL to check a calendar
+   * without running discovery first.
+   */
+  async fetchCalendarVersion(calendarUrl?: string): Promise<CalendarVersion> {
+    const url = calendarUrl ?? this.calendarUrl;
+    if (!url) {
+      throw new Error('Not connected to CalDAV server');
+    }
+
+    const response = await this.httpClient.request({
+      url,
+      method: 'PROPFIND',
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Depth': '0'
+      },
+      body: PROPFIND_COLLECTION_VERSION,
+      throw: false
+    });
+
+    if (response.status !== 207) {
+      throw CalDAVError.fromResponse('PROPFIND', url, response.status, `PROPFIND calendar version failed: ${response.status}`);
+    }
+
+    return CalDAVClientDirect.parseCalendarVersionFromXML(response.text, url);
+  }
+
+  /**
+   * Parse ctag and sync-token from a Depth: 0 PROPFIND response (static for testing).
+   * Properties the server does not support come back empty and map to null.
+   */
+  static parseCalendarVersionFromXML(xmlText: string, calendarUrl: string): CalendarVersion {
+    const response = parseMultistatus(xmlText).responses[0];
+    return {
+      calendarUrl,
+      ctag: response ? propText(response, CALENDARSERVER_NS, 'getctag') : null,
+      syncToken: response ? propText(response, DAV_NS, 'sync-token') : null,
+    };
+  }
+
+  /**
+   * Etag from response headers, without quotes or weak prefix (static for testing).
+   */
+  static etagFromHeaders(headers: Record<string, string> | undefined): string | undefined {
+    const etag = headerValue(headers, 'etag');
+    return etag ? etag.replace(/^W\//, '').replace(/"/g, '') : undefined;
+  }
+
+  /**
+   * Apply the changes reported by sync-collection to a previous snapshot.
+   * Returns null if the server refused the token or the report, so the
+   * caller can fall back to a full fetch.
+   */
+  private async fetchChangesSince(previous: CalendarSnapshot): Promise<CalendarSnapshot | null> {
+    const changed = new Map<string, { href: string; url: string; etag?: string }>();
+    const deleted = new Set<string>();
+    let syncToken = previous.syncToken!;
+
+    for (let page = 0; page < MAX_SYNC_COLLECTION_PAGES; page++) {
+      const response = await this.httpClient.request({
+        url: this.calendarUrl!,
+        method: 'REPORT',
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Depth': '1'
+        },
+        body: buildSyncCollection(syncToken),
+        throw: false
+      });
+
+      // 403/409 (invalid token) or 400/405/501 (report unsupported)
+      if (response.status !== 207) {
+        return null;
+      }
+
+      const delta = CalDAVClientDirect.parseSyncCollectionFromXML(response.text, response.url ?? this.calendarUrl!);
+      if (!delta.syncToken) {
+        return null;
+      }
+
+      // Later pages supersede earlier ones for the same resource
+      for (const url of delta.deleted) {
+        changed.delete(url);
+        deleted.add(url);
+      }
+      for (const entry of delta.changed) {
+        deleted.delete(entry.url);
+        changed.set(entry.url, entry);
+      }
+
+      syncToken = delta.syncToken;
+      if (!delta.truncated) break;
+    }
+
+    const objectsByUrl = new Map(previous.objects.map(o => [o.url, o]));
+    for (const url of deleted) {
+      objectsByUrl.delete(url);
+    }
+
+    // Skip resources whose etag matches what we already hold
+    const toFetch = Array.from(changed.values()).filter(entry => {
+      const cached = objectsByUrl.get(entry.url);
+      return !cached || !entry.etag || cached.etag !== entry.etag;
+    });
+
+    const fetched = await this.fetchVTODOsByHref(toFetch.map(entry => entry.href));
+    const fetchedByUrl = new Map(fetched.map(o => [o.url, o]));
+    for (const entry of toFetch) {
+      const object = fetchedByUrl.get(entry.url);
+      if (object) {
+        objectsByUrl.set(entry.url, object);
+      } else {
+        // Gone between the two requests, or not a VTODO (e.g. a VEVENT)
+        objectsByUrl.delete(entry.url);
+      }
+    }
+
+    return {
+      calendarUrl: previous.calendarUrl,
+      syncToken,
+      objects: Array.from(objectsByUrl.values()),
+      ...(previous.filter ? { filter: previous.filter } : {}),
+    };
+  }
+
+  /**
+   * Fetch calendar data for specific resources with calendar-multiget.
+   * Only resources containing a VTODO are returned.
+   */
+  private async fetchVTODOsByHref(hrefs: string[]): Promise<CalendarObject[]> {
+    const objects: CalendarObject[] = [];
+
+    for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH_SIZE) {
+      const batch = hrefs.slice(i, i + MULTIGET_BATCH_SIZE);
+      const response = await this.httpClient.request({
+        url: this.calendarUrl!,
+        method: 'REPORT',
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Depth': '1'
+        },
+        body: buildCalendarMultiget(batch),
+        throw: false
+      });
+
+      if (response.status !== 207) {
+        throw CalDAVError.fromResponse('REPORT', this.calendarUrl!, response.status,
+          `REPORT calendar-multiget failed: ${response.status}`);
+      }
+
+      const parsed = CalDAVClientDirect.parseVTODOsFromXML(response.text, response.url ?? this.calendarUrl!);
+      objects.push(...parsed.filter(o => o.data.includes('BEGIN:VTODO')));
+    }
+
+    return objects;
   }
 
   /**
@@ -296,21 +913,45 @@ export class CalDAVClientDirect {
   }
 
   /**
-   * Create a new VTODO
+   * Fetch a single calendar object by URL, with its current etag.
+   * Returns null if the resource no longer exists.
    */
-  async createVTODO(vtodoData: string, uid: string): Promise<void> {
+  async fetchVTODO(url: string): Promise<CalendarObject | null> {
+    const response = await this.httpClient.request({
+      url,
+      method: 'GET',
+      throw: false
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      return null;
+    }
+    if (response.status !== 200) {
+      throw CalDAVError.fromResponse('GET', url, response.status, `GET VTODO failed: ${response.status}`);
+    }
+
+    return { data: response.text, url, etag: CalDAVClientDirect.etagFromHeaders(response.headers) };
+  }
+
+  /**
+   * Create a new VTODO.
+   * Returns the created object with its URL and, if the server sent one,
+   * its etag (servers that rewrite the data on store may omit it).
+   */
+  async createVTODO(vtodoData: string, uid: string): Promise<CalendarObject> {
     if (!this.calendarUrl) {
       throw new Error('Not connected to CalDAV server');
     }
 
-    const filename = `${uid}.ics`;
-    const url = `${this.calendarUrl}/${filename}`;
+    const filename = `${encodeURIComponent(uid)}.ics`;
+    const url = this.calendarUrl.endsWith('/')
+      ? `${this.calendarUrl}${filename}`
+      : `${this.calendarUrl}/${filename}`;
 
     const response = await this.httpClient.request({
       url,
       method: 'PUT',
       headers: {
-        'Authorization': this.authHeader,
         'Content-Type': 'text/calendar; charset=utf-8',
         'If-None-Match': '*' // Only create if doesn't exist
       },
@@ -319,17 +960,39 @@ export class CalDAVClientDirect {
     });
 
     if (response.status !== 201 && response.status !== 204) {
-      throw new Error(`Create VTODO failed: ${response.status} ${response.text}`);
+      throw CalDAVError.fromResponse('PUT', url, response.status, `Create VTODO failed: ${response.status} ${response.text}`);
     }
 
+    const location = headerValue(response.headers, 'location');
+    const objectUrl = location ? resolveHref(location, url) : url;
+    return {
+      data: vtodoData,
+      url: objectUrl,
+      etag: CalDAVClientDirect.etagFromHeaders(response.headers) ?? await this.etagAfterWrite(objectUrl),
+    };
   }
 
   /**
-   * Update an existing VTODO
+   * The etag of an object just written, for servers known not to return
+   * one from PUT: read back, so the next write can still be conditional.
+   * Undefined when the server has no profile or does return etags.
    */
-  async updateVTODO(vtodo: { data: string; url: string; etag?: string }, newData: string): Promise<void> {
+  private async etagAfterWrite(url: string): Promise<string | undefined> {
+    if (this.profile?.etagOnPut !== false) return undefined;
+    try {
+      return (await this.fetchVTODO(url))?.etag;
+    } catch (error) {
+      console.warn('[CalDAV] Could not read back etag:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Update an existing VTODO.
+   * Returns the object's new etag, or undefined if the server sent none.
+   */
+  async updateVTODO(vtodo: { data: string; url: string; etag?: string }, newData: string): Promise<string | undefined> {
     const headers: Record<string, string> = {
-      'Authorization': this.authHeader,
       'Content-Type': 'text/calendar; charset=utf-8'
     };
 
@@ -346,19 +1009,21 @@ export class CalDAVClientDirect {
       throw: false
     });
 
+    if (response.status === 412) {
+      throw new PreconditionFailedError('PUT', vtodo.url);
+    }
     if (response.status !== 200 && response.status !== 201 && response.status !== 204) {
-      throw new Error(`Update VTODO failed: ${response.status}`);
+      throw CalDAVError.fromResponse('PUT', vtodo.url, response.status, `Update VTODO failed: ${response.status}`);
     }
 
+    return CalDAVClientDirect.etagFromHeaders(response.headers) ?? await this.etagAfterWrite(vtodo.url);
   }
 
   /**
    * Delete a VTODO
    */
   async deleteVTODO(vtodo: { data: string; url: string; etag?: string }): Promise<void> {
-    const headers: Record<string, string> = {
-      'Authorization': this.authHeader
-    };
+    const headers: Record<string, string> = {};
 
     if (vtodo.etag) {
       headers['If-Match'] = `"${vtodo.etag}"`;
@@ -371,8 +1036,15 @@ export class CalDAVClientDirect {
       throw: false
     });
 
+    if (response.status === 412) {
+      throw new PreconditionFailedError('DELETE', vtodo.url);
+    }
+    // Already gone, e.g. a retried DELETE whose first attempt went through
+    if (response.status === 404 || response.status === 410) {
+      return;
+    }
     if (response.status !== 204 && response.status !== 200) {
-      throw new Error(`Delete VTODO failed: ${response.status}`);
+      throw CalDAVError.fromResponse('DELETE', vtodo.url, response.status, `Delete VTODO failed: ${response.status}`);
     }
 
   }
@@ -388,21 +1060,42 @@ export class CalDAVClientDirect {
   }
 
   /**
-   * Test connection
+   * Test connection.
+   * Succeeds when discovery works and every configured calendar exists;
+   * the discovered calendars are returned either way once discovery
+   * succeeded, so a picker can offer them.
    */
-  async testConnection(): Promise<{ success: boolean; message: string }> {
+  async testConnection(): Promise<{ success: boolean; message: string; calendars?: CalendarInfo[] }> {
+    let calendars: CalendarInfo[];
     try {
-      await this.connect();
+      calendars = await this.discoverCalendars();
+    } catch (error) {
       return {
-        success: true,
-        message: `Successfully connected to calendar '${this.settings.calendarName}'`
+        success: false,
+        message: describeFailure(error)
       };
+    }
+
+    const configured = resolveCalendarBindings(this.settings)
+      .filter(binding => binding.calendarName || binding.calendarUrl);
+    try {
+      for (const binding of configured) {
+        this.selectCalendar(binding.calendarName, binding.calendarUrl);
+      }
     } catch (error) {
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'Unknown error'
+        message: describeFailure(error),
+        calendars
       };
     }
+
+    const taskCalendars = calendars.filter(c => c.supportsVTODO).length;
+    return {
+      success: true,
+      message: `Successfully connected. Found ${taskCalendars} task calendar(s)`,
+      calendars
+    };
   }
 
   /**
@@ -412,3 +1105,27 @@ export class CalDAVClientDirect {
     return this.mapper;
   }
 }
+
+/** Compare URLs ignoring a trailing slash. */
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+}
+
+/** Last path segment of a principal URL, as a fallback label. */
+function principalName(url: string): string {
+  const segments = url.split('/').filter(s => s !== '');
+  const last = segments[segments.length - 1] ?? url;
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+/**
+ * An error's message, followed by what to do about it when known.
+ */
+function describeFailure(error: unknown): string {
+  if (error instanceof CalDAVError) return `${error.message}\n${error.remediation}`;
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -0,0 +1,143 @@
+import { App } from 'obsidian';
+import { Cassette, CassettePlayer, CassetteRecorder } from './cassette';
+import { CalDAVClientDirect } from './calDAVClientDirect';
+import { BasicAuthProvider } from './auth';
+import { HttpClient, HttpRequest, HttpResponse } from './httpClient';
+import { multistatus, propResponse, respond } from '../../test/helpers/fakeHttp';
+import { CalDAVSettings, DEFAULT_CALDAV_SETTINGS } from '../types';
+import { SyncEngine } from '../sync/syncEngine';
+
+const settings: CalDAVSettings = {
+  ...DEFAULT_CALDAV_SETTINGS,
+  serverUrl: 'https://caldav.example.com',
+  username: 'alice',
+  calendarName: 'Tasks',
+};
+
+const VTODO = 'BEGIN:VCALENDAR&#13;\nBEGIN:VTODO&#13;\nUID:uid-1&#13;\nSUMMARY:Call Bob &amp; Carol&#13;\n' +
+  'DESCRIPTION:Private\n  notes&#13;\nEND:VTODO&#13;\nEND:VCALENDAR&#13;\n';
+
+/**
+ * Server with one calendar holding one task, accepting new ones.
+ */
+class FakeServer implements HttpClient {
+  async request(req: HttpRequest): Promise<HttpResponse> {
+    const body = req.body ?? '';
+    if (body.includes('current-user-principal')) {
+      return respond(207, multistatus(propResponse('/', '<d:current-user-principal><d:href>/principals/alice/</d:href></d:current-user-principal>')));
+    }
+    if (body.includes('calendar-home-set')) {
+      return respond(207, multistatus(propResponse('/principals/alice/', '<c:calendar-home-set><d:href>/calendars/alice/</d:href></c:calendar-home-set>')));
+    }
+    if (req.method === 'PROPFIND') {
+      return respond(207, multistatus(propResponse('/calendars/alice/tasks/',
+        '<d:displayname>Tasks</d:displayname><d:resourcetype><d:collection/><c:calendar/></d:resourcetype>')), { 'Set-Cookie': 'session=abc' });
+    }
+    if (req.method === 'REPORT') {
+      return respond(207, multistatus(propResponse('/calendars/alice/tasks/1.ics',
+        `<d:getetag>"e1"</d:getetag><c:calendar-data>${VTODO}</c:calendar-data>`)));
+    }
+    if (req.method === 'PUT') {
+      return respond(201, '', { ETag: '"e2"' });
+    }
+    return respond(404);
+  }
+}
+
+async function fetchTasks(client: CalDAVClientDirect): Promise<string[]> {
+  await client.connect();
+  return (await client.fetchVTODOs()).map(o => `${o.url} ${o.etag}`);
+}
+
+/**
+ * An empty vault with sync data kept in memory, and a tasks plugin
+ * without tasks; returns the markdown of tasks the sync creates.
+ */
+async function syncEmptyVault(engineSettings: CalDAVSettings, httpClient: HttpClient): Promise<string[]> {
+  const app = new App();
+  const files = new Map<string, string>();
+  Object.assign(app.vault, {
+    adapter: {
+      exists: async (path: string) => files.has(path),
+      mkdir: async () => undefined,
+      read: async (path: string) => files.get(path) ?? Promise.reject(new Error(`No file ${path}`)),
+      write: async (path: string, content: string) => void files.set(path, content),
+    },
+  });
+  (app as App & { plugins: { plugins: Record<string, unknown> } }).plugins.plugins['obsidian-tasks-plugin'] = { getTasks: () => [] };
+
+  const engine = new SyncEngine(app, engineSettings, undefined, null, httpClient);
+  await engine.initialize();
+  const result = await engine.sync(false);
+  expect(result.success).toBe(true);
+  return (app.vault.create as jest.Mock).mock.calls.map(([, content]: [string, string]) => content.replace(/🆔 \S+/, ''));
+}
+
+describe('CassetteRecorder and CassettePlayer', () => {
+  it('should replay a recorded session offline', async () => {
+    const recorder = new CassetteRecorder(new FakeServer());
+    const recorded = await fetchTasks(new CalDAVClientDirect(settings, recorder, new BasicAuthProvider('alice', 'secret')));
+    const cassette = JSON.parse(JSON.stringify(recorder.cassette(settings, false))) as Cassette;
+
+    const player = new CassettePlayer(cassette);
+    const replayed = await fetchTasks(new CalDAVClientDirect(cassette.settings, player));
+
+    expect(replayed).toEqual(recorded);
+    expect(player.unplayed).toEqual([]);
+  });
+
+  it('should re-run a recorded sync offline', async () => {
+    const syncAll = { ...settings, syncTag: '' };
+    const recorder = new CassetteRecorder(new FakeServer());
+    const recorded = await syncEmptyVault(syncAll, recorder);
+    const cassette = JSON.parse(JSON.stringify(recorder.cassette(syncAll, false))) as Cassette;
+
+    const player = new CassettePlayer(cassette);
+    const replayed = await syncEmptyVault(cassette.settings, player);
+
+    expect(recorded).toEqual([expect.stringContaining('Call Bob & Carol')]);
+    expect(replayed).toEqual(recorded);
+    expect(player.unplayed).toEqual([]);
+  });
+
+  it('should redact credentials and cookies', async () => {
+    const recorder = new CassetteRecorder(new FakeServer());
+    await fetchTasks(new CalDAVClientDirect(settings, recorder, new BasicAuthProvider('alice', 'secret')));
+    const text = JSON.stringify(recorder.cassette(settings, false));
+
+    expect(text).not.toContain(btoa('alice:secret'));
+    expect(text).toContain('"Authorization":"Basic <REDACTED>"');
+    expect(text).not.toContain('session=abc');
+    expect(text).not.toContain('"username":"alice"');
+  });
+
+  it('should replace task content consistently when scrubbing', async () => {
+    const recorder = new CassetteRecorder(new FakeServer());
+    const client = new CalDAVClientDirect(settings, recorder);
+    await fetchTasks(client);
+    (client as any).calendarUrl = 'https://caldav.example.com/calendars/alice/tasks/';
+    await client.createVTODO('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nSUMMARY:Call Bob & Carol\r\nEND:VTODO\r\nEND:VCALENDAR\r\n', 'uid-2');
+
+    const cassette = recorder.cassette(settings, true);
+    const report = cassette.interactions.find(i => i.request.method === 'REPORT')!.response!.body;
+    const put = cassette.interactions.find(i => i.request.method === 'PUT')!.request.body!;
+
+    expect(cassette.contentScrubbed).toBe(true);
+    expect(report).toContain('SUMMARY:Redacted 1&#13;\nDESCRIPTION:Redacted 2&#13;\nEND:VTODO');
+    expect(report).not.toContain('Bob');
+    expect(report).not.toContain('notes');
+    expect(put).toContain('SUMMARY:Redacted 1\r\n');
+    expect(report).toContain('UID:uid-1');
+  });
+
+  it('should replay recorded errors and fail on requests it has no answer for', async () => {
+    const failing: HttpClient = { request: () => Promise.reject(new TypeError('net::ERR_CONNECTION_REFUSED')) };
+    const recorder = new CassetteRecorder(failing);
+    const request: HttpRequest = { url: 'https://caldav.example.com/a.ics', method: 'GET' };
+    await expect(recorder.request(request)).rejects.toThrow('ERR_CONNECTION_REFUSED');
+
+    const player = new CassettePlayer(recorder.cassette(settings, false));
+    await expect(player.request(request)).rejects.toMatchObject({ name: 'TypeError', message: 'net::ERR_CONNECTION_REFUSED' });
+    await expect(player.request(request)).rejects.toThrow('Cassette has no (further) response for GET https://caldav.example.com/a.ics');
+  });
+});
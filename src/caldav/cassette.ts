@@ -0,0 +1,196 @@
+import { App, normalizePath } from 'obsidian';
+import { CalDAVSettings } from '../types';
+import { HttpClient, HttpRequest, HttpResponse } from './httpClient';
+
+/**
+ * Recorded HTTP traffic of a session with the CalDAV server, for
+ * reproducing bugs offline: CassetteRecorder captures it beneath the
+ * client's redirect and auth handling, CassettePlayer serves it back in
+ * the same place, so a SyncEngine given the player and the recorded
+ * settings makes the same requests and gets the same answers.
+ */
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  settings: CalDAVSettings; // username removed; URLs and bodies still hold it
+  contentScrubbed: boolean;
+  interactions: CassetteInteraction[];
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+  error?: { name: string; message: string }; // the request threw instead (network error, timeout)
+}
+
+const CASSETTE_DIR = '.caldav-sync/cassettes';
+
+/** Request and response headers carrying credentials or sessions. */
+const SECRET_HEADERS = ['authorization', 'cookie', 'set-cookie', 'proxy-authorization'];
+
+/** Free-text iCalendar properties replaced when task content is scrubbed. */
+const CONTENT_PROPERTIES = ['SUMMARY', 'DESCRIPTION', 'LOCATION', 'COMMENT', 'CONTACT'];
+
+/**
+ * HttpClient decorator recording every request and its response (or
+ * error) as the inner client handled it.
+ */
+export class CassetteRecorder implements HttpClient {
+  private inner: HttpClient;
+  private interactions: CassetteInteraction[] = [];
+
+  constructor(inner: HttpClient) {
+    this.inner = inner;
+  }
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    const request = {
+      method: params.method,
+      url: params.url,
+      headers: { ...params.headers },
+      ...(params.body !== undefined ? { body: params.body } : {}),
+    };
+    try {
+      const response = await this.inner.request(params);
+      this.interactions.push({
+        request,
+        response: { status: response.status, headers: { ...response.headers }, body: response.text },
+      });
+      return response;
+    } catch (error) {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      this.interactions.push({ request, error: { name, message } });
+      throw error;
+    }
+  }
+
+  /**
+   * The recording so far, with credentials always redacted.
+   * @param scrubContent Also replace task titles, notes and other free
+   * text with placeholders; the same text gets the same placeholder
+   * everywhere, so replayed requests still line up with the responses
+   */
+  cassette(settings: CalDAVSettings, scrubContent: boolean): Cassette {
+    const scrub = scrubContent ? contentScrubber() : (text: string) => text;
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      settings: { ...settings, username: '' },
+      contentScrubbed: scrubContent,
+      interactions: this.interactions.map(({ request, response, error }) => ({
+        request: {
+          ...request,
+          headers: redactHeaders(request.headers),
+          ...(request.body !== undefined ? { body: scrub(request.body) } : {}),
+        },
+        ...(response ? { response: { ...response, headers: redactHeaders(response.headers), body: scrub(response.body) } } : {}),
+        ...(error ? { error } : {}),
+      })),
+    };
+  }
+}
+
+/**
+ * HttpClient answering from a cassette. Each request gets the first
+ * interaction not yet played with the same method and URL; bodies are
+ * not compared, since they contain timestamps. A request the cassette
+ * has no answer for fails, which marks where the replay diverged.
+ */
+export class CassettePlayer implements HttpClient {
+  private remaining: CassetteInteraction[];
+
+  constructor(cassette: Cassette) {
+    if (cassette.version !== 1) {
+      throw new Error(`Unsupported cassette version: ${String(cassette.version)}`);
+    }
+    this.remaining = [...cassette.interactions];
+  }
+
+  /** Recorded interactions not requested yet. */
+  get unplayed(): CassetteInteraction[] {
+    return [...this.remaining];
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    const index = this.remaining.findIndex(
+      i => i.request.method === params.method && i.request.url === params.url);
+    if (index === -1) {
+      throw new Error(`Cassette has no (further) response for ${params.method} ${params.url}`);
+    }
+    const [{ response, error }] = this.remaining.splice(index, 1);
+    if (error || !response) {
+      const replayed = new Error(error?.message ?? 'Recorded request failed');
+      replayed.name = error?.name ?? 'Error';
+      throw replayed;
+    }
+    return { status: response.status, text: response.body, headers: { ...response.headers } };
+  }
+}
+
+/**
+ * Write a cassette to .caldav-sync/cassettes/ and return its path.
+ */
+export async function saveCassette(app: App, cassette: Cassette): Promise<string> {
+  const adapter = app.vault.adapter;
+  const dir = normalizePath(CASSETTE_DIR);
+  if (!(await adapter.exists(dir))) {
+    await adapter.mkdir(dir);
+  }
+  const stamp = cassette.recordedAt.replace(/[-:]/g, '').replace(/\..*$/, '').replace('T', '-');
+  const path = normalizePath(`${dir}/session-${stamp}.json`);
+  await adapter.write(path, JSON.stringify(cassette, null, 2));
+  return path;
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!SECRET_HEADERS.includes(name.toLowerCase())) {
+      redacted[name] = value;
+    } else if (name.toLowerCase().endsWith('authorization')) {
+      // Keep the scheme; Digest parameters include the username
+      redacted[name] = value.replace(/^(\S+)\s.+$/, '$1 <REDACTED>');
+    } else {
+      redacted[name] = '<REDACTED>';
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Replaces the values of CONTENT_PROPERTIES, including folded
+ * continuation lines, in iCalendar data whether raw (PUT bodies) or
+ * XML-escaped inside calendar-data (REPORT responses).
+ */
+function contentScrubber(): (text: string) => string {
+  const placeholders = new Map<string, string>();
+  const property = new RegExp(
+    `^(${CONTENT_PROPERTIES.join('|')})((?:;[^:\\r\\n]*)?):(.*(?:\\r?\\n[ \\t].*)*)$`, 'gm');
+
+  return text => text.replace(property, (_, name: string, params: string, value: string) => {
+    // The raw and the XML-escaped form of a value share a placeholder
+    const key = value.replace(/&#13;/g, '').replace(/\r?\n[ \t]/g, '')
+      .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, '\'')
+      .replace(/&amp;/g, '&');
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      placeholder = `Redacted ${placeholders.size + 1}`;
+      placeholders.set(key, placeholder);
+    }
+    // Servers escape CR in calendar-data as &#13;, which ends the line
+    return `${name}${params}:${placeholder}${value.endsWith('&#13;') ? '&#13;' : ''}`;
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Errors raised by the CalDAV client that callers handle specifically.
+ *
+ * Every CalDAVError names the request that failed and carries a hint
+ * telling the user what to do about it; `kind` lets code outside this
+ * module (the sync results, the settings tab) tell them apart without
+ * instanceof checks on every class.
+ */
+
+export type CalDAVErrorKind =
+  | 'authentication'
+  | 'forbidden'
+  | 'not-found'
+  | 'precondition-failed'
+  | 'unsupported-media-type'
+  | 'server-error'
+  | 'network'
+  | 'calendar-missing'
+  | 'http';
+
+export class CalDAVError extends Error {
+  readonly kind: CalDAVErrorKind;
+  readonly method: string;
+  readonly url: string;
+  readonly status?: number; // unset when no response was received
+  readonly remediation: string;
+
+  constructor(
+    kind: CalDAVErrorKind,
+    message: string,
+    request: { method: string; url: string; status?: number },
+    remediation: string,
+  ) {
+    super(message);
+    this.name = 'CalDAVError';
+    this.kind = kind;
+    this.method = request.method;
+    this.url = request.url;
+    this.status = request.status;
+    this.remediation = remediation;
+  }
+
+  /**
+   * The error for a response with an unexpected status.
+   * @param message What failed, e.g. "Create VTODO failed: 415"
+   */
+  static fromResponse(method: string, url: string, status: number, message: string): CalDAVError {
+    switch (status) {
+      case 401:
+        return new AuthenticationError(method, url, message);
+      case 403:
+        return new ForbiddenError(method, url, message);
+      case 404:
+      case 410:
+        return new NotFoundError(method, url, status, message);
+      case 412:
+        return new PreconditionFailedError(method, url);
+      case 415:
+        return new UnsupportedMediaTypeError(method, url, message);
+    }
+    if (status >= 500) {
+      return new ServerError(method, url, status, message);
+    }
+    return new CalDAVError('http', message, { method, url, status },
+      'The server rejected the request. Recording a session and reporting it as a bug helps to find out why.');
+  }
+}
+
+/**
+ * The server did not accept the credentials (401).
+ */
+export class AuthenticationError extends CalDAVError {
+  constructor(method: string, url: string, message: string) {
+    super('authentication', message, { method, url, status: 401 },
+      'Check the username and password. Servers with two-factor authentication (iCloud, Fastmail, Google) ' +
+      'need an app-specific password; with OAuth2, sign in again to get a new token.');
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The account may not do this (403), e.g. write to a read-only calendar.
+ */
+export class ForbiddenError extends CalDAVError {
+  constructor(method: string, url: string, message: string) {
+    super('forbidden', message, { method, url, status: 403 },
+      'The account is not allowed to do this. For a calendar shared read-only, set its sync direction to ' +
+      'pull only, or ask its owner for write access.');
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * The resource does not exist (404, 410).
+ */
+export class NotFoundError extends CalDAVError {
+  constructor(method: string, url: string, status: number, message: string) {
+    super('not-found', message, { method, url, status },
+      'The calendar or task no longer exists at this address. Check the server URL, and pick the calendar ' +
+      'again in the settings if it was moved or deleted.');
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The server rejected a conditional write (412): the resource's etag no
+ * longer matches, i.e. someone else changed or deleted it since we read it.
+ */
+export class PreconditionFailedError extends CalDAVError {
+  constructor(method: string, url: string) {
+    super('precondition-failed',
+      `${method} ${url} failed: 412 Precondition Failed (resource changed on the server)`,
+      { method, url, status: 412 },
+      'The task was changed on the server at the same time. Sync again to merge both changes.');
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/**
+ * The server does not take the data sent (415), typically a calendar
+ * that only holds events being sent a task.
+ */
+export class UnsupportedMediaTypeError extends CalDAVError {
+  constructor(method: string, url: string, message: string) {
+    super('unsupported-media-type', message, { method, url, status: 415 },
+      'The calendar does not accept VTODO (tasks). Pick a calendar that supports tasks, or create one with ' +
+      '"Create task calendar on CalDAV server".');
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+/**
+ * The server failed to handle the request (5xx), after any retries.
+ */
+export class ServerError extends CalDAVError {
+  constructor(method: string, url: string, status: number, message: string) {
+    super('server-error', message, { method, url, status },
+      'The server had a problem handling the request. Try again later; if it keeps failing, check the ' +
+      'server\'s status or logs.');
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * No response was received: the server is unreachable or the connection
+ * failed.
+ */
+export class NetworkError extends CalDAVError {
+  constructor(method: string, url: string, message: string, remediation?: string) {
+    super('network', message, { method, url },
+      remediation ?? 'Check the server URL and the internet connection. Changes made meanwhile are queued ' +
+      'and sent once the server is reachable.');
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * A request got no response within the configured timeout.
+ */
+export class RequestTimeoutError extends NetworkError {
+  constructor(method: string, url: string, timeoutMs: number) {
+    super(method, url, `${method} ${url} timed out after ${Math.round(timeoutMs / 1000)}s`,
+      'The server did not answer in time. Try again later, or raise the request timeout in the settings.');
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * A configured calendar is not among those the server lists.
+ */
+export class CalendarMissingError extends CalDAVError {
+  constructor(calendarName: string, available: string[], url: string) {
+    super('calendar-missing', `Calendar '${calendarName}' not found. Available: ${available.join(', ')}`,
+      { method: 'PROPFIND', url },
+      'The calendar may have been renamed, deleted or unshared. Pick it again in the settings.');
+    this.name = 'CalendarMissingError';
+  }
+}
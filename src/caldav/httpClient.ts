@@ -1,9 +1,11 @@
 import { requestUrl } from 'obsidian';
+import { NetworkError } from './errors';
 
 export interface HttpResponse {
   status: number;
   text: string;
   headers: Record<string, string>;
+  url?: string; // the URL that answered, when it differs after redirects
 }
 
 export interface HttpRequest {
@@ -12,25 +14,43 @@ export interface HttpRequest {
   headers?: Record<string, string>;
   body?: string;
   throw?: boolean;
+  anonymous?: boolean; // send without credentials, e.g. after a cross-origin redirect
 }
 
 export interface HttpClient {
   request(params: HttpRequest): Promise<HttpResponse>;
 }
 
+/**
+ * Case-insensitive header lookup; header casing differs between platforms.
+ * The name is given in lower case.
+ */
+export function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  return Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
 /**
  * Default HttpClient that delegates to Obsidian's requestUrl.
  * Used in production; tests and E2E can substitute a different implementation.
+ * Requests that get no response fail with a NetworkError.
  */
 export class ObsidianHttpClient implements HttpClient {
   async request(params: HttpRequest): Promise<HttpResponse> {
-    const response = await requestUrl({
-      url: params.url,
-      method: params.method,
-      headers: params.headers,
-      body: params.body,
-      throw: params.throw,
-    });
+    let response;
+    try {
+      response = await requestUrl({
+        url: params.url,
+        method: params.method,
+        headers: params.headers,
+        body: params.body,
+        throw: params.throw,
+      });
+    } catch (error) {
+      // With throw: true, requestUrl also throws for error statuses
+      if (params.throw !== false && typeof (error as { status?: unknown }).status === 'number') throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(params.method, params.url, `${params.method} ${params.url} failed: ${reason}`);
+    }
     return {
       status: response.status,
       text: response.text,
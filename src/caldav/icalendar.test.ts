@@ -0,0 +1,163 @@
+import {
+  decodeText,
+  encodeText,
+  foldLine,
+  parseContentLine,
+  parseICalendar,
+  serializeContentLine,
+  serializeICalendar,
+  splitValues,
+} from './icalendar';
+
+function octets(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
+
+describe('icalendar', () => {
+  describe('parseContentLine', () => {
+    it('should split name, parameters and value at the first unquoted colon', () => {
+      expect(parseContentLine('SUMMARY;LANGUAGE=en:Meeting at 10:30')).toEqual({
+        name: 'SUMMARY',
+        params: { LANGUAGE: ['en'] },
+        value: 'Meeting at 10:30',
+      });
+    });
+
+    it('should read quoted parameter values containing separators', () => {
+      const property = parseContentLine('ATTENDEE;CN="Doe, John";DELEGATED-FROM="mailto:a@example.com":mailto:j@example.com');
+
+      expect(property?.params).toEqual({ CN: ['Doe, John'], 'DELEGATED-FROM': ['mailto:a@example.com'] });
+      expect(property?.value).toBe('mailto:j@example.com');
+    });
+
+    it('should read multi-valued and empty parameters', () => {
+      expect(parseContentLine('ATTENDEE;MEMBER="mailto:a@x","mailto:b@x";RSVP=TRUE:mailto:c@x')?.params)
+        .toEqual({ MEMBER: ['mailto:a@x', 'mailto:b@x'], RSVP: ['TRUE'] });
+      expect(parseContentLine('RELATED-TO;RELTYPE="":123')?.params).toEqual({ RELTYPE: [''] });
+    });
+
+    it('should upper-case names and keep the value as written', () => {
+      expect(parseContentLine('summary;value=TEXT:a\\, b')).toEqual({ name: 'SUMMARY', params: { VALUE: ['TEXT'] }, value: 'a\\, b' });
+    });
+
+    it('should reject lines without a value', () => {
+      expect(parseContentLine('SUMMARY')).toBeNull();
+      expect(parseContentLine('SUMMARY;X="unterminated:value')).toBeNull();
+      expect(parseContentLine(': no name')).toBeNull();
+    });
+  });
+
+  describe('parseICalendar', () => {
+    it('should build nested components from folded data', () => {
+      const [calendar] = parseICalendar([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VTODO',
+        'UID:1',
+        'SUMMARY:A long',
+        '  title',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'END:VALARM',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n'));
+
+      expect(calendar.name).toBe('VCALENDAR');
+      expect(calendar.properties.map(p => p.name)).toEqual(['VERSION']);
+      const [todo] = calendar.components;
+      expect(todo.properties.map(p => `${p.name}:${p.value}`)).toEqual(['UID:1', 'SUMMARY:A long title']);
+      expect(todo.components[0]).toEqual({
+        name: 'VALARM',
+        properties: [{ name: 'TRIGGER', params: {}, value: '-PT15M' }],
+        components: [],
+      });
+    });
+
+    it('should skip malformed lines and close components left open', () => {
+      const roots = parseICalendar('UID:outside\nBEGIN:VTODO\ngarbage\nEND:VEVENT\nBEGIN:VALARM\nACTION:DISPLAY\nEND:VTODO\nBEGIN:VTODO\nUID:2');
+
+      expect(roots.map(c => c.name)).toEqual(['VTODO', 'VTODO']);
+      expect(roots[0].properties).toEqual([]);
+      expect(roots[0].components[0].properties).toHaveLength(1);
+      expect(roots[1].properties[0].value).toBe('2');
+    });
+  });
+
+  describe('serializeICalendar', () => {
+    it('should round-trip components, quoting parameter values where needed', () => {
+      const data = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'RELATED-TO;RELTYPE="":123',
+        'ATTENDEE;CN="Doe, John";ROLE=CHAIR:mailto:j@example.com',
+        'CATEGORIES:a\\,b,c',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      expect(serializeICalendar(parseICalendar(data)[0])).toBe(data);
+    });
+
+    it('should fold long lines', () => {
+      const text = serializeICalendar({
+        name: 'VTODO',
+        properties: [{ name: 'DESCRIPTION', params: {}, value: 'x'.repeat(200) }],
+        components: [],
+      });
+
+      for (const line of text.split('\r\n')) {
+        expect(octets(line)).toBeLessThanOrEqual(75);
+      }
+      expect(parseICalendar(text)[0].properties[0].value).toBe('x'.repeat(200));
+    });
+  });
+
+  describe('serializeContentLine', () => {
+    it('should drop double quotes, which parameter values cannot contain', () => {
+      expect(serializeContentLine({ name: 'X-A', params: { CN: ['say "hi"'] }, value: 'v' })).toBe('X-A;CN=say hi:v');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave lines of up to 75 octets alone', () => {
+      const line = `SUMMARY:${'a'.repeat(67)}`;
+      expect(foldLine(line)).toBe(line);
+    });
+
+    it('should fold at 75 octets, counting the leading space of continuations', () => {
+      const folded = foldLine(`SUMMARY:${'a'.repeat(150)}`).split('\r\n');
+
+      expect(folded.map(octets)).toEqual([75, 75, 10]);
+      expect(folded.slice(1).every(l => l.startsWith(' '))).toBe(true);
+    });
+
+    it('should not split multi-byte characters or surrogate pairs', () => {
+      const value = 'ü€😀'.repeat(30);
+      const folded = foldLine(`SUMMARY:${value}`);
+
+      for (const line of folded.split('\r\n')) {
+        expect(octets(line)).toBeLessThanOrEqual(75);
+        expect(line).not.toMatch(/[\ud800-\udbff]$/);
+      }
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${value}`);
+    });
+  });
+
+  describe('TEXT values', () => {
+    it('should decode escapes in a single pass', () => {
+      expect(decodeText('a\\nb\\Nc\\, d\\; e\\\\n f\\x')).toBe('a\nb\nc, d; e\\n f\\x');
+    });
+
+    it('should round-trip through encodeText', () => {
+      const text = 'Call Bob; then Carol, at C:\\temp\nnext line';
+      expect(decodeText(encodeText(text))).toBe(text);
+      expect(encodeText('a\r\nb')).toBe('a\\nb');
+    });
+
+    it('should split multi-valued properties on unescaped commas only', () => {
+      expect(splitValues('work,a\\,b,c\\\\,d')).toEqual(['work', 'a\\,b', 'c\\\\', 'd']);
+      expect(splitValues('')).toEqual(['']);
+    });
+  });
+});
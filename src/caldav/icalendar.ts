@@ -0,0 +1,224 @@
+/**
+ * Parsing and serialization of iCalendar data (RFC 5545 Section 3).
+ *
+ * Content lines are unfolded and tokenized into a tree of components
+ * (VCALENDAR, VTODO, VALARM, ...) holding their properties in order.
+ * Property values are kept as written, escapes included, since how to
+ * read them depends on the value type; decodeText() and splitValues()
+ * handle the TEXT and multi-valued cases. Serialization folds lines at
+ * 75 octets without splitting UTF-8 sequences.
+ *
+ * Parsing is lenient, as servers and clients produce all kinds of data:
+ * lines without a colon, properties outside any component and unmatched
+ * END lines are skipped, and components left open at the end are closed.
+ */
+
+export interface ICalProperty {
+  name: string; // upper-cased
+  params: Record<string, string[]>; // upper-cased names; values unquoted
+  value: string; // as written, escapes included
+}
+
+export interface ICalComponent {
+  name: string; // upper-cased
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+/** Maximum length of a content line in octets, excluding the CRLF. */
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Parse iCalendar data into its top-level components, usually a single
+ * VCALENDAR.
+ */
+export function parseICalendar(data: string): ICalComponent[] {
+  const roots: ICalComponent[] = [];
+  const stack: ICalComponent[] = [];
+
+  for (const line of unfoldLines(data)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      (stack.length > 0 ? stack[stack.length - 1].components : roots).push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const name = property.value.trim().toUpperCase();
+      const open = stack.map(c => c.name).lastIndexOf(name);
+      if (open !== -1) stack.length = open;
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Serialize a component, with its nested components, as folded content
+ * lines separated by CRLF.
+ */
+export function serializeICalendar(component: ICalComponent): string {
+  return componentLines(component).map(foldLine).join('\r\n');
+}
+
+/**
+ * Tokenize one unfolded content line: name, parameters (with quoted
+ * values, which may contain `:`, `;` and `,`) and value. Null when the
+ * line has no value.
+ */
+export function parseContentLine(line: string): ICalProperty | null {
+  const nameMatch = /^[A-Za-z0-9-]+/.exec(line);
+  if (!nameMatch) return null;
+
+  const property: ICalProperty = { name: nameMatch[0].toUpperCase(), params: {}, value: '' };
+  let i = nameMatch[0].length;
+
+  while (line[i] === ';') {
+    const equals = line.indexOf('=', i);
+    if (equals === -1) return null;
+    const paramName = line.slice(i + 1, equals).trim().toUpperCase();
+    const values: string[] = [];
+    i = equals;
+    do {
+      i++;
+      if (line[i] === '"') {
+        const close = line.indexOf('"', i + 1);
+        if (close === -1) return null;
+        values.push(line.slice(i + 1, close));
+        i = close + 1;
+      } else {
+        const end = i + /^[^;:,]*/.exec(line.slice(i))![0].length;
+        values.push(line.slice(i, end));
+        i = end;
+      }
+    } while (line[i] === ',');
+    property.params[paramName] = [...(property.params[paramName] ?? []), ...values];
+  }
+
+  if (line[i] !== ':') return null;
+  property.value = line.slice(i + 1);
+  return property;
+}
+
+/**
+ * Serialize a property as one unfolded content line. Parameter values
+ * containing `:`, `;` or `,`, and empty ones, are quoted.
+ */
+export function serializeContentLine(property: ICalProperty): string {
+  const params = Object.keys(property.params).map(name => {
+    const values = property.params[name].map(value => {
+      const text = value.replace(/"/g, '');
+      return text === '' || /[:;,]/.test(text) ? `"${text}"` : text;
+    });
+    return `;${name}=${values.join(',')}`;
+  });
+  return `${property.name}${params.join('')}:${property.value}`;
+}
+
+/**
+ * RFC 5545 Section 3.1: split a content line into lines of at most 75
+ * octets, continuation lines starting with a space. Splits only between
+ * characters, never inside a UTF-8 sequence or surrogate pair.
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let start = 0;
+  let octets = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const code = line.charCodeAt(i);
+    const pair = code >= 0xd800 && code <= 0xdbff && i + 1 < line.length;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : pair ? 4 : 3;
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(line.slice(start, i));
+      start = i;
+      octets = 0;
+    }
+    octets += size;
+    if (pair) i++;
+  }
+  parts.push(line.slice(start));
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Decode a TEXT value (RFC 5545 Section 3.3.11): `\n`, `\N`, `\,`, `\;`
+ * and `\\`. Other backslashes are kept as they are.
+ */
+export function decodeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/**
+ * Encode a string as a TEXT value.
+ */
+export function encodeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split a multi-valued property value (CATEGORIES, RESOURCES, EXDATE, ...)
+ * on the commas that separate its values, leaving escaped ones in place.
+ * The values are returned still escaped.
+ */
+export function splitValues(value: string): string[] {
+  const values: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (value[i] === ',') {
+      values.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  values.push(value.slice(start));
+  return values;
+}
+
+/**
+ * The first property with this name, if any.
+ */
+export function findProperty(component: ICalComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+/**
+ * All properties with this name, in order.
+ */
+export function findProperties(component: ICalComponent, name: string): ICalProperty[] {
+  return component.properties.filter(p => p.name === name);
+}
+
+/**
+ * The first value of a parameter, if the property has it.
+ */
+export function paramValue(property: ICalProperty, name: string): string | undefined {
+  return property.params[name]?.[0];
+}
+
+/**
+ * The content lines of iCalendar data with folding undone (RFC 5545
+ * Section 3.1); empty lines are dropped.
+ */
+function unfoldLines(data: string): string[] {
+  return data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line !== '');
+}
+
+function componentLines(component: ICalComponent): string[] {
+  return [
+    `BEGIN:${component.name}`,
+    ...component.properties.map(serializeContentLine),
+    ...component.components.reduce<string[]>((lines, c) => lines.concat(componentLines(c)), []),
+    `END:${component.name}`,
+  ];
+}
@@ -0,0 +1,121 @@
+import {
+  CALDAV_NS,
+  DAV_NS,
+  findProp,
+  parseMultistatus,
+  parseStatusLine,
+  parseXml,
+  propText,
+  resolveHref,
+} from './multistatus';
+
+describe('multistatus', () => {
+  describe('parseXml', () => {
+    it('should resolve prefixed and default namespaces', () => {
+      const root = parseXml(`<?xml version="1.0"?>
+<multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <C:calendar-data/>
+  <x:other xmlns:x="urn:example"><inner/></x:other>
+</multistatus>`);
+
+      expect(root).toEqual(expect.objectContaining({ namespace: DAV_NS, name: 'multistatus' }));
+      expect(root.children[0]).toEqual(expect.objectContaining({ namespace: CALDAV_NS, name: 'calendar-data' }));
+      expect(root.children[1].namespace).toBe('urn:example');
+      // Default namespace is inherited by unprefixed children
+      expect(root.children[1].children[0].namespace).toBe(DAV_NS);
+    });
+
+    it('should decode entities and keep CDATA content verbatim', () => {
+      const root = parseXml('<a>Tasks &amp; &lt;Events&gt; &#233;&#x41;<![CDATA[ & <raw> ]]></a>');
+      expect(root.text).toBe('Tasks & <Events> éA & <raw> ');
+    });
+
+    it('should replace numeric entities beyond Unicode', () => {
+      expect(parseXml('<a>&#x110000;&#99999999999;&#x10FFFF;</a>').text).toBe('\uFFFD\uFFFD\u{10FFFF}');
+    });
+
+    it('should read attributes, including ones containing >', () => {
+      const root = parseXml('<a><comp name="VTODO" note=\'a > b\'/></a>');
+      expect(root.children[0].attributes).toEqual({ name: 'VTODO', note: 'a > b' });
+    });
+
+    it('should skip comments and processing instructions', () => {
+      const root = parseXml('<?xml version="1.0"?><!-- <b/> --><a>x</a>');
+      expect(root.children).toHaveLength(0);
+      expect(root.text).toBe('x');
+    });
+
+    it('should throw on unclosed elements', () => {
+      expect(() => parseXml('<a><b></a>')).toThrow();
+      expect(() => parseXml('<a><b>')).toThrow('Unclosed element');
+    });
+
+    it('should throw on closing tags that do not match the open element', () => {
+      expect(() => parseXml('<d:a xmlns:d="DAV:"><d:b></d:c></d:a>'))
+        .toThrow('Mismatched closing tag </d:c>, expected </d:b>');
+    });
+  });
+
+  describe('parseMultistatus', () => {
+    it('should expose per-propstat status codes', () => {
+      const ms = parseMultistatus(`<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:response>
+    <d:href>/cal/a.ics</d:href>
+    <d:propstat>
+      <d:prop><d:getetag>"e1"</d:getetag></d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+    <d:propstat>
+      <d:prop><c:calendar-data/></d:prop>
+      <d:status>HTTP/1.1 404 Not Found</d:status>
+    </d:propstat>
+  </d:response>
+</d:multistatus>`);
+
+      const [response] = ms.responses;
+      expect(response.hrefs).toEqual(['/cal/a.ics']);
+      expect(response.status).toBeNull();
+      expect(response.propstats.map(p => p.status)).toEqual([200, 404]);
+      expect(propText(response, DAV_NS, 'getetag')).toBe('"e1"');
+      // Properties in failed propstats are not returned
+      expect(findProp(response, CALDAV_NS, 'calendar-data')).toBeUndefined();
+    });
+
+    it('should read response-level status and the collection sync-token', () => {
+      const ms = parseMultistatus(`<multistatus xmlns="DAV:">
+  <response><href>/cal/gone.ics</href><status>HTTP/1.1 404 Not Found</status></response>
+  <sync-token>tok-2</sync-token>
+</multistatus>`);
+
+      expect(ms.responses[0].status).toBe(404);
+      expect(ms.syncToken).toBe('tok-2');
+    });
+
+    it('should not match elements with the right name in the wrong namespace', () => {
+      const ms = parseMultistatus(`<d:multistatus xmlns:d="DAV:" xmlns:x="urn:other">
+  <d:response><d:href>/a</d:href><d:propstat><d:prop><x:displayname>Wrong</x:displayname></d:prop></d:propstat></d:response>
+</d:multistatus>`);
+
+      expect(propText(ms.responses[0], DAV_NS, 'displayname')).toBeNull();
+    });
+
+    it('should reject documents that are not a multistatus', () => {
+      expect(() => parseMultistatus('<d:error xmlns:d="DAV:"/>')).toThrow('Expected DAV:multistatus');
+    });
+  });
+
+  describe('parseStatusLine', () => {
+    it('should extract the status code', () => {
+      expect(parseStatusLine('HTTP/1.1 507 Insufficient Storage')).toBe(507);
+      expect(parseStatusLine('garbage')).toBeNull();
+    });
+  });
+
+  describe('resolveHref', () => {
+    it('should keep absolute URLs and resolve paths against the origin', () => {
+      expect(resolveHref('https://other.example.com/a/', 'https://caldav.example.com/dav/')).toBe('https://other.example.com/a/');
+      expect(resolveHref('/calendars/a/', 'https://caldav.example.com/dav/')).toBe('https://caldav.example.com/calendars/a/');
+      expect(resolveHref('a.ics', 'https://caldav.example.com/cal/')).toBe('https://caldav.example.com/cal/a.ics');
+    });
+  });
+});
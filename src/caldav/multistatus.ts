@@ -0,0 +1,259 @@
+/**
+ * Namespace-aware parsing of WebDAV multistatus responses (RFC 4918 Section 13).
+ *
+ * A small, dependency-free XML reader: resolves namespace prefixes
+ * (including default namespaces), decodes entities and CDATA sections,
+ * and exposes responses with their per-propstat status codes. It does
+ * not validate documents or process DTDs.
+ */
+
+export const DAV_NS = 'DAV:';
+export const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+export const CALENDARSERVER_NS = 'http://calendarserver.org/ns/';
+export const NEXTCLOUD_NS = 'http://nextcloud.com/ns';
+
+export interface XmlElement {
+  namespace: string; // resolved namespace URI, '' when none
+  name: string; // local name
+  attributes: Record<string, string>; // as written, excluding xmlns declarations
+  children: XmlElement[];
+  text: string; // decoded character data directly inside this element
+}
+
+export interface Propstat {
+  status: number;
+  props: XmlElement[]; // children of DAV:prop
+}
+
+export interface DavResponse {
+  hrefs: string[];
+  status: number | null; // response-level status, null when the response uses propstats
+  propstats: Propstat[];
+}
+
+export interface Multistatus {
+  responses: DavResponse[];
+  syncToken: string | null; // RFC 6578: direct child of multistatus
+}
+
+/**
+ * Parse an XML document and return its root element.
+ * Throws on unbalanced, mismatched or truncated markup.
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: Array<{ element: XmlElement; qname: string; scope: Map<string, string> }> = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  const appendText = (text: string) => {
+    if (stack.length > 0) stack[stack.length - 1].element.text += text;
+  };
+
+  while (i < xml.length) {
+    if (xml[i] !== '<') {
+      const end = xml.indexOf('<', i);
+      const raw = end === -1 ? xml.slice(i) : xml.slice(i, end);
+      appendText(decodeEntities(raw));
+      i = end === -1 ? xml.length : end;
+      continue;
+    }
+
+    if (xml.startsWith('<![CDATA[', i)) {
+      const end = xml.indexOf(']]>', i);
+      if (end === -1) throw new Error('Unterminated CDATA section');
+      appendText(xml.slice(i + 9, end));
+      i = end + 3;
+      continue;
+    }
+    if (xml.startsWith('<!--', i)) {
+      const end = xml.indexOf('-->', i);
+      if (end === -1) throw new Error('Unterminated comment');
+      i = end + 3;
+      continue;
+    }
+    if (xml.startsWith('<?', i) || xml.startsWith('<!', i)) {
+      const end = xml.indexOf('>', i);
+      if (end === -1) throw new Error('Unterminated declaration');
+      i = end + 1;
+      continue;
+    }
+
+    const end = findTagEnd(xml, i);
+    if (xml[i + 1] === '/') {
+      const qname = xml.slice(i + 2, end).trim();
+      const open = stack.pop();
+      if (!open) throw new Error(`Unexpected closing tag </${qname}>`);
+      if (qname !== open.qname) throw new Error(`Mismatched closing tag </${qname}>, expected </${open.qname}>`);
+      i = end + 1;
+      continue;
+    }
+
+    const selfClosing = xml[end - 1] === '/';
+    const body = xml.slice(i + 1, selfClosing ? end - 1 : end);
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) throw new Error('Malformed tag');
+    const qname = nameMatch[1];
+
+    const parentScope = stack.length > 0 ? stack[stack.length - 1].scope : new Map<string, string>();
+    const scope = new Map(parentScope);
+    const attributes: Record<string, string> = {};
+    const attrText = body.slice(nameMatch[0].length);
+    const attrRegex = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let attr;
+    while ((attr = attrRegex.exec(attrText)) !== null) {
+      const value = decodeEntities(attr[3] ?? attr[4] ?? '');
+      if (attr[1] === 'xmlns') {
+        scope.set('', value);
+      } else if (attr[1].startsWith('xmlns:')) {
+        scope.set(attr[1].slice(6), value);
+      } else {
+        attributes[attr[1]] = value;
+      }
+    }
+
+    const colon = qname.indexOf(':');
+    const prefix = colon === -1 ? '' : qname.slice(0, colon);
+    const element: XmlElement = {
+      namespace: scope.get(prefix) ?? '',
+      name: colon === -1 ? qname : qname.slice(colon + 1),
+      attributes,
+      children: [],
+      text: '',
+    };
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].element.children.push(element);
+    } else if (!root) {
+      root = element;
+    }
+    if (!selfClosing) stack.push({ element, qname, scope });
+    i = end + 1;
+  }
+
+  if (!root) throw new Error('No root element');
+  if (stack.length > 0) throw new Error(`Unclosed element <${stack[stack.length - 1].element.name}>`);
+  return root;
+}
+
+/**
+ * Parse a DAV:multistatus body into typed responses.
+ * Propstats without a status element are treated as 200, as some servers omit it.
+ */
+export function parseMultistatus(xml: string): Multistatus {
+  const root = parseXml(xml);
+  if (!isElement(root, DAV_NS, 'multistatus')) {
+    throw new Error(`Expected DAV:multistatus, got ${root.namespace}${root.name}`);
+  }
+
+  const responses = childElements(root, DAV_NS, 'response').map((response): DavResponse => {
+    const statusEl = childElement(response, DAV_NS, 'status');
+    return {
+      hrefs: hrefsOf(response),
+      status: statusEl ? parseStatusLine(statusEl.text) : null,
+      propstats: childElements(response, DAV_NS, 'propstat').map(propstat => {
+        const propstatStatus = childElement(propstat, DAV_NS, 'status');
+        const prop = childElement(propstat, DAV_NS, 'prop');
+        return {
+          status: (propstatStatus ? parseStatusLine(propstatStatus.text) : null) ?? 200,
+          props: prop ? prop.children : [],
+        };
+      }),
+    };
+  });
+
+  const token = childElement(root, DAV_NS, 'sync-token');
+  return { responses, syncToken: token ? token.text.trim() || null : null };
+}
+
+/**
+ * Find a property in a response's successful (2xx) propstats.
+ */
+export function findProp(response: DavResponse, namespace: string, name: string): XmlElement | undefined {
+  for (const propstat of response.propstats) {
+    if (propstat.status < 200 || propstat.status >= 300) continue;
+    const prop = propstat.props.find(p => isElement(p, namespace, name));
+    if (prop) return prop;
+  }
+  return undefined;
+}
+
+/** Trimmed text of a property, or null when absent, failed, or empty. */
+export function propText(response: DavResponse, namespace: string, name: string): string | null {
+  const prop = findProp(response, namespace, name);
+  const text = prop ? prop.text.trim() : '';
+  return text === '' ? null : text;
+}
+
+export function childElements(element: XmlElement, namespace: string, name: string): XmlElement[] {
+  return element.children.filter(c => isElement(c, namespace, name));
+}
+
+export function childElement(element: XmlElement, namespace: string, name: string): XmlElement | undefined {
+  return element.children.find(c => isElement(c, namespace, name));
+}
+
+/** Trimmed DAV:href children of an element. */
+export function hrefsOf(element: XmlElement): string[] {
+  return childElements(element, DAV_NS, 'href')
+    .map(h => h.text.trim())
+    .filter(h => h !== '');
+}
+
+/** Status code from an HTTP status line such as "HTTP/1.1 404 Not Found". */
+export function parseStatusLine(line: string): number | null {
+  const match = line.match(/HTTP\/[\d.]+\s+(\d{3})/);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Make an href absolute. Absolute-path hrefs keep their exact path on the
+ * base URL's origin; relative ones resolve against the base URL.
+ */
+export function resolveHref(href: string, baseUrl: string): string {
+  if (/^https?:\/\//i.test(href)) return href;
+  const base = new URL(baseUrl);
+  if (href.startsWith('/')) return `${base.protocol}//${base.host}${href}`;
+  return new URL(href, base).toString();
+}
+
+function isElement(element: XmlElement, namespace: string, name: string): boolean {
+  return element.namespace === namespace && element.name === name;
+}
+
+/** Index of the '>' closing the tag starting at `start`, skipping quoted attribute values. */
+function findTagEnd(xml: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < xml.length; i++) {
+    const ch = xml[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === '\'') {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  throw new Error('Unterminated tag');
+}
+
+/**
+ * Decode predefined and numeric entities. A numeric reference beyond
+ * Unicode becomes U+FFFD rather than failing the whole document.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default: {
+        const codePoint = entity[1] === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+        return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : '\uFFFD';
+      }
+    }
+  });
+}
@@ -0,0 +1,84 @@
+import { RedirectingHttpClient } from './redirectingHttpClient';
+import { AuthorizingHttpClient, BasicAuthProvider } from './auth';
+import { HttpClient, HttpRequest } from './httpClient';
+import { RoutingHttpClient, respond } from '../../test/helpers/fakeHttp';
+
+const PROPFIND: HttpRequest = {
+  url: 'https://dav.example.com/.well-known/caldav',
+  method: 'PROPFIND',
+  headers: { 'Depth': '0' },
+  body: '<propfind/>',
+  throw: false,
+};
+
+function client(server: HttpClient, maxRedirects?: number): RedirectingHttpClient {
+  return new RedirectingHttpClient(
+    new AuthorizingHttpClient(server, new BasicAuthProvider('user', 'secret')), maxRedirects);
+}
+
+describe('RedirectingHttpClient', () => {
+  it('should follow a same-origin redirect with method, body and credentials kept', async () => {
+    const server = new RoutingHttpClient({
+      'https://dav.example.com/.well-known/caldav': respond(301, '', { Location: '/remote.php/dav/' }),
+      'https://dav.example.com/remote.php/dav/': respond(207, '<multistatus/>'),
+    });
+
+    const response = await client(server).request(PROPFIND);
+
+    expect(response.status).toBe(207);
+    expect(response.url).toBe('https://dav.example.com/remote.php/dav/');
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[1]).toMatchObject({ method: 'PROPFIND', body: '<propfind/>', headers: { 'Depth': '0' } });
+    expect(server.requests[1].headers?.['Authorization']).toBe(server.requests[0].headers?.['Authorization']);
+  });
+
+  it('should not send credentials after a redirect to another origin', async () => {
+    const server = new RoutingHttpClient({
+      'https://dav.example.com/.well-known/caldav': respond(302, '', { location: 'https://other.example.net/dav/' }),
+      'https://other.example.net/dav/': respond(307, '', { location: 'https://dav.example.com/dav/' }),
+      'https://dav.example.com/dav/': respond(207),
+    });
+
+    const response = await client(server).request(PROPFIND);
+
+    expect(response.status).toBe(207);
+    expect(server.requests[0].headers?.['Authorization']).toBeDefined();
+    // Once off the origin, the chain stays anonymous even back on it
+    expect(server.requests[1].headers?.['Authorization']).toBeUndefined();
+    expect(server.requests[2].headers?.['Authorization']).toBeUndefined();
+  });
+
+  it('should turn the request into a GET on 303', async () => {
+    const server = new RoutingHttpClient({
+      'https://dav.example.com/.well-known/caldav': respond(303, '', { Location: '/info' }),
+      'https://dav.example.com/info': respond(200),
+    });
+
+    await client(server).request(PROPFIND);
+
+    expect(server.requests[1]).toMatchObject({ url: 'https://dav.example.com/info', method: 'GET', body: undefined });
+  });
+
+  it('should return the redirect itself once the limit is reached', async () => {
+    const server = new RoutingHttpClient({
+      'https://dav.example.com/.well-known/caldav': respond(301, '', { Location: '/a' }),
+      'https://dav.example.com/a': respond(301, '', { Location: '/.well-known/caldav' }),
+    });
+
+    const response = await client(server, 3).request(PROPFIND);
+
+    expect(response.status).toBe(301);
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('should pass other responses through unchanged', async () => {
+    const server = new RoutingHttpClient({
+      'https://dav.example.com/.well-known/caldav': respond(301),
+    });
+
+    const response = await client(server).request(PROPFIND);
+
+    expect(response).toEqual(respond(301));
+    expect(server.requests).toHaveLength(1);
+  });
+});
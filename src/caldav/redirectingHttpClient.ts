@@ -0,0 +1,59 @@
+import { HttpClient, HttpRequest, HttpResponse, headerValue } from './httpClient';
+
+/** Redirect statuses; 303 turns the request into a GET, the others keep it. */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** Upper bound on redirects followed for one request. */
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * HttpClient decorator following redirects, which CalDAV servers commonly
+ * send for /.well-known/caldav (RFC 6764 Section 5) and when an account
+ * lives on another host or path than the one configured.
+ *
+ * Method and body are kept (a PROPFIND stays a PROPFIND), except on 303.
+ * Wrapped around AuthorizingHttpClient, each hop is authorized for its own
+ * URL while it stays on the origin of the original request; a hop to
+ * another origin is sent anonymously, so credentials are never handed to
+ * a host the user did not configure. The final response carries the URL
+ * that answered, for resolving relative hrefs in it.
+ */
+export class RedirectingHttpClient implements HttpClient {
+  private inner: HttpClient;
+  private maxRedirects: number;
+
+  constructor(inner: HttpClient, maxRedirects: number = DEFAULT_MAX_REDIRECTS) {
+    this.inner = inner;
+    this.maxRedirects = maxRedirects;
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    const origin = new URL(params.url).origin;
+    let current = params;
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.inner.request(current);
+      const location = REDIRECT_STATUSES.has(response.status)
+        ? headerValue(response.headers, 'location')
+        : undefined;
+      if (!location || redirects >= this.maxRedirects) {
+        return current === params ? response : { ...response, url: current.url };
+      }
+
+      const url = new URL(location, current.url).toString();
+      const crossOrigin = current.anonymous || new URL(url).origin !== origin;
+      current = response.status === 303
+        ? { ...current, url, method: 'GET', body: undefined }
+        : { ...current, url };
+      if (crossOrigin) {
+        current = { ...current, anonymous: true, headers: withoutAuthorization(current.headers) };
+      }
+    }
+  }
+}
+
+
+function withoutAuthorization(headers: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!headers) return headers;
+  return Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== 'authorization'));
+}
@@ -1,7 +1,11 @@
-import { App, requestUrl } from 'obsidian';
+import { App } from 'obsidian';
 import { CalDAVSettings } from '../types';
 import { CalDAVClientDirect } from './calDAVClientDirect';
 import { VTODOMapper } from './vtodoMapper';
+import { HttpClient, HttpRequest, HttpResponse, ObsidianHttpClient } from './httpClient';
+import { AuthProvider, AuthorizingHttpClient } from './auth';
+import { RedirectingHttpClient } from './redirectingHttpClient';
+import { resolveCalendarBindings } from '../sync/calendarBindings';
 
 interface CapturedExchange {
 	step: string;
@@ -23,29 +27,55 @@ interface CapturedExchange {
 const TEST_UID = 'obsidian-dump-test-001';
 const DUMP_DIR = '.caldav-sync/test-caldav-requests';
 
+/**
+ * Remembers the last request sent, including the Authorization header
+ * added by the auth provider, so exchanges record what actually went out.
+ */
+class RecordingHttpClient implements HttpClient {
+	lastRequest: HttpRequest | null = null;
+	private inner: HttpClient;
+
+	constructor(inner: HttpClient) {
+		this.inner = inner;
+	}
+
+	async request(params: HttpRequest): Promise<HttpResponse> {
+		this.lastRequest = params;
+		return this.inner.request(params);
+	}
+}
+
+interface DumpTransport {
+	http: HttpClient;
+	recorder: RecordingHttpClient;
+}
+
 function redactHeaders(headers: Record<string, string>): Record<string, string> {
 	const redacted = { ...headers };
 	if (redacted['Authorization']) {
-		redacted['Authorization'] = redacted['Authorization'].replace(/Basic .+/, 'Basic <REDACTED>');
+		// Keep the scheme; Digest parameters include the username
+		redacted['Authorization'] = redacted['Authorization'].replace(/^(\S+)\s.+$/, '$1 <REDACTED>');
 	}
 	return redacted;
 }
 
 async function capturedRequest(
+	transport: DumpTransport,
 	step: string,
 	description: string,
 	method: string,
 	url: string,
 	headers: Record<string, string>,
 	body?: string
-): Promise<{ exchange: CapturedExchange; response: { status: number; text: string; headers: Record<string, string> } }> {
-	const response = await requestUrl({
+): Promise<{ exchange: CapturedExchange; response: { status: number; text: string; headers: Record<string, string>; url: string } }> {
+	const response = await transport.http.request({
 		url,
 		method,
 		headers,
 		body,
 		throw: false
 	});
+	const sentHeaders = transport.recorder.lastRequest?.headers ?? headers;
 
 	const responseHeaders: Record<string, string> = {};
 	if (response.headers) {
@@ -61,7 +91,7 @@ async function capturedRequest(
 		request: {
 			method,
 			url,
-			headers: redactHeaders(headers),
+			headers: redactHeaders(sentHeaders),
 			...(body ? { body } : {})
 		},
 		response: {
@@ -71,7 +101,8 @@ async function capturedRequest(
 		}
 	};
 
-	return { exchange, response: { status: response.status, text: response.text, headers: responseHeaders } };
+	// url: where the request ended up after redirects
+	return { exchange, response: { status: response.status, text: response.text, headers: responseHeaders, url: response.url ?? url } };
 }
 
 function buildTestVTODO(uid: string, completed: boolean): string {
@@ -132,14 +163,19 @@ function formatDateOnly(date: Date): string {
  * Dump all CalDAV request/response exchanges to JSON fixture files.
  * Performs: discovery → fetch → create → fetch → update → fetch → delete → fetch
  */
-export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Promise<string> {
+export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings, auth: AuthProvider): Promise<string> {
 	const log: string[] = [];
 	const exchanges: CapturedExchange[] = [];
 	const mapper = new VTODOMapper();
+	// The dump exercises a single calendar: the first configured one
+	const calendarName = resolveCalendarBindings(settings)[0].calendarName;
 
-	const authHeader = 'Basic ' + btoa(`${settings.username}:${settings.password}`);
+	const recorder = new RecordingHttpClient(new ObsidianHttpClient());
+	const transport: DumpTransport = {
+		http: new RedirectingHttpClient(new AuthorizingHttpClient(recorder, auth)),
+		recorder,
+	};
 	const xmlHeaders = {
-		'Authorization': authHeader,
 		'Content-Type': 'application/xml; charset=utf-8',
 		'Depth': '0'
 	};
@@ -205,6 +241,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		const wellKnownUrl = `${baseUrl.protocol}//${baseUrl.host}/.well-known/caldav`;
 
 		const wk = await capturedRequest(
+			transport,
 			'01-propfind-well-known',
 			'Discover CalDAV via /.well-known/caldav',
 			'PROPFIND',
@@ -220,11 +257,12 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		if (wk.response.status === 207) {
 			addLog('  Well-known succeeded');
 			principalXml = wk.response.text;
-			principalContextUrl = wellKnownUrl;
+			principalContextUrl = wk.response.url;
 		} else {
 			// Step 1b: Fallback to direct PROPFIND
 			addLog('  Well-known failed, trying direct PROPFIND');
 			const direct = await capturedRequest(
+				transport,
 				'01b-propfind-direct',
 				'Fallback: PROPFIND on server URL for current-user-principal',
 				'PROPFIND',
@@ -239,24 +277,20 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 			}
 
 			principalXml = direct.response.text;
-			principalContextUrl = settings.serverUrl;
+			principalContextUrl = direct.response.url;
 		}
 
 		// Extract principal URL
-		const principalMatch = principalXml.match(/<d:current-user-principal>\s*<d:href>([^<]+)<\/d:href>/);
-		if (!principalMatch) {
+		const principalUrl = CalDAVClientDirect.parsePrincipalFromXML(principalXml, principalContextUrl);
+		if (!principalUrl) {
 			throw new Error('Could not find current-user-principal in response');
 		}
-		let principalUrl = principalMatch[1];
-		if (!principalUrl.startsWith('http')) {
-			const pu = new URL(principalContextUrl);
-			principalUrl = `${pu.protocol}//${pu.host}${principalUrl}`;
-		}
 		addLog(`  Principal URL: ${principalUrl}`);
 
 		// ── Step 2: Get calendar-home-set ──
 		addLog('Step 2: PROPFIND principal for calendar-home-set');
 		const step2 = await capturedRequest(
+			transport,
 			'02-propfind-principal',
 			'Get calendar-home-set from principal',
 			'PROPFIND',
@@ -270,20 +304,17 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 			throw new Error(`Failed to get calendar-home-set: ${step2.response.status}`);
 		}
 
-		const homeMatch = step2.response.text.match(/<c:calendar-home-set>\s*<d:href>([^<]+)<\/d:href>/);
-		if (!homeMatch) {
+		const homeUrls = CalDAVClientDirect.parseCalendarHomesFromXML(step2.response.text, step2.response.url);
+		if (homeUrls.length === 0) {
 			throw new Error('Could not find calendar-home-set in principal response');
 		}
-		let homeUrl = homeMatch[1];
-		if (!homeUrl.startsWith('http')) {
-			const hu = new URL(principalUrl);
-			homeUrl = `${hu.protocol}//${hu.host}${homeUrl}`;
-		}
+		const homeUrl = homeUrls[0];
 		addLog(`  Calendar home: ${homeUrl}`);
 
 		// ── Step 3: List calendars ──
 		addLog('Step 3: PROPFIND calendars (Depth: 1)');
 		const step3 = await capturedRequest(
+			transport,
 			'03-propfind-calendars',
 			'List calendars (Depth: 1)',
 			'PROPFIND',
@@ -297,18 +328,17 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 			throw new Error(`PROPFIND calendars failed: ${step3.response.status}`);
 		}
 
-		const calendars = CalDAVClientDirect.parseCalendarsFromXML(step3.response.text, settings.serverUrl);
+		const calendars = CalDAVClientDirect.parseCalendarsFromXML(step3.response.text, step3.response.url);
 		addLog(`  Found ${calendars.length} calendars: ${calendars.map(c => c.displayName).join(', ')}`);
 
-		const calendar = calendars.find(c => c.displayName === settings.calendarName);
+		const calendar = calendars.find(c => c.displayName === calendarName);
 		if (!calendar) {
-			throw new Error(`Calendar '${settings.calendarName}' not found. Available: ${calendars.map(c => c.displayName).join(', ')}`);
+			throw new Error(`Calendar '${calendarName}' not found. Available: ${calendars.map(c => c.displayName).join(', ')}`);
 		}
 		const calendarUrl = calendar.url;
 		addLog(`  Using calendar: ${calendarUrl}`);
 
 		const reportHeaders = {
-			'Authorization': authHeader,
 			'Content-Type': 'application/xml; charset=utf-8',
 			'Depth': '1'
 		};
@@ -316,6 +346,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		// ── Step 4: Fetch all VTODOs (initial state) ──
 		addLog('Step 4: REPORT fetch all VTODOs (initial state)');
 		const step4 = await capturedRequest(
+			transport,
 			'04-report-fetch-vtodos',
 			'Fetch all VTODOs from calendar',
 			'REPORT',
@@ -325,18 +356,18 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		);
 		await saveExchange(step4.exchange);
 
-		const initialVtodos = CalDAVClientDirect.parseVTODOsFromXML(step4.response.text, settings.serverUrl);
+		const initialVtodos = CalDAVClientDirect.parseVTODOsFromXML(step4.response.text, step4.response.url);
 		addLog(`  Found ${initialVtodos.length} VTODOs`);
 
 		// Clean up any leftover test VTODO from previous run
 		const existing = initialVtodos.find(v => mapper.extractUID(v.data) === TEST_UID);
 		if (existing) {
 			addLog(`  Cleaning up leftover test VTODO (${TEST_UID})`);
-			const deleteHeaders: Record<string, string> = { 'Authorization': authHeader };
+			const deleteHeaders: Record<string, string> = {};
 			if (existing.etag) {
 				deleteHeaders['If-Match'] = `"${existing.etag}"`;
 			}
-			await requestUrl({ url: existing.url, method: 'DELETE', headers: deleteHeaders, throw: false });
+			await transport.http.request({ url: existing.url, method: 'DELETE', headers: deleteHeaders, throw: false });
 		}
 
 		// ── Step 5: Create test VTODO ──
@@ -344,12 +375,12 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		const vtodoData = buildTestVTODO(TEST_UID, false);
 		const createUrl = `${calendarUrl.replace(/\/+$/, '')}/${TEST_UID}.ics`;
 		const step5 = await capturedRequest(
+			transport,
 			'05-put-create-vtodo',
 			'Create test VTODO with all fields',
 			'PUT',
 			createUrl,
 			{
-				'Authorization': authHeader,
 				'Content-Type': 'text/calendar; charset=utf-8',
 				'If-None-Match': '*'
 			},
@@ -365,6 +396,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		// ── Step 6: Fetch after create ──
 		addLog('Step 6: REPORT fetch after create');
 		const step6 = await capturedRequest(
+			transport,
 			'06-report-fetch-after-create',
 			'Fetch all VTODOs after creating test task',
 			'REPORT',
@@ -374,7 +406,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		);
 		await saveExchange(step6.exchange);
 
-		const afterCreateVtodos = CalDAVClientDirect.parseVTODOsFromXML(step6.response.text, settings.serverUrl);
+		const afterCreateVtodos = CalDAVClientDirect.parseVTODOsFromXML(step6.response.text, step6.response.url);
 		const created = afterCreateVtodos.find(v => mapper.extractUID(v.data) === TEST_UID);
 		if (!created) {
 			throw new Error('Test VTODO not found after creation');
@@ -385,13 +417,13 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		addLog('Step 7: PUT update test VTODO (completed + priority 1)');
 		const updatedVtodoData = buildTestVTODO(TEST_UID, true);
 		const updateHeaders: Record<string, string> = {
-			'Authorization': authHeader,
 			'Content-Type': 'text/calendar; charset=utf-8'
 		};
 		if (created.etag) {
 			updateHeaders['If-Match'] = `"${created.etag}"`;
 		}
 		const step7 = await capturedRequest(
+			transport,
 			'07-put-update-vtodo',
 			'Update test VTODO — mark completed, change priority',
 			'PUT',
@@ -409,6 +441,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		// ── Step 8: Fetch after update ──
 		addLog('Step 8: REPORT fetch after update');
 		const step8 = await capturedRequest(
+			transport,
 			'08-report-fetch-after-update',
 			'Fetch all VTODOs after updating test task',
 			'REPORT',
@@ -418,7 +451,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		);
 		await saveExchange(step8.exchange);
 
-		const afterUpdateVtodos = CalDAVClientDirect.parseVTODOsFromXML(step8.response.text, settings.serverUrl);
+		const afterUpdateVtodos = CalDAVClientDirect.parseVTODOsFromXML(step8.response.text, step8.response.url);
 		const updated = afterUpdateVtodos.find(v => mapper.extractUID(v.data) === TEST_UID);
 		if (!updated) {
 			throw new Error('Test VTODO not found after update');
@@ -427,11 +460,12 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 
 		// ── Step 9: Delete test VTODO ──
 		addLog('Step 9: DELETE test VTODO');
-		const deleteHeaders: Record<string, string> = { 'Authorization': authHeader };
+		const deleteHeaders: Record<string, string> = {};
 		if (updated.etag) {
 			deleteHeaders['If-Match'] = `"${updated.etag}"`;
 		}
 		const step9 = await capturedRequest(
+			transport,
 			'09-delete-vtodo',
 			'Delete test VTODO',
 			'DELETE',
@@ -448,6 +482,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		// ── Step 10: Fetch after delete (confirm cleanup) ──
 		addLog('Step 10: REPORT fetch after delete (confirm cleanup)');
 		const step10 = await capturedRequest(
+			transport,
 			'10-report-fetch-after-delete',
 			'Final state — confirm test VTODO is gone',
 			'REPORT',
@@ -457,7 +492,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		);
 		await saveExchange(step10.exchange);
 
-		const finalVtodos = CalDAVClientDirect.parseVTODOsFromXML(step10.response.text, settings.serverUrl);
+		const finalVtodos = CalDAVClientDirect.parseVTODOsFromXML(step10.response.text, step10.response.url);
 		const stillExists = finalVtodos.find(v => mapper.extractUID(v.data) === TEST_UID);
 		if (stillExists) {
 			addLog('  WARNING: Test VTODO still exists after delete!');
@@ -469,7 +504,7 @@ export async function dumpCalDAVRequests(app: App, settings: CalDAVSettings): Pr
 		// ── Write dump log ──
 		const summary = `CalDAV Request Dump — ${new Date().toISOString()}
 Server: ${settings.serverUrl}
-Calendar: ${settings.calendarName}
+Calendar: ${calendarName}
 Files: ${exchanges.length} exchanges saved
 
 ${log.join('\n')}
@@ -0,0 +1,152 @@
+import { RetryingHttpClient } from './retryingHttpClient';
+import { HttpRequest } from './httpClient';
+import { ScriptedHttpClient, respond } from '../../test/helpers/fakeHttp';
+import { RequestTimeoutError } from './errors';
+
+const GET: HttpRequest = { url: 'https://dav.example.com/cal/a.ics', method: 'GET', throw: false };
+
+describe('RetryingHttpClient', () => {
+  let sleeps: number[];
+  let warn: jest.SpyInstance;
+  const timing = {
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+    },
+    random: () => 0.5,
+  };
+
+  beforeEach(() => {
+    sleeps = [];
+    warn = jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  describe('retries', () => {
+    it('should retry a 503 with exponential backoff and return the first success', async () => {
+      const inner = new ScriptedHttpClient([respond(503), respond(503), respond(207)]);
+      const client = new RetryingHttpClient(inner, { baseDelayMs: 100 }, timing);
+
+      const response = await client.request(GET);
+
+      expect(response.status).toBe(207);
+      expect(inner.requests).toHaveLength(3);
+      // Equal jitter with random() = 0.5: three quarters of 100, then of 200
+      expect(sleeps).toEqual([75, 150]);
+      expect(warn).toHaveBeenCalledWith(`[HttpClient] GET ${GET.url} returned 503, retrying in 75ms`);
+    });
+
+    it('should return the last response when retries run out', async () => {
+      const inner = new ScriptedHttpClient([respond(500), respond(500), respond(502)]);
+      const client = new RetryingHttpClient(inner, { maxRetries: 2 }, timing);
+
+      const response = await client.request(GET);
+
+      expect(response.status).toBe(502);
+      expect(inner.requests).toHaveLength(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const inner = new ScriptedHttpClient([respond(404)]);
+      const response = await new RetryingHttpClient(inner, {}, timing).request(GET);
+
+      expect(response.status).toBe(404);
+      expect(inner.requests).toHaveLength(1);
+    });
+
+    it('should cap the backoff at maxDelayMs', async () => {
+      const inner = new ScriptedHttpClient([respond(500), respond(500), respond(500), respond(200)]);
+      await new RetryingHttpClient(inner, { baseDelayMs: 1000, maxDelayMs: 1500 }, timing).request(GET);
+
+      expect(sleeps).toEqual([750, 1125, 1125]);
+    });
+
+    it('should retry network errors and rethrow the last one', async () => {
+      const inner = new ScriptedHttpClient([new Error('ECONNRESET'), new Error('ENOTFOUND')]);
+      const client = new RetryingHttpClient(inner, { maxRetries: 1 }, timing);
+
+      await expect(client.request(GET)).rejects.toThrow('ENOTFOUND');
+      expect(inner.requests).toHaveLength(2);
+    });
+  });
+
+  describe('Retry-After', () => {
+    it('should wait the number of seconds the server asks for', async () => {
+      const inner = new ScriptedHttpClient([respond(429, '', { 'Retry-After': '2' }), respond(200)]);
+      const response = await new RetryingHttpClient(inner, {}, timing).request(GET);
+
+      expect(response.status).toBe(200);
+      expect(sleeps).toEqual([2000]);
+    });
+
+    it('should give up when the server asks to wait longer than maxDelayMs', async () => {
+      const inner = new ScriptedHttpClient([respond(503, '', { 'retry-after': '3600' })]);
+      const response = await new RetryingHttpClient(inner, { maxDelayMs: 30000 }, timing).request(GET);
+
+      expect(response.status).toBe(503);
+      expect(inner.requests).toHaveLength(1);
+      expect(sleeps).toEqual([]);
+    });
+
+    it('should parse delay-seconds and HTTP-dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(RetryingHttpClient.parseRetryAfter('120')).toBe(120000);
+      expect(RetryingHttpClient.parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30000);
+      expect(RetryingHttpClient.parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+      expect(RetryingHttpClient.parseRetryAfter('soon')).toBeNull();
+    });
+  });
+
+  describe('idempotency', () => {
+    it('should treat reads, DELETE and conditional PUTs as replayable', () => {
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'PROPFIND' })).toBe(true);
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'REPORT' })).toBe(true);
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'DELETE' })).toBe(true);
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'PUT', headers: { 'If-Match': '"e1"' } })).toBe(true);
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'PUT', headers: { 'If-None-Match': '*' } })).toBe(true);
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'PUT' })).toBe(false);
+      expect(RetryingHttpClient.isReplayable({ url: '', method: 'MKCALENDAR' })).toBe(false);
+    });
+
+    it('should not replay an unconditional write after a network error', async () => {
+      const inner = new ScriptedHttpClient([new Error('ECONNRESET')]);
+      const client = new RetryingHttpClient(inner, {}, timing);
+
+      await expect(client.request({ url: GET.url, method: 'MKCALENDAR' })).rejects.toThrow('ECONNRESET');
+      expect(inner.requests).toHaveLength(1);
+    });
+
+    it('should not replay an unconditional write after a 500, but after a 503', async () => {
+      const mkcalendar: HttpRequest = { url: GET.url, method: 'MKCALENDAR' };
+
+      const failing = new ScriptedHttpClient([respond(500)]);
+      expect((await new RetryingHttpClient(failing, {}, timing).request(mkcalendar)).status).toBe(500);
+      expect(failing.requests).toHaveLength(1);
+
+      const unavailable = new ScriptedHttpClient([respond(503), respond(201)]);
+      expect((await new RetryingHttpClient(unavailable, {}, timing).request(mkcalendar)).status).toBe(201);
+      expect(unavailable.requests).toHaveLength(2);
+    });
+  });
+
+  describe('timeout', () => {
+    it('should abandon a stalled request and retry it', async () => {
+      const inner = new ScriptedHttpClient(['hang', respond(200)]);
+      const client = new RetryingHttpClient(inner, { timeoutMs: 10 }, timing);
+
+      const response = await client.request(GET);
+
+      expect(response.status).toBe(200);
+      expect(inner.requests).toHaveLength(2);
+    });
+
+    it('should throw RequestTimeoutError when every attempt stalls', async () => {
+      const inner = new ScriptedHttpClient(['hang', 'hang']);
+      const client = new RetryingHttpClient(inner, { timeoutMs: 10, maxRetries: 1 }, timing);
+
+      await expect(client.request(GET)).rejects.toBeInstanceOf(RequestTimeoutError);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { HttpClient, HttpRequest, HttpResponse, headerValue } from './httpClient';
+import { RequestTimeoutError } from './errors';
+
+export interface RetryPolicy {
+  timeoutMs: number; // per attempt, 0 = wait forever
+  maxRetries: number; // retries after the first attempt
+  baseDelayMs: number; // backoff before the first retry, doubled for each further retry
+  maxDelayMs: number; // cap on backoff; a longer Retry-After is not waited for
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 30000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/** Statuses worth retrying: rate limiting and transient server errors. */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/** Statuses by which the server says it did not act on the request. */
+const NOT_PROCESSED_STATUSES = new Set([429, 503]);
+
+/** Methods that can be replayed without changing the outcome. */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PROPFIND', 'REPORT', 'DELETE']);
+
+/**
+ * HttpClient decorator adding a per-request timeout and retries with
+ * exponential backoff and jitter.
+ *
+ * Network errors, timeouts and 500/502/504 responses are only retried for
+ * requests that are safe to replay: idempotent methods, and PUTs made
+ * conditional by If-Match/If-None-Match (a replay of one that already
+ * succeeded fails with 412 instead of writing twice). 429 and 503 mean the
+ * server did not act on the request, so they are retried for any method,
+ * honouring Retry-After. When retries run out the last response is
+ * returned (or the last error thrown) for the caller to handle as before.
+ */
+export class RetryingHttpClient implements HttpClient {
+  private inner: HttpClient;
+  private policy: RetryPolicy;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+
+  /**
+   * @param timing Overrides for waiting and jitter, for tests
+   */
+  constructor(
+    inner: HttpClient,
+    policy: Partial<RetryPolicy> = {},
+    timing: { sleep?: (ms: number) => Promise<void>; random?: () => number } = {},
+  ) {
+    this.inner = inner;
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+    this.sleep = timing.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.random = timing.random ?? Math.random;
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    const replayable = RetryingHttpClient.isReplayable(params);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.policy.maxRetries;
+
+      let response: HttpResponse;
+      try {
+        response = await this.attempt(params);
+      } catch (error) {
+        if (!canRetry || !replayable) throw error;
+        console.warn(`[HttpClient] ${params.method} ${params.url} failed, retrying:`, error);
+        await this.sleep(this.backoff(attempt));
+        continue;
+      }
+
+      if (!canRetry || !RETRYABLE_STATUSES.has(response.status)) return response;
+      if (!replayable && !NOT_PROCESSED_STATUSES.has(response.status)) return response;
+
+      const delay = this.retryDelay(response, attempt);
+      if (delay === null) return response;
+      console.warn(`[HttpClient] ${params.method} ${params.url} returned ${response.status}, retrying in ${delay}ms`);
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * Whether a request can be sent again after an unknown outcome.
+   */
+  static isReplayable(params: HttpRequest): boolean {
+    const method = params.method.toUpperCase();
+    if (IDEMPOTENT_METHODS.has(method)) return true;
+    if (method !== 'PUT') return false;
+    return Object.keys(params.headers ?? {})
+      .some(name => ['if-match', 'if-none-match'].includes(name.toLowerCase()));
+  }
+
+  /**
+   * Parse a Retry-After header (delay-seconds or HTTP-date) into milliseconds.
+   */
+  static parseRetryAfter(value: string, now: number = Date.now()): number | null {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed) * 1000;
+    const date = Date.parse(trimmed);
+    return isNaN(date) ? null : Math.max(0, date - now);
+  }
+
+  private async attempt(params: HttpRequest): Promise<HttpResponse> {
+    const { timeoutMs } = this.policy;
+    if (timeoutMs <= 0) return this.inner.request(params);
+
+    // The underlying request cannot be aborted; it is abandoned instead
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new RequestTimeoutError(params.method, params.url, timeoutMs)), timeoutMs);
+    });
+    try {
+      return await Promise.race([this.inner.request(params), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Delay before retrying a response: its Retry-After when present,
+   * otherwise backoff. Null when the server asks to wait longer than
+   * the policy allows.
+   */
+  private retryDelay(response: HttpResponse, attempt: number): number | null {
+    const header = headerValue(response.headers, 'retry-after');
+    const retryAfter = header ? RetryingHttpClient.parseRetryAfter(header) : null;
+    if (retryAfter === null) return this.backoff(attempt);
+    return retryAfter > this.policy.maxDelayMs ? null : retryAfter;
+  }
+
+  /**
+   * Exponential backoff with "equal jitter": between half and all of the
+   * capped exponential delay, so clients that failed together spread out.
+   */
+  private backoff(attempt: number): number {
+    const capped = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    return Math.round(capped / 2 + this.random() * capped / 2);
+  }
+}
@@ -0,0 +1,134 @@
+import { probeServer } from './serverProbe';
+import { AnonymousAuthProvider } from './auth';
+import { HttpClient, HttpRequest, HttpResponse } from './httpClient';
+import { multistatus, propResponse, respond } from '../../test/helpers/fakeHttp';
+import { CalDAVSettings, DEFAULT_CALDAV_SETTINGS } from '../types';
+
+const settings: CalDAVSettings = {
+  ...DEFAULT_CALDAV_SETTINGS,
+  serverUrl: 'https://caldav.example.com',
+  calendars: [],
+  calendarName: 'Tasks',
+};
+
+const CALENDAR_PATH = '/calendars/user/tasks/';
+
+interface Quirks {
+  etagOnPut?: boolean;
+  rejectDtstart?: boolean; // PUT with DTSTART fails with 400
+  dropDtstart?: boolean; // DTSTART accepted but not stored
+  splitCategories?: boolean; // stores one CATEGORIES line per value
+  syncToken?: boolean;
+}
+
+/**
+ * In-memory CalDAV server with a single task calendar, showing the given quirks.
+ */
+class FakeServer implements HttpClient {
+  requests: HttpRequest[] = [];
+  objects = new Map<string, { data: string; etag: string }>();
+  private quirks: Quirks;
+  private version = 0;
+
+  constructor(quirks: Quirks = {}) {
+    this.quirks = { etagOnPut: true, syncToken: true, ...quirks };
+  }
+
+  async request(req: HttpRequest): Promise<HttpResponse> {
+    this.requests.push(req);
+    const path = new URL(req.url).pathname;
+    const body = req.body ?? '';
+
+    if (req.method === 'PROPFIND' && body.includes('current-user-principal')) {
+      return respond(207, multistatus(propResponse('/', '<d:current-user-principal><d:href>/principals/user/</d:href></d:current-user-principal>')));
+    }
+    if (req.method === 'PROPFIND' && body.includes('calendar-home-set')) {
+      return respond(207, multistatus(propResponse('/principals/user/', '<c:calendar-home-set><d:href>/calendars/user/</d:href></c:calendar-home-set>')));
+    }
+    if (req.method === 'PROPFIND' && req.headers?.['Depth'] === '1') {
+      return respond(207, multistatus(propResponse(CALENDAR_PATH, `<d:displayname>Tasks</d:displayname>
+        <d:resourcetype><d:collection/><c:calendar/></d:resourcetype>
+        <c:supported-calendar-component-set><c:comp name="VTODO"/></c:supported-calendar-component-set>`)));
+    }
+    if (req.method === 'PROPFIND' && path === CALENDAR_PATH) {
+      const token = this.quirks.syncToken ? `<d:sync-token>https://example.com/sync/${this.version}</d:sync-token>` : '';
+      return respond(207, multistatus(propResponse(CALENDAR_PATH, `<cs:getctag>${this.version}</cs:getctag>${token}`)));
+    }
+    if (req.method === 'REPORT' && body.includes('sync-collection')) {
+      return this.quirks.syncToken ? respond(207, multistatus('<d:sync-token>x</d:sync-token>')) : respond(403);
+    }
+    if (req.method === 'PUT') {
+      if (this.quirks.rejectDtstart && body.includes('DTSTART')) return respond(400);
+      let data = body;
+      if (this.quirks.dropDtstart) data = data.replace(/^DTSTART[^\r\n]*\r\n/m, '');
+      if (this.quirks.splitCategories) {
+        data = data.replace(/^CATEGORIES:(.*)$/m, (_, values: string) =>
+          values.split(',').map(v => `CATEGORIES:${v}`).join('\r\n'));
+      }
+      const etag = `e${++this.version}`;
+      this.objects.set(path, { data, etag });
+      return respond(201, '', this.quirks.etagOnPut ? { ETag: `"${etag}"` } : {});
+    }
+    if (req.method === 'GET') {
+      const object = this.objects.get(path);
+      return object ? respond(200, object.data, { ETag: `"${object.etag}"` }) : respond(404);
+    }
+    if (req.method === 'DELETE') {
+      return this.objects.delete(path) ? respond(204) : respond(404);
+    }
+    return respond(404);
+  }
+}
+
+describe('probeServer', () => {
+  it('should record a server without quirks and remove the probe task', async () => {
+    const server = new FakeServer();
+    const profile = await probeServer(settings, new AnonymousAuthProvider(), server);
+
+    expect(profile).toMatchObject({
+      version: 1,
+      serverUrl: 'https://caldav.example.com',
+      principalUrl: 'https://caldav.example.com/principals/user/',
+      etagOnPut: true,
+      categories: 'comma',
+      syncCollection: true,
+      vtodoDtstart: true,
+    });
+    expect(server.requests.map(r => r.method)).toEqual(expect.arrayContaining(['PUT', 'GET', 'DELETE']));
+    expect(server.objects.size).toBe(0);
+  });
+
+  it('should detect missing etags, repeated categories and no sync-collection', async () => {
+    const server = new FakeServer({ etagOnPut: false, splitCategories: true, syncToken: false });
+    const profile = await probeServer(settings, new AnonymousAuthProvider(), server);
+
+    expect(profile.etagOnPut).toBe(false);
+    expect(profile.categories).toBe('repeated');
+    expect(profile.syncCollection).toBe(false);
+    expect(server.objects.size).toBe(0);
+  });
+
+  it('should retry without DTSTART when the server rejects it on tasks', async () => {
+    const server = new FakeServer({ rejectDtstart: true });
+    const profile = await probeServer(settings, new AnonymousAuthProvider(), server);
+
+    expect(profile.vtodoDtstart).toBe(false);
+    const puts = server.requests.filter(r => r.method === 'PUT');
+    expect(puts[puts.length - 1].body).not.toContain('DTSTART');
+  });
+
+  it('should notice DTSTART dropped from the stored task', async () => {
+    const profile = await probeServer(settings, new AnonymousAuthProvider(), new FakeServer({ dropDtstart: true }));
+    expect(profile.vtodoDtstart).toBe(false);
+  });
+
+  it('should remove the probe task when a later step fails', async () => {
+    const server = new FakeServer();
+    const request = server.request.bind(server);
+    // Reject the update
+    server.request = async (req) => req.method === 'PUT' && req.headers?.['If-Match'] ? respond(500) : request(req);
+
+    await expect(probeServer(settings, new AnonymousAuthProvider(), server)).rejects.toThrow('Updating the probe task failed: 500');
+    expect(server.objects.size).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { CalDAVSettings, ServerProfile } from '../types';
+import { CalDAVClientDirect } from './calDAVClientDirect';
+import { HttpClient, HttpResponse, ObsidianHttpClient } from './httpClient';
+import { RetryingHttpClient } from './retryingHttpClient';
+import { AuthProvider, AuthorizingHttpClient } from './auth';
+import { RedirectingHttpClient } from './redirectingHttpClient';
+import { VTODOMapper } from './vtodoMapper';
+import { buildSyncCollection } from './templates';
+import { resolveCalendarBindings } from '../sync/calendarBindings';
+
+/**
+ * Find out how the server treats task data, following the same steps as
+ * dumpCalDAVRequests: discover the calendars, then create, read back,
+ * update and delete a scratch VTODO in the first configured calendar
+ * (or the first writable task calendar when none is configured).
+ *
+ * The scratch task is removed again even when a step fails.
+ *
+ * @param httpClient Transport; defaults to Obsidian's requestUrl with the
+ * settings' timeout and retry policy
+ */
+export async function probeServer(
+  settings: CalDAVSettings,
+  auth: AuthProvider,
+  httpClient?: HttpClient,
+): Promise<ServerProfile> {
+  const transport = httpClient ?? new RetryingHttpClient(new ObsidianHttpClient(), {
+    timeoutMs: settings.requestTimeout * 1000,
+    maxRetries: settings.maxRetries,
+  });
+  const http = new RedirectingHttpClient(new AuthorizingHttpClient(transport, auth));
+  // Probed from scratch: no profile, so discovery and reads assume nothing
+  const client = new CalDAVClientDirect(settings, transport, auth);
+
+  // Discovery, then the calendar to probe
+  const calendars = await client.discoverCalendars();
+  const binding = resolveCalendarBindings(settings).find(b => b.calendarName || b.calendarUrl);
+  if (binding) {
+    client.selectCalendar(binding.calendarName, binding.calendarUrl);
+  } else {
+    const candidate = calendars.find(c => c.supportsVTODO && c.writable);
+    if (!candidate) throw new Error('No writable task calendar found to probe');
+    client.selectCalendar(candidate.displayName, candidate.url);
+  }
+  const calendar = client.getSelectedCalendar()!;
+  if (!calendar.writable) {
+    throw new Error(`Calendar '${calendar.displayName}' is read-only; probing needs a calendar it can write to`);
+  }
+
+  const profile: ServerProfile = {
+    version: 1,
+    serverUrl: settings.serverUrl,
+    probedAt: new Date().toISOString(),
+    principalUrl: client.getPrincipalUrl(),
+    etagOnPut: true,
+    categories: 'comma',
+    syncCollection: await probeSyncCollection(client, http, calendar.url),
+    vtodoDtstart: true,
+  };
+
+  const uid = `caldav-sync-probe-${Math.floor(Math.random() * 0x1000000).toString(16).padStart(6, '0')}`;
+  const url = `${calendar.url.replace(/\/+$/, '')}/${uid}.ics`;
+  const mapper = new VTODOMapper();
+  const today = new Date().toISOString().slice(0, 10);
+  const scratch = (title: string, status: string) => mapper.taskToVTODO({
+    description: title,
+    status,
+    dueDate: null,
+    dueTime: null,
+    scheduledDate: null,
+    startDate: today,
+    startTime: null,
+    completedDate: null,
+    reminders: [],
+    priority: 'none',
+    recurrenceRule: '',
+    tags: ['caldav-sync-probe-a', 'caldav-sync-probe-b'],
+    notes: '',
+    parentUID: null,
+  }, uid);
+  const withoutDtstart = (data: string) => data.replace(/^DTSTART[^\r\n]*\r\n/m, '');
+
+  let created = false;
+  try {
+    // Create; a server that rejects DTSTART on VTODOs gets a second try without it
+    let data = scratch('CalDAV sync capability probe', 'TODO');
+    let response = await put(http, url, data, { 'If-None-Match': '*' });
+    if (!isSuccess(response)) {
+      data = withoutDtstart(data);
+      response = await put(http, url, data, { 'If-None-Match': '*' });
+      if (!isSuccess(response)) {
+        throw new Error(`Creating the probe task failed: ${response.status}`);
+      }
+      profile.vtodoDtstart = false;
+    }
+    created = true;
+    profile.etagOnPut = CalDAVClientDirect.etagFromHeaders(response.headers) !== undefined;
+
+    // Read back: which properties survived, and in what form
+    const stored = await client.fetchVTODO(url);
+    if (!stored) throw new Error('The probe task was not found after creating it');
+    const lines = stored.data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => /^DTSTART[;:]/i.test(line))) {
+      profile.vtodoDtstart = false;
+    }
+    if (lines.filter(line => /^CATEGORIES[;:]/i.test(line)).length > 1) {
+      profile.categories = 'repeated';
+    }
+
+    // Update, conditional on the etag read back
+    let update = scratch('CalDAV sync capability probe (updated)', 'DONE');
+    if (!profile.vtodoDtstart) update = withoutDtstart(update);
+    response = await put(http, url, update, stored.etag ? { 'If-Match': `"${stored.etag}"` } : {});
+    if (!isSuccess(response)) {
+      throw new Error(`Updating the probe task failed: ${response.status}`);
+    }
+    if (CalDAVClientDirect.etagFromHeaders(response.headers) === undefined) {
+      profile.etagOnPut = false;
+    }
+
+    // Delete
+    const current = await client.fetchVTODO(url);
+    await client.deleteVTODO({ data: update, url, etag: current?.etag });
+    created = false;
+  } finally {
+    if (created) {
+      // Best effort, unconditional: the probe task is ours alone
+      await http.request({ url, method: 'DELETE', throw: false }).catch(() => undefined);
+    }
+  }
+
+  return profile;
+}
+
+/**
+ * Whether the calendar reports a sync-token and answers a sync-collection
+ * REPORT for it.
+ */
+async function probeSyncCollection(client: CalDAVClientDirect, http: HttpClient, calendarUrl: string): Promise<boolean> {
+  let syncToken: string | null;
+  try {
+    syncToken = (await client.fetchCalendarVersion(calendarUrl)).syncToken;
+  } catch {
+    return false;
+  }
+  if (!syncToken) return false;
+
+  const response = await http.request({
+    url: calendarUrl,
+    method: 'REPORT',
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Depth': '1'
+    },
+    body: buildSyncCollection(syncToken),
+    throw: false
+  });
+  return response.status === 207;
+}
+
+function put(http: HttpClient, url: string, body: string, headers: Record<string, string>): Promise<HttpResponse> {
+  return http.request({
+    url,
+    method: 'PUT',
+    headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...headers },
+    body,
+    throw: false
+  });
+}
+
+function isSuccess(response: HttpResponse): boolean {
+  return response.status >= 200 && response.status < 300;
+}
@@ -0,0 +1,58 @@
+import { DnsResolver, SrvRecord, lookupCalDAVService } from './serviceDiscovery';
+
+function resolver(srv: Record<string, SrvRecord[]>, txt: Record<string, string[][]> = {}): DnsResolver & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    queries,
+    resolveSrv: async name => {
+      queries.push(name);
+      if (!srv[name]) throw new Error('ENODATA');
+      return srv[name];
+    },
+    resolveTxt: async name => {
+      if (!txt[name]) throw new Error('ENODATA');
+      return txt[name];
+    },
+  };
+}
+
+function srv(name: string, port: number, priority: number = 0, weight: number = 0): SrvRecord {
+  return { name, port, priority, weight };
+}
+
+describe('lookupCalDAVService', () => {
+  it('should build context URLs from SRV and TXT records, best first', async () => {
+    const dns = resolver({
+      '_caldavs._tcp.example.com': [srv('backup.example.com', 443, 20), srv('dav.example.com', 8443, 10)],
+    }, {
+      '_caldavs._tcp.example.com': [['path=/cal', 'dav/']],
+    });
+
+    expect(await lookupCalDAVService('https://example.com', dns)).toEqual([
+      'https://dav.example.com:8443/caldav/',
+      'https://backup.example.com/caldav/',
+    ]);
+  });
+
+  it('should use the well-known URI without a TXT record and _caldav for http', async () => {
+    const dns = resolver({ '_caldav._tcp.example.com': [srv('example.com', 8080)] });
+
+    expect(await lookupCalDAVService('http://example.com/dav/', dns)).toEqual([
+      'http://example.com:8080/.well-known/caldav',
+    ]);
+    expect(dns.queries).toEqual(['_caldav._tcp.example.com']);
+  });
+
+  it('should skip targets outside the queried domain', async () => {
+    const dns = resolver({
+      '_caldavs._tcp.example.com': [srv('dav.attacker.net', 443), srv('dav.example.com.', 443, 5)],
+    });
+
+    expect(await lookupCalDAVService('https://example.com', dns)).toEqual(['https://dav.example.com/.well-known/caldav']);
+  });
+
+  it('should find nothing without records or when the service is declared unavailable', async () => {
+    expect(await lookupCalDAVService('https://example.com', resolver({}))).toEqual([]);
+    expect(await lookupCalDAVService('https://example.com', resolver({ '_caldavs._tcp.example.com': [srv('.', 0)] }))).toEqual([]);
+  });
+});
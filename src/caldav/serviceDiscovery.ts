@@ -0,0 +1,90 @@
+import { promises as dns } from 'dns';
+
+/**
+ * DNS-based service discovery for CalDAV (RFC 6764 Sections 3 and 4):
+ * an SRV record names the host and port serving a domain's calendars,
+ * an optional TXT record the context path on it.
+ */
+
+export interface SrvRecord {
+  name: string;
+  port: number;
+  priority: number;
+  weight: number;
+}
+
+/**
+ * The DNS lookups service discovery needs. Both reject when the name has
+ * no such records.
+ */
+export interface DnsResolver {
+  resolveSrv(name: string): Promise<SrvRecord[]>;
+  resolveTxt(name: string): Promise<string[][]>;
+}
+
+/**
+ * The system resolver. The plugin is desktop-only, so Node's dns module
+ * is always there.
+ */
+export const systemDnsResolver: DnsResolver = {
+  resolveSrv: name => dns.resolveSrv(name),
+  resolveTxt: name => dns.resolveTxt(name),
+};
+
+/**
+ * Context URLs the domain's SRV records point to, best first; empty if
+ * it publishes none.
+ *
+ * https looks up _caldavs._tcp, http _caldav._tcp. Targets outside the
+ * queried domain are skipped: RFC 6764 Section 8 wants the user to confirm
+ * those, and sending credentials to them unasked would let anyone able to
+ * spoof DNS collect them. Records of equal priority are tried by
+ * descending weight rather than by weighted random choice, so discovery
+ * always ends up at the same server.
+ */
+export async function lookupCalDAVService(serverUrl: string, resolver: DnsResolver): Promise<string[]> {
+  const base = new URL(serverUrl);
+  const secure = base.protocol === 'https:';
+  const domain = base.hostname.toLowerCase();
+  const service = `${secure ? '_caldavs' : '_caldav'}._tcp.${domain}`;
+
+  let records: SrvRecord[];
+  try {
+    records = await resolver.resolveSrv(service);
+  } catch {
+    return [];
+  }
+  // A single record with target "." means the service is not offered
+  records = records.filter(record => record.name !== '' && record.name !== '.');
+
+  const path = await lookupContextPath(service, resolver);
+  const urls: string[] = [];
+  for (const record of [...records].sort((a, b) => a.priority - b.priority || b.weight - a.weight)) {
+    const host = record.name.toLowerCase().replace(/\.$/, '');
+    if (host !== domain && !host.endsWith(`.${domain}`)) {
+      console.warn(`[CalDAV] Ignoring SRV target ${host} outside ${domain}`);
+      continue;
+    }
+    const defaultPort = secure ? 443 : 80;
+    const port = record.port === defaultPort ? '' : `:${record.port}`;
+    const url = `${base.protocol}//${host}${port}${path}`;
+    if (!urls.includes(url)) urls.push(url);
+  }
+  return urls;
+}
+
+/**
+ * The path= value of the service's TXT record, or the well-known URI
+ * when there is none (RFC 6764 Section 4).
+ */
+async function lookupContextPath(service: string, resolver: DnsResolver): Promise<string> {
+  try {
+    for (const chunks of await resolver.resolveTxt(service)) {
+      const match = /^path=(\/.*)$/.exec(chunks.join(''));
+      if (match) return match[1];
+    }
+  } catch {
+    // No TXT record
+  }
+  return '/.well-known/caldav';
+}
@@ -1,10 +1,19 @@
 /**
- * CalDAV XML request body constants.
+ * CalDAV XML request bodies.
  *
- * These are static XML bodies used in PROPFIND and REPORT requests.
- * None contain dynamic values — they are plain string constants.
+ * Most are static XML bodies used in PROPFIND and REPORT requests.
+ * Requests that carry dynamic values (sync tokens, hrefs) are built by
+ * small functions that escape their inputs.
  */
 
+/** Escape text for inclusion in an XML element body. */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
 /** Discover the current-user-principal (RFC 5397). */
 export const PROPFIND_PRINCIPAL = `<?xml version="1.0" encoding="UTF-8"?>
 <d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
@@ -13,21 +22,36 @@ export const PROPFIND_PRINCIPAL = `<?xml version="1.0" encoding="UTF-8"?>
   </d:prop>
 </d:propfind>`;
 
-/** Discover the calendar-home-set from a principal URL. */
+/**
+ * Read a principal's name and calendar-home-set, and the principals whose
+ * calendars it can reach: calendar-proxy delegations (CalendarServer
+ * extension, also used by SOGo and Zimbra) and its groups (RFC 3744).
+ */
 export const PROPFIND_CALENDAR_HOME = `<?xml version="1.0" encoding="UTF-8"?>
-<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">
   <d:prop>
+    <d:displayname />
     <c:calendar-home-set />
+    <cs:calendar-proxy-read-for />
+    <cs:calendar-proxy-write-for />
+    <d:group-membership />
   </d:prop>
 </d:propfind>`;
 
-/** List calendars with display name, resource type, and supported components. */
+/**
+ * List calendars with display name, resource type, supported components,
+ * the current user's privileges and the owner (RFC 3744), plus the
+ * owner's name where Nextcloud reports it for shared calendars.
+ */
 export const PROPFIND_CALENDARS = `<?xml version="1.0" encoding="UTF-8"?>
-<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:nc="http://nextcloud.com/ns">
   <d:prop>
     <d:displayname />
     <d:resourcetype />
     <c:supported-calendar-component-set />
+    <d:current-user-privilege-set />
+    <d:owner />
+    <nc:owner-displayname />
   </d:prop>
 </d:propfind>`;
 
@@ -44,3 +68,146 @@ export const REPORT_VTODOS = `<?xml version="1.0" encoding="UTF-8"?>
     </c:comp-filter>
   </c:filter>
 </c:calendar-query>`;
+
+/**
+ * Server-side narrowing of the VTODO calendar-query. Tasks left out are
+ * not necessarily unwanted: servers may ignore or reject filters, so the
+ * engine still filters what comes back.
+ */
+export interface VTODOQueryFilter {
+  completedSince?: string; // ISO 8601; completed or cancelled tasks last changed before it are left out
+  category?: string; // only tasks with a CATEGORIES value containing it (case-insensitive)
+}
+
+/**
+ * calendar-query bodies whose results together match `filter`
+ * (RFC 4791 Section 9.7). Filters in one query are ANDed and there is no
+ * OR, so "open, or finished recently" takes three queries whose results
+ * overlap:
+ * - STATUS neither COMPLETED nor CANCELLED
+ * - no STATUS and no COMPLETED date
+ * - DTSTAMP on or after `completedSince`; on stored objects (no METHOD)
+ *   DTSTAMP is the time of the last change (RFC 5545 Section 3.8.7.2)
+ *
+ * Without `completedSince` it is a single query.
+ */
+export function buildVTODOQueries(filter: VTODOQueryFilter): string[] {
+  const category = filter.category
+    ? [`<c:prop-filter name="CATEGORIES">
+            <c:text-match collation="i;ascii-casemap">${escapeXml(filter.category)}</c:text-match>
+          </c:prop-filter>`]
+    : [];
+  if (!filter.completedSince) {
+    return [buildCalendarQuery(category)];
+  }
+
+  const open = [
+    `<c:prop-filter name="STATUS">
+            <c:text-match collation="i;ascii-casemap" negate-condition="yes">COMPLETED</c:text-match>
+          </c:prop-filter>`,
+    `<c:prop-filter name="STATUS">
+            <c:text-match collation="i;ascii-casemap" negate-condition="yes">CANCELLED</c:text-match>
+          </c:prop-filter>`,
+  ];
+  const openWithoutStatus = [
+    `<c:prop-filter name="STATUS">
+            <c:is-not-defined />
+          </c:prop-filter>`,
+    `<c:prop-filter name="COMPLETED">
+            <c:is-not-defined />
+          </c:prop-filter>`,
+  ];
+  const changedSince = [
+    `<c:prop-filter name="DTSTAMP">
+            <c:time-range start="${formatUTC(filter.completedSince)}" />
+          </c:prop-filter>`,
+  ];
+  return [open, openWithoutStatus, changedSince].map(filters => buildCalendarQuery([...filters, ...category]));
+}
+
+function buildCalendarQuery(propFilters: string[]): string {
+  const vtodo = propFilters.length === 0
+    ? '<c:comp-filter name="VTODO" />'
+    : `<c:comp-filter name="VTODO">
+          ${propFilters.join('\n          ')}
+        </c:comp-filter>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      ${vtodo}
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+}
+
+/** ISO 8601 timestamp in the iCalendar UTC form time-range expects, e.g. 20250101T000000Z. */
+function formatUTC(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+
+/**
+ * Read the collection's change markers: the CalendarServer ctag and the
+ * RFC 6578 sync-token. Either changes whenever a member is modified.
+ */
+export const PROPFIND_COLLECTION_VERSION = `<?xml version="1.0" encoding="UTF-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop>
+    <cs:getctag />
+    <d:sync-token />
+  </d:prop>
+</d:propfind>`;
+
+/**
+ * List members changed since `syncToken` (RFC 6578 Section 3.2).
+ * Only etags are requested — calendar data is fetched with a multiget.
+ */
+export function buildSyncCollection(syncToken: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<d:sync-collection xmlns:d="DAV:">
+  <d:sync-token>${escapeXml(syncToken)}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop>
+    <d:getetag />
+  </d:prop>
+</d:sync-collection>`;
+}
+
+/** Fetch etag and calendar data for specific resources (RFC 4791 Section 7.9). */
+export function buildCalendarMultiget(hrefs: string[]): string {
+  const hrefLines = hrefs.map(href => `  <d:href>${escapeXml(href)}</d:href>`).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag />
+    <c:calendar-data />
+  </d:prop>
+${hrefLines}
+</c:calendar-multiget>`;
+}
+
+/**
+ * Create a task-only calendar (RFC 4791 Section 5.3.1).
+ * Color uses the Apple iCal namespace understood by Nextcloud and Radicale.
+ */
+export function buildMkcalendar(displayName: string, color?: string): string {
+  const colorLine = color
+    ? `\n      <ic:calendar-color>${escapeXml(color)}</ic:calendar-color>`
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<c:mkcalendar xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:ic="http://apple.com/ns/ical/">
+  <d:set>
+    <d:prop>
+      <d:displayname>${escapeXml(displayName)}</d:displayname>${colorLine}
+      <c:supported-calendar-component-set>
+        <c:comp name="VTODO" />
+      </c:supported-calendar-component-set>
+    </d:prop>
+  </d:set>
+</c:mkcalendar>`;
+}
@@ -0,0 +1,71 @@
+import { formatDateTime, localInstant, localWall, parseDateTime, parseDuration, toInstant, toZoneWall, utcOffset } from './timezone';
+
+const HOUR = 3600000;
+
+describe('timezone', () => {
+  describe('parseDateTime', () => {
+    it('should read dates, floating, UTC and TZID times', () => {
+      expect(parseDateTime({ name: 'DUE', params: {}, value: '20260301' }))
+        .toEqual({ wall: Date.UTC(2026, 2, 1), dateOnly: true, zone: 'floating' });
+      expect(parseDateTime({ name: 'DUE', params: {}, value: '20260301T093000' }))
+        .toEqual({ wall: Date.UTC(2026, 2, 1, 9, 30), dateOnly: false, zone: 'floating' });
+      expect(parseDateTime({ name: 'DUE', params: {}, value: '20260301T093000Z' })?.zone).toBe('utc');
+      expect(parseDateTime({ name: 'DUE', params: { TZID: ['Europe/Berlin'] }, value: '20260301T093000' })?.zone).toBe('Europe/Berlin');
+    });
+
+    it('should reject other values', () => {
+      expect(parseDateTime({ name: 'DUE', params: {}, value: 'tomorrow' })).toBeNull();
+    });
+  });
+
+  it('should format dates and times', () => {
+    const wall = Date.UTC(2026, 2, 1, 9, 30, 5);
+    expect(formatDateTime(wall, true)).toBe('20260301');
+    expect(formatDateTime(wall, false)).toBe('20260301T093005');
+    expect(formatDateTime(wall, false, true)).toBe('20260301T093005Z');
+  });
+
+  describe('parseDuration', () => {
+    it('should read signed durations', () => {
+      expect(parseDuration('-PT15M')).toBe(-15 * 60000);
+      expect(parseDuration('PT0S')).toBe(0);
+      expect(parseDuration('+P1DT2H')).toBe(26 * HOUR);
+      expect(parseDuration('P2W')).toBe(14 * 24 * HOUR);
+    });
+
+    it('should reject other values', () => {
+      expect(parseDuration('20260301T090000Z')).toBeNull();
+      expect(parseDuration('P')).toBeNull();
+      expect(parseDuration('PT')).toBeNull();
+      expect(parseDuration('P1DT')).toBeNull();
+    });
+  });
+
+  describe('IANA zones', () => {
+    it('should follow daylight saving time', () => {
+      expect(utcOffset('Europe/Berlin', [], Date.UTC(2026, 0, 15))).toBe(HOUR);
+      expect(utcOffset('Europe/Berlin', [], Date.UTC(2026, 6, 15))).toBe(2 * HOUR);
+      expect(utcOffset('Unknown/Zone', [], 0)).toBeNull();
+    });
+
+    it('should convert wall times on both sides of a transition', () => {
+      // Berlin switches to summer time at 01:00 UTC on 29 March 2026
+      const before = toInstant({ wall: Date.UTC(2026, 2, 29, 1, 30), dateOnly: false, zone: 'Europe/Berlin' }, []);
+      const after = toInstant({ wall: Date.UTC(2026, 2, 29, 3, 30), dateOnly: false, zone: 'Europe/Berlin' }, []);
+
+      expect(before).toBe(Date.UTC(2026, 2, 29, 0, 30));
+      expect(after).toBe(Date.UTC(2026, 2, 29, 1, 30));
+      expect(toZoneWall(after!, 'Europe/Berlin', [])).toBe(Date.UTC(2026, 2, 29, 3, 30));
+    });
+  });
+
+  it('should leave dates and floating times without an instant', () => {
+    expect(toInstant({ wall: 0, dateOnly: true, zone: 'floating' }, [])).toBeNull();
+    expect(toInstant({ wall: 0, dateOnly: false, zone: 'floating' }, [])).toBeNull();
+  });
+
+  it('should round-trip local wall times', () => {
+    const instant = Date.UTC(2026, 6, 15, 12, 0);
+    expect(localInstant(localWall(instant))).toBe(instant);
+  });
+});
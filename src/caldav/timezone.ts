@@ -0,0 +1,216 @@
+import { RRule } from 'rrule';
+import { ICalComponent, ICalProperty, findProperties, findProperty, paramValue } from './icalendar';
+
+/**
+ * DATE and DATE-TIME values of iCalendar properties (RFC 5545 Section
+ * 3.3.4 and 3.3.5) and the time zones they are written in.
+ *
+ * Wall-clock times are handled as "wall" milliseconds: the time as read
+ * on a clock, encoded as if it were UTC (Date.UTC of its fields). A
+ * TZID is resolved through the VTIMEZONE in the same calendar object;
+ * zones the object does not define are looked up in the platform's IANA
+ * database. Zones found in neither are treated as floating time.
+ */
+
+/**
+ * A DATE or DATE-TIME value with the zone it is written in.
+ */
+export interface ICalDateTime {
+  wall: number; // wall milliseconds
+  dateOnly: boolean; // VALUE=DATE
+  zone: string; // 'utc', 'floating' or a TZID
+}
+
+/**
+ * Read a DATE or DATE-TIME property value. Null when it is not one.
+ */
+export function parseDateTime(property: ICalProperty): ICalDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall = Date.UTC(+year, +month - 1, +day, +(hour ?? 0), +(minute ?? 0), +(second ?? 0));
+  if (hour === undefined) {
+    return { wall, dateOnly: true, zone: 'floating' };
+  }
+  const tzid = paramValue(property, 'TZID');
+  return { wall, dateOnly: false, zone: utc ? 'utc' : tzid ?? 'floating' };
+}
+
+/**
+ * Format wall milliseconds as a DATE (YYYYMMDD) or DATE-TIME
+ * (YYYYMMDDTHHMMSS, plus Z for UTC) value.
+ */
+export function formatDateTime(wall: number, dateOnly: boolean, utc: boolean = false): string {
+  const date = new Date(wall);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+  if (dateOnly) return day;
+  return `${day}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}${utc ? 'Z' : ''}`;
+}
+
+/**
+ * A DURATION value (RFC 5545 Section 3.3.6) in milliseconds, or null
+ * when it is not one.
+ */
+export function parseDuration(value: string): number | null {
+  const text = value.trim();
+  const match = /^([+-])?P(?:(\d+)W|(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?)$/i.exec(text);
+  // P and PT need at least one element after them
+  if (!match || /[PT]$/i.test(text)) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalDays = +(weeks ?? 0) * 7 + +(days ?? 0);
+  const total = (((totalDays * 24 + +(hours ?? 0)) * 60 + +(minutes ?? 0)) * 60 + +(seconds ?? 0)) * 1000;
+  return sign === '-' ? -total : total;
+}
+
+/**
+ * The instant (epoch milliseconds) a DATE-TIME refers to. Null for dates
+ * and floating times, which mean the same wall time in every zone, and
+ * for zones that cannot be resolved.
+ */
+export function toInstant(value: ICalDateTime, roots: ICalComponent[]): number | null {
+  if (value.dateOnly || value.zone === 'floating') return null;
+  if (value.zone === 'utc') return value.wall;
+
+  // The offset depends on the instant: start from the offset at the wall
+  // time read as UTC, then correct once for a transition in between
+  const first = utcOffset(value.zone, roots, value.wall);
+  if (first === null) return null;
+  const second = utcOffset(value.zone, roots, value.wall - first);
+  return value.wall - (second ?? first);
+}
+
+/**
+ * The wall time of an instant in a zone, or null if the zone cannot be
+ * resolved.
+ */
+export function toZoneWall(instant: number, tzid: string, roots: ICalComponent[]): number | null {
+  const offset = utcOffset(tzid, roots, instant);
+  return offset === null ? null : instant + offset;
+}
+
+/**
+ * Milliseconds to add to UTC to get the wall time of a zone at an
+ * instant, or null if the zone is neither defined in the calendar
+ * object nor known to the platform.
+ */
+export function utcOffset(tzid: string, roots: ICalComponent[], instant: number): number | null {
+  const vtimezone = findTimeZone(roots, tzid);
+  if (vtimezone) {
+    const offset = vtimezoneOffset(vtimezone, instant);
+    if (offset !== null) return offset;
+  }
+  return ianaOffset(tzid, instant);
+}
+
+/**
+ * Wall time of an instant in the user's zone.
+ */
+export function localWall(instant: number): number {
+  return instant - new Date(instant).getTimezoneOffset() * 60000;
+}
+
+/**
+ * The instant a wall time in the user's zone refers to.
+ */
+export function localInstant(wall: number): number {
+  const date = new Date(wall);
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()).getTime();
+}
+
+function findTimeZone(roots: ICalComponent[], tzid: string): ICalComponent | undefined {
+  for (const root of roots) {
+    const found = [root, ...root.components].find(c => c.name === 'VTIMEZONE' && findProperty(c, 'TZID')?.value.trim() === tzid);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Offset from the STANDARD/DAYLIGHT observance in effect at an instant:
+ * the one with the latest onset (DTSTART, RRULE or RDATE) before it.
+ * Before the first onset, the first observance's TZOFFSETFROM applies.
+ */
+function vtimezoneOffset(vtimezone: ICalComponent, instant: number): number | null {
+  let latest: { onset: number; offset: number } | null = null;
+  let earliest: { onset: number; offset: number } | null = null;
+
+  for (const observance of vtimezone.components) {
+    const start = findProperty(observance, 'DTSTART');
+    const from = parseOffset(findProperty(observance, 'TZOFFSETFROM')?.value);
+    const to = parseOffset(findProperty(observance, 'TZOFFSETTO')?.value);
+    const startValue = start && parseDateTime(start);
+    if (!startValue || from === null || to === null) continue;
+
+    // Onsets are wall times in the offset before the transition
+    const onsets: number[] = [];
+    const rrule = findProperty(observance, 'RRULE');
+    if (rrule) {
+      try {
+        const rule = new RRule({ ...RRule.parseString(rrule.value.trim()), dtstart: new Date(startValue.wall) });
+        const before = rule.before(new Date(instant + from), true);
+        if (before) onsets.push(before.getTime());
+      } catch {
+        // An invalid rule leaves the DTSTART onset
+      }
+    }
+    onsets.push(startValue.wall);
+    for (const rdate of findProperties(observance, 'RDATE')) {
+      for (const value of rdate.value.split(',')) {
+        const parsed = parseDateTime({ ...rdate, value });
+        if (parsed && parsed.wall <= instant + from) onsets.push(parsed.wall);
+      }
+    }
+
+    for (const wall of onsets) {
+      const onset = wall - from;
+      if (onset <= instant && (!latest || onset > latest.onset)) latest = { onset, offset: to };
+    }
+    if (!earliest || startValue.wall - from < earliest.onset) {
+      earliest = { onset: startValue.wall - from, offset: from };
+    }
+  }
+
+  return latest?.offset ?? earliest?.offset ?? null;
+}
+
+/**
+ * UTC offset (+HHMM, -HHMM or with seconds) in milliseconds.
+ */
+function parseOffset(value: string | undefined): number | null {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const [, sign, hours, minutes, seconds] = match;
+  return (sign === '-' ? -1 : 1) * ((+hours * 60 + +minutes) * 60 + +(seconds ?? 0)) * 1000;
+}
+
+/**
+ * Offset of an IANA zone at an instant, or null if the platform does
+ * not know the zone.
+ */
+function ianaOffset(tzid: string, instant: number): number | null {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  } catch {
+    return null;
+  }
+  const seconds = instant - (((instant % 1000) + 1000) % 1000);
+  const match = /(\d+)\/(\d+)\/(\d+),? (\d+):(\d+):(\d+)/.exec(format.format(new Date(seconds)));
+  if (!match) return null;
+  const [, month, day, year, hour, minute, second] = match;
+  // Some platforms write midnight as 24:00
+  return Date.UTC(+year, +month - 1, +day, +hour % 24, +minute, +second) - seconds;
+}
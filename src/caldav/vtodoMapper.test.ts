@@ -1,4 +1,17 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { VTODOMapper, ObsidianTask, CalendarObject } from './vtodoMapper';
+import { ServerProfile } from '../types';
+
+/** Date and time of an instant in the zone the tests run in */
+function local(iso: string): { date: string; time: string } {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    time: `${pad(d.getHours())}:${pad(d.getMinutes())}`,
+  };
+}
 
 describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
   let mapper: VTODOMapper;
@@ -13,13 +26,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Test task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid-123');
@@ -36,13 +53,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Task with due date',
         status: 'TODO',
         dueDate: '2025-01-15',
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -55,13 +76,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Task with scheduled date',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: '2025-01-10',
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -82,13 +107,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
           description: 'Task',
           status: obsidian,
           dueDate: null,
+          dueTime: null,
           scheduledDate: null,
           startDate: null,
+          startTime: null,
           completedDate: null,
+          reminders: [],
           priority: 'none',
           recurrenceRule: '',
           tags: [],
           notes: '',
+          parentUID: null,
         };
 
         const result = mapper.taskToVTODO(task, 'test-uid');
@@ -111,13 +140,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
           description: 'Task',
           status: 'TODO',
           dueDate: null,
+          dueTime: null,
           scheduledDate: null,
           startDate: null,
+          startTime: null,
           completedDate: null,
+          reminders: [],
           priority: obsidian,
           recurrenceRule: '',
           tags: [],
           notes: '',
+          parentUID: null,
         };
 
         const result = mapper.taskToVTODO(task, 'test-uid');
@@ -130,13 +163,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Completed task',
         status: 'DONE',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: '2025-01-05T10:30:00Z',
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -150,13 +187,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Task with tags',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: ['work', 'urgent', 'project-a'],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -169,13 +210,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Task with; comma, backslash\\ and newline\n',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -188,13 +233,17 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
         description: 'Recurring task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: 'FREQ=DAILY;COUNT=10',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -203,6 +252,56 @@ describe('VTODOMapper - pure functions for VTODO<->Task conversion', () => {
     });
   });
 
+  describe('taskToVTODO - server profile', () => {
+    const task: ObsidianTask = {
+      description: 'Profiled task',
+      status: 'TODO',
+      dueDate: '2025-01-20',
+      dueTime: null,
+      scheduledDate: null,
+      startDate: '2025-01-10',
+      startTime: null,
+      completedDate: null,
+      reminders: [],
+      priority: 'none',
+      recurrenceRule: '',
+      tags: ['work', 'a,b'],
+      notes: '',
+      parentUID: null,
+    };
+    const profile: ServerProfile = {
+      version: 1,
+      serverUrl: 'https://caldav.example.com',
+      probedAt: '2025-01-01T00:00:00.000Z',
+      principalUrl: null,
+      etagOnPut: true,
+      categories: 'comma',
+      syncCollection: true,
+      vtodoDtstart: true,
+    };
+
+    it('should write one CATEGORIES line per tag when the server stores them that way', () => {
+      const vtodo = new VTODOMapper({ ...profile, categories: 'repeated' }).taskToVTODO(task, 'uid');
+
+      expect(vtodo).toContain('CATEGORIES:work\r\nCATEGORIES:a\\,b');
+      expect(new VTODOMapper().vtodoToTask({ data: vtodo, url: '' }).tags).toEqual(['work', 'a,b']);
+    });
+
+    it('should leave out DTSTART for servers that do not keep it on tasks', () => {
+      const vtodo = new VTODOMapper({ ...profile, vtodoDtstart: false }).taskToVTODO(task, 'uid');
+
+      expect(vtodo).not.toContain('DTSTART');
+      expect(vtodo).toContain('DUE;VALUE=DATE:20250120');
+    });
+
+    it('should serialize as without a profile when the server has no quirks', () => {
+      const vtodo = new VTODOMapper(profile).taskToVTODO(task, 'uid');
+
+      expect(vtodo).toContain('DTSTART;VALUE=DATE:20250110');
+      expect(vtodo).toContain('CATEGORIES:work,a\\,b');
+    });
+  });
+
   describe('vtodoToTask', () => {
     it('should convert basic VTODO to task', () => {
       const vtodoData = `BEGIN:VCALENDAR
@@ -440,13 +539,17 @@ END:VTODO`;
         description: 'Buy bread, milk, eggs',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       // Escape: task to VTODO
@@ -475,13 +578,17 @@ END:VTODO`;
         description: 'Task with; comma, and\\ backslash',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       // Round-trip: task → VTODO → task
@@ -504,13 +611,17 @@ END:VTODO`;
         description: originalDescription,
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       // First sync: task → VTODO → task
@@ -538,13 +649,17 @@ END:VTODO`;
         description: 'Task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: ['home,work', 'urgent'],
         notes: '',
+        parentUID: null,
       };
 
       // Escape: task to VTODO
@@ -660,13 +775,17 @@ END:VTODO`;
         description: 'Task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: 'Remember to bring supplies',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -678,13 +797,17 @@ END:VTODO`;
         description: 'Task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -696,13 +819,17 @@ END:VTODO`;
         description: 'Task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: 'Line 1\nLine 2; with semicolons, commas',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -714,13 +841,17 @@ END:VTODO`;
         description: 'Task',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: 'Meeting at 10:30\nBring items: laptop, notebook\nNote; important',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -761,13 +892,17 @@ END:VTODO`;
         description: 'Task with date',
         status: 'TODO',
         dueDate: '2026-02-11',
+        dueTime: null,
         scheduledDate: '2026-02-10',
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       const vtodo = mapper.taskToVTODO(task, 'test-uid');
@@ -783,13 +918,17 @@ END:VTODO`;
         description: 'Round-trip test',
         status: 'TODO',
         dueDate: '2026-02-11',
+        dueTime: null,
         scheduledDate: '2026-02-10',
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       // Convert to VTODO and back
@@ -812,13 +951,17 @@ END:VTODO`;
         description: 'Multi-sync test',
         status: 'TODO',
         dueDate: '2026-02-11',
+        dueTime: null,
         scheduledDate: null,
         startDate: null,
+        startTime: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         recurrenceRule: '',
         tags: [],
         notes: '',
+        parentUID: null,
       };
 
       // Sync 1: task → VTODO → task
@@ -888,6 +1031,55 @@ END:VTODO`;
     });
   });
 
+  describe('property parameters', () => {
+    it('should read values containing colons after parameters', () => {
+      const data = 'BEGIN:VTODO\r\nUID:p\r\nSUMMARY;LANGUAGE=en:Meeting at 10:30\r\nDESCRIPTION;ALTREP="cid:notes@example.com":Agenda: budget\r\nEND:VTODO';
+
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'http://example.com/p.ics' });
+
+      expect(task.description).toBe('Meeting at 10:30');
+      expect(task.notes).toBe('Agenda: budget');
+    });
+
+    it('should read categories with parameters and escaped commas', () => {
+      const data = 'BEGIN:VTODO\r\nUID:c\r\nCATEGORIES;LANGUAGE=en:work,a\\,b\r\nEND:VTODO';
+
+      expect(mapper.vtodoToTask({ data, etag: 'e', url: 'http://example.com/c.ics' }).tags).toEqual(['work', 'a,b']);
+    });
+
+    it('should take the parent from RELATED-TO with an empty RELTYPE', () => {
+      const data = fs.readFileSync(path.resolve('test/fixtures/vtodos/apple-subtask-related.ics'), 'utf8');
+
+      expect(mapper.extractParentUID(data)).toBe('2133451409859410883');
+      expect(mapper.extractParentUID('BEGIN:VTODO\r\nUID:x\r\nRELATED-TO;RELTYPE=CHILD:y\r\nEND:VTODO')).toBeNull();
+    });
+
+    it('should fold long output lines at 75 octets', () => {
+      const vtodo = mapper.taskToVTODO({
+        description: 'Überprüfung der Jahresabrechnung 📊 '.repeat(5),
+        status: 'TODO',
+        dueDate: null,
+        dueTime: null,
+        scheduledDate: null,
+        startDate: null,
+        startTime: null,
+        completedDate: null,
+        reminders: [],
+        priority: 'none',
+        recurrenceRule: '',
+        tags: [],
+        notes: '',
+        parentUID: null,
+      }, 'fold-out');
+
+      for (const line of vtodo.split('\r\n')) {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      }
+      expect(mapper.vtodoToTask({ data: vtodo, etag: 'e', url: 'http://example.com/f.ics' }).description)
+        .toBe('Überprüfung der Jahresabrechnung 📊 '.repeat(5).trim());
+    });
+  });
+
   describe('VTIMEZONE / TZID date handling', () => {
     it('should parse DUE with TZID parameter', () => {
       const vtodoData = `BEGIN:VTODO
@@ -903,8 +1095,10 @@ END:VTODO`;
         url: 'http://example.com/test.ics'
       };
 
+      // Auckland is at UTC+13 in February
       const task = mapper.vtodoToTask(vtodo);
-      expect(task.dueDate).toBe('2026-02-14');
+      expect(task.dueDate).toBe(local('2026-02-13T17:00:01Z').date);
+      expect(task.dueTime).toBe(local('2026-02-13T17:00:01Z').time);
     });
 
     it('should parse DTSTART with TZID parameter', () => {
@@ -922,7 +1116,8 @@ END:VTODO`;
       };
 
       const task = mapper.vtodoToTask(vtodo);
-      expect(task.startDate).toBe('2026-02-14');
+      expect(task.startDate).toBe(local('2026-02-13T11:00:00Z').date);
+      expect(task.startTime).toBe(local('2026-02-13T11:00:00Z').time);
     });
 
     it('should still parse VALUE=DATE format', () => {
@@ -944,6 +1139,231 @@ END:VTODO`;
     });
   });
 
+  describe('time of day', () => {
+    function todo(...lines: string[]): CalendarObject {
+      return { data: ['BEGIN:VCALENDAR', 'BEGIN:VTODO', 'UID:t', 'SUMMARY:Task', ...lines, 'END:VTODO', 'END:VCALENDAR'].join('\r\n'), etag: 'e', url: 'u' };
+    }
+
+    it('should convert UTC times to the local date and time', () => {
+      const task = mapper.vtodoToTask(todo('DUE:20260301T233000Z'));
+      expect(task.dueDate).toBe(local('2026-03-01T23:30:00Z').date);
+      expect(task.dueTime).toBe(local('2026-03-01T23:30:00Z').time);
+    });
+
+    it('should take floating times and unknown zones as written', () => {
+      expect(mapper.vtodoToTask(todo('DUE:20260301T093000'))).toMatchObject({ dueDate: '2026-03-01', dueTime: '09:30' });
+      expect(mapper.vtodoToTask(todo('DUE;TZID=Mars/Olympus:20260301T093000'))).toMatchObject({ dueDate: '2026-03-01', dueTime: '09:30' });
+    });
+
+    it('should read all-day dates without a time', () => {
+      expect(mapper.vtodoToTask(todo('DUE;VALUE=DATE:20260301'))).toMatchObject({ dueDate: '2026-03-01', dueTime: null });
+    });
+
+    it('should follow the VTIMEZONE observance in effect', () => {
+      // Auckland is on standard time (+12) in July
+      const data = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTIMEZONE',
+        'TZID:Custom/Auckland',
+        'BEGIN:STANDARD',
+        'DTSTART:19700405T030000',
+        'RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=4',
+        'TZOFFSETFROM:+1300',
+        'TZOFFSETTO:+1200',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:19700927T020000',
+        'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=9',
+        'TZOFFSETFROM:+1200',
+        'TZOFFSETTO:+1300',
+        'END:DAYLIGHT',
+        'END:VTIMEZONE',
+        'BEGIN:VTODO',
+        'UID:t',
+        'DUE;TZID=Custom/Auckland:20260715T120000',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+      expect(task.dueDate).toBe(local('2026-07-15T00:00:00Z').date);
+      expect(task.dueTime).toBe(local('2026-07-15T00:00:00Z').time);
+    });
+
+    it('should write new times in UTC and all-day dates as DATE values', () => {
+      const at = local('2026-03-01T09:00:00Z');
+      const base = mapper.vtodoToTask(todo());
+
+      expect(mapper.taskToVTODO({ ...base, dueDate: at.date, dueTime: at.time }, 't')).toContain('DUE:20260301T090000Z');
+      expect(mapper.taskToVTODO({ ...base, dueDate: '2026-03-01', dueTime: null }, 't')).toContain('DUE;VALUE=DATE:20260301');
+    });
+
+    it('should keep an untouched time exactly as written', () => {
+      const data = todo('DUE;TZID=Europe/Berlin:20260301T100000').data;
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+
+      expect(mapper.patchVTODO(data, task, 't')).toContain('DUE;TZID=Europe/Berlin:20260301T100000');
+    });
+
+    it('should keep the zone of a changed time', () => {
+      const data = todo('DUE;TZID=Europe/Berlin:20260301T100000', 'DTSTART:20260228T080000').data;
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+      const due = local('2026-03-01T10:00:00Z');
+
+      const patched = mapper.patchVTODO(data, { ...task, dueDate: due.date, dueTime: due.time, startTime: '09:15' }, 't');
+      expect(patched).toContain('DUE;TZID=Europe/Berlin:20260301T110000');
+      expect(patched).toContain('DTSTART:20260228T091500');
+    });
+
+    it('should give a date alone a time when the other of DUE and DTSTART has one', () => {
+      const base = mapper.vtodoToTask(todo());
+      const due = local('2026-03-02T09:00:00Z');
+      const start = local('2026-02-28T08:00:00Z');
+
+      const timedDue = mapper.taskToVTODO({ ...base, startDate: '2026-03-01', dueDate: due.date, dueTime: due.time }, 't');
+      expect(timedDue).toContain('DUE:20260302T090000Z');
+      const midnight = new Date(2026, 2, 1).toISOString().replace(/[-:]|\.\d{3}/g, '');
+      expect(timedDue).toContain(`DTSTART:${midnight}`);
+      expect(timedDue).not.toContain('VALUE=DATE');
+      expect(mapper.vtodoToTask({ data: timedDue, etag: 'e', url: 'u' }))
+        .toMatchObject({ startDate: '2026-03-01', startTime: null, dueDate: due.date, dueTime: due.time });
+
+      const timedStart = mapper.taskToVTODO({ ...base, startDate: start.date, startTime: start.time, dueDate: '2026-03-02' }, 't');
+      expect(timedStart).toContain('DTSTART:20260228T080000Z');
+      expect(timedStart).not.toContain('VALUE=DATE');
+      expect(mapper.vtodoToTask({ data: timedStart, etag: 'e', url: 'u' }))
+        .toMatchObject({ startDate: start.date, startTime: start.time, dueDate: '2026-03-02', dueTime: null });
+    });
+
+    it('should keep a start of day written by another client as written', () => {
+      const data = todo('DTSTART;TZID=Europe/Berlin:20260301T000000', 'DUE;TZID=Europe/Berlin:20260302T090000').data;
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+
+      expect(mapper.patchVTODO(data, task, 't')).toContain('DTSTART;TZID=Europe/Berlin:20260301T000000');
+    });
+  });
+
+  describe('reminders (VALARM)', () => {
+    function todo(...lines: string[]): string {
+      return ['BEGIN:VCALENDAR', 'BEGIN:VTODO', 'UID:t', 'SUMMARY:Call Bob', ...lines, 'END:VTODO', 'END:VCALENDAR'].join('\r\n');
+    }
+
+    function alarm(...lines: string[]): string {
+      return ['BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:Reminder', ...lines, 'END:VALARM'].join('\r\n');
+    }
+
+    function reminder(iso: string): string {
+      const at = local(iso);
+      return `${at.date} ${at.time}`;
+    }
+
+    function remindersOf(data: string): string[] {
+      return mapper.vtodoToTask({ data, etag: 'e', url: 'u' }).reminders;
+    }
+
+    it('should read absolute triggers and triggers relative to DUE or DTSTART', () => {
+      const data = todo(
+        'DUE:20260301T090000Z',
+        'DTSTART:20260228T120000Z',
+        alarm('TRIGGER:-PT15M'),
+        alarm('TRIGGER;RELATED=START:PT1H'),
+        alarm('TRIGGER;VALUE=DATE-TIME:20260227T180000Z'),
+      );
+
+      expect(remindersOf(data)).toEqual([
+        reminder('2026-02-27T18:00:00Z'),
+        reminder('2026-02-28T13:00:00Z'),
+        reminder('2026-03-01T08:45:00Z'),
+      ]);
+    });
+
+    it('should read a trigger at an all-day DUE as local midnight', () => {
+      const data = fs.readFileSync(path.resolve('test/fixtures/vtodos', 'apple-valarm-due-date.ics'), 'utf8');
+      expect(remindersOf(data)).toEqual(['2025-11-19 00:00']);
+    });
+
+    it('should leave out alarms that are not reminders or cannot be resolved', () => {
+      expect(remindersOf(todo(alarm('TRIGGER:-PT15M')))).toEqual([]);
+      expect(remindersOf(todo('DUE:20260301T090000Z', 'BEGIN:VALARM', 'ACTION:NONE', 'TRIGGER:-PT15M', 'END:VALARM'))).toEqual([]);
+    });
+
+    it('should write new reminders as display alarms with absolute triggers', () => {
+      const task = mapper.vtodoToTask({ data: todo(), etag: 'e', url: 'u' });
+      const vtodo = mapper.taskToVTODO({ ...task, reminders: [reminder('2026-03-01T08:45:00Z')] }, 't');
+
+      expect(vtodo).toContain(['BEGIN:VALARM', 'ACTION:DISPLAY', 'DESCRIPTION:Call Bob', 'TRIGGER;VALUE=DATE-TIME:20260301T084500Z', 'END:VALARM'].join('\r\n'));
+      expect(remindersOf(vtodo)).toEqual([reminder('2026-03-01T08:45:00Z')]);
+    });
+
+    it('should keep kept alarms as written, drop removed ones and add new ones', () => {
+      const data = todo('DUE:20260301T090000Z', alarm('TRIGGER:-PT15M', 'X-WR-ALARMUID:keep'), alarm('TRIGGER:-PT1H', 'X-WR-ALARMUID:drop'));
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+
+      const patched = mapper.patchVTODO(data, {
+        ...task,
+        reminders: [reminder('2026-03-01T08:45:00Z'), reminder('2026-02-28T20:00:00Z')],
+      }, 't');
+      expect(patched).toContain(alarm('TRIGGER:-PT15M', 'X-WR-ALARMUID:keep'));
+      expect(patched).not.toContain('X-WR-ALARMUID:drop');
+      expect(patched).toContain('TRIGGER;VALUE=DATE-TIME:20260228T200000Z');
+    });
+
+    it('should keep relative alarms when the due time they follow changes', () => {
+      const data = todo('DUE:20260301T090000Z', alarm('TRIGGER:-PT15M'));
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+      const due = local('2026-03-01T10:00:00Z');
+
+      const patched = mapper.patchVTODO(data, { ...task, dueDate: due.date, dueTime: due.time }, 't');
+      expect(patched).toContain(alarm('TRIGGER:-PT15M'));
+      expect(remindersOf(patched)).toEqual([reminder('2026-03-01T09:45:00Z')]);
+    });
+  });
+
+  describe('subtasks (RELATED-TO)', () => {
+    function todo(...lines: string[]): string {
+      return ['BEGIN:VCALENDAR', 'BEGIN:VTODO', 'UID:t', 'SUMMARY:Child', ...lines, 'END:VTODO', 'END:VCALENDAR'].join('\r\n');
+    }
+
+    function parentOf(data: string): string | null {
+      return mapper.vtodoToTask({ data, etag: 'e', url: 'u' }).parentUID;
+    }
+
+    it('should read the parent from RELATED-TO, which links to the parent by default', () => {
+      expect(parentOf(todo('RELATED-TO:p'))).toBe('p');
+      expect(parentOf(todo('RELATED-TO;RELTYPE=PARENT:p'))).toBe('p');
+      expect(parentOf(todo('RELATED-TO;RELTYPE=SIBLING:s'))).toBeNull();
+      expect(parentOf(todo())).toBeNull();
+    });
+
+    it('should write the parent as RELATED-TO with RELTYPE=PARENT', () => {
+      const task = mapper.vtodoToTask({ data: todo(), etag: 'e', url: 'u' });
+
+      expect(mapper.taskToVTODO({ ...task, parentUID: 'p' }, 't')).toContain('RELATED-TO;RELTYPE=PARENT:p\r\n');
+    });
+
+    it('should keep the parent link as written while the parent is unchanged', () => {
+      const data = todo('RELATED-TO;RELTYPE="":p', 'RELATED-TO;RELTYPE=SIBLING:s');
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+
+      const patched = mapper.patchVTODO(data, task, 't');
+      expect(patched).toContain('RELATED-TO;RELTYPE="":p');
+      expect(patched).toContain('RELATED-TO;RELTYPE=SIBLING:s');
+    });
+
+    it('should replace the parent link when the parent changes and drop it for top-level tasks', () => {
+      const data = todo('RELATED-TO;RELTYPE="":p', 'RELATED-TO;RELTYPE=SIBLING:s');
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'u' });
+
+      const moved = mapper.patchVTODO(data, { ...task, parentUID: 'q' }, 't');
+      expect(moved).toContain('RELATED-TO;RELTYPE=PARENT:q');
+      expect(moved).not.toContain(':p\r\n');
+
+      const topLevel = mapper.patchVTODO(data, { ...task, parentUID: null }, 't');
+      expect(parentOf(topLevel)).toBeNull();
+      expect(topLevel).toContain('RELATED-TO;RELTYPE=SIBLING:s');
+    });
+  });
+
   describe('Integration: realistic server VTODO with folding and TZID', () => {
     it('should parse a full DAVx5/Tasks.org VTODO with VTIMEZONE block', () => {
       // Simulates a real VTODO from DAVx5 with:
@@ -1005,9 +1425,11 @@ END:VTODO`;
         'unfolded properly'
       );
 
-      // TZID dates should extract date portion
-      expect(task.dueDate).toBe('2026-02-14');
-      expect(task.startDate).toBe('2026-02-14');
+      // TZID dates are resolved through the VTIMEZONE
+      expect(task.dueDate).toBe(local('2026-02-13T17:00:01Z').date);
+      expect(task.dueTime).toBe(local('2026-02-13T17:00:01Z').time);
+      expect(task.startDate).toBe(local('2026-02-13T11:00:00Z').date);
+      expect(task.startTime).toBe(local('2026-02-13T11:00:00Z').time);
 
       // Other properties should parse normally
       expect(task.status).toBe('TODO');
@@ -1041,20 +1463,113 @@ END:VTODO`;
         url: 'http://example.com/test.ics'
       };
 
-      // Parse TZID dates
+      // Parse TZID dates (London is at UTC+0 until the end of March)
       const task = mapper.vtodoToTask(vtodo);
-      expect(task.dueDate).toBe('2026-03-15');
-      expect(task.startDate).toBe('2026-03-10');
+      expect(task.dueDate).toBe(local('2026-03-15T09:00:00Z').date);
+      expect(task.dueTime).toBe(local('2026-03-15T09:00:00Z').time);
 
-      // Round-trip: convert back to VTODO (will use VALUE=DATE format)
+      // Round-trip: a new VTODO has no VTIMEZONE, so times are written in UTC
       const vtodoOut = mapper.taskToVTODO(task, 'round-trip-tzid');
-      expect(vtodoOut).toContain('DUE;VALUE=DATE:20260315');
-      expect(vtodoOut).toContain('DTSTART;VALUE=DATE:20260310');
+      expect(vtodoOut).toContain('DUE:20260315T090000Z');
+      expect(vtodoOut).toContain('DTSTART:20260310T080000Z');
 
-      // Parse again — dates should be stable
+      // Parse again — dates and times should be stable
       const task2 = mapper.vtodoToTask({ data: vtodoOut, etag: 'e2', url: 'http://test' });
-      expect(task2.dueDate).toBe('2026-03-15');
-      expect(task2.startDate).toBe('2026-03-10');
+      expect(task2.dueDate).toBe(task.dueDate);
+      expect(task2.dueTime).toBe(task.dueTime);
+      expect(task2.startDate).toBe(task.startDate);
+      expect(task2.startTime).toBe(task.startTime);
+    });
+  });
+
+  describe('patchVTODO', () => {
+    const MAPPED = ['DTSTAMP', 'LAST-MODIFIED', 'SUMMARY', 'DESCRIPTION', 'STATUS', 'DUE', 'DTSTART', 'COMPLETED',
+      'PERCENT-COMPLETE', 'PRIORITY', 'RRULE', 'CATEGORIES'];
+
+    function fixture(name: string): string {
+      return fs.readFileSync(path.resolve('test/fixtures/vtodos', name), 'utf8');
+    }
+
+    /**
+     * The unfolded content lines the mapper does not own: everything
+     * outside the VTODO's own properties, including nested components.
+     */
+    function unmappedLines(data: string): string[] {
+      const lines = data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(l => l !== '');
+      let depth = 0;
+      let inTodo = false;
+      return lines.filter(line => {
+        if (line === 'BEGIN:VTODO') inTodo = true;
+        if (line === 'END:VTODO') inTodo = false;
+        if (line.startsWith('BEGIN:')) depth++;
+        const name = line.split(/[;:]/)[0].toUpperCase();
+        // RELATED-TO is mapped when it links to the parent, its default
+        const parentLink = name === 'RELATED-TO' && !/RELTYPE=(CHILD|SIBLING)/i.test(line.split(':')[0]);
+        const ownProperty = inTodo && depth === 2 && (MAPPED.includes(name) || parentLink);
+        if (line.startsWith('END:')) depth--;
+        return !ownProperty;
+      });
+    }
+
+    function patchFixture(name: string, change: Partial<ObsidianTask>): { original: string; patched: string } {
+      const original = fixture(name);
+      const task = mapper.vtodoToTask({ data: original, etag: 'e', url: `http://example.com/${name}` });
+      const uid = mapper.extractUID(original);
+      return { original, patched: mapper.patchVTODO(original, { ...task, ...change }, uid) };
+    }
+
+    it.each([
+      'apple-simple-completed.ics',
+      'apple-subtask-related.ics',
+      'apple-valarm-due-date.ics',
+      'davx5-recurring-daily.ics',
+      'davx5-vtimezone-recurring.ics',
+      'obsidian-all-fields-updated.ics',
+    ])('should keep every property it does not map in %s', name => {
+      const { original, patched } = patchFixture(name, { description: 'Renamed in Obsidian' });
+
+      expect(unmappedLines(patched)).toEqual(unmappedLines(original));
+      expect(patched.match(/^SUMMARY:/gm)).toEqual(['SUMMARY:']);
+      expect(mapper.vtodoToTask({ data: patched, etag: 'e', url: 'http://example.com/x.ics' }).description)
+        .toBe('Renamed in Obsidian');
+    });
+
+    it('should keep alarms, their descriptions and Apple extensions', () => {
+      const { patched } = patchFixture('apple-valarm-due-date.ics', { priority: 'highest' });
+
+      expect(patched).toContain('BEGIN:VALARM');
+      expect(patched).toContain('X-WR-ALARMUID:');
+      expect(patched).toContain('X-APPLE-SORT-ORDER:');
+      expect(patched).toContain('PRIORITY:1');
+    });
+
+    it('should keep the VTIMEZONE and the alarm DESCRIPTION nested in the VTODO', () => {
+      const original = fixture('davx5-vtimezone-recurring.ics');
+      const alarmDescription = /BEGIN:VALARM[\s\S]*?(DESCRIPTION:[^\r\n]*)/.exec(original)![1];
+
+      const { patched } = patchFixture('davx5-vtimezone-recurring.ics', { description: 'Renamed' });
+
+      expect(patched).toContain('BEGIN:VTIMEZONE');
+      expect(patched).toContain('TZID:Pacific/Auckland');
+      expect(/BEGIN:VALARM[\s\S]*?(DESCRIPTION:[^\r\n]*)/.exec(patched)![1]).toBe(alarmDescription);
+    });
+
+    it('should keep a partial PERCENT-COMPLETE unless the task is completed', () => {
+      const data = 'BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nUID:p\r\nSUMMARY:Half done\r\nPERCENT-COMPLETE:50\r\n' +
+        'STATUS:IN-PROCESS\r\nEND:VTODO\r\nEND:VCALENDAR';
+      const task = mapper.vtodoToTask({ data, etag: 'e', url: 'http://example.com/p.ics' });
+
+      expect(mapper.patchVTODO(data, task, 'p')).toContain('PERCENT-COMPLETE:50');
+      const done = mapper.patchVTODO(data, { ...task, status: 'DONE', completedDate: '2026-02-01' }, 'p');
+      expect(done).toContain('PERCENT-COMPLETE:100');
+      expect(done).not.toContain('PERCENT-COMPLETE:50');
+    });
+
+    it('should remove properties the task no longer has', () => {
+      const { patched } = patchFixture('obsidian-all-fields-updated.ics', { dueDate: null, tags: [] });
+
+      expect(patched).not.toMatch(/^DUE/m);
+      expect(patched).not.toMatch(/^CATEGORIES/m);
     });
   });
 });
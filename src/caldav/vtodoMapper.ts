@@ -1,3 +1,18 @@
+import { ServerProfile } from '../types';
+import {
+  ICalComponent,
+  ICalProperty,
+  decodeText,
+  encodeText,
+  findProperties,
+  findProperty,
+  paramValue,
+  parseICalendar,
+  serializeICalendar,
+  splitValues,
+} from './icalendar';
+import { formatDateTime, localInstant, localWall, parseDateTime, parseDuration, toInstant, toZoneWall } from './timezone';
+
 /**
  * Represents a CalDAV calendar object (VTODO)
  */
@@ -14,19 +29,47 @@ export interface ObsidianTask {
   description: string;
   status: string;
   dueDate: string | null;
+  dueTime: string | null; // 'HH:mm' in the user's zone, null = all day
   scheduledDate: string | null;
   startDate: string | null;
+  startTime: string | null; // 'HH:mm' in the user's zone, null = all day
   completedDate: string | null;
+  reminders: string[]; // 'YYYY-MM-DD HH:mm' in the user's zone
   priority: string;
   recurrenceRule: string;
   tags: string[];
   notes: string;
+  parentUID: string | null; // UID of the parent VTODO (RELATED-TO)
 }
 
+/** Times a date alone is written with when DUE or DTSTART has a time. */
+const START_OF_DAY = '00:00';
+const END_OF_DAY = '23:59';
+
+/**
+ * VTODO properties written from an ObsidianTask; patchVTODO() replaces
+ * these, and RELATED-TO links to a parent, and keeps all others.
+ */
+const MAPPED_PROPERTIES = [
+  'DTSTAMP', 'LAST-MODIFIED', 'SUMMARY', 'DESCRIPTION', 'STATUS', 'DUE', 'DTSTART',
+  'COMPLETED', 'PERCENT-COMPLETE', 'PRIORITY', 'RRULE', 'CATEGORIES',
+];
+
 /**
  * Maps between Obsidian tasks and CalDAV VTODO objects
  */
 export class VTODOMapper {
+  private profile: ServerProfile | null;
+
+  /**
+   * @param profile Probed server capabilities; serialization follows the
+   * server's preferences where it has any. Without one, the defaults
+   * that work on most servers are used.
+   */
+  constructor(profile: ServerProfile | null = null) {
+    this.profile = profile;
+  }
+
   /**
    * Convert Obsidian task to VTODO iCalendar string
    * @param task The Obsidian task
@@ -34,59 +77,131 @@ export class VTODOMapper {
    * @returns VTODO iCalendar string
    */
   taskToVTODO(task: ObsidianTask, uid: string): string {
-    const lines: string[] = [];
+    return serializeICalendar({
+      name: 'VCALENDAR',
+      properties: [property('VERSION', '2.0'), property('PRODID', '-//Obsidian//Tasks CalDAV Sync//EN')],
+      components: [{
+        name: 'VTODO',
+        properties: [property('UID', uid), ...this.taskProperties(task)],
+        components: task.reminders.map(reminder => this.reminderAlarm(task, reminder)),
+      }],
+    });
+  }
+
+  /**
+   * Apply a task to an existing calendar object as fetched from the server.
+   * Only the properties mapped from the task are replaced, in the VTODO
+   * without RECURRENCE-ID; everything else — properties the plugin does not
+   * model (SEQUENCE, X-APPLE-SORT-ORDER, RELATED-TO other than to the
+   * parent, ...), VTIMEZONEs and
+   * recurrence overrides — is kept. VALARMs still among the task's
+   * reminders are kept as written, those removed from it are dropped and
+   * new reminders are added. Data without a VTODO is replaced by a new
+   * one.
+   */
+  patchVTODO(existing: string, task: ObsidianTask, uid: string): string {
+    const roots = parseICalendar(existing);
+    const vtodo = this.findMasterVTODO(roots);
+    if (!vtodo) {
+      return this.taskToVTODO(task, uid);
+    }
+
+    // Alarms are matched against the reminders before DUE and DTSTART,
+    // which relative triggers refer to, are replaced
+    vtodo.components = this.patchAlarms(task, vtodo, roots);
+
+    const insertAt = vtodo.properties.findIndex(isMapped);
+    const percentComplete = findProperty(vtodo, 'PERCENT-COMPLETE');
+    const properties = this.taskProperties(task, { todo: vtodo, roots });
+    // Progress of an open task is the other client's to keep; reopening
+    // a completed one resets it
+    if (!task.completedDate && percentComplete && percentComplete.value.trim() !== '100') {
+      properties.push(percentComplete);
+    }
+    vtodo.properties = vtodo.properties.filter(p => !isMapped(p));
+    vtodo.properties.splice(insertAt === -1 ? vtodo.properties.length : insertAt, 0, ...properties);
+
+    return roots.map(serializeICalendar).join('\r\n');
+  }
+
+  /**
+   * The VTODO properties mapped from a task (all of MAPPED_PROPERTIES
+   * that apply, and the parent link), in the order taskToVTODO() writes
+   * them.
+   * @param existing The VTODO being patched, whose DUE, DTSTART and
+   * parent link are kept as written while the task still matches them
+   */
+  private taskProperties(task: ObsidianTask, existing?: { todo: ICalComponent; roots: ICalComponent[] }): ICalProperty[] {
+    const properties: ICalProperty[] = [];
 
-    lines.push('BEGIN:VCALENDAR');
-    lines.push('VERSION:2.0');
-    lines.push('PRODID:-//Obsidian//Tasks CalDAV Sync//EN');
-    lines.push('BEGIN:VTODO');
-    lines.push(`UID:${uid}`);
-    lines.push(`DTSTAMP:${this.formatDateTimeUTC(new Date())}`);
-    lines.push(`LAST-MODIFIED:${this.formatDateTimeUTC(new Date())}`);
-    lines.push(`SUMMARY:${this.escapeText(task.description)}`);
+    properties.push(property('DTSTAMP', this.formatDateTimeUTC(new Date())));
+    properties.push(property('LAST-MODIFIED', this.formatDateTimeUTC(new Date())));
+    properties.push(property('SUMMARY', encodeText(task.description)));
 
     // Description (notes/body text)
     if (task.notes) {
-      lines.push(`DESCRIPTION:${this.escapeText(task.notes)}`);
+      properties.push(property('DESCRIPTION', encodeText(task.notes)));
     }
 
     // Status mapping
-    lines.push(`STATUS:${this.mapStatusToVTODO(task.status)}`);
+    properties.push(property('STATUS', this.mapStatusToVTODO(task.status)));
+
+    // Start date: prefer startDate (🛫) over scheduledDate (⏳) for DTSTART
+    // Left out for servers that reject or drop DTSTART on VTODOs
+    const dtstart = this.profile?.vtodoDtstart !== false ? task.startDate || task.scheduledDate : null;
+    let startTime = task.startDate ? task.startTime : null;
+    let dueTime = task.dueTime;
+    // DUE and DTSTART must both be dates or both have a time (RFC 5545
+    // Section 3.8.2.3): next to a time, a date alone is written as the
+    // start or end of its day, which vtodoToTask() reads back as a date
+    if (task.dueDate && dtstart) {
+      if (dueTime !== null && startTime === null) startTime = START_OF_DAY;
+      else if (dueTime === null && startTime !== null) dueTime = END_OF_DAY;
+    }
 
     // Due date
     if (task.dueDate) {
-      lines.push(`DUE;VALUE=DATE:${this.formatDate(task.dueDate)}`);
+      properties.push(this.dateTimeProperty('DUE', task.dueDate, dueTime, existing));
     }
 
-    // Start date: prefer startDate (🛫) over scheduledDate (⏳) for DTSTART
-    const dtstart = task.startDate || task.scheduledDate;
     if (dtstart) {
-      lines.push(`DTSTART;VALUE=DATE:${this.formatDate(dtstart)}`);
+      properties.push(this.dateTimeProperty('DTSTART', dtstart, startTime, existing));
     }
 
     // Completed date
     if (task.completedDate) {
-      lines.push(`COMPLETED:${this.formatDateTimeUTC(new Date(task.completedDate))}`);
-      lines.push('PERCENT-COMPLETE:100');
+      properties.push(property('COMPLETED', this.formatDateTimeUTC(new Date(task.completedDate))));
+      properties.push(property('PERCENT-COMPLETE', '100'));
     }
 
     // Priority mapping (Obsidian: lowest/low/none/medium/high/highest -> VTODO: 0-9)
-    lines.push(`PRIORITY:${this.mapPriorityToVTODO(task.priority)}`);
+    properties.push(property('PRIORITY', String(this.mapPriorityToVTODO(task.priority))));
 
     // Recurrence rule
     if (task.recurrenceRule) {
-      lines.push(`RRULE:${task.recurrenceRule}`);
+      properties.push(property('RRULE', task.recurrenceRule));
     }
 
-    // Tags as categories
+    // Tags as categories, in the form the server stores them
     if (task.tags.length > 0) {
-      lines.push(`CATEGORIES:${task.tags.map(t => this.escapeText(t)).join(',')}`);
+      if (this.profile?.categories === 'repeated') {
+        for (const tag of task.tags) {
+          properties.push(property('CATEGORIES', encodeText(tag)));
+        }
+      } else {
+        properties.push(property('CATEGORIES', task.tags.map(encodeText).join(',')));
+      }
     }
 
-    lines.push('END:VTODO');
-    lines.push('END:VCALENDAR');
+    // Subtask of another VTODO
+    if (task.parentUID) {
+      const previous = existing && existing.todo.properties.find(isParentLink);
+      properties.push(previous && previous.value.trim() === task.parentUID
+        ? previous
+        : property('RELATED-TO', task.parentUID, { RELTYPE: ['PARENT'] }));
+    }
 
-    return lines.join('\r\n');
+    return properties;
   }
 
   /**
@@ -95,22 +210,32 @@ export class VTODOMapper {
    * @returns Obsidian task object
    */
   vtodoToTask(vtodo: CalendarObject): ObsidianTask {
-    const unfolded = this.unfold(vtodo.data);
-    // Extract only the VTODO section to avoid matching properties from VTIMEZONE or other components
-    const vtodoMatch = unfolded.match(/BEGIN:VTODO[\s\S]*?END:VTODO/);
-    const data = vtodoMatch ? vtodoMatch[0] : unfolded;
+    const roots = parseICalendar(vtodo.data);
+    // Only the VTODO's own properties, not those of VTIMEZONE, VALARM or other components
+    const todo = this.findMasterVTODO(roots) ?? { name: 'VTODO', properties: [], components: [] };
+    const due = this.extractDateTime(findProperty(todo, 'DUE'), roots);
+    const start = this.extractDateTime(findProperty(todo, 'DTSTART'), roots);
+    // The start or end of a day next to a time stands for the date alone
+    if (due?.time && start?.time) {
+      if (start.time === START_OF_DAY) start.time = null;
+      else if (due.time === END_OF_DAY) due.time = null;
+    }
 
     return {
-      description: this.extractProperty(data, 'SUMMARY') || 'Untitled Task',
-      status: this.mapStatusFromVTODO(this.extractProperty(data, 'STATUS') || 'NEEDS-ACTION'),
-      dueDate: this.extractDateProperty(data, 'DUE'),
+      description: this.extractText(todo, 'SUMMARY') || 'Untitled Task',
+      status: this.mapStatusFromVTODO(this.extractValue(todo, 'STATUS') || 'NEEDS-ACTION'),
+      dueDate: due?.date ?? null,
+      dueTime: due?.time ?? null,
       scheduledDate: null,
-      startDate: this.extractDateProperty(data, 'DTSTART'),
-      completedDate: this.extractDateTimeProperty(data, 'COMPLETED'),
-      priority: this.mapPriorityFromVTODO(this.extractProperty(data, 'PRIORITY') || '0'),
-      recurrenceRule: this.extractProperty(data, 'RRULE') || '',
-      tags: this.extractCategories(data),
-      notes: this.extractRawProperty(data, 'DESCRIPTION') || '',
+      startDate: start?.date ?? null,
+      startTime: start?.time ?? null,
+      completedDate: this.extractDateTimeProperty(todo, 'COMPLETED'),
+      reminders: this.extractReminders(todo, roots),
+      priority: this.mapPriorityFromVTODO(this.extractValue(todo, 'PRIORITY') || '0'),
+      recurrenceRule: this.extractValue(todo, 'RRULE') || '',
+      tags: this.extractCategories(todo),
+      notes: this.extractText(todo, 'DESCRIPTION') || '',
+      parentUID: this.parentUID(todo),
     };
   }
 
@@ -118,9 +243,17 @@ export class VTODOMapper {
    * Extract UID from VTODO data
    */
   extractUID(data: string): string {
-    const unfolded = this.unfold(data);
-    const match = unfolded.match(/^UID:(.+)$/m);
-    return match ? match[1].trim() : '';
+    const todo = this.findMasterVTODO(parseICalendar(data));
+    return (todo && this.extractValue(todo, 'UID')) ?? '';
+  }
+
+  /**
+   * Extract the parent's UID from its RELATED-TO link. Null without a
+   * parent.
+   */
+  extractParentUID(data: string): string | null {
+    const todo = this.findMasterVTODO(parseICalendar(data));
+    return todo && this.parentUID(todo);
   }
 
   /**
@@ -128,19 +261,8 @@ export class VTODOMapper {
    * Returns ISO 8601 string or null if not present
    */
   extractLastModified(data: string): string | null {
-    const match = this.unfold(data).match(/^LAST-MODIFIED:(.+)$/m);
-    if (!match) return null;
-
-    const timestamp = match[1].trim();
-    // Parse iCalendar datetime format (YYYYMMDDTHHMMSSZ)
-    const year = timestamp.substring(0, 4);
-    const month = timestamp.substring(4, 6);
-    const day = timestamp.substring(6, 8);
-    const hour = timestamp.substring(9, 11);
-    const minute = timestamp.substring(11, 13);
-    const second = timestamp.substring(13, 15);
-
-    return `${year}-${month}-${day}T${hour}:${minute}:${second}Z`;
+    const todo = this.findMasterVTODO(parseICalendar(data));
+    return todo && this.extractDateTimeProperty(todo, 'LAST-MODIFIED');
   }
 
   /**
@@ -214,75 +336,191 @@ export class VTODOMapper {
   }
 
   /**
-   * RFC 5545 Section 3.1: Unfold long content lines.
-   * Lines folded with CRLF+space/tab continuation are joined.
+   * The VTODO without RECURRENCE-ID, or the first VTODO if all have one,
+   * at the top level or inside a VCALENDAR.
    */
-  private unfold(data: string): string {
-    return data.replace(/\r?\n[ \t]/g, '');
+  private findMasterVTODO(roots: ICalComponent[]): ICalComponent | null {
+    const vtodos: ICalComponent[] = [];
+    for (const root of roots) {
+      if (root.name === 'VTODO') vtodos.push(root);
+      vtodos.push(...root.components.filter(c => c.name === 'VTODO'));
+    }
+    return vtodos.find(v => !findProperty(v, 'RECURRENCE-ID')) ?? vtodos[0] ?? null;
   }
 
   /**
-   * Extract a simple property value from iCalendar data
+   * UID the VTODO's parent link points to, if it has one
    */
-  private extractProperty(data: string, property: string): string | null {
-    const regex = new RegExp(`^${property}[;:](.+)$`, 'm');
-    const match = data.match(regex);
-
-    if (match) {
-      // Extract value after last colon (handles parameters like DUE;VALUE=DATE:20250105)
-      const fullValue = match[1];
-      const colonIndex = fullValue.lastIndexOf(':');
-      const value = colonIndex >= 0 ? fullValue.substring(colonIndex + 1).trim() : fullValue.trim();
-
-      // Unescape iCalendar special characters
-      return this.unescapeText(value);
-    }
+  private parentUID(todo: ICalComponent): string | null {
+    const parent = todo.properties.find(isParentLink);
+    return parent ? parent.value.trim() || null : null;
+  }
 
-    return null;
+  /**
+   * Value of a property as written, trimmed
+   */
+  private extractValue(todo: ICalComponent, name: string): string | null {
+    const found = findProperty(todo, name);
+    return found ? found.value.trim() : null;
   }
 
   /**
-   * Extract a property value without splitting on colons within the value.
-   * Used for DESCRIPTION and other text properties where colons are valid content.
+   * Value of a TEXT property with escapes decoded
    */
-  private extractRawProperty(data: string, property: string): string | null {
-    const regex = new RegExp(`^${property}:(.+)$`, 'm');
-    const match = data.match(regex);
-    if (!match) return null;
-    return this.unescapeText(match[1].trim());
+  private extractText(todo: ICalComponent, name: string): string | null {
+    const value = this.extractValue(todo, name);
+    return value === null ? null : decodeText(value);
   }
 
   /**
-   * Extract date property (VALUE=DATE format)
+   * Local date ('YYYY-MM-DD') and time ('HH:mm', null for a DATE) of a
+   * DUE or DTSTART. UTC and zoned times are converted to the user's
+   * zone; floating times and unknown zones are taken as written.
    */
-  private extractDateProperty(data: string, property: string): string | null {
-    const value = this.extractProperty(data, property);
+  private extractDateTime(found: ICalProperty | undefined, roots: ICalComponent[]): { date: string; time: string | null } | null {
+    const value = found && parseDateTime(found);
     if (!value) return null;
 
-    // Parse YYYYMMDD format (VALUE=DATE)
-    if (value.length === 8 && /^\d{8}$/.test(value)) {
-      const year = value.substring(0, 4);
-      const month = value.substring(4, 6);
-      const day = value.substring(6, 8);
-      return `${year}-${month}-${day}`;
+    const instant = toInstant(value, roots);
+    const wall = new Date(instant === null ? value.wall : localWall(instant)).toISOString();
+    return { date: wall.slice(0, 10), time: value.dateOnly ? null : wall.slice(11, 16) };
+  }
+
+  /**
+   * DUE or DTSTART for a task's local date and time. While they still
+   * match the existing property, it is kept as written, zone and seconds
+   * included. Otherwise a time is written in the existing property's
+   * zone when it had one, floating when it was floating, and in UTC for
+   * new values, which need no VTIMEZONE.
+   */
+  private dateTimeProperty(
+    name: string,
+    date: string,
+    time: string | null,
+    existing?: { todo: ICalComponent; roots: ICalComponent[] },
+  ): ICalProperty {
+    const previous = existing && findProperty(existing.todo, name);
+    const current = existing && this.extractDateTime(previous, existing.roots);
+    if (previous && current && current.date === date && current.time === time) {
+      return previous;
     }
 
-    // Parse YYYYMMDDTHHMMSS format (TZID parameter or datetime without Z)
-    if (value.length >= 15 && value.includes('T')) {
-      const year = value.substring(0, 4);
-      const month = value.substring(4, 6);
-      const day = value.substring(6, 8);
-      return `${year}-${month}-${day}`;
+    const day = this.formatDate(date);
+    const [hours, minutes] = (time ?? '00:00').split(':').map(Number);
+    const wall = Date.UTC(+day.slice(0, 4), +day.slice(4, 6) - 1, +day.slice(6, 8), hours, minutes);
+    if (time === null) {
+      return property(name, day, { VALUE: ['DATE'] });
     }
 
-    return null;
+    const zone = previous && parseDateTime(previous);
+    if (zone && !zone.dateOnly && zone.zone === 'floating') {
+      return property(name, formatDateTime(wall, false));
+    }
+    const instant = localInstant(wall);
+    if (zone && !zone.dateOnly && zone.zone !== 'utc') {
+      const zoneWall = toZoneWall(instant, zone.zone, existing.roots);
+      if (zoneWall !== null) {
+        return property(name, formatDateTime(zoneWall, false), { TZID: [zone.zone] });
+      }
+    }
+    return property(name, formatDateTime(instant, false, true));
+  }
+
+  /**
+   * The task's reminders: the times of its VALARMs, sorted. Alarms that
+   * are not reminders or cannot be resolved, such as one relative to a
+   * missing DUE, are left out.
+   */
+  private extractReminders(todo: ICalComponent, roots: ICalComponent[]): string[] {
+    return todo.components
+      .filter(c => c.name === 'VALARM')
+      .map(alarm => this.alarmReminder(alarm, todo, roots))
+      .filter((reminder): reminder is string => reminder !== null)
+      .sort();
+  }
+
+  /**
+   * Local time ('YYYY-MM-DD HH:mm') an alarm goes off: an absolute
+   * TRIGGER, or a duration before or after DUE (RELATED=END, the
+   * default) or DTSTART (RELATED=START). Null for alarms that are not
+   * reminders (ACTION:NONE, RFC 9074) and triggers that cannot be
+   * resolved.
+   */
+  private alarmReminder(alarm: ICalComponent, todo: ICalComponent, roots: ICalComponent[]): string | null {
+    const trigger = findProperty(alarm, 'TRIGGER');
+    if (!trigger || this.extractValue(alarm, 'ACTION')?.toUpperCase() === 'NONE') return null;
+
+    let instant: number | null;
+    const offset = paramValue(trigger, 'VALUE')?.toUpperCase() === 'DATE-TIME' ? null : parseDuration(trigger.value);
+    if (offset !== null) {
+      const related = paramValue(trigger, 'RELATED')?.toUpperCase() === 'START' ? 'DTSTART' : 'DUE';
+      const anchor = this.propertyInstant(findProperty(todo, related), roots);
+      instant = anchor === null ? null : anchor + offset;
+    } else {
+      instant = this.propertyInstant(trigger, roots);
+    }
+    if (instant === null) return null;
+
+    const wall = new Date(localWall(instant)).toISOString();
+    return `${wall.slice(0, 10)} ${wall.slice(11, 16)}`;
+  }
+
+  /**
+   * The instant a DATE or DATE-TIME property refers to. Dates, floating
+   * times and unknown zones are read in the user's zone.
+   */
+  private propertyInstant(found: ICalProperty | undefined, roots: ICalComponent[]): number | null {
+    const value = found && parseDateTime(found);
+    if (!value) return null;
+    return toInstant(value, roots) ?? localInstant(value.wall);
+  }
+
+  /**
+   * The VTODO's components with its VALARMs matched to the task's
+   * reminders: alarms for reminders the task still has are kept as
+   * written (relative triggers included), the others are dropped, and
+   * reminders without an alarm get a new one. Alarms that are not
+   * reminders are kept.
+   */
+  private patchAlarms(task: ObsidianTask, todo: ICalComponent, roots: ICalComponent[]): ICalComponent[] {
+    const remaining = [...task.reminders];
+    const kept = todo.components.filter(component => {
+      if (component.name !== 'VALARM') return true;
+      const reminder = this.alarmReminder(component, todo, roots);
+      if (reminder === null) return true;
+      const index = remaining.indexOf(reminder);
+      if (index === -1) return false;
+      remaining.splice(index, 1);
+      return true;
+    });
+    return [...kept, ...remaining.map(reminder => this.reminderAlarm(task, reminder))];
+  }
+
+  /**
+   * A display alarm for a reminder, with its time as an absolute UTC
+   * trigger.
+   */
+  private reminderAlarm(task: ObsidianTask, reminder: string): ICalComponent {
+    const [date, time] = reminder.split(' ');
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const instant = localInstant(Date.UTC(year, month - 1, day, hours, minutes));
+    return {
+      name: 'VALARM',
+      properties: [
+        property('ACTION', 'DISPLAY'),
+        property('DESCRIPTION', encodeText(task.description)),
+        property('TRIGGER', formatDateTime(instant, false, true), { VALUE: ['DATE-TIME'] }),
+      ],
+      components: [],
+    };
   }
 
   /**
    * Extract datetime property
    */
-  private extractDateTimeProperty(data: string, property: string): string | null {
-    const value = this.extractProperty(data, property);
+  private extractDateTimeProperty(todo: ICalComponent, name: string): string | null {
+    const value = this.extractValue(todo, name);
     if (!value) return null;
 
     // Parse YYYYMMDDTHHMMSSZ format
@@ -304,24 +542,13 @@ export class VTODOMapper {
    * Handles both comma-separated (CATEGORIES:a,b,c) and multiple lines
    * (CATEGORIES:a\nCATEGORIES:b) as servers use both formats.
    */
-  private extractCategories(data: string): string[] {
-    const regex = /^CATEGORIES[;:](.+)$/gm;
+  private extractCategories(todo: ICalComponent): string[] {
     const categories: string[] = [];
-    let match;
-
-    while ((match = regex.exec(data)) !== null) {
-      // Extract value after last colon (handles parameters)
-      const fullValue = match[1];
-      const colonIndex = fullValue.lastIndexOf(':');
-      const value = colonIndex >= 0 ? fullValue.substring(colonIndex + 1).trim() : fullValue.trim();
-
-      // Split by unescaped commas: split on commas that aren't preceded by backslash
-      const parts = value.split(/(?<!\\),/);
-      for (const part of parts) {
-        categories.push(this.unescapeText(part.trim()));
+    for (const found of findProperties(todo, 'CATEGORIES')) {
+      for (const value of splitValues(found.value.trim())) {
+        categories.push(decodeText(value).trim());
       }
     }
-
     return categories;
   }
 
@@ -356,26 +583,26 @@ export class VTODOMapper {
     const second = String(date.getUTCSeconds()).padStart(2, '0');
     return `${year}${month}${day}T${hour}${minute}${second}Z`;
   }
+}
 
-  /**
-   * Escape special characters in iCalendar text
-   */
-  private escapeText(text: string): string {
-    return text
-      .replace(/\\/g, '\\\\')
-      .replace(/;/g, '\\;')
-      .replace(/,/g, '\\,')
-      .replace(/\n/g, '\\n');
-  }
+/**
+ * Whether patchVTODO() replaces a property
+ */
+function isMapped(p: ICalProperty): boolean {
+  return MAPPED_PROPERTIES.includes(p.name) || isParentLink(p);
+}
 
-  /**
-   * Unescape special characters from iCalendar text
-   */
-  private unescapeText(text: string): string {
-    return text
-      .replace(/\\n/g, '\n')
-      .replace(/\\,/g, ',')
-      .replace(/\\;/g, ';')
-      .replace(/\\\\/g, '\\');
-  }
+/**
+ * A RELATED-TO link to the parent: RELTYPE defaults to PARENT (RFC 5545
+ * Section 3.2.15), and Apple Reminders writes it empty
+ */
+function isParentLink(p: ICalProperty): boolean {
+  return p.name === 'RELATED-TO' && (paramValue(p, 'RELTYPE') || 'PARENT').toUpperCase() === 'PARENT';
+}
+
+/**
+ * A property without parameters, or with the given ones
+ */
+function property(name: string, value: string, params: Record<string, string[]> = {}): ICalProperty {
+  return { name, params, value };
 }
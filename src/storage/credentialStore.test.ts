@@ -0,0 +1,156 @@
+import {
+  CredentialStore,
+  CredentialsLockedError,
+  LocalStorage,
+  WrongPassphraseError,
+  extractLegacyCredentials,
+} from './credentialStore';
+import { Credentials } from '../types';
+
+class MemoryStorage implements LocalStorage {
+  values = new Map<string, unknown>();
+
+  load(key: string): unknown {
+    return this.values.get(key) ?? null;
+  }
+
+  save(key: string, value: unknown): void {
+    if (value === null) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, JSON.parse(JSON.stringify(value)));
+    }
+  }
+}
+
+const CREDENTIALS: Credentials = {
+  password: 'hunter2',
+  accessToken: 'access-1',
+  refreshToken: 'refresh-1',
+  tokenExpiresAt: 1700000000000,
+};
+
+describe('CredentialStore', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it('should start out empty and unlocked with a device key', async () => {
+    const store = new CredentialStore(storage);
+    await store.unlock();
+
+    expect(store.isLocked()).toBe(false);
+    expect(store.keySource).toBe('device');
+    expect(store.get('cred-1')).toEqual({ password: '', accessToken: '', refreshToken: '', tokenExpiresAt: 0 });
+  });
+
+  it('should store secrets encrypted and read them back after a restart', async () => {
+    const store = new CredentialStore(storage);
+    await store.unlock();
+    await store.set('cred-1', CREDENTIALS);
+
+    expect(JSON.stringify([...storage.values])).not.toContain('hunter2');
+
+    const reopened = new CredentialStore(storage);
+    await reopened.unlock();
+    expect(reopened.get('cred-1')).toEqual(CREDENTIALS);
+  });
+
+  it('should not hand out a stored object that callers could change', async () => {
+    const store = new CredentialStore(storage);
+    await store.unlock();
+    await store.set('cred-1', CREDENTIALS);
+
+    store.get('cred-1').password = 'changed';
+    expect(store.get('cred-1').password).toBe('hunter2');
+  });
+
+  it('should refuse access while locked', async () => {
+    const store = new CredentialStore(storage);
+
+    expect(store.isLocked()).toBe(true);
+    expect(() => store.get('cred-1')).toThrow(CredentialsLockedError);
+    await expect(store.set('cred-1', CREDENTIALS)).rejects.toBeInstanceOf(CredentialsLockedError);
+  });
+
+  describe('passphrase', () => {
+    async function passphraseStore(): Promise<void> {
+      const store = new CredentialStore(storage);
+      await store.unlock();
+      await store.set('cred-1', CREDENTIALS);
+      await store.setKeySource('passphrase', 'correct horse');
+    }
+
+    it('should need the passphrase to unlock', async () => {
+      await passphraseStore();
+      const store = new CredentialStore(storage);
+
+      expect(store.keySource).toBe('passphrase');
+      await expect(store.unlock()).rejects.toBeInstanceOf(CredentialsLockedError);
+      await expect(store.unlock('wrong')).rejects.toBeInstanceOf(WrongPassphraseError);
+      expect(store.isLocked()).toBe(true);
+
+      await store.unlock('correct horse');
+      expect(store.get('cred-1')).toEqual(CREDENTIALS);
+    });
+
+    it('should switch back to the device key', async () => {
+      await passphraseStore();
+      const store = new CredentialStore(storage);
+      await store.unlock('correct horse');
+      await store.setKeySource('device');
+
+      const reopened = new CredentialStore(storage);
+      await reopened.unlock();
+      expect(reopened.get('cred-1')).toEqual(CREDENTIALS);
+    });
+
+    it('should start over empty after a reset', async () => {
+      await passphraseStore();
+      const store = new CredentialStore(storage);
+      await store.reset();
+
+      expect(store.keySource).toBe('device');
+      expect(store.isLocked()).toBe(false);
+      expect(store.get('cred-1').password).toBe('');
+    });
+  });
+
+  it('should not decrypt with another device\'s key', async () => {
+    const store = new CredentialStore(storage);
+    await store.unlock();
+    await store.set('cred-1', CREDENTIALS);
+    storage.save('caldav-sync-device-secret', 'another device');
+
+    await expect(new CredentialStore(storage).unlock()).rejects.toThrow('cannot be decrypted');
+  });
+});
+
+describe('extractLegacyCredentials', () => {
+  it('should move plaintext secrets out of settings data', () => {
+    const data: Record<string, unknown> = {
+      serverUrl: 'https://dav.example.com',
+      username: 'alice',
+      password: 'hunter2',
+      accessToken: '',
+      refreshToken: '',
+      tokenExpiresAt: 0,
+    };
+
+    expect(extractLegacyCredentials(data)).toEqual({ password: 'hunter2' });
+    expect(data).toEqual({ serverUrl: 'https://dav.example.com', username: 'alice' });
+  });
+
+  it('should keep the token expiry with its access token', () => {
+    const data: Record<string, unknown> = { accessToken: 'a', refreshToken: 'r', tokenExpiresAt: 42 };
+
+    expect(extractLegacyCredentials(data)).toEqual({ accessToken: 'a', refreshToken: 'r', tokenExpiresAt: 42 });
+  });
+
+  it('should return null when there is nothing to migrate', () => {
+    expect(extractLegacyCredentials({ username: 'alice', password: '' })).toBeNull();
+    expect(extractLegacyCredentials({ credentialId: 'cred-1' })).toBeNull();
+  });
+});
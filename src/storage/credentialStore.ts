@@ -0,0 +1,240 @@
+import { Credentials, EMPTY_CREDENTIALS } from '../types';
+
+/**
+ * Device-local, encrypted storage for passwords and tokens.
+ *
+ * The plugin's data.json lives in the vault, so it is synced to every
+ * device and often committed to git. Secrets are kept out of it: they are
+ * stored in this vault's localStorage on this device only, encrypted with
+ * AES-GCM under a key derived (PBKDF2) from either
+ * - a random device secret, also in localStorage: keeps secrets out of
+ *   synced and committed files, but not from someone with access to this
+ *   device's Obsidian profile; or
+ * - a passphrase, entered once per session and never stored.
+ *
+ * Settings refer to an entry by id; each device keeps its own entries.
+ */
+
+export type KeySource = 'device' | 'passphrase';
+
+/**
+ * Key-value storage that stays on this device (App.loadLocalStorage and
+ * App.saveLocalStorage in the plugin).
+ */
+export interface LocalStorage {
+  load(key: string): unknown;
+  save(key: string, value: unknown): void;
+}
+
+/** The store needs a passphrase before it can be read or written. */
+export class CredentialsLockedError extends Error {
+  constructor() {
+    super('Credentials are locked: enter the passphrase in the CalDAV sync settings');
+    this.name = 'CredentialsLockedError';
+  }
+}
+
+/** The passphrase does not decrypt the store. */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+interface StoredCredentials {
+  version: 1;
+  keySource: KeySource;
+  salt: string; // base64, PBKDF2 salt
+  iv: string; // base64, AES-GCM nonce
+  data: string; // base64, encrypted JSON of the entries
+}
+
+const STORE_KEY = 'caldav-sync-credentials';
+const DEVICE_SECRET_KEY = 'caldav-sync-device-secret';
+const PBKDF2_ITERATIONS = 310000;
+
+export class CredentialStore {
+  private storage: LocalStorage;
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array<ArrayBuffer> | null = null;
+  private entries: Record<string, Credentials> | null = null;
+  private source: KeySource;
+
+  constructor(storage: LocalStorage) {
+    this.storage = storage;
+    this.source = this.stored()?.keySource ?? 'device';
+  }
+
+  get keySource(): KeySource {
+    return this.source;
+  }
+
+  isLocked(): boolean {
+    return this.entries === null;
+  }
+
+  /**
+   * Decrypt the store, creating an empty device-key store on first use.
+   * @throws CredentialsLockedError if the store needs a passphrase and none was given
+   * @throws WrongPassphraseError if the passphrase does not decrypt it
+   */
+  async unlock(passphrase?: string): Promise<void> {
+    const stored = this.stored();
+    if (!stored) {
+      this.source = 'device';
+      await this.rekey(this.deviceSecret());
+      this.entries = {};
+      await this.persist();
+      return;
+    }
+
+    this.source = stored.keySource;
+    let secret: string;
+    if (stored.keySource === 'passphrase') {
+      if (!passphrase) throw new CredentialsLockedError();
+      secret = passphrase;
+    } else {
+      secret = this.deviceSecret();
+    }
+
+    const salt = fromBase64(stored.salt);
+    const key = await deriveKey(secret, salt);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+    } catch {
+      if (stored.keySource === 'passphrase') throw new WrongPassphraseError();
+      throw new Error('Saved credentials cannot be decrypted on this device; reset them and enter them again');
+    }
+
+    this.key = key;
+    this.salt = salt;
+    this.entries = JSON.parse(new TextDecoder().decode(plaintext)) as Record<string, Credentials>;
+  }
+
+  /** Forget the key and decrypted entries until the next unlock. */
+  lock(): void {
+    this.key = null;
+    this.salt = null;
+    this.entries = null;
+  }
+
+  /** Credentials saved under `id`, empty if there are none. */
+  get(id: string): Credentials {
+    return { ...EMPTY_CREDENTIALS, ...this.unlocked()[id] };
+  }
+
+  async set(id: string, credentials: Credentials): Promise<void> {
+    this.unlocked()[id] = { ...credentials };
+    await this.persist();
+  }
+
+  /**
+   * Re-encrypt the store with a new key source.
+   * @param passphrase Required when switching to (or changing) a passphrase
+   */
+  async setKeySource(source: KeySource, passphrase?: string): Promise<void> {
+    this.unlocked();
+    if (source === 'passphrase' && !passphrase) {
+      throw new Error('A passphrase is required');
+    }
+    this.source = source;
+    await this.rekey(source === 'passphrase' ? passphrase! : this.deviceSecret());
+    await this.persist();
+  }
+
+  /**
+   * Delete all saved credentials, e.g. after the passphrase was forgotten.
+   * The store starts over, empty and with a device key.
+   */
+  async reset(): Promise<void> {
+    this.storage.save(STORE_KEY, null);
+    this.lock();
+    await this.unlock();
+  }
+
+  private unlocked(): Record<string, Credentials> {
+    if (!this.entries) throw new CredentialsLockedError();
+    return this.entries;
+  }
+
+  private stored(): StoredCredentials | null {
+    const value = this.storage.load(STORE_KEY) as StoredCredentials | null | undefined;
+    return value && value.version === 1 ? value : null;
+  }
+
+  private deviceSecret(): string {
+    const existing = this.storage.load(DEVICE_SECRET_KEY);
+    if (typeof existing === 'string' && existing !== '') return existing;
+    const secret = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+    this.storage.save(DEVICE_SECRET_KEY, secret);
+    return secret;
+  }
+
+  // A new salt on every key change, so an old passphrase's key is never reused
+  private async rekey(secret: string): Promise<void> {
+    this.salt = crypto.getRandomValues(new Uint8Array(16));
+    this.key = await deriveKey(secret, this.salt);
+  }
+
+  private async persist(): Promise<void> {
+    const entries = this.unlocked();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv }, this.key!, new TextEncoder().encode(JSON.stringify(entries)));
+    const stored: StoredCredentials = {
+      version: 1,
+      keySource: this.source,
+      salt: toBase64(this.salt!),
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data)),
+    };
+    this.storage.save(STORE_KEY, stored);
+  }
+}
+
+/**
+ * Remove plaintext secrets from settings data saved before the credential
+ * store existed. Returns them, or null if there were none.
+ */
+export function extractLegacyCredentials(data: Record<string, unknown>): Partial<Credentials> | null {
+  const legacy: Partial<Credentials> = {};
+  for (const field of ['password', 'accessToken', 'refreshToken'] as const) {
+    const value = data[field];
+    if (typeof value === 'string' && value !== '') legacy[field] = value;
+    delete data[field];
+  }
+  if (typeof data.tokenExpiresAt === 'number' && legacy.accessToken) {
+    legacy.tokenExpiresAt = data.tokenExpiresAt;
+  }
+  delete data.tokenExpiresAt;
+  return Object.keys(legacy).length > 0 ? legacy : null;
+}
+
+/** Fresh id for a credential store entry. */
+export function createCredentialId(): string {
+  const randomPart = Math.floor(Math.random() * 0x1000000).toString(16).padStart(6, '0');
+  return `cred-${randomPart}`;
+}
+
+async function deriveKey(secret: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
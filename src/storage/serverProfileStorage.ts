@@ -0,0 +1,44 @@
+import { App, normalizePath } from 'obsidian';
+import { ServerProfile } from '../types';
+
+/**
+ * Persists the capability profile recorded by probeServer() in
+ * .caldav-sync/server-profile.json. There is one profile per vault; it is
+ * only used while the server URL matches the one it was probed for.
+ */
+export class ServerProfileStorage {
+  private app: App;
+  private dir = normalizePath('.caldav-sync');
+  private path = normalizePath('.caldav-sync/server-profile.json');
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  /**
+   * The stored profile for `serverUrl`, or null if there is none, it was
+   * recorded for another server, or it cannot be read.
+   */
+  async load(serverUrl: string): Promise<ServerProfile | null> {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(this.path))) {
+        return null;
+      }
+      const profile = JSON.parse(await adapter.read(this.path)) as ServerProfile;
+      return profile.version === 1 && profile.serverUrl === serverUrl ? profile : null;
+    } catch (error) {
+      // Without a profile the client simply assumes nothing about the server
+      console.error('Failed to load server profile:', error);
+      return null;
+    }
+  }
+
+  async save(profile: ServerProfile): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    if (!(await adapter.exists(this.dir))) {
+      await adapter.mkdir(this.dir);
+    }
+    await adapter.write(this.path, JSON.stringify(profile, null, 2));
+  }
+}
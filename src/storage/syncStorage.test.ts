@@ -1,6 +1,7 @@
 import { SyncStorage } from './syncStorage';
 import { MappingData, SyncState } from '../types';
-import { CommonTask } from '../sync/types';
+import { CommonTask, QueuedChange } from '../sync/types';
+import { CalendarSnapshot } from '../caldav/calDAVClientDirect';
 
 function makeCommonTask(overrides: Partial<CommonTask> = {}): CommonTask {
   return {
@@ -8,13 +9,17 @@ function makeCommonTask(overrides: Partial<CommonTask> = {}): CommonTask {
     title: 'Default task',
     status: 'TODO',
     dueDate: null,
+    dueTime: null,
     startDate: null,
+    startTime: null,
     scheduledDate: null,
     completedDate: null,
+    reminders: [],
     priority: 'none',
     tags: [],
     recurrenceRule: '',
     notes: '',
+    parentUid: null,
     ...overrides,
   };
 }
@@ -25,6 +30,7 @@ function createMockAdapter() {
     mkdir: jest.fn(),
     read: jest.fn(),
     write: jest.fn(),
+    remove: jest.fn(),
   };
 }
 
@@ -50,7 +56,7 @@ function setupFreshAdapter(adapter: ReturnType<typeof createMockAdapter>) {
   // mapping.json and state.json are read; baseline.json check via exists returns false.
   adapter.read.mockImplementation(async (path: string) => {
     if (path.includes('mapping.json')) {
-      return JSON.stringify({ tasks: {}, caldavToTask: {} });
+      return JSON.stringify({ version: 2, tasks: {}, caldavToTask: {} });
     }
     if (path.includes('state.json')) {
       return JSON.stringify({ lastSyncTime: '2025-01-01T00:00:00.000Z', conflicts: [] });
@@ -68,14 +74,20 @@ function setupExistingAdapter(
     mapping?: MappingData;
     state?: SyncState;
     baseline?: CommonTask[];
+    snapshot?: CalendarSnapshot;
+    queue?: QueuedChange[];
   } = {}
 ) {
-  const mapping = opts.mapping ?? { tasks: {}, caldavToTask: {} };
+  const mapping = opts.mapping ?? { version: 2, tasks: {}, caldavToTask: {} };
   const state = opts.state ?? { lastSyncTime: '2025-01-01T00:00:00.000Z', conflicts: [] };
   const baseline = opts.baseline;
+  const snapshot = opts.snapshot;
+  const queue = opts.queue;
 
   adapter.exists.mockImplementation(async (path: string) => {
     if (path.includes('baseline.json')) return baseline !== undefined;
+    if (path.includes('calendar-snapshot.json')) return snapshot !== undefined;
+    if (path.includes('queue.json')) return queue !== undefined;
     return true; // dir, mapping.json, state.json all exist
   });
   adapter.mkdir.mockResolvedValue(undefined);
@@ -84,6 +96,8 @@ function setupExistingAdapter(
     if (path.includes('mapping.json')) return JSON.stringify(mapping);
     if (path.includes('state.json')) return JSON.stringify(state);
     if (path.includes('baseline.json') && baseline) return JSON.stringify(baseline);
+    if (path.includes('calendar-snapshot.json') && snapshot) return JSON.stringify(snapshot);
+    if (path.includes('queue.json') && queue) return JSON.stringify(queue);
     throw new Error('File not found');
   });
 }
@@ -136,6 +150,7 @@ describe('SyncStorage', () => {
 
     it('loads data into cache so getMapping/getState work', async () => {
       const existingMapping: MappingData = {
+        version: 2,
         tasks: { 'task-1': { caldavUID: 'uid-1', sourceFile: 'test.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
         caldavToTask: { 'uid-1': 'task-1' },
       };
@@ -479,6 +494,130 @@ describe('SyncStorage', () => {
     });
   });
 
+  describe('per-calendar directory', () => {
+    it('keeps the default calendar in .caldav-sync/', async () => {
+      setupFreshAdapter(adapter);
+      storage = new SyncStorage(createMockApp(adapter), 'default');
+      await storage.initialize();
+
+      expect(adapter.mkdir).toHaveBeenCalledWith('.caldav-sync');
+      expect(adapter.write).toHaveBeenCalledWith('.caldav-sync/mapping.json', expect.any(String));
+    });
+
+    it('stores other calendars under .caldav-sync/calendars/<id>/', async () => {
+      setupFreshAdapter(adapter);
+      storage = new SyncStorage(createMockApp(adapter), 'cal-work');
+      await storage.initialize();
+
+      expect(adapter.mkdir).toHaveBeenCalledWith('.caldav-sync/calendars/cal-work');
+      expect(adapter.write).toHaveBeenCalledWith('.caldav-sync/calendars/cal-work/mapping.json', expect.any(String));
+      expect(adapter.write).toHaveBeenCalledWith('.caldav-sync/calendars/cal-work/state.json', expect.any(String));
+    });
+  });
+
+  describe('calendar snapshot', () => {
+    const snapshot: CalendarSnapshot = {
+      calendarUrl: 'https://caldav.example.com/cal/',
+      syncToken: 'token-1',
+      objects: [{ url: 'https://caldav.example.com/cal/a.ics', etag: 'e1', data: 'BEGIN:VTODO\nUID:a\nEND:VTODO' }],
+    };
+
+    it('returns null when no snapshot file exists', async () => {
+      setupFreshAdapter(adapter);
+      await storage.initialize();
+
+      expect(storage.getCalendarSnapshot()).toBeNull();
+    });
+
+    it('loads an existing snapshot from disk on initialize', async () => {
+      setupExistingAdapter(adapter, { snapshot });
+      await storage.initialize();
+
+      expect(storage.getCalendarSnapshot()).toEqual(snapshot);
+    });
+
+    it('writes only calendar-snapshot.json when only the snapshot changed', async () => {
+      setupFreshAdapter(adapter);
+      await storage.initialize();
+      adapter.write.mockClear();
+
+      storage.setCalendarSnapshot(snapshot);
+      await storage.save();
+
+      expect(adapter.write).toHaveBeenCalledTimes(1);
+      expect(adapter.write.mock.calls[0][0]).toContain('calendar-snapshot.json');
+      expect(JSON.parse(adapter.write.mock.calls[0][1])).toEqual(snapshot);
+    });
+
+    it('returns null when the snapshot file is corrupted', async () => {
+      setupExistingAdapter(adapter, { snapshot });
+      adapter.read.mockImplementation(async (path: string) => {
+        if (path.includes('mapping.json')) return JSON.stringify({ tasks: {}, caldavToTask: {} });
+        if (path.includes('state.json')) return JSON.stringify({ lastSyncTime: '2025-01-01T00:00:00.000Z', conflicts: [] });
+        return '{{{';
+      });
+      await storage.initialize();
+
+      expect(storage.getCalendarSnapshot()).toBeNull();
+    });
+
+    it('is dropped by clearAll so the next sync does a full fetch', async () => {
+      setupExistingAdapter(adapter, { snapshot });
+      await storage.initialize();
+
+      await storage.clearAll();
+
+      expect(storage.getCalendarSnapshot()).toBeNull();
+      expect(adapter.remove).toHaveBeenCalledWith(expect.stringContaining('calendar-snapshot.json'));
+    });
+  });
+
+  describe('offline queue', () => {
+    const queue: QueuedChange[] = [{
+      type: 'update',
+      task: makeCommonTask({ title: 'Edited offline' }),
+      baseline: makeCommonTask(),
+      queuedAt: '2025-01-01T00:00:00.000Z',
+    }];
+
+    it('is empty when no queue file exists', async () => {
+      setupFreshAdapter(adapter);
+      await storage.initialize();
+
+      expect(storage.getQueue()).toEqual([]);
+    });
+
+    it('loads queued changes from disk on initialize', async () => {
+      setupExistingAdapter(adapter, { queue });
+      await storage.initialize();
+
+      expect(storage.getQueue()).toEqual(queue);
+    });
+
+    it('writes only queue.json when only the queue changed', async () => {
+      setupFreshAdapter(adapter);
+      await storage.initialize();
+      adapter.write.mockClear();
+
+      storage.setQueue(queue);
+      await storage.save();
+
+      expect(adapter.write).toHaveBeenCalledTimes(1);
+      expect(adapter.write.mock.calls[0][0]).toBe('.caldav-sync/queue.json');
+      expect(JSON.parse(adapter.write.mock.calls[0][1])).toEqual(queue);
+    });
+
+    it('is dropped by clearAll', async () => {
+      setupExistingAdapter(adapter, { queue });
+      await storage.initialize();
+
+      await storage.clearAll();
+
+      expect(storage.getQueue()).toEqual([]);
+      expect(adapter.remove).toHaveBeenCalledWith('.caldav-sync/queue.json');
+    });
+  });
+
   describe('baseline migration', () => {
     it('should default missing notes field to empty string when loading baseline', async () => {
       // Simulate a baseline saved by older code without the `notes` field
@@ -505,6 +644,87 @@ describe('SyncStorage', () => {
       const baseline = storage.getBaseline();
       expect(baseline).toHaveLength(1);
       expect(baseline[0].notes).toBe('');
+      expect(baseline[0].dueTime).toBeNull();
+      expect(baseline[0].startTime).toBeNull();
+      expect(baseline[0].reminders).toEqual([]);
+    });
+
+    it('should default missing times and reminders of queued tasks', async () => {
+      const task = makeCommonTask({ dueDate: '2025-01-15' });
+      const oldTask: Record<string, unknown> = { ...task };
+      delete oldTask.dueTime;
+      delete oldTask.startTime;
+      delete oldTask.reminders;
+      setupExistingAdapter(adapter, {
+        queue: [{ type: 'update', task: oldTask as any, baseline: oldTask as any, queuedAt: '2025-01-01T00:00:00.000Z' }],
+      });
+
+      await storage.initialize();
+
+      const [queued] = storage.getQueue();
+      expect(queued.task).toEqual(task);
+      expect(queued.baseline).toEqual(task);
+    });
+  });
+
+  describe('mapping migration', () => {
+    const v1Mapping: MappingData = {
+      tasks: { 'task-1': { caldavUID: 'uid-1', sourceFile: 'test.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+      caldavToTask: { 'uid-1': 'task-1' },
+    };
+
+    it('should upgrade a mapping without hrefs and keep its entries', async () => {
+      setupExistingAdapter(adapter, { mapping: v1Mapping });
+
+      await storage.initialize();
+
+      expect(storage.getMapping().version).toBe(2);
+      expect(storage.getCalDAVFromTaskId('task-1')).toBe('uid-1');
+      expect(storage.getCalDAVLocations().size).toBe(0);
+    });
+
+    it('should write the upgrade with the next mapping change', async () => {
+      setupExistingAdapter(adapter, { mapping: v1Mapping });
+      await storage.initialize();
+
+      storage.setCalDAVLocations(new Map([['uid-1', { href: 'https://dav.example.com/cal/x.ics', etag: 'e1' }]]));
+      await storage.save();
+
+      const written = JSON.parse(adapter.write.mock.calls[0][1]) as MappingData;
+      expect(written.version).toBe(2);
+      expect(written.tasks['task-1']).toMatchObject({ caldavHref: 'https://dav.example.com/cal/x.ics', caldavEtag: 'e1' });
+    });
+  });
+
+  describe('CalDAV locations', () => {
+    beforeEach(async () => {
+      setupFreshAdapter(adapter);
+      await storage.initialize();
+      adapter.write.mockClear();
+      storage.addTaskMapping('task-1', 'uid-1', 'test.md');
+      await storage.save();
+      adapter.write.mockClear();
+    });
+
+    it('should return stored locations keyed by CalDAV UID', () => {
+      storage.setCalDAVLocations(new Map([['uid-1', { href: 'https://dav.example.com/cal/a.ics', etag: 'e1' }]]));
+
+      expect(storage.getCalDAVLocations().get('uid-1')).toEqual({ href: 'https://dav.example.com/cal/a.ics', etag: 'e1' });
+    });
+
+    it('should ignore locations of unmapped UIDs', async () => {
+      storage.setCalDAVLocations(new Map([['other', { href: 'https://dav.example.com/cal/b.ics' }]]));
+      await storage.save();
+
+      expect(storage.getCalDAVLocations().size).toBe(0);
+      expect(adapter.write).not.toHaveBeenCalled();
+    });
+
+    it('should clear a stale etag when the new location has none', () => {
+      storage.setCalDAVLocations(new Map([['uid-1', { href: 'https://dav.example.com/cal/a.ics', etag: 'e1' }]]));
+      storage.setCalDAVLocations(new Map([['uid-1', { href: 'https://dav.example.com/cal/a.ics' }]]));
+
+      expect(storage.getTaskMapping('task-1')?.caldavEtag).toBeUndefined();
     });
   });
 
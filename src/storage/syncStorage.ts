@@ -1,10 +1,20 @@
 import { App, normalizePath } from 'obsidian';
-import { MappingData, SyncState, TaskMapping } from '../types';
-import { CommonTask } from '../sync/types';
+import { CalendarVersion, MappingData, ResourceLocation, SyncState, TaskMapping } from '../types';
+import { CommonTask, QueuedChange } from '../sync/types';
+import { CalendarSnapshot } from '../caldav/calDAVClientDirect';
+import { DEFAULT_BINDING_ID } from '../sync/calendarBindings';
+
+/**
+ * mapping.json format version.
+ * 2: entries record the object's href and etag (`caldavHref`, `caldavEtag`)
+ */
+const MAPPING_VERSION = 2;
 
 /**
  * Manages persistence of sync-related data in .caldav-sync/ directory
- * Handles mapping.json (task<->CalDAV relationships) and state.json (sync metadata)
+ * Handles mapping.json (task<->CalDAV relationships), state.json (sync metadata),
+ * calendar-snapshot.json (cached VTODOs plus the server's sync-token)
+ * and queue.json (vault changes waiting for the server to be reachable)
  *
  * Performance: Uses in-memory caching to avoid excessive disk I/O during bulk operations.
  * Data is loaded once during initialize() and kept in memory. Explicit save() must be
@@ -16,30 +26,46 @@ export class SyncStorage {
   private mappingPath: string;
   private statePath: string;
   private baselinePath: string;
+  private snapshotPath: string;
+  private queuePath: string;
 
   // In-memory caches
   private mappingCache: MappingData | null = null;
   private stateCache: SyncState | null = null;
   private baselineCache: CommonTask[] | null = null;
+  private snapshotCache: CalendarSnapshot | null = null;
+  private queueCache: QueuedChange[] = [];
 
   // Dirty flags to track unsaved changes
   private mappingDirty: boolean = false;
   private stateDirty: boolean = false;
   private baselineDirty: boolean = false;
+  private snapshotDirty: boolean = false;
+  private queueDirty: boolean = false;
 
-  constructor(app: App) {
+  /**
+   * @param calendarId Calendar binding whose data this instance manages.
+   * The default binding keeps using .caldav-sync/ directly so existing
+   * single-calendar data stays where it is; other bindings get their own
+   * .caldav-sync/calendars/<id>/ directory.
+   */
+  constructor(app: App, calendarId?: string) {
     this.app = app;
-    this.syncDir = normalizePath('.caldav-sync');
-    this.mappingPath = normalizePath('.caldav-sync/mapping.json');
-    this.statePath = normalizePath('.caldav-sync/state.json');
-    this.baselinePath = normalizePath('.caldav-sync/baseline.json');
+    this.syncDir = !calendarId || calendarId === DEFAULT_BINDING_ID
+      ? normalizePath('.caldav-sync')
+      : normalizePath(`.caldav-sync/calendars/${calendarId}`);
+    this.mappingPath = normalizePath(`${this.syncDir}/mapping.json`);
+    this.statePath = normalizePath(`${this.syncDir}/state.json`);
+    this.baselinePath = normalizePath(`${this.syncDir}/baseline.json`);
+    this.snapshotPath = normalizePath(`${this.syncDir}/calendar-snapshot.json`);
+    this.queuePath = normalizePath(`${this.syncDir}/queue.json`);
   }
 
   /**
    * Initialize sync storage directory, files, and in-memory caches
    */
   async initialize(): Promise<void> {
-    // Create .caldav-sync directory if it doesn't exist
+    // Create the sync directory if it doesn't exist (mkdir creates parents)
     const adapter = this.app.vault.adapter;
     if (!(await adapter.exists(this.syncDir))) {
       await adapter.mkdir(this.syncDir);
@@ -48,6 +74,7 @@ export class SyncStorage {
     // Initialize mapping.json if it doesn't exist
     if (!(await adapter.exists(this.mappingPath))) {
       const initialMapping: MappingData = {
+        version: MAPPING_VERSION,
         tasks: {},
         caldavToTask: {}
       };
@@ -76,9 +103,14 @@ export class SyncStorage {
     this.mappingCache = await this.loadMappingFromDisk();
     this.stateCache = await this.loadStateFromDisk();
     this.baselineCache = await this.loadBaselineFromDisk();
+    this.snapshotCache = await this.loadSnapshotFromDisk();
+    this.queueCache = await this.loadQueueFromDisk();
+    this.migrateMapping(this.mappingCache);
     this.mappingDirty = false;
     this.stateDirty = false;
     this.baselineDirty = false;
+    this.snapshotDirty = false;
+    this.queueDirty = false;
   }
 
   /**
@@ -99,6 +131,24 @@ export class SyncStorage {
     }
   }
 
+  /**
+   * Upgrade mapping data written by older versions in place; the upgrade
+   * is written with the next mapping change.
+   * Version 1 files have no hrefs or etags; entries keep working through
+   * UID lookups until the next sync fills them in from the fetched objects.
+   */
+  private migrateMapping(data: MappingData): void {
+    if ((data.version ?? 1) >= MAPPING_VERSION) {
+      return;
+    }
+    for (const entry of Object.values(data.tasks)) {
+      // Drop malformed values so they are refetched rather than used
+      if (typeof entry.caldavHref !== 'string') delete entry.caldavHref;
+      if (typeof entry.caldavEtag !== 'string') delete entry.caldavEtag;
+    }
+    data.version = MAPPING_VERSION;
+  }
+
   /**
    * Load sync state from disk (private - use cache instead)
    */
@@ -159,6 +209,16 @@ export class SyncStorage {
       this.baselineDirty = false;
     }
 
+    if (this.snapshotDirty && this.snapshotCache) {
+      promises.push(this.saveSnapshotToDisk(this.snapshotCache));
+      this.snapshotDirty = false;
+    }
+
+    if (this.queueDirty) {
+      promises.push(this.saveQueueToDisk(this.queueCache));
+      this.queueDirty = false;
+    }
+
     await Promise.all(promises);
   }
 
@@ -199,6 +259,22 @@ export class SyncStorage {
     this.stateDirty = true;
   }
 
+  /**
+   * Get the calendar change markers recorded at the last successful sync
+   */
+  getCalendarVersion(): CalendarVersion | undefined {
+    return this.getState().calendarVersion;
+  }
+
+  /**
+   * Record the calendar change markers for the sync being completed
+   */
+  setCalendarVersion(version: CalendarVersion): void {
+    const state = this.getState();
+    state.calendarVersion = version;
+    this.stateDirty = true;
+  }
+
   /**
    * Add a task mapping
    */
@@ -273,6 +349,38 @@ export class SyncStorage {
     return mapping.tasks[taskId];
   }
 
+  /**
+   * Known server locations of mapped tasks, keyed by CalDAV UID
+   */
+  getCalDAVLocations(): Map<string, ResourceLocation> {
+    const locations = new Map<string, ResourceLocation>();
+    for (const entry of Object.values(this.getMapping().tasks)) {
+      if (entry.caldavHref) {
+        locations.set(entry.caldavUID, { href: entry.caldavHref, etag: entry.caldavEtag });
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * Record server locations (keyed by CalDAV UID) on the matching mapped tasks.
+   * Locations of unmapped UIDs are ignored.
+   */
+  setCalDAVLocations(locations: Map<string, ResourceLocation>): void {
+    for (const entry of Object.values(this.getMapping().tasks)) {
+      const location = locations.get(entry.caldavUID);
+      if (!location) continue;
+      if (entry.caldavHref === location.href && entry.caldavEtag === location.etag) continue;
+      entry.caldavHref = location.href;
+      if (location.etag) {
+        entry.caldavEtag = location.etag;
+      } else {
+        delete entry.caldavEtag;
+      }
+      this.mappingDirty = true;
+    }
+  }
+
   /**
    * Update CalDAV modification timestamp for a task
    */
@@ -323,8 +431,7 @@ export class SyncStorage {
       }
       const content = await adapter.read(this.baselinePath);
       const tasks = JSON.parse(content) as CommonTask[];
-      // Migrate old baselines: default missing `notes` to ''
-      return tasks.map(t => ({ ...t, notes: t.notes ?? '' }));
+      return tasks.map(migrateTask);
     } catch (error) {
       console.error('Failed to load baseline:', error);
       return [];
@@ -345,11 +452,108 @@ export class SyncStorage {
     }
   }
 
+  /**
+   * Get the cached calendar snapshot (VTODOs + sync-token), or null if
+   * no full fetch has been persisted yet
+   */
+  getCalendarSnapshot(): CalendarSnapshot | null {
+    return this.snapshotCache;
+  }
+
+  /**
+   * Update the cached calendar snapshot
+   */
+  setCalendarSnapshot(snapshot: CalendarSnapshot): void {
+    this.snapshotCache = snapshot;
+    this.snapshotDirty = true;
+  }
+
+  /**
+   * Load calendar snapshot from disk
+   */
+  private async loadSnapshotFromDisk(): Promise<CalendarSnapshot | null> {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(this.snapshotPath))) {
+        return null;
+      }
+      const content = await adapter.read(this.snapshotPath);
+      return JSON.parse(content) as CalendarSnapshot;
+    } catch (error) {
+      // A missing or corrupt snapshot only costs one full fetch
+      console.error('Failed to load calendar snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save calendar snapshot to disk
+   */
+  private async saveSnapshotToDisk(snapshot: CalendarSnapshot): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      // Compact JSON: the snapshot can hold thousands of calendar objects
+      await adapter.write(this.snapshotPath, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Failed to save calendar snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the changes waiting to be sent to the server, oldest first
+   */
+  getQueue(): QueuedChange[] {
+    return this.queueCache;
+  }
+
+  /**
+   * Replace the queued changes
+   */
+  setQueue(queue: QueuedChange[]): void {
+    this.queueCache = queue;
+    this.queueDirty = true;
+  }
+
+  /**
+   * Load queued changes from disk
+   */
+  private async loadQueueFromDisk(): Promise<QueuedChange[]> {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(this.queuePath))) {
+        return [];
+      }
+      const content = await adapter.read(this.queuePath);
+      const queue = JSON.parse(content) as QueuedChange[];
+      return queue.map(c => ({ ...c, task: migrateTask(c.task), baseline: c.baseline && migrateTask(c.baseline) }));
+    } catch (error) {
+      // The changes are still in the vault; the next sync sends them anyway
+      console.error('Failed to load queued changes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save queued changes to disk
+   */
+  private async saveQueueToDisk(queue: QueuedChange[]): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      await adapter.write(this.queuePath, JSON.stringify(queue, null, 2));
+    } catch (error) {
+      console.error('Failed to save queued changes:', error);
+      throw error;
+    }
+  }
+
   /**
    * Clear all sync data (use with caution)
    */
   async clearAll(): Promise<void> {
+    const adapter = this.app.vault.adapter;
     const emptyMapping: MappingData = {
+      version: MAPPING_VERSION,
       tasks: {},
       caldavToTask: {}
     };
@@ -365,7 +569,35 @@ export class SyncStorage {
     this.mappingDirty = true;
     this.stateDirty = true;
     this.baselineDirty = true;
+    // Queued changes are relative to the old baseline
+    this.queueCache = [];
+    this.queueDirty = false;
+    if (await adapter.exists(this.queuePath)) {
+      await adapter.remove(this.queuePath);
+    }
+
+    // Drop the snapshot so the next sync starts with a full fetch
+    this.snapshotCache = null;
+    this.snapshotDirty = false;
+    if (await adapter.exists(this.snapshotPath)) {
+      await adapter.remove(this.snapshotPath);
+    }
 
     await this.save();
   }
 }
+
+/**
+ * Fill in fields missing from tasks saved by older versions: `notes`
+ * defaults to '', times to all day, reminders to none, parents to top level.
+ */
+function migrateTask(task: CommonTask): CommonTask {
+  return {
+    ...task,
+    dueTime: task.dueTime ?? null,
+    startTime: task.startTime ?? null,
+    reminders: task.reminders ?? [],
+    notes: task.notes ?? '',
+    parentUid: task.parentUid ?? null,
+  };
+}
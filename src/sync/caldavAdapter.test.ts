@@ -1,5 +1,6 @@
 import { CalDAVAdapter } from './caldavAdapter';
 import { CalendarObject } from '../caldav/vtodoMapper';
+import { PreconditionFailedError } from '../caldav/errors';
 
 function buildVTODO(uid: string, summary: string, extra: string[] = []): string {
   const hasStatus = extra.some(l => l.startsWith('STATUS:'));
@@ -130,6 +131,17 @@ describe('CalDAVAdapter', () => {
       expect(tasks).toHaveLength(0);
     });
 
+    it('should refer to parents by their obsidian task ID when mapped', () => {
+      const vtodos = [
+        makeCalObj('caldav-parent', 'Parent'),
+        makeCalObj('caldav-child', 'Child', ['RELATED-TO;RELTYPE=PARENT:caldav-parent']),
+        makeCalObj('caldav-grandchild', 'Grandchild', ['RELATED-TO:caldav-child']),
+      ];
+
+      const tasks = adapter.normalize(vtodos, new Map([['caldav-parent', 'obsidian-parent']]));
+      expect(tasks.map(t => t.parentUid)).toEqual([null, 'obsidian-parent', 'caldav-child']);
+    });
+
     it('should handle empty list', () => {
       const tasks = adapter.normalize([], new Map());
       expect(tasks).toEqual([]);
@@ -143,13 +155,17 @@ describe('CalDAVAdapter', () => {
         title: 'Test task',
         status: 'TODO' as const,
         dueDate: '2025-01-15',
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: '2025-01-10',
         completedDate: null,
+        reminders: [],
         priority: 'high' as const,
         tags: ['sync', 'work'],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const vtodo = adapter.fromCommonTask(task, 'caldav-uid-001');
@@ -169,13 +185,17 @@ describe('CalDAVAdapter', () => {
         title: 'Task with notes',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: 'Remember to bring supplies',
+        parentUid: null,
       };
 
       const vtodo = adapter.fromCommonTask(task, 'caldav-notes');
@@ -188,13 +208,17 @@ describe('CalDAVAdapter', () => {
         title: 'Task without notes',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const vtodo = adapter.fromCommonTask(task, 'caldav-no-notes');
@@ -207,13 +231,17 @@ describe('CalDAVAdapter', () => {
         title: 'Done task',
         status: 'DONE' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: '2025-01-12',
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const vtodo = adapter.fromCommonTask(task, 'caldav-done');
@@ -227,7 +255,7 @@ describe('CalDAVAdapter', () => {
   describe('applyChanges', () => {
     it('should call create for create changes', async () => {
       const mockClient = {
-        createVTODO: jest.fn(),
+        createVTODO: jest.fn().mockResolvedValue({ data: '', url: 'http://example.com/obsidian-new-task.ics', etag: 'e1' }),
         updateVTODO: jest.fn(),
         deleteVTODOByUID: jest.fn(),
         fetchVTODOByUID: jest.fn(),
@@ -238,13 +266,17 @@ describe('CalDAVAdapter', () => {
         title: 'New task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       await adapter.applyChanges(
@@ -270,13 +302,17 @@ describe('CalDAVAdapter', () => {
         title: 'To delete',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       await adapter.applyChanges(
@@ -305,13 +341,17 @@ describe('CalDAVAdapter', () => {
         title: 'Updated task',
         status: 'DONE' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: '2025-01-12',
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       await adapter.applyChanges(
@@ -323,5 +363,239 @@ describe('CalDAVAdapter', () => {
       expect(mockClient.fetchVTODOByUID).toHaveBeenCalledWith('caldav-upd');
       expect(mockClient.updateVTODO).toHaveBeenCalledTimes(1);
     });
+
+    it('should address known locations directly and track the new etags', async () => {
+      const mockClient = {
+        createVTODO: jest.fn().mockResolvedValue({ data: '', url: 'http://example.com/cal/obsidian-new.ics', etag: 'c1' }),
+        updateVTODO: jest.fn().mockResolvedValue('u2'),
+        deleteVTODO: jest.fn(),
+        deleteVTODOByUID: jest.fn(),
+        fetchVTODOByUID: jest.fn(),
+      } as any;
+      const task = adapter.toCommonTask(makeCalObj('caldav-upd', 'Task'), 'upd-task');
+      const locations = new Map([
+        ['caldav-upd', { href: 'http://example.com/cal/upd.ics', etag: 'u1' }],
+        ['caldav-del', { href: 'http://example.com/cal/del.ics', etag: 'd1' }],
+      ]);
+
+      await adapter.applyChanges(
+        [
+          { type: 'create', task: { ...task, uid: 'new' } },
+          { type: 'update', task },
+          { type: 'delete', task: { ...task, uid: 'del-task' } },
+        ],
+        mockClient,
+        new Map([['caldav-upd', 'upd-task'], ['caldav-del', 'del-task']]),
+        locations,
+        { objects: new Map([['caldav-upd', { ...makeCalObj('caldav-upd', 'Task'), url: 'http://example.com/cal/upd.ics', etag: 'u1' }]]) },
+      );
+
+      expect(mockClient.fetchVTODOByUID).not.toHaveBeenCalled();
+      expect(mockClient.updateVTODO.mock.calls[0][0]).toMatchObject({ url: 'http://example.com/cal/upd.ics', etag: 'u1' });
+      expect(mockClient.deleteVTODO.mock.calls[0][0]).toMatchObject({ url: 'http://example.com/cal/del.ics', etag: 'd1' });
+      expect(mockClient.deleteVTODOByUID).not.toHaveBeenCalled();
+      expect(locations).toEqual(new Map([
+        ['caldav-upd', { href: 'http://example.com/cal/upd.ics', etag: 'u2' }],
+        ['obsidian-new', { href: 'http://example.com/cal/obsidian-new.ics', etag: 'c1' }],
+      ]));
+    });
+
+    it('should patch the server copy, keeping properties it does not map', async () => {
+      const stored = makeCalObj('caldav-upd', 'Old title', ['X-APPLE-SORT-ORDER:3', 'BEGIN:VALARM', 'TRIGGER:-PT15M', 'END:VALARM']);
+      const mockClient = {
+        updateVTODO: jest.fn().mockResolvedValue('etag-2'),
+        fetchVTODO: jest.fn().mockResolvedValue(stored),
+      } as any;
+      const task = adapter.toCommonTask(stored, 'upd-task');
+
+      await adapter.applyChanges(
+        [{ type: 'update', task: { ...task, title: 'New title' } }],
+        mockClient,
+        new Map([['caldav-upd', 'upd-task']]),
+        new Map([['caldav-upd', { href: stored.url, etag: stored.etag }]]),
+      );
+
+      expect(mockClient.fetchVTODO).toHaveBeenCalledWith(stored.url);
+      const written: string = mockClient.updateVTODO.mock.calls[0][1];
+      expect(written).toContain('SUMMARY:New title');
+      expect(written).not.toContain('Old title');
+      expect(written).toContain('X-APPLE-SORT-ORDER:3');
+      expect(written).toContain('BEGIN:VALARM\r\nTRIGGER:-PT15M\r\nEND:VALARM');
+    });
+
+    it('should treat a server copy changed since the last sync like a 412', async () => {
+      const current = { ...makeCalObj('caldav-upd', 'Edited on phone'), etag: 'etag-new' };
+      const mockClient = {
+        updateVTODO: jest.fn(),
+        fetchVTODO: jest.fn().mockResolvedValue(current),
+      } as any;
+      const task = adapter.toCommonTask(makeCalObj('caldav-upd', 'Old title'), 'upd-task');
+
+      const results = await adapter.applyChanges(
+        [{ type: 'update', task: { ...task, title: 'New title' } }],
+        mockClient,
+        new Map([['caldav-upd', 'upd-task']]),
+        new Map([['caldav-upd', { href: current.url, etag: 'etag-old' }]]),
+      );
+
+      expect(mockClient.updateVTODO).not.toHaveBeenCalled();
+      expect(results[0]).toMatchObject({ status: 'rejected', current });
+    });
+
+    it('should return writes rejected with 412 together with the re-fetched object', async () => {
+      const existing = makeCalObj('caldav-upd', 'Old title');
+      const current = { ...makeCalObj('caldav-upd', 'Edited on phone'), etag: 'etag-new' };
+      const mockClient = {
+        createVTODO: jest.fn(),
+        updateVTODO: jest.fn().mockRejectedValue(new PreconditionFailedError('PUT', existing.url)),
+        deleteVTODOByUID: jest.fn(),
+        fetchVTODOByUID: jest.fn().mockResolvedValue(existing),
+        fetchVTODO: jest.fn().mockResolvedValue(current),
+      } as any;
+
+      const task = adapter.toCommonTask(existing, 'upd-task');
+      const locations = new Map();
+      const results = await adapter.applyChanges(
+        [{ type: 'update', task: { ...task, uid: 'upd-task', title: 'New title' } }, { type: 'delete', task: { ...task, uid: 'other' } }],
+        mockClient,
+        new Map([['caldav-upd', 'upd-task'], ['caldav-other', 'other']]),
+        locations,
+      );
+
+      expect(mockClient.fetchVTODO).toHaveBeenCalledWith(existing.url);
+      expect(results.map(r => r.status)).toEqual(['rejected', 'written']);
+      expect(results[0].change.task.uid).toBe('upd-task');
+      expect(results[0]).toMatchObject({ status: 'rejected', current });
+      // A retry uses the re-fetched etag
+      expect(locations.get('caldav-upd')).toEqual({ href: current.url, etag: 'etag-new' });
+      // The remaining changes are still applied
+      expect(mockClient.deleteVTODOByUID).toHaveBeenCalledWith('caldav-other');
+    });
+
+    it('should report other errors per change and still apply the remaining changes', async () => {
+      const error = new Error('Create VTODO failed: 500');
+      const mockClient = {
+        createVTODO: jest.fn()
+          .mockRejectedValueOnce(error)
+          .mockResolvedValue({ data: '', url: 'http://example.com/obsidian-y.ics', etag: 'e1' }),
+      } as any;
+      const task = adapter.toCommonTask(makeCalObj('x', 'X'), 'x');
+
+      const results = await adapter.applyChanges(
+        [{ type: 'create', task }, { type: 'create', task: { ...task, uid: 'y' } }], mockClient, new Map(), new Map(), { concurrency: 1 });
+
+      expect(results).toEqual([
+        { change: expect.anything(), status: 'failed', error },
+        { change: expect.anything(), status: 'written' },
+      ]);
+    });
+
+    it('should keep at most `concurrency` writes in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const mockClient = {
+        createVTODO: jest.fn(async (_data: string, uid: string) => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 1));
+          inFlight--;
+          return { data: '', url: `http://example.com/${uid}.ics`, etag: 'e1' };
+        }),
+      } as any;
+      const task = adapter.toCommonTask(makeCalObj('x', 'X'), 'x');
+      const changes = Array.from({ length: 7 }, (_, i) => ({ type: 'create' as const, task: { ...task, uid: `t${i}` } }));
+
+      const locations = new Map();
+      const results = await adapter.applyChanges(changes, mockClient, new Map(), locations, { concurrency: 3 });
+
+      expect(maxInFlight).toBe(3);
+      expect(results.every(r => r.status === 'written')).toBe(true);
+      expect(locations.size).toBe(7);
+    });
+
+    it('should create a parent before a child that refers to it', async () => {
+      const created: string[] = [];
+      const mockClient = {
+        createVTODO: jest.fn(async (_data: string, uid: string) => {
+          await new Promise(resolve => setTimeout(resolve, uid === 'obsidian-parent' ? 5 : 0));
+          created.push(uid);
+          return { data: '', url: `http://example.com/${uid}.ics`, etag: 'e1' };
+        }),
+      } as any;
+      const fromCommonTask = jest.spyOn(adapter, 'fromCommonTask');
+      const task = adapter.toCommonTask(makeCalObj('x', 'X'), 'x');
+
+      await adapter.applyChanges(
+        [{ type: 'create', task: { ...task, uid: 'child', parentUid: 'parent' } }, { type: 'create', task: { ...task, uid: 'parent' } }],
+        mockClient, new Map(), new Map(), { concurrency: 4 });
+
+      expect(created).toEqual(['obsidian-parent', 'obsidian-child']);
+      // Each task is serialized once, when it is written
+      expect(fromCommonTask).toHaveBeenCalledTimes(2);
+      fromCommonTask.mockRestore();
+    });
+
+    it('should move a task under a new parent only once the parent is created', async () => {
+      const written: string[] = [];
+      const mockClient = {
+        createVTODO: jest.fn(async (_data: string, uid: string) => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          written.push(uid);
+          return { data: '', url: `http://example.com/${uid}.ics`, etag: 'e1' };
+        }),
+        updateVTODO: jest.fn(async () => {
+          written.push('caldav-child');
+          return 'c2';
+        }),
+      } as any;
+      const stored = makeCalObj('caldav-child', 'Child');
+      const child = adapter.toCommonTask(stored, 'child');
+
+      const results = await adapter.applyChanges([
+        { type: 'update', task: { ...child, parentUid: 'parent' } },
+        { type: 'create', task: { ...child, uid: 'parent', title: 'Parent' } },
+      ], mockClient, new Map([['caldav-child', 'child']]),
+      new Map([['caldav-child', { href: stored.url, etag: stored.etag }]]),
+      { concurrency: 4, objects: new Map([['caldav-child', stored]]) });
+
+      expect(results.map(r => r.status)).toEqual(['written', 'written']);
+      expect(written).toEqual(['obsidian-parent', 'caldav-child']);
+      expect(mockClient.updateVTODO.mock.calls[0][1]).toContain('RELATED-TO;RELTYPE=PARENT:obsidian-parent');
+    });
+
+    it('should fail the children of a parent that could not be created', async () => {
+      const mockClient = {
+        createVTODO: jest.fn(async (_data: string, uid: string) => {
+          if (uid === 'obsidian-parent') throw new Error('Create VTODO failed: 500');
+          return { data: '', url: `http://example.com/${uid}.ics`, etag: 'e1' };
+        }),
+      } as any;
+      const task = adapter.toCommonTask(makeCalObj('x', 'X'), 'x');
+
+      const results = await adapter.applyChanges([
+        { type: 'create', task: { ...task, uid: 'grandchild', parentUid: 'child' } },
+        { type: 'create', task: { ...task, uid: 'child', parentUid: 'parent' } },
+        { type: 'create', task: { ...task, uid: 'parent' } },
+        { type: 'create', task: { ...task, uid: 'other' } },
+      ], mockClient, new Map());
+
+      expect(results.map(r => r.status)).toEqual(['failed', 'failed', 'failed', 'written']);
+      expect(mockClient.createVTODO.mock.calls.map(([, uid]: [string, string]) => uid).sort()).toEqual(['obsidian-other', 'obsidian-parent']);
+    });
+
+    it('should link subtasks to the CalDAV UID of their parent', async () => {
+      const mockClient = {
+        createVTODO: jest.fn(async (_data: string, uid: string) => ({ data: '', url: `http://example.com/${uid}.ics`, etag: 'e1' })),
+      } as any;
+      const task = adapter.toCommonTask(makeCalObj('x', 'X'), 'x');
+
+      await adapter.applyChanges([
+        { type: 'create', task: { ...task, uid: 'mapped-child', parentUid: 'mapped' } },
+        { type: 'create', task: { ...task, uid: 'new-child', parentUid: 'new' } },
+      ], mockClient, new Map([['caldav-mapped', 'mapped']]));
+
+      const data = new Map(mockClient.createVTODO.mock.calls.map(([vtodo, uid]: [string, string]) => [uid, vtodo]));
+      expect(data.get('obsidian-mapped-child')).toContain('RELATED-TO;RELTYPE=PARENT:caldav-mapped');
+      expect(data.get('obsidian-new-child')).toContain('RELATED-TO;RELTYPE=PARENT:obsidian-new');
+    });
   });
 });
@@ -1,6 +1,35 @@
 import { CommonTask, TaskStatus, TaskPriority, SyncChange } from './types';
 import { VTODOMapper, CalendarObject, ObsidianTask } from '../caldav/vtodoMapper';
 import { CalDAVClientDirect } from '../caldav/calDAVClientDirect';
+import { PreconditionFailedError } from '../caldav/errors';
+import { DEFAULT_CALDAV_SETTINGS, ResourceLocation } from '../types';
+import { runBounded } from '../utils/boundedPool';
+
+/**
+ * A write the server rejected because the resource changed underneath it,
+ * with the resource as it is now (null if it was deleted).
+ */
+export interface RejectedWrite {
+  change: SyncChange;
+  current: CalendarObject | null;
+}
+
+/**
+ * A write that failed for another reason, e.g. a network or server error.
+ */
+export interface FailedWrite {
+  change: SyncChange;
+  error: unknown;
+}
+
+/**
+ * What became of one change sent to the server: written, skipped (the
+ * task to update no longer exists), rejected with 412, or failed.
+ */
+export type WriteResult =
+  | { change: SyncChange; status: 'written' | 'skipped' }
+  | RejectedWrite & { status: 'rejected' }
+  | FailedWrite & { status: 'failed' };
 
 export class CalDAVAdapter {
   private mapper: VTODOMapper;
@@ -11,7 +40,8 @@ export class CalDAVAdapter {
 
   /**
    * Normalize VTODOs into CommonTask[], using the UID mapping to resolve
-   * CalDAV UIDs to Obsidian task IDs where a mapping exists.
+   * CalDAV UIDs, their own and their parents', to Obsidian task IDs where
+   * a mapping exists.
    */
   normalize(vtodos: CalendarObject[], uidMapping: Map<string, string>): CommonTask[] {
     const tasks: CommonTask[] = [];
@@ -23,14 +53,43 @@ export class CalDAVAdapter {
       const obsidianTaskId = uidMapping.get(caldavUID);
       const uid = obsidianTaskId ?? caldavUID;
 
-      tasks.push(this.toCommonTask(vtodo, uid));
+      const task = this.toCommonTask(vtodo, uid);
+      if (task.parentUid) task.parentUid = uidMapping.get(task.parentUid) ?? task.parentUid;
+      tasks.push(task);
     }
 
     return tasks;
   }
 
   /**
-   * Convert a single VTODO CalendarObject to a CommonTask.
+   * Server locations of fetched VTODOs, keyed by CalDAV UID.
+   */
+  locate(vtodos: CalendarObject[]): Map<string, ResourceLocation> {
+    const locations = new Map<string, ResourceLocation>();
+    for (const vtodo of vtodos) {
+      const caldavUID = this.mapper.extractUID(vtodo.data);
+      if (caldavUID) {
+        locations.set(caldavUID, { href: vtodo.url, etag: vtodo.etag });
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * Fetched VTODOs keyed by CalDAV UID, for applyChanges().
+   */
+  objectsByUID(vtodos: CalendarObject[]): Map<string, CalendarObject> {
+    const objects = new Map<string, CalendarObject>();
+    for (const vtodo of vtodos) {
+      const caldavUID = this.mapper.extractUID(vtodo.data);
+      if (caldavUID) objects.set(caldavUID, vtodo);
+    }
+    return objects;
+  }
+
+  /**
+   * Convert a single VTODO CalendarObject to a CommonTask, its parent
+   * given by CalDAV UID.
    */
   toCommonTask(vtodo: CalendarObject, uid: string): CommonTask {
     const parsed = this.mapper.vtodoToTask(vtodo);
@@ -40,64 +99,198 @@ export class CalDAVAdapter {
       title: parsed.description,
       status: parsed.status as TaskStatus,
       dueDate: parsed.dueDate,
+      dueTime: parsed.dueTime,
       startDate: parsed.startDate,
+      startTime: parsed.startTime,
       scheduledDate: parsed.scheduledDate,
       completedDate: parsed.completedDate ? parsed.completedDate.split('T')[0] : null,
+      reminders: parsed.reminders,
       priority: parsed.priority as TaskPriority,
       tags: parsed.tags,
       recurrenceRule: parsed.recurrenceRule,
       notes: parsed.notes,
+      parentUid: parsed.parentUID,
     };
   }
 
   /**
    * Convert a CommonTask back to a VTODO iCal string.
+   * @param existing The calendar object as on the server; the task is
+   * patched into it, keeping everything the task does not map
+   * @param parentCaldavUID CalDAV UID of the task's parent, written as
+   * RELATED-TO
    */
-  fromCommonTask(task: CommonTask, caldavUID: string): string {
+  fromCommonTask(task: CommonTask, caldavUID: string, existing?: string, parentCaldavUID: string | null = null): string {
     const obsidianTask: ObsidianTask = {
       description: task.title,
       status: task.status,
       dueDate: task.dueDate,
+      dueTime: task.dueTime,
       startDate: task.startDate,
+      startTime: task.startTime,
       scheduledDate: task.scheduledDate,
       completedDate: task.completedDate,
+      reminders: task.reminders,
       priority: task.priority,
       tags: task.tags,
       recurrenceRule: task.recurrenceRule,
       notes: task.notes,
+      parentUID: parentCaldavUID,
     };
 
-    return this.mapper.taskToVTODO(obsidianTask, caldavUID);
+    return existing
+      ? this.mapper.patchVTODO(existing, obsidianTask, caldavUID)
+      : this.mapper.taskToVTODO(obsidianTask, caldavUID);
   }
 
   /**
-   * Apply a set of sync changes to the CalDAV server.
+   * Apply a set of sync changes to the CalDAV server, up to
+   * `options.concurrency` writes at a time. Writes to the same task keep
+   * their order, and a task is created or moved under a new parent only
+   * after that parent is created; if creating the parent fails, the child
+   * fails too rather than linking to a task that does not exist.
+   * Updates and deletes address objects directly through `locations`
+   * (CalDAV UID → href/etag), falling back to a UID lookup for objects
+   * without a known location; `locations` is kept current as writes
+   * return new etags. Updates patch the object as on the server, taken
+   * from `options.objects` (CalDAV UID → object, kept current as writes
+   * succeed) if it is the version at `locations`, otherwise fetched.
+   * A failing write does not stop the others; each change gets a result,
+   * in the order of `changes`. Writes the server rejects with 412 (the
+   * task was edited or deleted there since it was fetched) come back with
+   * the re-fetched resource, so the caller can re-merge that task.
    */
-  async applyChanges(changes: SyncChange[], client: CalDAVClientDirect, uidMapping: Map<string, string>): Promise<void> {
-    for (const change of changes) {
-      const caldavUID = this.resolveCaldavUID(change.task.uid, uidMapping);
+  async applyChanges(
+    changes: SyncChange[],
+    client: CalDAVClientDirect,
+    uidMapping: Map<string, string>,
+    locations: Map<string, ResourceLocation> = new Map(),
+    options: { concurrency?: number; objects?: Map<string, CalendarObject> } = {},
+  ): Promise<WriteResult[]> {
+    const results = new Array<WriteResult>(changes.length);
+    const caldavUIDs = changes.map(change => this.resolveCaldavUID(change.task.uid, uidMapping));
+    const parentUIDs = changes.map(change => change.task.parentUid && this.resolveCaldavUID(change.task.parentUid, uidMapping));
+    const objects = options.objects ?? new Map<string, CalendarObject>();
+
+    const jobs = changes.map((change, i) => {
+      const after: number[] = [];
+      const previous = caldavUIDs.lastIndexOf(caldavUIDs[i], i - 1);
+      if (i > 0 && previous !== -1) after.push(previous);
+      // The parent the task is written with, which for a moved task is
+      // not the one in its copy on the server
+      const parentUID = change.type === 'delete' ? null : parentUIDs[i];
+      const parent = parentUID
+        ? changes.findIndex((c, j) => c.type === 'create' && caldavUIDs[j] === parentUID)
+        : -1;
+      if (parent !== -1) after.push(parent);
+
+      return {
+        after,
+        run: async () => {
+          if (parent !== -1 && results[parent]?.status === 'failed') {
+            results[i] = { change, status: 'failed', error: new Error(`Parent task ${parentUID} could not be created`) };
+            return;
+          }
+          results[i] = await this.applyChange(change, caldavUIDs[i], parentUIDs[i], client, locations, objects);
+        },
+      };
+    });
 
+    await runBounded(jobs, options.concurrency ?? DEFAULT_CALDAV_SETTINGS.writeConcurrency);
+    return results;
+  }
+
+  /**
+   * Write one change, turning its failure into a result.
+   */
+  private async applyChange(
+    change: SyncChange,
+    caldavUID: string,
+    parentUID: string | null,
+    client: CalDAVClientDirect,
+    locations: Map<string, ResourceLocation>,
+    objects: Map<string, CalendarObject>,
+  ): Promise<WriteResult> {
+    try {
       switch (change.type) {
         case 'create': {
-          const vtodoData = this.fromCommonTask(change.task, caldavUID);
-          await client.createVTODO(vtodoData, caldavUID);
+          const data = this.fromCommonTask(change.task, caldavUID, undefined, parentUID);
+          const created = await client.createVTODO(data, caldavUID);
+          locations.set(caldavUID, { href: created.url, etag: created.etag });
+          objects.set(caldavUID, { data, url: created.url, etag: created.etag });
           break;
         }
         case 'update': {
-          const existing = await client.fetchVTODOByUID(caldavUID);
+          const location = locations.get(caldavUID);
+          const stored = objects.get(caldavUID);
+          let existing: CalendarObject | null;
+          if (!location) {
+            existing = await client.fetchVTODOByUID(caldavUID);
+          } else if (stored && stored.url === location.href && stored.etag === location.etag) {
+            existing = stored;
+          } else {
+            // Fetched now, it may hold changes made since the etag was
+            // recorded; writing over them would lose them, as with a 412
+            existing = await client.fetchVTODO(location.href);
+            if (!existing || (location.etag && existing.etag && existing.etag !== location.etag)) {
+              this.recordLocation(caldavUID, existing, locations, objects);
+              return { change, status: 'rejected', current: existing };
+            }
+          }
           if (!existing) {
             console.error(`[CalDAVAdapter] VTODO ${caldavUID} not found for update, skipping`);
-            continue;
+            return { change, status: 'skipped' };
           }
-          const newData = this.fromCommonTask(change.task, caldavUID);
-          await client.updateVTODO(existing, newData);
+          const newData = this.fromCommonTask(change.task, caldavUID, existing.data, parentUID);
+          const etag = await client.updateVTODO({ ...existing, etag: location?.etag ?? existing.etag }, newData);
+          locations.set(caldavUID, { href: existing.url, etag });
+          objects.set(caldavUID, { data: newData, url: existing.url, etag });
           break;
         }
         case 'delete': {
-          await client.deleteVTODOByUID(caldavUID);
+          const location = locations.get(caldavUID);
+          if (location) {
+            await client.deleteVTODO({ url: location.href, etag: location.etag, data: '' });
+          } else {
+            await client.deleteVTODOByUID(caldavUID);
+          }
+          locations.delete(caldavUID);
+          objects.delete(caldavUID);
           break;
         }
       }
+      return { change, status: 'written' };
+    } catch (error) {
+      if (!(error instanceof PreconditionFailedError)) {
+        console.error(`[CalDAVAdapter] ${change.type} of ${caldavUID} failed:`, error);
+        return { change, status: 'failed', error };
+      }
+      console.warn(`[CalDAVAdapter] ${change.type} of ${caldavUID} rejected, task changed on the server`);
+      try {
+        const current = await client.fetchVTODO(error.url);
+        this.recordLocation(caldavUID, current, locations, objects);
+        return { change, status: 'rejected', current };
+      } catch (fetchError) {
+        return { change, status: 'failed', error: fetchError };
+      }
+    }
+  }
+
+  /**
+   * Record an object as it is now, or that it is gone.
+   */
+  private recordLocation(
+    caldavUID: string,
+    current: CalendarObject | null,
+    locations: Map<string, ResourceLocation>,
+    objects: Map<string, CalendarObject>,
+  ): void {
+    if (current) {
+      locations.set(caldavUID, { href: current.url, etag: current.etag });
+      objects.set(caldavUID, current);
+    } else {
+      locations.delete(caldavUID);
+      objects.delete(caldavUID);
     }
   }
 
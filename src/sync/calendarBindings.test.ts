@@ -0,0 +1,154 @@
+import {
+  DEFAULT_BINDING_ID,
+  assignBinding,
+  createCalendarBinding,
+  matchesScope,
+  migrateLegacyCalendar,
+  resolveCalendarBindings,
+  TaskScopeInfo,
+} from './calendarBindings';
+import { CalDAVSettings, CalendarBinding, DEFAULT_CALDAV_SETTINGS } from '../types';
+
+function makeBinding(overrides: Partial<CalendarBinding> = {}): CalendarBinding {
+  return {
+    id: 'cal-test',
+    calendarName: 'Tasks',
+    scopeType: 'vault',
+    scopeValue: '',
+    frontmatterKey: 'caldav-calendar',
+    newTasksDestination: 'Inbox.md',
+    ...overrides,
+  };
+}
+
+function makeInfo(overrides: Partial<TaskScopeInfo> = {}): TaskScopeInfo {
+  return {
+    filePath: 'Notes/Task.md',
+    tags: [],
+    getFrontmatter: () => undefined,
+    ...overrides,
+  };
+}
+
+function makeSettings(overrides: Partial<CalDAVSettings> = {}): CalDAVSettings {
+  return { ...DEFAULT_CALDAV_SETTINGS, calendars: [], ...overrides };
+}
+
+describe('calendarBindings', () => {
+  describe('resolveCalendarBindings', () => {
+    it('should return the configured calendars', () => {
+      const bindings = [makeBinding({ id: 'a' }), makeBinding({ id: 'b' })];
+      expect(resolveCalendarBindings(makeSettings({ calendars: bindings }))).toBe(bindings);
+    });
+
+    it('should fall back to a vault-wide default binding for legacy settings', () => {
+      const [binding] = resolveCalendarBindings(makeSettings({
+        calendarName: 'Legacy',
+        newTasksDestination: 'Tasks/Inbox.md',
+        newTasksSection: '## Inbox',
+      }));
+
+      expect(binding).toEqual(expect.objectContaining({
+        id: DEFAULT_BINDING_ID,
+        calendarName: 'Legacy',
+        scopeType: 'vault',
+        newTasksDestination: 'Tasks/Inbox.md',
+        newTasksSection: '## Inbox',
+      }));
+    });
+  });
+
+  describe('migrateLegacyCalendar', () => {
+    it('should move the legacy calendar into the calendars list', () => {
+      const settings = makeSettings({ calendarName: 'Legacy' });
+
+      expect(migrateLegacyCalendar(settings)).toBe(true);
+      expect(settings.calendars).toHaveLength(1);
+      expect(settings.calendars[0].id).toBe(DEFAULT_BINDING_ID);
+      expect(settings.calendars[0].calendarName).toBe('Legacy');
+      expect(settings.calendarName).toBe('');
+    });
+
+    it('should leave settings with calendars untouched', () => {
+      const settings = makeSettings({ calendarName: 'Legacy', calendars: [makeBinding()] });
+
+      expect(migrateLegacyCalendar(settings)).toBe(false);
+      expect(settings.calendars).toHaveLength(1);
+      expect(settings.calendarName).toBe('Legacy');
+    });
+
+    it('should do nothing when no calendar was configured', () => {
+      const settings = makeSettings();
+      expect(migrateLegacyCalendar(settings)).toBe(false);
+      expect(settings.calendars).toEqual([]);
+    });
+  });
+
+  describe('createCalendarBinding', () => {
+    it('should create vault-wide bindings with distinct ids', () => {
+      const a = createCalendarBinding('Work');
+      const b = createCalendarBinding();
+
+      expect(a.calendarName).toBe('Work');
+      expect(a.scopeType).toBe('vault');
+      expect(a.id).not.toBe(DEFAULT_BINDING_ID);
+      expect(a.id).not.toBe(b.id);
+    });
+  });
+
+  describe('matchesScope', () => {
+    it('should match every task for vault scope', () => {
+      expect(matchesScope(makeBinding(), makeInfo())).toBe(true);
+    });
+
+    it('should match files in a folder and its subfolders', () => {
+      const binding = makeBinding({ scopeType: 'folder', scopeValue: 'Work/' });
+
+      expect(matchesScope(binding, makeInfo({ filePath: 'Work/Todo.md' }))).toBe(true);
+      expect(matchesScope(binding, makeInfo({ filePath: 'Work/Clients/Acme.md' }))).toBe(true);
+      expect(matchesScope(binding, makeInfo({ filePath: 'Workshop/Todo.md' }))).toBe(false);
+    });
+
+    it('should match tags case-insensitively with or without #', () => {
+      const binding = makeBinding({ scopeType: 'tag', scopeValue: '#Work' });
+
+      expect(matchesScope(binding, makeInfo({ tags: ['#sync', '#work'] }))).toBe(true);
+      expect(matchesScope(binding, makeInfo({ tags: ['#home'] }))).toBe(false);
+      expect(matchesScope(makeBinding({ scopeType: 'tag', scopeValue: '' }), makeInfo({ tags: ['#work'] }))).toBe(false);
+    });
+
+    it('should match frontmatter values, including list values', () => {
+      const binding = makeBinding({ scopeType: 'frontmatter', frontmatterKey: 'calendar', scopeValue: 'Work' });
+
+      expect(matchesScope(binding, makeInfo({ getFrontmatter: () => ({ calendar: 'work' }) }))).toBe(true);
+      expect(matchesScope(binding, makeInfo({ getFrontmatter: () => ({ calendar: ['Home', 'Work'] }) }))).toBe(true);
+      expect(matchesScope(binding, makeInfo({ getFrontmatter: () => ({ calendar: 'Home' }) }))).toBe(false);
+      expect(matchesScope(binding, makeInfo({ getFrontmatter: () => null }))).toBe(false);
+    });
+
+    it('should match any value of the frontmatter key when no value is set', () => {
+      const binding = makeBinding({ scopeType: 'frontmatter', frontmatterKey: 'calendar', scopeValue: '' });
+
+      expect(matchesScope(binding, makeInfo({ getFrontmatter: () => ({ calendar: 'anything' }) }))).toBe(true);
+      expect(matchesScope(binding, makeInfo({ getFrontmatter: () => ({ other: 'x' }) }))).toBe(false);
+    });
+  });
+
+  describe('assignBinding', () => {
+    const work = makeBinding({ id: 'work', scopeType: 'folder', scopeValue: 'Work' });
+    const all = makeBinding({ id: 'all' });
+
+    it('should pick the first matching binding in order', () => {
+      expect(assignBinding([work, all], makeInfo({ filePath: 'Work/a.md' }))?.id).toBe('work');
+      expect(assignBinding([work, all], makeInfo({ filePath: 'Home/a.md' }))?.id).toBe('all');
+    });
+
+    it('should keep an already mapped task with its calendar', () => {
+      expect(assignBinding([work, all], makeInfo({ filePath: 'Home/a.md' }), 'work')?.id).toBe('work');
+    });
+
+    it('should return null when no binding matches', () => {
+      expect(assignBinding([work], makeInfo({ filePath: 'Home/a.md' }))).toBeNull();
+    });
+  });
+});
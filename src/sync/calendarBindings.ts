@@ -0,0 +1,138 @@
+import { CalDAVSettings, CalendarBinding } from '../types';
+
+/** Binding id whose sync data lives directly in .caldav-sync/ (pre multi-calendar layout). */
+export const DEFAULT_BINDING_ID = 'default';
+
+/** Frontmatter key used when a binding is scoped by frontmatter and no key is set. */
+export const DEFAULT_FRONTMATTER_KEY = 'caldav-calendar';
+
+/**
+ * Where a vault task lives, as needed to decide which calendar owns it.
+ */
+export interface TaskScopeInfo {
+  filePath: string;
+  tags: string[];
+  getFrontmatter: () => Record<string, unknown> | null | undefined;
+}
+
+/**
+ * Calendar bindings to sync.
+ * Settings saved before multi-calendar support have no `calendars` list;
+ * their single calendar becomes a vault-wide binding that keeps using
+ * the original .caldav-sync/ storage, so no sync data is lost.
+ */
+export function resolveCalendarBindings(settings: CalDAVSettings): CalendarBinding[] {
+  if (settings.calendars && settings.calendars.length > 0) {
+    return settings.calendars;
+  }
+  return [legacyBinding(settings)];
+}
+
+/**
+ * Move the legacy single-calendar settings into the `calendars` list.
+ * Returns true if the settings were changed and should be saved.
+ */
+export function migrateLegacyCalendar(settings: CalDAVSettings): boolean {
+  if (!settings.calendars) {
+    settings.calendars = [];
+  }
+  if (settings.calendars.length > 0 || !settings.calendarName) {
+    return false;
+  }
+  settings.calendars = [legacyBinding(settings)];
+  settings.calendarName = '';
+  return true;
+}
+
+/**
+ * Create a new, vault-wide binding with a fresh id.
+ */
+export function createCalendarBinding(calendarName: string = ''): CalendarBinding {
+  const randomPart = Math.floor(Math.random() * 0x1000000).toString(16).padStart(6, '0');
+  return {
+    id: `cal-${randomPart}`,
+    calendarName,
+    scopeType: 'vault',
+    scopeValue: '',
+    frontmatterKey: DEFAULT_FRONTMATTER_KEY,
+    newTasksDestination: 'Inbox.md',
+    newTasksSection: undefined,
+    syncDirection: 'bidirectional',
+  };
+}
+
+/**
+ * Check whether a task falls inside a binding's vault scope.
+ * - vault: every task
+ * - folder: tasks in files under the folder (empty folder = vault root)
+ * - tag: tasks carrying the tag (case-insensitive, # optional)
+ * - frontmatter: tasks in files whose frontmatter key equals the value
+ *   (or contains it, for list values); an empty value matches any value
+ */
+export function matchesScope(binding: CalendarBinding, info: TaskScopeInfo): boolean {
+  switch (binding.scopeType) {
+    case 'vault':
+      return true;
+
+    case 'folder': {
+      const folder = binding.scopeValue.trim().replace(/^\/+|\/+$/g, '');
+      if (folder === '') return true;
+      return info.filePath === folder || info.filePath.startsWith(`${folder}/`);
+    }
+
+    case 'tag': {
+      const tag = normalizeTag(binding.scopeValue);
+      if (tag === '') return false;
+      return info.tags.some(t => normalizeTag(t) === tag);
+    }
+
+    case 'frontmatter': {
+      const key = binding.frontmatterKey.trim() || DEFAULT_FRONTMATTER_KEY;
+      const frontmatter = info.getFrontmatter();
+      if (!frontmatter || !(key in frontmatter)) return false;
+
+      const expected = binding.scopeValue.trim().toLowerCase();
+      if (expected === '') return true;
+
+      const raw = frontmatter[key];
+      const values = Array.isArray(raw) ? raw : [raw];
+      return values.some(v => typeof v === 'string' || typeof v === 'number'
+        ? String(v).trim().toLowerCase() === expected
+        : false);
+    }
+  }
+}
+
+/**
+ * Pick the binding that owns a task.
+ * A task already synced with a calendar stays with it (`mappedBindingId`),
+ * so moving or retagging it never deletes it from that calendar. Otherwise
+ * the first binding, in settings order, whose scope matches wins.
+ */
+export function assignBinding(
+  bindings: CalendarBinding[],
+  info: TaskScopeInfo,
+  mappedBindingId?: string,
+): CalendarBinding | null {
+  if (mappedBindingId) {
+    const mapped = bindings.find(b => b.id === mappedBindingId);
+    if (mapped) return mapped;
+  }
+  return bindings.find(b => matchesScope(b, info)) ?? null;
+}
+
+function legacyBinding(settings: CalDAVSettings): CalendarBinding {
+  return {
+    id: DEFAULT_BINDING_ID,
+    calendarName: settings.calendarName,
+    scopeType: 'vault',
+    scopeValue: '',
+    frontmatterKey: DEFAULT_FRONTMATTER_KEY,
+    newTasksDestination: settings.newTasksDestination,
+    newTasksSection: settings.newTasksSection,
+  };
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase();
+}
@@ -7,13 +7,17 @@ function makeCommonTask(overrides: Partial<CommonTask> = {}): CommonTask {
     title: 'Default task',
     status: 'TODO',
     dueDate: null,
+    dueTime: null,
     startDate: null,
+    startTime: null,
     scheduledDate: null,
     completedDate: null,
+    reminders: [],
     priority: 'none',
     tags: [],
     recurrenceRule: '',
     notes: '',
+    parentUid: null,
     ...overrides,
   };
 }
@@ -43,6 +47,24 @@ describe('tasksEqual', () => {
     expect(tasksEqual(a, b)).toBe(false);
   });
 
+  it('should detect time changes', () => {
+    const a = makeCommonTask({ dueDate: '2025-01-15', dueTime: '09:00' });
+    expect(tasksEqual(a, makeCommonTask({ dueDate: '2025-01-15', dueTime: '10:00' }))).toBe(false);
+    expect(tasksEqual(a, makeCommonTask({ dueDate: '2025-01-15', dueTime: null }))).toBe(false);
+    expect(tasksEqual(makeCommonTask({ startTime: '08:00' }), makeCommonTask({ startTime: null }))).toBe(false);
+  });
+
+  it('should detect reminder changes', () => {
+    const a = makeCommonTask({ reminders: ['2025-01-15 08:45'] });
+    expect(tasksEqual(a, makeCommonTask({ reminders: ['2025-01-15 09:00'] }))).toBe(false);
+    expect(tasksEqual(a, makeCommonTask({ reminders: [] }))).toBe(false);
+  });
+
+  it('should detect parent changes', () => {
+    expect(tasksEqual(makeCommonTask({ parentUid: 'a' }), makeCommonTask({ parentUid: 'b' }))).toBe(false);
+    expect(tasksEqual(makeCommonTask({ parentUid: 'a' }), makeCommonTask({ parentUid: null }))).toBe(false);
+  });
+
   it('should detect priority change', () => {
     const a = makeCommonTask({ priority: 'high' });
     const b = makeCommonTask({ priority: 'low' });
@@ -8,14 +8,19 @@ export function tasksEqual(a: CommonTask, b: CommonTask): boolean {
     a.title === b.title &&
     a.status === b.status &&
     a.dueDate === b.dueDate &&
+    a.dueTime === b.dueTime &&
     a.startDate === b.startDate &&
+    a.startTime === b.startTime &&
     a.scheduledDate === b.scheduledDate &&
     a.completedDate === b.completedDate &&
     a.priority === b.priority &&
     a.recurrenceRule === b.recurrenceRule &&
     a.notes === b.notes &&
+    a.parentUid === b.parentUid &&
     a.tags.length === b.tags.length &&
-    a.tags.every((tag, i) => tag === b.tags[i])
+    a.tags.every((tag, i) => tag === b.tags[i]) &&
+    a.reminders.length === b.reminders.length &&
+    a.reminders.every((reminder, i) => reminder === b.reminders[i])
   );
 }
 
@@ -93,6 +93,51 @@ describe('ObsidianAdapter', () => {
       expect(adapter.toCommonTask(task, 'id').dueDate).toBe('2025-01-15');
     });
 
+    it('should read due and start times written after the title', () => {
+      const task = makeTask({ description: 'Call Bob 🛫 8:00 ⏰ 09:30', dueDate: '2025-01-15', startDate: '2025-01-14' });
+      const common = adapter.toCommonTask(task, 'id');
+
+      expect(common.title).toBe('Call Bob');
+      expect(common.dueTime).toBe('09:30');
+      expect(common.startTime).toBe('08:00');
+    });
+
+    it('should read times written as Dataview fields', () => {
+      const task = makeTask({ description: 'Call Bob [startTime:: 08:00] [dueTime:: 17:45]', dueDate: '2025-01-15', startDate: '2025-01-14' });
+      const common = adapter.toCommonTask(task, 'id');
+
+      expect(common.title).toBe('Call Bob');
+      expect(common.dueTime).toBe('17:45');
+      expect(common.startTime).toBe('08:00');
+    });
+
+    it('should ignore times without a date and invalid times', () => {
+      expect(adapter.toCommonTask(makeTask({ description: 'Call Bob ⏰ 09:00' }), 'id').dueTime).toBeNull();
+      expect(adapter.toCommonTask(makeTask({ description: 'Call Bob ⏰ 25:00', dueDate: '2025-01-15' }), 'id').dueTime).toBeNull();
+    });
+
+    it('should not read a reminder date as a due time', () => {
+      const task = makeTask({ description: 'Call Bob ⏰ 2025-01-15 09:00', dueDate: '2025-01-15' });
+      expect(adapter.toCommonTask(task, 'id').dueTime).toBeNull();
+    });
+
+    it('should read reminders in both Reminder plugin formats, sorted', () => {
+      const task = makeTask({ description: 'Call Bob ⏰ 2025-01-15 9:30 (@2025-01-14 18:00)' });
+      const common = adapter.toCommonTask(task, 'id');
+
+      expect(common.title).toBe('Call Bob');
+      expect(common.reminders).toEqual(['2025-01-14 18:00', '2025-01-15 09:30']);
+    });
+
+    it('should tell reminders and due times apart', () => {
+      const task = makeTask({ description: 'Call Bob ⏰ 10:00 ⏰ 2025-01-15 09:30', dueDate: '2025-01-15' });
+      const common = adapter.toCommonTask(task, 'id');
+
+      expect(common.dueTime).toBe('10:00');
+      expect(common.reminders).toEqual(['2025-01-15 09:30']);
+      expect(common.title).toBe('Call Bob');
+    });
+
     it('should extract recurrence rule from toText()', () => {
       const task = makeTask({
         recurrence: { toText: () => 'every day' },
@@ -189,13 +234,17 @@ describe('ObsidianAdapter', () => {
         title: 'Test task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       expect(adapter.toMarkdown(task, 'test-id', 'sync'))
@@ -208,13 +257,17 @@ describe('ObsidianAdapter', () => {
         title: 'Done task',
         status: 'DONE' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       expect(adapter.toMarkdown(task, 'test-id', 'sync'))
@@ -227,13 +280,17 @@ describe('ObsidianAdapter', () => {
         title: 'Task',
         status: 'DONE' as const,
         dueDate: '2025-01-15',
+        dueTime: null,
         startDate: '2025-01-08',
+        startTime: null,
         scheduledDate: '2025-01-10',
         completedDate: '2025-01-12',
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const md = adapter.toMarkdown(task, 'id', 'sync');
@@ -249,19 +306,73 @@ describe('ObsidianAdapter', () => {
       expect(schedIdx).toBeLessThan(dueIdx);
     });
 
+    it('should write times after the title in the configured format', () => {
+      const task = {
+        uid: 'id',
+        title: 'Call Bob',
+        status: 'TODO' as const,
+        dueDate: '2025-01-15',
+        dueTime: '09:30',
+        startDate: '2025-01-14',
+        startTime: '08:00',
+        scheduledDate: null,
+        completedDate: null,
+        reminders: [],
+        priority: 'none' as const,
+        tags: [],
+        recurrenceRule: '',
+        notes: '',
+        parentUid: null,
+      };
+
+      expect(adapter.toMarkdown(task, 'id', 'sync'))
+        .toBe('- [ ] Call Bob 🛫 08:00 ⏰ 09:30 🛫 2025-01-14 📅 2025-01-15 🆔 id #sync');
+      expect(new ObsidianAdapter('dataview').toMarkdown(task, 'id', 'sync'))
+        .toBe('- [ ] Call Bob [startTime:: 08:00] [dueTime:: 09:30] 🛫 2025-01-14 📅 2025-01-15 🆔 id #sync');
+    });
+
+    it('should write reminders after the times in the configured format', () => {
+      const task = {
+        uid: 'id',
+        title: 'Call Bob',
+        status: 'TODO' as const,
+        dueDate: '2025-01-15',
+        dueTime: '09:30',
+        startDate: null,
+        startTime: null,
+        scheduledDate: null,
+        completedDate: null,
+        reminders: ['2025-01-15 09:15'],
+        priority: 'none' as const,
+        tags: [],
+        recurrenceRule: '',
+        notes: '',
+        parentUid: null,
+      };
+
+      expect(adapter.toMarkdown(task, 'id'))
+        .toBe('- [ ] Call Bob ⏰ 09:30 ⏰ 2025-01-15 09:15 📅 2025-01-15 🆔 id');
+      expect(new ObsidianAdapter('emoji', 'reminder').toMarkdown(task, 'id'))
+        .toBe('- [ ] Call Bob ⏰ 09:30 (@2025-01-15 09:15) 📅 2025-01-15 🆔 id');
+    });
+
     it('should work without sync tag', () => {
       const task = {
         uid: 'id',
         title: 'No tag',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const md = adapter.toMarkdown(task, 'id', '');
@@ -275,13 +386,17 @@ describe('ObsidianAdapter', () => {
         title: 'Task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const without = adapter.toMarkdown(task, 'id', 'sync');
@@ -296,13 +411,17 @@ describe('ObsidianAdapter', () => {
         title: 'High priority task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'high' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       // Priority is not mapped to obsidian-tasks emoji format — data is lost in CalDAV→Obsidian direction
@@ -316,13 +435,17 @@ describe('ObsidianAdapter', () => {
         title: 'Recurring task',
         status: 'TODO' as const,
         dueDate: '2026-02-15',
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: 'FREQ=DAILY',
         notes: '',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       expect(md).toContain('🔁 every day');
@@ -336,13 +459,17 @@ describe('ObsidianAdapter', () => {
         title: 'Weekly task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO',
         notes: '',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       expect(md).toContain('🔁 every week on Monday');
@@ -354,13 +481,17 @@ describe('ObsidianAdapter', () => {
         title: 'Task',
         status: 'TODO' as const,
         dueDate: '2026-02-15',
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: 'FREQ=DAILY',
         notes: '',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       const recIdx = md.indexOf('🔁');
@@ -376,13 +507,17 @@ describe('ObsidianAdapter', () => {
         title: 'Task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: 'INVALID_RRULE',
         notes: '',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       expect(md).not.toContain('🔁');
@@ -394,13 +529,17 @@ describe('ObsidianAdapter', () => {
         title: 'Task with notes',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: 'First note\nSecond note',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       expect(md).toBe('- [ ] Task with notes 🆔 id #sync\n    - First note\n    - Second note');
@@ -412,13 +551,17 @@ describe('ObsidianAdapter', () => {
         title: 'Task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
       const md = adapter.toMarkdown(task, 'id', 'sync');
       expect(md).toBe('- [ ] Task 🆔 id #sync');
@@ -474,6 +617,54 @@ describe('ObsidianAdapter', () => {
       const notes = adapter.extractNotesFromFile(content, 0);
       expect(notes).toBe('');
     });
+
+    it('should stop at a subtask', () => {
+      const content = '- [ ] Task\n    - Note\n    - [ ] Subtask\n        - Subtask note';
+      expect(adapter.extractNotesFromFile(content, 0)).toBe('Note');
+    });
+
+    it('should read the notes of a nested task relative to its indentation', () => {
+      const content = '- [ ] Task\n    - [ ] Subtask\n        - Subtask note\n    - Parent note';
+      expect(adapter.extractNotesFromFile(content, 1)).toBe('Subtask note');
+    });
+  });
+
+  describe('extractParentIdFromFile', () => {
+    const content = [
+      '- [ ] Parent 🆔 p',
+      '    - Note',
+      '',
+      '    - [ ] Child 🆔 c',
+      '        - [ ] Grandchild 🆔 g',
+      '    - [ ] Second child 🆔 s',
+      '- [ ] Top 🆔 t',
+      '- Plain bullet',
+      '    - [ ] Under a bullet 🆔 b',
+      '- [ ] No ID',
+      '\t- [ ] Under a task without ID 🆔 n',
+    ].join('\n');
+
+    it('should find the nearest less indented task above', () => {
+      expect(adapter.extractParentIdFromFile(content, 3)).toBe('p');
+      expect(adapter.extractParentIdFromFile(content, 4)).toBe('c');
+      expect(adapter.extractParentIdFromFile(content, 5)).toBe('p');
+    });
+
+    it('should return null for top-level tasks and tasks not under a synced task', () => {
+      expect(adapter.extractParentIdFromFile(content, 6)).toBeNull();
+      expect(adapter.extractParentIdFromFile(content, 8)).toBeNull();
+      expect(adapter.extractParentIdFromFile(content, 10)).toBeNull();
+    });
+  });
+
+  describe('normalize with parentMap', () => {
+    it('should set parents that are among the normalized tasks', () => {
+      const tasks = [makeTask({ id: 'parent' }), makeTask({ id: 'child' }), makeTask({ id: 'orphan' })];
+      const parentMap = new Map([['child', 'parent'], ['orphan', 'not-synced']]);
+
+      const result = adapter.normalize(tasks, 'sync', undefined, parentMap);
+      expect(result.map(t => t.parentUid)).toEqual([null, 'parent', null]);
+    });
   });
 
   describe('normalize with notesMap', () => {
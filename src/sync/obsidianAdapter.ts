@@ -1,14 +1,43 @@
 import { RRule } from 'rrule';
 import { CommonTask, TaskStatus, TaskPriority } from './types';
 import { ObsidianTask } from '../tasks/taskManager';
+import { ReminderFormat, TimeFormat } from '../types';
+import { extractTaskId } from '../utils/taskIdGenerator';
+import { indentWidth, isCheckboxLine, noteText } from '../utils/outline';
+
+/** A due or start time in the task text, e.g. `⏰ 9:00` or `[dueTime:: 09:00]`. */
+const DUE_TIME = /⏰ *(\d{1,2}):(\d{2})(?!\S)|\[dueTime:: *(\d{1,2}):(\d{2})\]/u;
+const START_TIME = /🛫 *(\d{1,2}):(\d{2})(?!\S)|\[startTime:: *(\d{1,2}):(\d{2})\]/u;
+/** A reminder in Reminder plugin syntax, `⏰ 2026-03-01 8:45` or `(@2026-03-01 08:45)`. */
+const REMINDER = /⏰ *(\d{4}-\d{2}-\d{2}) +(\d{1,2}):(\d{2})(?!\S)|\(@(\d{4}-\d{2}-\d{2}) +(\d{1,2}):(\d{2})\)/u;
 
 export class ObsidianAdapter {
+  private timeFormat: TimeFormat;
+  private reminderFormat: ReminderFormat;
+
+  /**
+   * @param timeFormat How due and start times are written in task lines;
+   * both forms are read
+   * @param reminderFormat How reminders are written; both forms are read
+   */
+  constructor(timeFormat: TimeFormat = 'emoji', reminderFormat: ReminderFormat = 'emoji') {
+    this.timeFormat = timeFormat;
+    this.reminderFormat = reminderFormat;
+  }
+
   /**
    * Normalize obsidian-tasks Task[] into CommonTask[].
    * Only includes tasks that have an ID and pass the sync tag filter.
    * @param notesMap Optional map of taskId -> notes text (extracted from vault files)
+   * @param parentMap Optional map of taskId -> parent task ID (from indentation);
+   * parents that are not among the normalized tasks are left out
    */
-  normalize(tasks: ObsidianTask[], syncTag?: string, notesMap?: Map<string, string>): CommonTask[] {
+  normalize(
+    tasks: ObsidianTask[],
+    syncTag?: string,
+    notesMap?: Map<string, string>,
+    parentMap?: Map<string, string>,
+  ): CommonTask[] {
     const filtered = this.filterByTag(tasks, syncTag);
     const result: CommonTask[] = [];
 
@@ -17,7 +46,12 @@ export class ObsidianAdapter {
       if (!taskId) continue;
 
       const notes = notesMap?.get(taskId) ?? '';
-      result.push(this.toCommonTask(task, taskId, notes));
+      result.push(this.toCommonTask(task, taskId, notes, parentMap?.get(taskId) ?? null));
+    }
+
+    const ids = new Set(result.map(t => t.uid));
+    for (const task of result) {
+      if (task.parentUid && !ids.has(task.parentUid)) task.parentUid = null;
     }
 
     return result;
@@ -26,31 +60,52 @@ export class ObsidianAdapter {
   /**
    * Convert a single obsidian-tasks Task to CommonTask.
    * @param notes Optional notes text (defaults to '')
+   * @param parentUid ID of the task it is nested under, if any
    */
-  toCommonTask(task: ObsidianTask, taskId: string, notes: string = ''): CommonTask {
+  toCommonTask(task: ObsidianTask, taskId: string, notes: string = '', parentUid: string | null = null): CommonTask {
+    const dueDate = this.formatDate(task.dueDate);
+    const startDate = this.formatDate(task.startDate);
     return {
       uid: taskId,
       title: this.cleanDescription(task.description),
       status: this.mapStatus(task),
-      dueDate: this.formatDate(task.dueDate),
-      startDate: this.formatDate(task.startDate),
+      dueDate,
+      // A time without its date means nothing to the server
+      dueTime: dueDate ? this.extractTime(task.description, DUE_TIME) : null,
+      startDate,
+      startTime: startDate ? this.extractTime(task.description, START_TIME) : null,
       scheduledDate: this.formatDate(task.scheduledDate),
       completedDate: this.formatDate(task.doneDate),
+      reminders: this.extractReminders(task.description),
       priority: this.mapPriority(task.priority),
       tags: this.cleanTags(task.tags || []),
       recurrenceRule: task.recurrence ? this.extractRecurrenceRule(task.recurrence) : '',
       notes,
+      parentUid,
     };
   }
 
   /**
-   * Generate obsidian-tasks markdown from a CommonTask.
+   * Generate obsidian-tasks markdown from a CommonTask, at the top level;
+   * TaskManager indents it when it goes under a parent.
    */
   toMarkdown(task: CommonTask, taskId: string, syncTag?: string): string {
     let line = task.status === 'DONE' ? '- [x] ' : '- [ ] ';
 
     line += task.title;
 
+    // Times and reminders go before the obsidian-tasks fields, which it parses from the
+    // end of the line and stops at the first text it does not know
+    if (task.startDate && task.startTime) {
+      line += this.timeFormat === 'dataview' ? ` [startTime:: ${task.startTime}]` : ` 🛫 ${task.startTime}`;
+    }
+    if (task.dueDate && task.dueTime) {
+      line += this.timeFormat === 'dataview' ? ` [dueTime:: ${task.dueTime}]` : ` ⏰ ${task.dueTime}`;
+    }
+    for (const reminder of task.reminders) {
+      line += this.reminderFormat === 'reminder' ? ` (@${reminder})` : ` ⏰ ${reminder}`;
+    }
+
     // Dates in obsidian-tasks order: start, scheduled, due, completed
     if (task.startDate) {
       line += ` 🛫 ${task.startDate}`;
@@ -93,22 +148,43 @@ export class ObsidianAdapter {
 
   /**
    * Extract indented bullet notes from file content below a task line.
-   * Notes are lines matching /^(?:\s{2,}|\t)- (.*)$/ immediately after the task.
+   * Notes are the bullets immediately after the task, indented at least
+   * two spaces (or a tab) deeper than it; a nested checkbox is a subtask
+   * and ends them.
    * Returns joined lines with \n, or '' if no notes found.
    */
   extractNotesFromFile(fileContent: string, taskLineIndex: number): string {
     const lines = fileContent.split('\n');
+    const taskWidth = indentWidth(lines[taskLineIndex] ?? '');
     const noteLines: string[] = [];
 
     for (let i = taskLineIndex + 1; i < lines.length; i++) {
-      const match = lines[i].match(/^(?:\s{2,}|\t)- (.*)$/);
-      if (!match) break;
-      noteLines.push(match[1]);
+      const text = noteText(lines[i], taskWidth);
+      if (text === null) break;
+      noteLines.push(text);
     }
 
     return noteLines.join('\n');
   }
 
+  /**
+   * ID of the task a task line is nested under: the nearest checkbox
+   * above it that is indented less. Null for top-level tasks and for
+   * tasks nested under a parent without an ID or under a plain bullet.
+   */
+  extractParentIdFromFile(fileContent: string, taskLineIndex: number): string | null {
+    const lines = fileContent.split('\n');
+    const taskWidth = indentWidth(lines[taskLineIndex] ?? '');
+
+    for (let i = taskLineIndex - 1; i >= 0 && taskWidth > 0; i--) {
+      const line = lines[i];
+      if (line.trim() === '' || indentWidth(line) >= taskWidth) continue;
+      return isCheckboxLine(line) ? extractTaskId(line) : null;
+    }
+
+    return null;
+  }
+
   /**
    * Get the content hash for change detection (matches old SyncEngine behavior).
    */
@@ -135,6 +211,9 @@ export class ObsidianAdapter {
 
     // Remove [id::xxx] (backwards compat for tasks indexed before migration)
     cleaned = cleaned.replace(/\[id::[^\]]+\]/g, '');
+    // Remove due and start times and reminders
+    cleaned = cleaned.replace(new RegExp(DUE_TIME.source, 'gu'), '').replace(new RegExp(START_TIME.source, 'gu'), '');
+    cleaned = cleaned.replace(new RegExp(REMINDER.source, 'gu'), '');
     // Remove hashtags (but not # followed by numbers like #42)
     cleaned = cleaned.replace(/#[a-zA-Z][\w-]*/g, '');
     // Clean up extra whitespace
@@ -143,6 +222,35 @@ export class ObsidianAdapter {
     return cleaned;
   }
 
+  /**
+   * A time in the task text as 'HH:mm', or null if there is none.
+   */
+  private extractTime(description: string, pattern: RegExp): string | null {
+    const match = pattern.exec(description);
+    if (!match) return null;
+    const hours = match[1] ?? match[3];
+    const minutes = match[2] ?? match[4];
+    if (+hours > 23 || +minutes > 59) return null;
+    return `${hours.padStart(2, '0')}:${minutes}`;
+  }
+
+  /**
+   * Reminders in the task text as 'YYYY-MM-DD HH:mm', sorted.
+   */
+  private extractReminders(description: string): string[] {
+    const reminders: string[] = [];
+    const pattern = new RegExp(REMINDER.source, 'gu');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(description)) !== null) {
+      const date = match[1] ?? match[4];
+      const hours = match[2] ?? match[5];
+      const minutes = match[3] ?? match[6];
+      if (+hours > 23 || +minutes > 59) continue;
+      reminders.push(`${date} ${hours.padStart(2, '0')}:${minutes}`);
+    }
+    return reminders.sort();
+  }
+
   /**
    * Remove # prefix from tags.
    */
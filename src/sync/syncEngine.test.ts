@@ -1,7 +1,10 @@
-import { App } from 'obsidian';
+import { App, TFile } from 'obsidian';
 import { SyncEngine } from './syncEngine';
-import { CalDAVSettings, DEFAULT_CALDAV_SETTINGS } from '../types';
+import { CalDAVSettings, CalendarBinding, DEFAULT_CALDAV_SETTINGS } from '../types';
+import { SyncStorage } from '../storage/syncStorage';
 import { CalendarObject } from '../caldav/vtodoMapper';
+import { AuthenticationError, NetworkError, PreconditionFailedError, RequestTimeoutError, ServerError } from '../caldav/errors';
+import { QueuedChange } from './types';
 
 // --- Helpers ---
 
@@ -34,6 +37,18 @@ function makeSettings(overrides: Partial<CalDAVSettings> = {}): CalDAVSettings {
   };
 }
 
+function makeBinding(overrides: Partial<CalendarBinding> = {}): CalendarBinding {
+  return {
+    id: 'cal-test',
+    calendarName: 'Tasks',
+    scopeType: 'vault',
+    scopeValue: '',
+    frontmatterKey: 'caldav-calendar',
+    newTasksDestination: 'Inbox.md',
+    ...overrides,
+  };
+}
+
 function buildVTODO(uid: string, summary: string, extra: string[] = []): string {
   const hasStatus = extra.some(l => l.startsWith('STATUS:'));
   const hasPriority = extra.some(l => l.startsWith('PRIORITY:'));
@@ -53,6 +68,11 @@ function buildVTODO(uid: string, summary: string, extra: string[] = []): string
   ].join('\r\n');
 }
 
+/** What the client throws while the server is unreachable. */
+function offline(): NetworkError {
+  return new NetworkError('PROPFIND', 'https://caldav.example.com/', 'PROPFIND https://caldav.example.com/ failed: net::ERR_INTERNET_DISCONNECTED');
+}
+
 function makeCalObj(uid: string, summary: string, extra: string[] = []): CalendarObject {
   return {
     data: buildVTODO(uid, summary, extra),
@@ -61,6 +81,11 @@ function makeCalObj(uid: string, summary: string, extra: string[] = []): Calenda
   };
 }
 
+/** createVTODO stand-in: the object lands at <uid>.ics without an etag. */
+async function createdObject(data: string, uid: string): Promise<CalendarObject> {
+  return { data, url: `http://example.com/cal/${uid}.ics` };
+}
+
 // --- Mocks ---
 
 // All mock fns are declared at module level so jest.mock() can reference them,
@@ -71,7 +96,9 @@ const mockGetAllTasks = jest.fn().mockReturnValue([]);
 const mockEnsureTaskHasId = jest.fn().mockResolvedValue('mock-id');
 const mockFindTaskById = jest.fn().mockReturnValue(null);
 const mockCreateTask = jest.fn().mockResolvedValue(undefined);
+const mockCreateSubtask = jest.fn().mockResolvedValue(true);
 const mockUpdateTaskInVault = jest.fn().mockResolvedValue(undefined);
+const mockMoveTaskInVault = jest.fn().mockResolvedValue(true);
 const mockGetTaskId = jest.fn().mockImplementation((task: any) => task.id || null);
 
 jest.mock('../tasks/taskManager', () => ({
@@ -81,26 +108,40 @@ jest.mock('../tasks/taskManager', () => ({
     ensureTaskHasId: mockEnsureTaskHasId,
     findTaskById: mockFindTaskById,
     createTask: mockCreateTask,
+    createSubtask: mockCreateSubtask,
     updateTaskInVault: mockUpdateTaskInVault,
+    moveTaskInVault: mockMoveTaskInVault,
     getTaskId: mockGetTaskId,
   })),
 }));
 
 const mockConnect = jest.fn().mockResolvedValue(undefined);
+const mockSelectCalendar = jest.fn();
+const mockGetSelectedCalendar = jest.fn().mockReturnValue(null);
 const mockFetchVTODOs = jest.fn().mockResolvedValue([]);
-const mockCreateVTODO = jest.fn().mockResolvedValue(undefined);
+const mockCreateVTODO = jest.fn().mockImplementation(createdObject);
 const mockUpdateVTODO = jest.fn().mockResolvedValue(undefined);
 const mockDeleteVTODOByUID = jest.fn().mockResolvedValue(undefined);
+const mockDeleteVTODO = jest.fn().mockResolvedValue(undefined);
 const mockFetchVTODOByUID = jest.fn().mockResolvedValue(null);
+const mockFetchVTODO = jest.fn().mockResolvedValue(null);
+const mockSyncVTODOs = jest.fn();
+const mockFetchCalendarVersion = jest.fn();
 
 jest.mock('../caldav/calDAVClientDirect', () => ({
   CalDAVClientDirect: jest.fn().mockImplementation(() => ({
     connect: mockConnect,
+    selectCalendar: mockSelectCalendar,
+    getSelectedCalendar: mockGetSelectedCalendar,
     fetchVTODOs: mockFetchVTODOs,
+    syncVTODOs: mockSyncVTODOs,
+    fetchCalendarVersion: mockFetchCalendarVersion,
     createVTODO: mockCreateVTODO,
     updateVTODO: mockUpdateVTODO,
     deleteVTODOByUID: mockDeleteVTODOByUID,
+    deleteVTODO: mockDeleteVTODO,
     fetchVTODOByUID: mockFetchVTODOByUID,
+    fetchVTODO: mockFetchVTODO,
   })),
 }));
 
@@ -113,6 +154,14 @@ const mockUpdateLastSyncTime = jest.fn();
 const mockSave = jest.fn().mockResolvedValue(undefined);
 const mockAddTaskMapping = jest.fn();
 const mockRemoveTaskMapping = jest.fn();
+const mockGetCalendarSnapshot = jest.fn().mockReturnValue(null);
+const mockSetCalendarSnapshot = jest.fn();
+const mockGetCalendarVersion = jest.fn().mockReturnValue(undefined);
+const mockSetCalendarVersion = jest.fn();
+const mockGetCalDAVLocations = jest.fn().mockReturnValue(new Map());
+const mockSetCalDAVLocations = jest.fn();
+const mockGetQueue = jest.fn().mockReturnValue([]);
+const mockSetQueue = jest.fn();
 
 jest.mock('../storage/syncStorage', () => ({
   SyncStorage: jest.fn().mockImplementation(() => ({
@@ -125,6 +174,14 @@ jest.mock('../storage/syncStorage', () => ({
     save: mockSave,
     addTaskMapping: mockAddTaskMapping,
     removeTaskMapping: mockRemoveTaskMapping,
+    getCalendarSnapshot: mockGetCalendarSnapshot,
+    setCalendarSnapshot: mockSetCalendarSnapshot,
+    getCalendarVersion: mockGetCalendarVersion,
+    setCalendarVersion: mockSetCalendarVersion,
+    getCalDAVLocations: mockGetCalDAVLocations,
+    setCalDAVLocations: mockSetCalDAVLocations,
+    getQueue: mockGetQueue,
+    setQueue: mockSetQueue,
   })),
 }));
 
@@ -141,14 +198,31 @@ describe('SyncEngine', () => {
     mockEnsureTaskHasId.mockResolvedValue('mock-id');
     mockFindTaskById.mockReturnValue(null);
     mockCreateTask.mockResolvedValue(undefined);
+    mockCreateSubtask.mockResolvedValue(true);
     mockUpdateTaskInVault.mockResolvedValue(undefined);
+    mockMoveTaskInVault.mockResolvedValue(true);
     mockGetTaskId.mockImplementation((task: any) => task.id || null);
     mockConnect.mockResolvedValue(undefined);
+    mockSelectCalendar.mockImplementation(() => undefined);
+    mockGetSelectedCalendar.mockReturnValue(null);
     mockFetchVTODOs.mockResolvedValue([]);
-    mockCreateVTODO.mockResolvedValue(undefined);
+    mockCreateVTODO.mockImplementation(createdObject);
     mockUpdateVTODO.mockResolvedValue(undefined);
     mockDeleteVTODOByUID.mockResolvedValue(undefined);
+    mockDeleteVTODO.mockResolvedValue(undefined);
     mockFetchVTODOByUID.mockResolvedValue(null);
+    mockFetchVTODO.mockResolvedValue(null);
+    // Default: behave like a server without sync-token support
+    mockSyncVTODOs.mockImplementation(async () => ({
+      calendarUrl: 'http://example.com/cal/',
+      syncToken: null,
+      objects: await mockFetchVTODOs(),
+    }));
+    mockGetCalendarSnapshot.mockReturnValue(null);
+    mockFetchCalendarVersion.mockResolvedValue({ calendarUrl: 'http://example.com/cal/', ctag: 'ctag-1', syncToken: 'token-1' });
+    mockGetCalendarVersion.mockReturnValue(undefined);
+    mockGetCalDAVLocations.mockReturnValue(new Map());
+    mockGetQueue.mockReturnValue([]);
     mockStorageInitialize.mockResolvedValue(undefined);
     mockGetBaseline.mockReturnValue([]);
     mockGetMapping.mockReturnValue({ tasks: {}, caldavToTask: {} });
@@ -196,6 +270,325 @@ describe('SyncEngine', () => {
       expect(result.success).toBe(false);
       expect(result.message).toContain('Server error');
     });
+
+    it('should report CalDAV errors with the failing request and a remediation hint', async () => {
+      mockConnect.mockRejectedValue(
+        new AuthenticationError('PROPFIND', 'http://example.com/.well-known/caldav', 'PROPFIND failed: 401'));
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync(true);
+
+      expect(result.details.errors).toEqual([{
+        calendarName: undefined,
+        kind: 'authentication',
+        message: 'PROPFIND failed: 401',
+        remediation: expect.stringContaining('app-specific password'),
+        request: { method: 'PROPFIND', url: 'http://example.com/.well-known/caldav', status: 401 },
+      }]);
+      expect(result.message).toContain('app-specific password');
+    });
+
+    it('should report other errors as unknown', async () => {
+      mockConnect.mockRejectedValue(new Error('Connection refused'));
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync(true);
+
+      expect(result.details.errors).toEqual([{ calendarName: undefined, kind: 'unknown', message: 'Connection refused' }]);
+    });
+
+    it('should report a failed write and still apply the other changes', async () => {
+      mockGetAllTasks.mockReturnValue([
+        makeObsidianTask({ id: '20250101-bad', description: 'Rejected', originalMarkdown: '- [ ] Rejected [id::20250101-bad]' }),
+        makeObsidianTask({ id: '20250101-ok', description: 'Accepted', originalMarkdown: '- [ ] Accepted [id::20250101-ok]' }),
+      ]);
+      mockCreateVTODO.mockImplementation(async (data: string, uid: string) => {
+        if (uid === 'obsidian-20250101-bad') throw new ServerError('PUT', 'http://example.com/cal/bad.ics', 500, 'Create VTODO failed: 500');
+        return createdObject(data, uid);
+      });
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockCreateVTODO).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(false);
+      expect(result.created.toCalDAV).toBe(1);
+      expect(result.details.errors).toEqual([expect.objectContaining({ kind: 'server-error', message: 'Create VTODO failed: 500' })]);
+      expect(result.message).toContain('Failed: 1 change(s) could not be written');
+      // Left out of the baseline, so the next sync creates it again
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.map(t => t.uid)).toEqual(['20250101-ok']);
+    });
+  });
+
+  describe('multiple calendars', () => {
+    const work = makeBinding({ id: 'cal-work', calendarName: 'Work', scopeType: 'folder', scopeValue: 'Work', newTasksDestination: 'Work/Inbox.md' });
+    const home = makeBinding({ id: 'cal-home', calendarName: 'Home', scopeType: 'vault', newTasksDestination: 'Home.md' });
+
+    it('should keep separate storage per calendar', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({ calendars: [work, home] }));
+      await engine.initialize();
+
+      expect(SyncStorage).toHaveBeenCalledWith(expect.anything(), 'cal-work');
+      expect(SyncStorage).toHaveBeenCalledWith(expect.anything(), 'cal-home');
+      expect(mockStorageInitialize).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the legacy calendar name when no calendars are configured', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({ calendarName: 'Legacy' }));
+      await engine.initialize();
+      await engine.sync(true);
+
+      expect(SyncStorage).toHaveBeenCalledWith(expect.anything(), 'default');
+      expect(mockSelectCalendar).toHaveBeenCalledWith('Legacy', undefined);
+    });
+
+    it('should select and sync each calendar in turn', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({ calendars: [work, home] }));
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockSelectCalendar.mock.calls.map(c => c[0])).toEqual(['Work', 'Home']);
+      expect(mockSyncVTODOs).toHaveBeenCalledTimes(2);
+      expect(mockSave).toHaveBeenCalledTimes(2);
+    });
+
+    it('should route vault tasks to the first calendar whose scope matches', async () => {
+      mockGetAllTasks.mockReturnValue([
+        makeObsidianTask({ id: 'work-1', description: 'Work task', taskLocation: { _tasksFile: { _path: 'Work/Project.md' }, _lineNumber: 1 } }),
+        makeObsidianTask({ id: 'home-1', description: 'Home task', taskLocation: { _tasksFile: { _path: 'Home.md' }, _lineNumber: 1 } }),
+      ]);
+
+      const engine = new SyncEngine(new App(), makeSettings({ calendars: [work, home] }));
+      await engine.initialize();
+      const result = await engine.sync(true);
+
+      expect(result.created.toCalDAV).toBe(2);
+      const created = result.details.toCalDAV.map(c => c.task.uid);
+      expect(created).toEqual(['work-1', 'home-1']);
+    });
+
+    it('should create tasks from a calendar in that calendar\'s destination', async () => {
+      let call = 0;
+      mockSyncVTODOs.mockImplementation(async () => ({
+        calendarUrl: 'http://example.com/cal/',
+        syncToken: null,
+        objects: call++ === 0 ? [makeCalObj('caldav-work', 'From work')] : [],
+      }));
+
+      const engine = new SyncEngine(new App(), makeSettings({ calendars: [work, home] }));
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockCreateTask).toHaveBeenCalledTimes(1);
+      expect(mockCreateTask.mock.calls[0][1]).toBe('Work/Inbox.md');
+    });
+
+    it('should keep syncing other calendars when one fails', async () => {
+      mockSelectCalendar.mockImplementation((name: string) => {
+        if (name === 'Work') throw new Error("Calendar 'Work' not found. Available: Home");
+      });
+
+      const engine = new SyncEngine(new App(), makeSettings({ calendars: [work, home] }));
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("Work: Calendar 'Work' not found");
+      expect(result.details.errors).toEqual([expect.objectContaining({ calendarName: 'Work', message: "Calendar 'Work' not found. Available: Home" })]);
+      expect(mockSyncVTODOs).toHaveBeenCalledTimes(1);
+      expect(mockSave).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('incremental CalDAV fetch', () => {
+    it('should pass the stored calendar snapshot to the client and persist the result', async () => {
+      const previous = {
+        calendarUrl: 'http://example.com/cal/',
+        syncToken: 'token-1',
+        objects: [makeCalObj('caldav-001', 'Cached task')],
+      };
+      const updated = {
+        calendarUrl: 'http://example.com/cal/',
+        syncToken: 'token-2',
+        objects: [makeCalObj('caldav-001', 'Cached task'), makeCalObj('caldav-002', 'New task')],
+      };
+      mockGetCalendarSnapshot.mockReturnValue(previous);
+      mockSyncVTODOs.mockResolvedValue(updated);
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockSyncVTODOs).toHaveBeenCalledWith(previous, { completedSince: expect.any(String) }, []);
+      expect(mockSetCalendarSnapshot).toHaveBeenCalledWith(updated);
+      expect(mockSave).toHaveBeenCalled();
+      // Both snapshot objects are diffed, not just the changed one
+      expect(result.created.toObsidian).toBe(2);
+    });
+
+    it('should filter the fetch by sync tag and age, keeping synced tasks', async () => {
+      mockGetMapping.mockReturnValue({
+        tasks: { 't1': { caldavUID: 'caldav-001', caldavHref: 'http://example.com/cal/1.ics', sourceFile: 'Tasks.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+        caldavToTask: { 'caldav-001': 't1' },
+      });
+      mockGetCalDAVLocations.mockReturnValue(new Map([['caldav-001', { href: 'http://example.com/cal/1.ics' }]]));
+
+      const engine = new SyncEngine(new App(), makeSettings({ syncTag: '#sync', filterTagOnServer: true, completedTaskMaxAge: 10 }));
+      await engine.initialize();
+      const before = Date.now();
+      await engine.sync();
+      const after = Date.now();
+
+      const [, filter, keep] = mockSyncVTODOs.mock.calls[0];
+      expect(filter.category).toBe('sync');
+      const tenDays = 10 * 24 * 60 * 60 * 1000;
+      expect(Date.parse(filter.completedSince)).toBeGreaterThanOrEqual(before - tenDays);
+      expect(Date.parse(filter.completedSince)).toBeLessThanOrEqual(after - tenDays);
+      expect(keep).toEqual(['http://example.com/cal/1.ics']);
+    });
+
+    it('should leave the sync tag to the client unless asked to filter by it on the server', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({ syncTag: 'sync', syncCompletedTasks: true }));
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockSyncVTODOs.mock.calls[0][1]).toBeUndefined();
+    });
+
+    it('should not filter while a synced task has no known href', async () => {
+      mockGetMapping.mockReturnValue({
+        tasks: { 't1': { caldavUID: 'caldav-001', sourceFile: 'Tasks.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+        caldavToTask: { 'caldav-001': 't1' },
+      });
+
+      const engine = new SyncEngine(new App(), makeSettings({ syncTag: 'sync' }));
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockSyncVTODOs.mock.calls[0][1]).toBeUndefined();
+    });
+
+    it('should not filter completed tasks when they are synced', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({ syncCompletedTasks: true }));
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockSyncVTODOs.mock.calls[0][1]).toBeUndefined();
+    });
+  });
+
+  describe('pre-flight change detection', () => {
+    const version = { calendarUrl: 'http://example.com/cal/', ctag: 'ctag-1', syncToken: 'token-1' };
+
+    async function syncedEngine(): Promise<SyncEngine> {
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync();
+      mockGetCalendarVersion.mockReturnValue(version);
+      jest.clearAllMocks();
+      return engine;
+    }
+
+    it('should record the calendar version after a successful sync', async () => {
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockSetCalendarVersion).toHaveBeenCalledWith(version);
+    });
+
+    it('should not record the calendar version on a dry run', async () => {
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync(true);
+
+      expect(mockSetCalendarVersion).not.toHaveBeenCalled();
+    });
+
+    it('should still sync when the server rejects the version PROPFIND', async () => {
+      mockFetchCalendarVersion.mockRejectedValue(new Error('PROPFIND calendar version failed: 405'));
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(result.success).toBe(true);
+      expect(mockSetCalendarVersion).not.toHaveBeenCalled();
+    });
+
+    it('should report changes on a fresh engine before any sync', async () => {
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+
+      expect(await engine.hasPendingChanges()).toBe(true);
+      expect(mockFetchCalendarVersion).not.toHaveBeenCalled();
+    });
+
+    it('should skip the whole pipeline when neither side changed', async () => {
+      const engine = await syncedEngine();
+
+      const result = await engine.syncIfChanged();
+
+      expect(result).toBeNull();
+      expect(mockFetchCalendarVersion).toHaveBeenCalledWith('http://example.com/cal/');
+      expect(mockConnect).not.toHaveBeenCalled();
+      expect(mockSyncVTODOs).not.toHaveBeenCalled();
+      expect(mockGetAllTasks).not.toHaveBeenCalled();
+    });
+
+    it('should sync when the calendar ctag moved', async () => {
+      const engine = await syncedEngine();
+      mockFetchCalendarVersion.mockResolvedValue({ ...version, ctag: 'ctag-2' });
+
+      const result = await engine.syncIfChanged();
+
+      expect(result).not.toBeNull();
+      expect(mockConnect).toHaveBeenCalled();
+    });
+
+    it('should sync when the calendar sync-token moved', async () => {
+      const engine = await syncedEngine();
+      mockFetchCalendarVersion.mockResolvedValue({ ...version, syncToken: 'token-2' });
+
+      expect(await engine.hasPendingChanges()).toBe(true);
+    });
+
+    it('should sync without a PROPFIND when the vault is dirty', async () => {
+      const engine = await syncedEngine();
+      engine.markVaultDirty();
+
+      expect(await engine.hasPendingChanges()).toBe(true);
+      expect(mockFetchCalendarVersion).not.toHaveBeenCalled();
+    });
+
+    it('should sync when the server exposes neither ctag nor sync-token', async () => {
+      const engine = await syncedEngine();
+      mockGetCalendarVersion.mockReturnValue({ calendarUrl: version.calendarUrl, ctag: null, syncToken: null });
+
+      expect(await engine.hasPendingChanges()).toBe(true);
+      expect(mockFetchCalendarVersion).not.toHaveBeenCalled();
+    });
+
+    it('should sync when the pre-flight PROPFIND fails', async () => {
+      const engine = await syncedEngine();
+      mockFetchCalendarVersion.mockRejectedValue(new Error('offline'));
+
+      expect(await engine.hasPendingChanges()).toBe(true);
+    });
+
+    it('should keep the vault dirty when a sync fails', async () => {
+      const engine = await syncedEngine();
+      engine.markVaultDirty();
+      mockConnect.mockRejectedValue(new Error('Connection refused'));
+      await engine.sync();
+
+      expect(await engine.hasPendingChanges()).toBe(true);
+      expect(mockFetchCalendarVersion).not.toHaveBeenCalled();
+    });
   });
 
   describe('dry run', () => {
@@ -306,13 +699,17 @@ describe('SyncEngine', () => {
         description: 'Task to delete on CalDAV',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       }]);
 
       const engine = new SyncEngine(new App(), makeSettings());
@@ -321,11 +718,109 @@ describe('SyncEngine', () => {
 
       expect(result.success).toBe(true);
       expect(result.deleted.toCalDAV).toBe(1);
-      expect(mockDeleteVTODOByUID).toHaveBeenCalledTimes(1);
+      // Deleted directly at the href from the fetch, without a UID lookup
+      expect(mockDeleteVTODO).toHaveBeenCalledWith(expect.objectContaining({ url: 'http://example.com/caldav-del.ics', etag: 'etag-caldav-del' }));
+      expect(mockDeleteVTODOByUID).not.toHaveBeenCalled();
       expect(mockRemoveTaskMapping).toHaveBeenCalled();
     });
   });
 
+  describe('subtasks', () => {
+    it('should create a new CalDAV subtask below its parent, created first', async () => {
+      mockFetchVTODOs.mockResolvedValue([
+        makeCalObj('caldav-child', 'Child', ['RELATED-TO;RELTYPE=PARENT:caldav-parent']),
+        makeCalObj('caldav-parent', 'Parent'),
+      ]);
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync(false);
+
+      expect(result.created.toObsidian).toBe(2);
+      expect(mockCreateTask).toHaveBeenCalledTimes(1);
+      expect(mockCreateTask.mock.calls[0][0]).toContain('Parent');
+      expect(mockCreateSubtask).toHaveBeenCalledTimes(1);
+      const [markdown, path, parentId] = mockCreateSubtask.mock.calls[0];
+      expect(markdown).toContain('Child');
+      expect(path).toBe('Inbox.md');
+      expect(mockCreateTask.mock.calls[0][0]).toContain(parentId);
+      expect(mockAddTaskMapping).toHaveBeenCalledWith(expect.any(String), 'caldav-child', 'Inbox.md');
+    });
+
+    it('should fall back to the new tasks destination when the subtask cannot be placed', async () => {
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-child', 'Child', ['RELATED-TO:caldav-parent'])]);
+      mockGetMapping.mockReturnValue({
+        tasks: { '20250101-par': { caldavUID: 'caldav-parent', sourceFile: 'Projects.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+        caldavToTask: { 'caldav-parent': '20250101-par' },
+      });
+      mockFindTaskById.mockReturnValue(makeObsidianTask({ id: '20250101-par', taskLocation: { _tasksFile: { _path: 'Projects.md' }, _lineNumber: 3 } }));
+      mockCreateSubtask.mockResolvedValue(false);
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync(false);
+
+      expect(mockCreateSubtask).toHaveBeenCalledWith(expect.stringContaining('Child'), 'Projects.md', '20250101-par');
+      expect(mockCreateTask).toHaveBeenCalledWith(expect.stringContaining('Child'), 'Inbox.md', undefined);
+    });
+
+    it('should move a subtask the server moved to another parent', async () => {
+      const task = (id: string, description: string, indent = '') =>
+        makeObsidianTask({ id, description, tags: [], originalMarkdown: `${indent}- [ ] ${description} [id::${id}]` });
+      const parentA = task('20250101-aaa', 'Parent A');
+      const child = task('20250101-ccc', 'Child', '    ');
+      const parentB = task('20250101-bbb', 'Parent B');
+      mockGetAllTasks.mockReturnValue([parentA, child, parentB]);
+      mockFindTaskById.mockImplementation((id: string) => [parentA, child, parentB].find(t => t.id === id) ?? null);
+      const app = new App();
+      (app.vault.getAbstractFileByPath as jest.Mock).mockReturnValue(new TFile());
+      (app.vault.read as jest.Mock).mockResolvedValue([parentA, child, parentB].map(t => t.originalMarkdown).join('\n'));
+      const entry = (caldavUID: string) => ({ caldavUID, sourceFile: 'Tasks.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' });
+      mockGetMapping.mockReturnValue({
+        tasks: { '20250101-aaa': entry('caldav-aaa'), '20250101-bbb': entry('caldav-bbb'), '20250101-ccc': entry('caldav-ccc') },
+        caldavToTask: { 'caldav-aaa': '20250101-aaa', 'caldav-bbb': '20250101-bbb', 'caldav-ccc': '20250101-ccc' },
+      });
+      const server = (parent: string) => [
+        makeCalObj('caldav-aaa', 'Parent A'),
+        makeCalObj('caldav-ccc', 'Child', [`RELATED-TO:${parent}`]),
+        makeCalObj('caldav-bbb', 'Parent B'),
+      ];
+
+      const engine = new SyncEngine(app, makeSettings());
+      await engine.initialize();
+      mockFetchVTODOs.mockResolvedValue(server('caldav-aaa'));
+      const synced = await engine.sync(true);
+      expect(synced.details.toObsidian).toEqual([]);
+      expect(synced.details.toCalDAV).toEqual([]);
+
+      mockGetBaseline.mockReturnValue(synced.details.obsidianTasks);
+      mockFetchVTODOs.mockResolvedValue(server('caldav-bbb'));
+      const result = await engine.sync(false);
+
+      expect(result.updated.toObsidian).toBe(1);
+      expect(result.updated.toCalDAV).toBe(0);
+      expect(mockMoveTaskInVault).toHaveBeenCalledWith(child, expect.stringContaining('Child'), { id: '20250101-bbb', path: 'Tasks.md' });
+      expect(mockUpdateTaskInVault).not.toHaveBeenCalled();
+    });
+
+    it('should push nested vault tasks with a link to their parent', async () => {
+      const parent = makeObsidianTask({ description: 'Parent', id: '20250101-par', originalMarkdown: '- [ ] Parent [id::20250101-par]' });
+      const child = makeObsidianTask({ description: 'Child', id: '20250101-chi', originalMarkdown: '    - [ ] Child [id::20250101-chi]' });
+      mockGetAllTasks.mockReturnValue([child, parent]);
+      const app = new App();
+      (app.vault.getAbstractFileByPath as jest.Mock).mockReturnValue(new TFile());
+      (app.vault.read as jest.Mock).mockResolvedValue(`${parent.originalMarkdown}\n${child.originalMarkdown}`);
+
+      const engine = new SyncEngine(app, makeSettings());
+      await engine.initialize();
+      await engine.sync(false);
+
+      const data = new Map(mockCreateVTODO.mock.calls.map(([vtodo, uid]: [string, string]) => [uid, vtodo]));
+      expect(data.get('obsidian-20250101-chi')).toContain('RELATED-TO;RELTYPE=PARENT:obsidian-20250101-par');
+      expect(data.get('obsidian-20250101-par')).not.toContain('RELATED-TO');
+    });
+  });
+
   describe('result counting', () => {
     it('should count creates, updates, and deletes correctly', async () => {
       // Two Obsidian tasks not on CalDAV → 2 creates to CalDAV
@@ -424,13 +919,17 @@ describe('SyncEngine', () => {
         description: 'Original task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [] as string[],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const obsTask = makeObsidianTask({
@@ -467,13 +966,17 @@ describe('SyncEngine', () => {
         description: 'Original task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [] as string[],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const obsTask = makeObsidianTask({
@@ -747,13 +1250,17 @@ describe('SyncEngine', () => {
         description: 'Original task',
         status: 'TODO' as const,
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none' as const,
         tags: [] as string[],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       // Obsidian still has the original
@@ -853,6 +1360,431 @@ describe('SyncEngine', () => {
     });
   });
 
+  describe('CalDAV locations', () => {
+    it('should record hrefs and etags from the fetch and from created objects', async () => {
+      const vtodo = makeCalObj('caldav-abc', 'Existing');
+      mockFetchVTODOs.mockResolvedValue([vtodo]);
+      mockGetAllTasks.mockReturnValue([makeObsidianTask({ description: 'New task', id: '20250101-new' })]);
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync(false);
+
+      const locations: Map<string, any> = mockSetCalDAVLocations.mock.calls[0][0];
+      expect(locations.get('caldav-abc')).toEqual({ href: vtodo.url, etag: vtodo.etag });
+      expect(locations.get('obsidian-20250101-new')).toEqual({ href: 'http://example.com/cal/obsidian-20250101-new.ics', etag: undefined });
+    });
+
+    it('should update through the stored href without re-downloading the calendar', async () => {
+      const vtodo = makeCalObj('caldav-abc', 'Original task');
+      mockFetchVTODOs.mockResolvedValue([vtodo]);
+      mockGetAllTasks.mockReturnValue([makeObsidianTask({ description: 'Edited', tags: [], originalMarkdown: '- [ ] Edited [id::20250101-abc]' })]);
+      mockGetBaseline.mockReturnValue([{
+        uid: '20250101-abc', title: 'Original task', status: 'TODO', dueDate: null, dueTime: null, startDate: null, startTime: null,
+        scheduledDate: null, completedDate: null, reminders: [], priority: 'none', tags: [], recurrenceRule: '', notes: '', parentUid: null,
+      }]);
+      mockGetMapping.mockReturnValue({
+        tasks: { '20250101-abc': { caldavUID: 'caldav-abc', sourceFile: 'Tasks.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+        caldavToTask: { 'caldav-abc': '20250101-abc' },
+      });
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync(false);
+
+      expect(result.updated.toCalDAV).toBe(1);
+      expect(mockFetchVTODOByUID).not.toHaveBeenCalled();
+      expect(mockUpdateVTODO.mock.calls[0][0]).toMatchObject({ url: vtodo.url, etag: vtodo.etag });
+    });
+  });
+
+  describe('writes rejected with 412', () => {
+    const baselineTask = {
+      uid: '20250101-abc',
+      title: 'Original task',
+      status: 'TODO' as const,
+      dueDate: null,
+      dueTime: null,
+      startDate: null,
+      startTime: null,
+      scheduledDate: null,
+      completedDate: null,
+      reminders: [],
+      priority: 'none' as const,
+      tags: [] as string[],
+      recurrenceRule: '',
+      notes: '',
+      parentUid: null,
+    };
+
+    function setUpEditedOnBothSides(): void {
+      // Obsidian edited the task; CalDAV still looks unchanged at fetch time,
+      // but is edited on the phone before the PUT arrives
+      const original = makeCalObj('caldav-abc', 'Original task');
+      mockGetAllTasks.mockReturnValue([makeObsidianTask({
+        description: 'Edited in Obsidian',
+        tags: [],
+        originalMarkdown: '- [ ] Edited in Obsidian [id::20250101-abc]',
+      })]);
+      mockFetchVTODOs.mockResolvedValue([original]);
+      mockFetchVTODO.mockResolvedValue({ ...makeCalObj('caldav-abc', 'Edited on phone'), etag: 'etag-new' });
+      mockGetBaseline.mockReturnValue([baselineTask]);
+      mockGetMapping.mockReturnValue({
+        tasks: { '20250101-abc': { caldavUID: 'caldav-abc', sourceFile: 'Tasks.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+        caldavToTask: { 'caldav-abc': '20250101-abc' },
+      });
+    }
+
+    it('should re-merge against the fresh server copy instead of failing', async () => {
+      setUpEditedOnBothSides();
+      mockUpdateVTODO.mockRejectedValueOnce(new PreconditionFailedError('PUT', 'http://example.com/caldav-abc.ics'));
+
+      const engine = new SyncEngine(new App(), makeSettings({ autoResolveObsidianWins: false }));
+      await engine.initialize();
+      const result = await engine.sync(false);
+
+      expect(result.success).toBe(true);
+      expect(mockFetchVTODO).toHaveBeenCalledWith('http://example.com/caldav-abc.ics');
+      // Both sides changed: a conflict, resolved caldav-wins into Obsidian
+      expect(result.conflicts).toBe(1);
+      expect(result.updated.toCalDAV).toBe(0);
+      expect(result.updated.toObsidian).toBe(1);
+      expect(result.details.toObsidian[0].task.title).toBe('Edited on phone');
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.find(t => t.uid === '20250101-abc').title).toBe('Edited on phone');
+    });
+
+    it('should retry the merged write once against the new etag', async () => {
+      setUpEditedOnBothSides();
+      mockUpdateVTODO.mockRejectedValueOnce(new PreconditionFailedError('PUT', 'http://example.com/caldav-abc.ics'));
+
+      const engine = new SyncEngine(new App(), makeSettings({ autoResolveObsidianWins: true }));
+      await engine.initialize();
+      const result = await engine.sync(false);
+
+      expect(result.success).toBe(true);
+      expect(mockUpdateVTODO).toHaveBeenCalledTimes(2);
+      expect(result.updated.toCalDAV).toBe(1);
+      expect(result.details.toCalDAV[0].task.title).toBe('Edited in Obsidian');
+    });
+
+    it('should report a conflict and keep the old baseline when the retry is rejected too', async () => {
+      setUpEditedOnBothSides();
+      mockUpdateVTODO.mockRejectedValue(new PreconditionFailedError('PUT', 'http://example.com/caldav-abc.ics'));
+
+      const engine = new SyncEngine(new App(), makeSettings({ autoResolveObsidianWins: true }));
+      await engine.initialize();
+      const result = await engine.sync(false);
+
+      expect(result.success).toBe(true);
+      expect(mockUpdateVTODO).toHaveBeenCalledTimes(2);
+      expect(result.updated.toCalDAV).toBe(0);
+      expect(result.conflicts).toBe(1);
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.find(t => t.uid === '20250101-abc')).toEqual(baselineTask);
+    });
+  });
+
+  describe('offline queue', () => {
+    const baselineTask = {
+      uid: '20250101-abc',
+      title: 'Original task',
+      status: 'TODO' as const,
+      dueDate: null,
+      dueTime: null,
+      startDate: null,
+      startTime: null,
+      scheduledDate: null,
+      completedDate: null,
+      reminders: [],
+      priority: 'none' as const,
+      tags: [] as string[],
+      recurrenceRule: '',
+      notes: '',
+      parentUid: null,
+    };
+    let queue: QueuedChange[];
+
+    function editInVault(title: string): void {
+      mockGetAllTasks.mockReturnValue([makeObsidianTask({
+        description: title,
+        tags: [],
+        originalMarkdown: `- [ ] ${title} [id::20250101-abc]`,
+      })]);
+    }
+
+    function queued(title: string, baselineTitle: string): QueuedChange {
+      return {
+        type: 'update',
+        task: { ...baselineTask, title },
+        baseline: { ...baselineTask, title: baselineTitle },
+        queuedAt: '2025-01-01T00:00:00.000Z',
+      };
+    }
+
+    beforeEach(() => {
+      queue = [];
+      mockGetQueue.mockImplementation(() => queue);
+      mockSetQueue.mockImplementation((q: QueuedChange[]) => { queue = q; });
+      mockGetBaseline.mockReturnValue([baselineTask]);
+      mockGetMapping.mockReturnValue({
+        tasks: { '20250101-abc': { caldavUID: 'caldav-abc', sourceFile: 'Tasks.md', lastSyncedObsidian: '', lastSyncedCalDAV: '', lastModifiedObsidian: '', lastModifiedCalDAV: '' } },
+        caldavToTask: { 'caldav-abc': '20250101-abc' },
+      });
+    });
+
+    it('should queue vault changes when the server is unreachable', async () => {
+      editInVault('Edited offline');
+      mockConnect.mockRejectedValue(offline());
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('1 change(s) queued');
+      expect(queue).toEqual([{
+        type: 'update',
+        task: expect.objectContaining({ uid: '20250101-abc', title: 'Edited offline' }),
+        baseline: baselineTask,
+        queuedAt: expect.any(String),
+      }]);
+      expect(mockSave).toHaveBeenCalled();
+    });
+
+    it('should queue vault changes when the server times out', async () => {
+      editInVault('Edited offline');
+      mockConnect.mockRejectedValue(new RequestTimeoutError('PROPFIND', 'https://caldav.example.com/', 30000));
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync();
+
+      expect(queue).toHaveLength(1);
+    });
+
+    it('should not queue vault changes when connecting fails for another reason', async () => {
+      editInVault('Edited offline');
+      mockConnect.mockRejectedValue(new AuthenticationError('PROPFIND', 'https://caldav.example.com/', 'PROPFIND failed: 401'));
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(result.success).toBe(false);
+      expect(queue).toEqual([]);
+      expect(mockSetQueue).not.toHaveBeenCalled();
+    });
+
+    it('should only add what changed since the last queued change', async () => {
+      mockConnect.mockRejectedValue(offline());
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+
+      editInVault('First');
+      await engine.sync();
+      editInVault('Second');
+      await engine.sync();
+      await engine.sync();
+
+      expect(queue.map(item => item.task.title)).toEqual(['First', 'Second']);
+      expect(queue[1].baseline!.title).toBe('First');
+    });
+
+    it('should not queue anything on a dry run', async () => {
+      editInVault('Edited offline');
+      mockConnect.mockRejectedValue(offline());
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      await engine.sync(true);
+
+      expect(mockSetQueue).not.toHaveBeenCalled();
+    });
+
+    it('should replay queued changes in order once the server is back', async () => {
+      queue = [queued('First', 'Original task'), queued('Second', 'First')];
+      editInVault('Second');
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-abc', 'Original task')]);
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(result.success).toBe(true);
+      expect(mockUpdateVTODO).toHaveBeenCalledTimes(2);
+      expect(mockUpdateVTODO.mock.calls[0][1]).toContain('SUMMARY:First');
+      expect(mockUpdateVTODO.mock.calls[1][1]).toContain('SUMMARY:Second');
+      expect(result.updated.toCalDAV).toBe(2);
+      expect(queue).toEqual([]);
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.find(t => t.uid === '20250101-abc').title).toBe('Second');
+    });
+
+    it('should skip queued changes the server already has', async () => {
+      queue = [queued('Edited offline', 'Original task')];
+      editInVault('Edited offline');
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-abc', 'Edited offline')]);
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockUpdateVTODO).not.toHaveBeenCalled();
+      expect(result.conflicts).toBe(0);
+      expect(queue).toEqual([]);
+    });
+
+    it('should leave a task also changed on the server to the conflict strategy', async () => {
+      queue = [queued('Edited offline', 'Original task')];
+      editInVault('Edited offline');
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-abc', 'Edited on phone')]);
+
+      const engine = new SyncEngine(new App(), makeSettings({ autoResolveObsidianWins: false }));
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockUpdateVTODO).not.toHaveBeenCalled();
+      expect(result.conflicts).toBe(1);
+      expect(result.details.toObsidian[0].task.title).toBe('Edited on phone');
+      expect(queue).toEqual([]);
+    });
+
+    it('should report a queued change that conflicts with a server edit', async () => {
+      // Edited offline, then changed back: the vault matches the baseline,
+      // so only the queue still knows about the edit
+      queue = [queued('Edited offline', 'Original task')];
+      editInVault('Original task');
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-abc', 'Edited on phone')]);
+
+      const engine = new SyncEngine(new App(), makeSettings({ autoResolveObsidianWins: false }));
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockUpdateVTODO).not.toHaveBeenCalled();
+      expect(result.conflicts).toBe(1);
+      expect(result.details.conflictDetails[0]).toMatchObject({
+        uid: '20250101-abc',
+        obsidianVersion: { title: 'Edited offline' },
+        caldavVersion: { title: 'Edited on phone' },
+        baselineVersion: { title: 'Original task' },
+      });
+      expect(queue).toEqual([]);
+    });
+
+    it('should keep queued changes whose write failed, in order, for the next sync', async () => {
+      const waiting = [queued('First', 'Original task'), queued('Second', 'First')];
+      queue = [...waiting];
+      editInVault('Second');
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-abc', 'Original task')]);
+      mockUpdateVTODO.mockRejectedValueOnce(new Error('Update VTODO failed: 500'));
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.details.errors).toEqual([expect.objectContaining({ message: 'Update VTODO failed: 500' })]);
+      // Neither the later queued change nor the regular diff jumps ahead
+      expect(mockUpdateVTODO).toHaveBeenCalledTimes(1);
+      expect(queue).toEqual(waiting);
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.find(t => t.uid === '20250101-abc').title).toBe('Original task');
+    });
+
+    it('should show the number of queued changes in the status', async () => {
+      queue = [queued('Edited offline', 'Original task')];
+
+      const engine = new SyncEngine(new App(), makeSettings());
+      await engine.initialize();
+
+      expect(await engine.getStatus()).toContain('Queued changes: 1');
+    });
+  });
+
+  describe('sync direction', () => {
+    const vaultTask = makeObsidianTask({
+      id: '20250101-new',
+      description: 'From the vault',
+      tags: [],
+      originalMarkdown: '- [ ] From the vault [id::20250101-new]',
+    });
+
+    beforeEach(() => {
+      mockGetAllTasks.mockReturnValue([vaultTask]);
+      mockFetchVTODOs.mockResolvedValue([makeCalObj('caldav-new', 'From the calendar')]);
+    });
+
+    it('should skip changes to the calendar when it is pull-only', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({
+        calendars: [makeBinding({ syncDirection: 'pull-only' })],
+      }));
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockCreateVTODO).not.toHaveBeenCalled();
+      expect(mockCreateTask).toHaveBeenCalledTimes(1);
+      expect(result.created).toEqual({ toObsidian: 1, toCalDAV: 0 });
+      expect(result.details.skipped).toEqual([expect.objectContaining({
+        calendarName: 'Tasks',
+        target: 'toCalDAV',
+        reason: 'The calendar is set to pull-only',
+      })]);
+      expect(result.details.skipped[0].changes.map(c => c.task.uid)).toEqual(['20250101-new']);
+      expect(result.message).toContain('Skipped: 1 change(s)');
+
+      // Not in the baseline, so the next sync offers it again
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.map(t => t.uid)).toEqual(['caldav-new']);
+      expect(mockAddTaskMapping).not.toHaveBeenCalledWith('20250101-new', expect.anything(), expect.anything());
+    });
+
+    it('should skip changes to the vault when the calendar is push-only', async () => {
+      const engine = new SyncEngine(new App(), makeSettings({
+        calendars: [makeBinding({ syncDirection: 'push-only' })],
+      }));
+      await engine.initialize();
+      const result = await engine.sync();
+
+      expect(mockCreateTask).not.toHaveBeenCalled();
+      expect(mockCreateVTODO).toHaveBeenCalledTimes(1);
+      expect(result.details.skipped).toEqual([expect.objectContaining({
+        target: 'toObsidian',
+        reason: 'The calendar is set to push-only',
+      })]);
+      const newBaseline: any[] = mockSetBaseline.mock.calls[0][0];
+      expect(newBaseline.map(t => t.uid)).toEqual(['20250101-new']);
+    });
+
+    it('should only pull from a calendar the user may not write to', async () => {
+      mockGetSelectedCalendar.mockReturnValue({
+        url: 'http://example.com/cal/', displayName: 'Tasks', supportsVTODO: true, writable: false,
+      });
+
+      const engine = new SyncEngine(new App(), makeSettings({ calendars: [makeBinding()] }));
+      await engine.initialize();
+      const result = await engine.sync(true);
+
+      expect(result.created).toEqual({ toObsidian: 1, toCalDAV: 0 });
+      expect(result.details.skipped).toEqual([expect.objectContaining({
+        target: 'toCalDAV',
+        reason: 'The calendar is read-only for this account',
+      })]);
+    });
+
+    it('should not queue changes for a pull-only calendar while offline', async () => {
+      mockConnect.mockRejectedValue(offline());
+
+      const engine = new SyncEngine(new App(), makeSettings({
+        calendars: [makeBinding({ syncDirection: 'pull-only' })],
+      }));
+      await engine.initialize();
+      await engine.sync();
+
+      expect(mockSetQueue).not.toHaveBeenCalled();
+    });
+  });
+
   describe('idempotency', () => {
     it('should produce zero changes on second sync after successful first sync', async () => {
       // First sync: Obsidian has task A (new)
@@ -885,7 +1817,7 @@ describe('SyncEngine', () => {
       mockConnect.mockResolvedValue(undefined);
       mockStorageInitialize.mockResolvedValue(undefined);
       mockSave.mockResolvedValue(undefined);
-      mockCreateVTODO.mockResolvedValue(undefined);
+      mockCreateVTODO.mockImplementation(createdObject);
       mockUpdateVTODO.mockResolvedValue(undefined);
       mockDeleteVTODOByUID.mockResolvedValue(undefined);
       mockCreateTask.mockResolvedValue(undefined);
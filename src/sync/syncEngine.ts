@@ -1,14 +1,23 @@
 import { App, Notice, TFile } from 'obsidian';
 import { TaskManager, ObsidianTask } from '../tasks/taskManager';
 import { CalDAVClientDirect } from '../caldav/calDAVClientDirect';
+import { AuthProvider } from '../caldav/auth';
+import { HttpClient } from '../caldav/httpClient';
+import { DnsResolver } from '../caldav/serviceDiscovery';
+import { VTODOQueryFilter } from '../caldav/templates';
+import { CalDAVError, CalDAVErrorKind } from '../caldav/errors';
 import { SyncStorage } from '../storage/syncStorage';
-import { CalDAVSettings } from '../types';
-import { CalDAVAdapter } from './caldavAdapter';
+import { CalDAVSettings, CalendarBinding, CalendarVersion, ResourceLocation, ServerProfile } from '../types';
+import { CalendarObject, VTODOMapper } from '../caldav/vtodoMapper';
+import { CalDAVAdapter, FailedWrite, RejectedWrite, WriteResult } from './caldavAdapter';
 import { ObsidianAdapter } from './obsidianAdapter';
-import { diff } from './diff';
-import { CommonTask, Conflict, ConflictStrategy, SyncChange } from './types';
+import { diff, tasksEqual } from './diff';
+import { assignBinding, resolveCalendarBindings } from './calendarBindings';
+import { Changeset, CommonTask, Conflict, ConflictStrategy, QueuedChange, SyncChange } from './types';
 import { generateTaskId } from '../utils/taskIdGenerator';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface SyncResult {
   success: boolean;
   message: string;
@@ -20,29 +29,110 @@ export interface SyncResult {
     toObsidian: SyncChange[];
     toCalDAV: SyncChange[];
     conflictDetails: Conflict[];
+    skipped: SkippedChanges[];
+    errors: SyncError[];
     obsidianTasks?: CommonTask[];
     caldavTasks?: CommonTask[];
     baselineTasks?: CommonTask[];
   };
 }
 
+/**
+ * Why the sync, or one calendar's part of it, failed, with what the user
+ * can do about it.
+ */
+export interface SyncError {
+  calendarName?: string; // unset when the sync as a whole failed
+  kind: CalDAVErrorKind | 'unknown';
+  message: string;
+  remediation?: string;
+  request?: { method: string; url: string; status?: number }; // the request that failed, for CalDAV errors
+}
+
+/**
+ * Changes for one calendar that were not applied because its sync
+ * direction, or the user's privileges on it, rule out that direction.
+ */
+export interface SkippedChanges {
+  calendarName: string;
+  target: 'toObsidian' | 'toCalDAV';
+  reason: string;
+  changes: SyncChange[];
+}
+
+/**
+ * Why changes in either direction must not be applied; unset when allowed.
+ */
+interface BlockedDirections {
+  toObsidian?: string;
+  toCalDAV?: string;
+}
+
+/**
+ * What the vault files hold for synced tasks beyond their own lines,
+ * keyed by task ID: the notes below them and the task they are nested
+ * under.
+ */
+interface TaskOutline {
+  notes: Map<string, string>;
+  parents: Map<string, string>;
+}
+
+/**
+ * What sending the offline queue did: the writes made, the queued
+ * changes still to send (in order), and why the others were not sent.
+ */
+interface QueueReplay {
+  replayed: SyncChange[];
+  unsent: QueuedChange[];
+  conflicts: Conflict[];
+  failed: FailedWrite[];
+}
+
+/**
+ * A calendar binding together with the storage holding its sync data.
+ */
+interface CalendarSync {
+  binding: CalendarBinding;
+  storage: SyncStorage;
+}
+
 export class SyncEngine {
   private app: App;
   private settings: CalDAVSettings;
   private taskManager: TaskManager;
   private caldavClient: CalDAVClientDirect;
-  private storage: SyncStorage;
+  private calendars: CalendarSync[];
   private caldavAdapter: CalDAVAdapter;
   private obsidianAdapter: ObsidianAdapter;
+  // Unknown until the first sync, so a fresh engine always syncs once
+  private vaultDirty: boolean = true;
 
-  constructor(app: App, settings: CalDAVSettings) {
+  /**
+   * @param auth Credentials for the server
+   * @param profile Probed capabilities of the server, if any
+   * @param httpClient Transport, e.g. to record or replay a session;
+   * defaults to the client's
+   * @param dnsResolver For SRV/TXT discovery; defaults to the client's
+   */
+  constructor(
+    app: App,
+    settings: CalDAVSettings,
+    auth?: AuthProvider,
+    profile: ServerProfile | null = null,
+    httpClient?: HttpClient,
+    dnsResolver?: DnsResolver | null,
+  ) {
     this.app = app;
     this.settings = settings;
     this.taskManager = new TaskManager(app);
-    this.caldavClient = new CalDAVClientDirect(settings);
-    this.storage = new SyncStorage(app);
-    this.caldavAdapter = new CalDAVAdapter();
-    this.obsidianAdapter = new ObsidianAdapter();
+    this.caldavClient = new CalDAVClientDirect(settings, httpClient, auth, profile, dnsResolver);
+    this.calendars = resolveCalendarBindings(settings).map(binding => ({
+      binding,
+      storage: new SyncStorage(app, binding.id),
+    }));
+    this.caldavAdapter = new CalDAVAdapter(new VTODOMapper(profile));
+    this.obsidianAdapter = new ObsidianAdapter(settings.timeFormat, settings.reminderFormat);
   }
 
   async initialize(): Promise<boolean> {
@@ -52,49 +142,105 @@ export class SyncEngine {
       return false;
     }
 
-    await this.storage.initialize();
+    for (const calendar of this.calendars) {
+      await calendar.storage.initialize();
+    }
     return true;
   }
 
+  /**
+   * Record that vault files changed since the last sync.
+   * Called from vault modify/create/delete/rename events.
+   */
+  markVaultDirty(): void {
+    this.vaultDirty = true;
+  }
+
+  /**
+   * Cheap pre-flight check used by auto-sync.
+   * Returns false only when the vault is clean and every calendar's ctag
+   * and sync-token still match those seen at the last successful sync —
+   * one PROPFIND per calendar, without discovery, fetching, or reading
+   * the vault.
+   */
+  async hasPendingChanges(): Promise<boolean> {
+    if (this.vaultDirty) return true;
+
+    for (const { storage } of this.calendars) {
+      const previous = storage.getCalendarVersion();
+      if (!previous || (previous.ctag === null && previous.syncToken === null)) {
+        // Server exposes no change markers — cannot tell, so sync
+        return true;
+      }
+
+      try {
+        const current = await this.caldavClient.fetchCalendarVersion(previous.calendarUrl);
+        if (current.ctag !== previous.ctag || current.syncToken !== previous.syncToken) {
+          return true;
+        }
+      } catch (error) {
+        console.warn('[SyncEngine] Pre-flight check failed, running full sync:', error);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Run a sync only if the pre-flight check reports changes on either side.
+   * Returns null when the sync was skipped.
+   */
+  async syncIfChanged(): Promise<SyncResult | null> {
+    if (!(await this.hasPendingChanges())) return null;
+    return await this.sync();
+  }
+
   async sync(dryRun: boolean = false): Promise<SyncResult> {
+    // Cleared up front: vault edits made while syncing (including our own
+    // writes) mark it dirty again, so nothing is missed by the pre-flight.
+    if (!dryRun) this.vaultDirty = false;
+    let queued = 0;
+
     try {
       const mode = dryRun ? '[DRY RUN] ' : '';
       new Notice(`${mode}Starting sync...`);
-      // 1. Connect to CalDAV
-      new Notice(`${mode}Connecting to CalDAV server...`);
-      await this.caldavClient.connect();
 
-      // 2. Fetch CalDAV tasks → normalize to CommonTask[] → filter by sync tag
-      const vtodos = await this.caldavClient.fetchVTODOs();
-      const uidMapping = this.buildUidMapping();
-      const allCaldavTasks = this.caldavAdapter.normalize(vtodos, uidMapping);
-      const caldavTasks = this.filterCalDAVBySyncTag(allCaldavTasks, uidMapping);
-
-      // 3. Get Obsidian tasks → filter by sync tag → inject IDs only on matching tasks
+      // 1. Get Obsidian tasks → filter by sync tag → inject IDs only on
+      //    matching tasks that some calendar binding covers
       const allObsidianTasks = this.taskManager.getAllTasks();
       const syncTagFiltered = this.filterBySyncTag(allObsidianTasks);
       for (const task of syncTagFiltered) {
-        await this.taskManager.ensureTaskHasId(task);
+        if (this.assignCalendar(task)) {
+          await this.taskManager.ensureTaskHasId(task);
+        }
       }
       const refreshedTasks = this.taskManager.getAllTasks(); // Re-fetch after ID injection
-      const notesMap = await this.buildNotesMap(refreshedTasks);
-      const obsidianTasks = this.obsidianAdapter.normalize(
-        refreshedTasks,
-        this.settings.syncTag,
-        notesMap,
-      );
-      // 4. Load baseline — if empty, seed from already-mapped tasks so the
-      //    first sync with this engine doesn't duplicate everything.
-      let baseline = this.storage.getBaseline();
-      if (baseline.length === 0 && Object.keys(this.storage.getMapping().tasks).length > 0) {
-        baseline = this.seedBaselineFromMapping(obsidianTasks, caldavTasks);
+      const outline = await this.readOutline(refreshedTasks);
+
+      // 2. Route tasks to their calendars
+      const tasksByCalendar = new Map<string, ObsidianTask[]>();
+      for (const task of refreshedTasks) {
+        const calendar = this.assignCalendar(task);
+        if (!calendar) continue;
+        const tasks = tasksByCalendar.get(calendar.binding.id) ?? [];
+        tasks.push(task);
+        tasksByCalendar.set(calendar.binding.id, tasks);
       }
 
-      // 5. Diff
-      const strategy: ConflictStrategy = this.settings.autoResolveObsidianWins
-        ? 'obsidian-wins'
-        : 'caldav-wins';
-      const changeset = diff(obsidianTasks, caldavTasks, baseline, strategy);
+      // 3. Connect to CalDAV; while the server is unreachable, queue the
+      //    vault's changes so they are sent once it is back. Other
+      //    failures, such as a 401 or a wrong URL, need the user instead
+      new Notice(`${mode}Connecting to CalDAV server...`);
+      try {
+        await this.caldavClient.connect();
+      } catch (error) {
+        const unreachable = error instanceof CalDAVError && error.kind === 'network';
+        if (!dryRun && unreachable) queued = await this.queueOfflineChanges(tasksByCalendar, outline);
+        throw error;
+      }
+
+      // 4. Sync each calendar
 
       const result: SyncResult = {
         success: true,
@@ -102,61 +248,84 @@ export class SyncEngine {
         created: { toObsidian: 0, toCalDAV: 0 },
         updated: { toObsidian: 0, toCalDAV: 0 },
         deleted: { toObsidian: 0, toCalDAV: 0 },
-        conflicts: changeset.conflicts.length,
+        conflicts: 0,
         details: {
-          toObsidian: changeset.toObsidian,
-          toCalDAV: changeset.toCalDAV,
-          conflictDetails: changeset.conflicts,
-          obsidianTasks,
-          caldavTasks,
-          baselineTasks: baseline,
+          toObsidian: [],
+          toCalDAV: [],
+          conflictDetails: [],
+          skipped: [],
+          errors: [],
         },
       };
+      const failures: string[] = [];
 
-      // Count changes by type
-      for (const change of changeset.toObsidian) {
-        result[change.type === 'create' ? 'created' : change.type === 'update' ? 'updated' : 'deleted'].toObsidian++;
-      }
-      for (const change of changeset.toCalDAV) {
-        result[change.type === 'create' ? 'created' : change.type === 'update' ? 'updated' : 'deleted'].toCalDAV++;
+      for (const calendar of this.calendars) {
+        try {
+          const calendarResult = await this.syncCalendar(
+            calendar,
+            tasksByCalendar.get(calendar.binding.id) ?? [],
+            outline,
+            dryRun,
+          );
+          this.mergeResult(result, calendarResult);
+        } catch (error) {
+          // A single calendar keeps the original all-or-nothing failure
+          if (this.calendars.length === 1) throw error;
+          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+          failures.push(`${calendar.binding.calendarName}: ${errorMsg}`);
+          result.details.errors.push(toSyncError(error, calendar.binding.calendarName));
+          console.error(`Sync error for calendar '${calendar.binding.calendarName}':`, error);
+        }
       }
 
       if (dryRun) {
         result.message = `Dry run complete! Would sync:\n` +
           `From CalDAV: ${result.created.toObsidian} created, ${result.updated.toObsidian} updated, ${result.deleted.toObsidian} deleted\n` +
           `To CalDAV: ${result.created.toCalDAV} created, ${result.updated.toCalDAV} updated, ${result.deleted.toCalDAV} deleted\n` +
-          `Conflicts: ${result.conflicts}\n\nNo changes were made.`;
+          `Conflicts: ${result.conflicts}` +
+          this.describeSkipped(result) +
+          `\n\nNo changes were made.`;
+        if (failures.length > 0) {
+          result.success = false;
+          result.message += `\n\nFailed calendars:\n${failures.join('\n')}`;
+        }
         new Notice(result.message, 10000);
         return result;
       }
 
-      // 6. Apply changes to Obsidian
-      await this.applyObsidianChanges(changeset.toObsidian);
-
-      // 7. Apply changes to CalDAV
-      await this.caldavAdapter.applyChanges(changeset.toCalDAV, this.caldavClient, uidMapping);
-
-      // 8. Update mappings for new tasks
-      this.updateMappingsAfterSync(changeset);
-
-      // 9. Save new baseline (union of current state after applying changes)
-      const newBaseline = this.computeNewBaseline(obsidianTasks, caldavTasks, changeset);
-      this.storage.setBaseline(newBaseline);
-
-      // 10. Save state
-      this.storage.updateLastSyncTime();
-      await this.storage.save();
-
       result.message = `Sync complete! ` +
         `From CalDAV: ${result.created.toObsidian}+${result.updated.toObsidian}+${result.deleted.toObsidian} | ` +
-        `To CalDAV: ${result.created.toCalDAV}+${result.updated.toCalDAV}+${result.deleted.toCalDAV}`;
-      new Notice(result.message, 5000);
+        `To CalDAV: ${result.created.toCalDAV}+${result.updated.toCalDAV}+${result.deleted.toCalDAV}` +
+        this.describeSkipped(result);
+      // Besides one error per failed calendar, errors are failed writes
+      const failedWrites = result.details.errors.length - failures.length;
+      if (failedWrites > 0) {
+        result.message += `\nFailed: ${failedWrites} change(s) could not be written to CalDAV, retrying at the next sync`;
+      }
+      if (failures.length > 0) {
+        result.success = false;
+        result.message += `\nFailed calendars:\n${failures.join('\n')}`;
+      }
+      if (!result.success) {
+        this.vaultDirty = true;
+        new Notice(result.message, 8000);
+      } else {
+        new Notice(result.message, 5000);
+      }
 
       return result;
 
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      const message = `Sync failed: ${errorMsg}`;
+      if (!dryRun) this.vaultDirty = true;
+      const syncError = toSyncError(error);
+      let message = `Sync failed: ${syncError.message}`;
+      if (syncError.remediation) message += `\n${syncError.remediation}`;
+      const totalQueued = this.calendars.reduce((n, c) => n + c.storage.getQueue().length, 0);
+      if (totalQueued > 0) {
+        message += queued > 0
+          ? `\n${queued} change(s) queued, ${totalQueued} in total; they are sent when the server is reachable`
+          : `\n${totalQueued} queued change(s) waiting for the server`;
+      }
       new Notice(message, 8000);
       console.error('Sync error:', error);
       return {
@@ -166,22 +335,499 @@ export class SyncEngine {
         updated: { toObsidian: 0, toCalDAV: 0 },
         deleted: { toObsidian: 0, toCalDAV: 0 },
         conflicts: 0,
-        details: { toObsidian: [], toCalDAV: [], conflictDetails: [] },
+        details: { toObsidian: [], toCalDAV: [], conflictDetails: [], skipped: [], errors: [syncError] },
       };
     }
   }
 
   async getStatus(): Promise<string> {
-    const state = this.storage.getState();
-    const mapping = this.storage.getMapping();
-    const baseline = this.storage.getBaseline();
+    const sections = this.calendars.map(({ binding, storage }) => {
+      const state = storage.getState();
+      const mapping = storage.getMapping();
+      const baseline = storage.getBaseline();
 
-    const lastSync = state.lastSyncTime ? new Date(state.lastSyncTime).toLocaleString() : 'Never';
-    const mappedTasks = Object.keys(mapping.tasks).length;
-    const baselineTasks = baseline.length;
-    const conflicts = state.conflicts.length;
+      const lastSync = state.lastSyncTime ? new Date(state.lastSyncTime).toLocaleString() : 'Never';
+      const mappedTasks = Object.keys(mapping.tasks).length;
+      const baselineTasks = baseline.length;
+      const conflicts = state.conflicts.length;
+      const queued = storage.getQueue().length;
 
-    return `Last sync: ${lastSync}\nMapped tasks: ${mappedTasks}\nBaseline tasks: ${baselineTasks}\nConflicts: ${conflicts}`;
+      const status = `Last sync: ${lastSync}\nMapped tasks: ${mappedTasks}\nBaseline tasks: ${baselineTasks}\nConflicts: ${conflicts}\nQueued changes: ${queued}`;
+      return this.calendars.length === 1 ? status : `${binding.calendarName}\n${status}`;
+    });
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Sync one calendar binding: fetch its VTODOs, diff them against the
+   * vault tasks routed to it and its own baseline, and apply the changes.
+   */
+  private async syncCalendar(
+    calendar: CalendarSync,
+    tasks: ObsidianTask[],
+    outline: TaskOutline,
+    dryRun: boolean,
+  ): Promise<SyncResult> {
+    const { binding, storage } = calendar;
+    this.caldavClient.selectCalendar(binding.calendarName, binding.calendarUrl);
+    const blocked = this.blockedDirections(binding);
+
+    // Read change markers before fetching, so edits racing with the fetch
+    // still show up as changes at the next pre-flight check
+    const calendarVersion = await this.fetchCalendarVersion();
+
+    // Fetch CalDAV tasks (incrementally via sync-token when possible,
+    // narrowed on the server otherwise) → normalize to CommonTask[] →
+    // filter by sync tag, in case the server ignored the filter
+    const keep = Array.from(storage.getCalDAVLocations().values(), location => location.href);
+    const snapshot = await this.caldavClient.syncVTODOs(storage.getCalendarSnapshot(), this.vtodoQueryFilter(storage), keep);
+    storage.setCalendarSnapshot(snapshot);
+    const vtodos = snapshot.objects;
+    const uidMapping = this.buildUidMapping(storage);
+    // Where each object lives: stored hrefs/etags, refreshed by this fetch
+    const locations = new Map([...storage.getCalDAVLocations(), ...this.caldavAdapter.locate(vtodos)]);
+    // What each object holds, for updates to patch; kept current by writes
+    const objects = this.caldavAdapter.objectsByUID(vtodos);
+    const allCaldavTasks = this.caldavAdapter.normalize(vtodos, uidMapping);
+    const caldavTasks = this.filterCalDAVBySyncTag(allCaldavTasks, storage);
+
+    const obsidianTasks = this.obsidianAdapter.normalize(
+      tasks,
+      this.settings.syncTag,
+      outline.notes,
+      outline.parents,
+    );
+    // Load baseline — if empty, seed from already-mapped tasks so the
+    // first sync with this engine doesn't duplicate everything. A copy,
+    // since replaying queued changes updates it.
+    let baseline = [...storage.getBaseline()];
+    if (baseline.length === 0 && Object.keys(storage.getMapping().tasks).length > 0) {
+      baseline = this.seedBaselineFromMapping(storage, obsidianTasks, caldavTasks);
+    }
+
+    const strategy: ConflictStrategy = this.settings.autoResolveObsidianWins
+      ? 'obsidian-wins'
+      : 'caldav-wins';
+
+    // Send changes queued while offline first, in the order they were made
+    const { replayed, unsent, conflicts: queueConflicts, failed: queueFailed }: QueueReplay =
+      dryRun || blocked.toCalDAV
+        ? { replayed: [], unsent: [], conflicts: [], failed: [] }
+        : await this.replayQueue(calendar, caldavTasks, baseline, { strategy, uidMapping, locations, objects });
+
+    // Diff, then set aside the changes this calendar's direction rules out
+    const changeset = diff(obsidianTasks, caldavTasks, baseline, strategy);
+    const skipped = this.skipBlockedChanges(changeset, binding, blocked);
+    // Tasks with queued changes still to send wait for them, in order
+    const held = new Set(unsent.map(item => item.task.uid));
+    changeset.toCalDAV = changeset.toCalDAV.filter(change => !held.has(change.task.uid));
+    // Queued changes that conflicted are reported even when the vault
+    // no longer differs from what the regular diff compares against
+    for (const conflict of queueConflicts) {
+      if (!changeset.conflicts.some(c => c.uid === conflict.uid)) changeset.conflicts.push(conflict);
+    }
+
+    const result: SyncResult = {
+      success: true,
+      message: '',
+      created: { toObsidian: 0, toCalDAV: 0 },
+      updated: { toObsidian: 0, toCalDAV: 0 },
+      deleted: { toObsidian: 0, toCalDAV: 0 },
+      conflicts: changeset.conflicts.length,
+      details: {
+        toObsidian: changeset.toObsidian,
+        toCalDAV: changeset.toCalDAV,
+        conflictDetails: changeset.conflicts,
+        skipped,
+        errors: [],
+        obsidianTasks,
+        caldavTasks,
+        baselineTasks: baseline,
+      },
+    };
+
+    this.countChanges(result, changeset);
+
+    if (dryRun) return result;
+
+    // Apply changes to Obsidian
+    await this.applyObsidianChanges(changeset.toObsidian, calendar, obsidianTasks);
+
+    // Apply changes to CalDAV; writes rejected because the task changed on
+    // the server mid-sync are re-merged against the fresh copy, and failed
+    // writes are reported and left for the next sync
+    const { rejected, failed } = partitionWrites(await this.caldavAdapter.applyChanges(
+      changeset.toCalDAV, this.caldavClient, uidMapping, locations,
+      { concurrency: this.settings.writeConcurrency, objects }));
+    changeset.toCalDAV = changeset.toCalDAV.filter(change => !failed.some(f => f.change === change));
+    const unresolved = await this.remergeRejectedWrites(rejected, {
+      obsidianTasks, baseline, changeset, strategy, calendar, uidMapping, locations, objects, failed,
+    });
+    changeset.toCalDAV.unshift(...replayed);
+    if (rejected.length > 0 || failed.length > 0 || replayed.length > 0) {
+      this.countChanges(result, changeset);
+    }
+    if (failed.length > 0 || queueFailed.length > 0) {
+      result.success = false;
+      result.details.errors.push(...[...queueFailed, ...failed].map(f => toSyncError(f.error, binding.calendarName)));
+    }
+
+    // Update mappings for new tasks, then record hrefs and etags
+    this.updateMappingsAfterSync(changeset, calendar);
+    storage.setCalDAVLocations(locations);
+
+    // Save new baseline (union of current state after applying changes)
+    let newBaseline = this.computeNewBaseline(obsidianTasks, caldavTasks, changeset);
+    const unsettled = new Set([
+      ...unresolved,
+      ...skipped.flatMap(s => s.changes.map(c => c.task.uid)),
+      ...failed.map(f => f.change.task.uid),
+      ...held,
+    ]);
+    if (unsettled.size > 0) {
+      // Keep the old baseline for tasks still in conflict, with skipped
+      // or failed changes or still queued, so the next sync sees those
+      // changes again
+      newBaseline = newBaseline.filter(t => !unsettled.has(t.uid));
+      newBaseline.push(...baseline.filter(t => unsettled.has(t.uid)));
+    }
+    storage.setBaseline(newBaseline);
+
+    // Save state; what could not be sent stays queued for the next sync
+    if (storage.getQueue().length > 0) {
+      storage.setQueue(unsent);
+    }
+    if (calendarVersion) {
+      storage.setCalendarVersion(calendarVersion);
+    }
+    storage.updateLastSyncTime();
+    await storage.save();
+
+    return result;
+  }
+
+  /**
+   * Queue each calendar's outbound changes while the server is unreachable.
+   * Changes are taken against what the server will hold once the already
+   * queued ones are sent, so repeated failed syncs only add what changed
+   * since. Returns the number of changes added.
+   */
+  private async queueOfflineChanges(
+    tasksByCalendar: Map<string, ObsidianTask[]>,
+    outline: TaskOutline,
+  ): Promise<number> {
+    let added = 0;
+
+    for (const calendar of this.calendars) {
+      const { binding, storage } = calendar;
+      if (binding.syncDirection === 'pull-only') continue;
+      try {
+        const obsidianTasks = this.obsidianAdapter.normalize(
+          tasksByCalendar.get(binding.id) ?? [],
+          this.settings.syncTag,
+          outline.notes,
+          outline.parents,
+        );
+        let baseline = storage.getBaseline();
+        if (baseline.length === 0 && Object.keys(storage.getMapping().tasks).length > 0) {
+          baseline = this.seedBaselineFromMapping(storage, obsidianTasks, []);
+        }
+
+        const queue = storage.getQueue();
+        const expected = new Map(baseline.map(t => [t.uid, t]));
+        for (const item of queue) {
+          if (item.type === 'delete') {
+            expected.delete(item.task.uid);
+          } else {
+            expected.set(item.task.uid, item.task);
+          }
+        }
+
+        const serverTasks = [...expected.values()];
+        const changes = diff(obsidianTasks, serverTasks, serverTasks, 'obsidian-wins').toCalDAV;
+        if (changes.length === 0) continue;
+
+        const queuedAt = new Date().toISOString();
+        storage.setQueue([...queue, ...changes.map((change): QueuedChange => ({
+          type: change.type,
+          task: change.task,
+          baseline: expected.get(change.task.uid) ?? null,
+          queuedAt,
+        }))]);
+        await storage.save();
+        added += changes.length;
+      } catch (error) {
+        console.error(`[SyncEngine] Failed to queue changes for calendar '${binding.calendarName}':`, error);
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Send the changes queued while the server was unreachable, oldest first.
+   * Each is merged three-way against the server's current copy and the
+   * version it was made against, so a task that was also changed on the
+   * server is not overwritten: the conflict is returned, and the task is
+   * left to the regular diff and the conflict strategy. A change whose
+   * write fails or is rejected stays unsent, with the later changes to the
+   * same task. Updates `caldavTasks` and `baseline` in place to what the
+   * server now holds. The caller replaces the queue with the unsent
+   * changes once the sync is saved; replaying it again after an
+   * interrupted sync finds the writes already made and skips them.
+   */
+  private async replayQueue(
+    calendar: CalendarSync,
+    caldavTasks: CommonTask[],
+    baseline: CommonTask[],
+    context: {
+      strategy: ConflictStrategy;
+      uidMapping: Map<string, string>;
+      locations: Map<string, ResourceLocation>;
+      objects: Map<string, CalendarObject>;
+    },
+  ): Promise<QueueReplay> {
+    const { storage } = calendar;
+    const replay: QueueReplay = { replayed: [], unsent: [], conflicts: [], failed: [] };
+    const queue = storage.getQueue();
+    if (queue.length === 0) return replay;
+
+    const settle = (uid: string, task: CommonTask | null) => {
+      for (const list of [caldavTasks, baseline]) {
+        const index = list.findIndex(t => t.uid === uid);
+        if (index !== -1) list.splice(index, 1);
+        if (task) list.push(task);
+      }
+    };
+
+    for (const item of queue) {
+      const uid = item.task.uid;
+      if (replay.unsent.some(earlier => earlier.task.uid === uid)) {
+        replay.unsent.push(item);
+        continue;
+      }
+      const intended = item.type === 'delete' ? null : item.task;
+      const current = caldavTasks.find(t => t.uid === uid) ?? null;
+
+      // Already on the server, e.g. from a replay that was cut short
+      if (intended ? current && tasksEqual(current, intended) : !current) {
+        settle(uid, intended);
+        continue;
+      }
+
+      const merged = diff(
+        intended ? [intended] : [],
+        current ? [current] : [],
+        item.baseline ? [item.baseline] : [],
+        context.strategy,
+      );
+      if (merged.conflicts.length > 0) {
+        replay.conflicts.push(...merged.conflicts);
+        continue;
+      }
+      if (merged.toCalDAV.length === 0) continue;
+
+      const { rejected, failed } = partitionWrites(await this.caldavAdapter.applyChanges(
+        merged.toCalDAV, this.caldavClient, context.uidMapping, context.locations,
+        { concurrency: this.settings.writeConcurrency, objects: context.objects }));
+      if (rejected.length > 0 || failed.length > 0) {
+        replay.unsent.push(item);
+        replay.failed.push(...failed);
+        continue;
+      }
+
+      settle(uid, intended);
+      replay.replayed.push(...merged.toCalDAV);
+    }
+
+    return replay;
+  }
+
+  /**
+   * Which directions the selected calendar may not sync in, and why: the
+   * binding's sync direction, plus pushing when the server reports that
+   * the user may not write to the calendar.
+   */
+  private blockedDirections(binding: CalendarBinding): BlockedDirections {
+    const blocked: BlockedDirections = {};
+    if (binding.syncDirection === 'push-only') {
+      blocked.toObsidian = 'The calendar is set to push-only';
+    }
+    if (binding.syncDirection === 'pull-only') {
+      blocked.toCalDAV = 'The calendar is set to pull-only';
+    } else if (this.caldavClient.getSelectedCalendar()?.writable === false) {
+      blocked.toCalDAV = 'The calendar is read-only for this account';
+    }
+    return blocked;
+  }
+
+  /**
+   * Remove the changes in blocked directions from a changeset and return
+   * them, grouped by direction with the reason.
+   */
+  private skipBlockedChanges(
+    changeset: Changeset,
+    binding: CalendarBinding,
+    blocked: BlockedDirections,
+  ): SkippedChanges[] {
+    const skipped: SkippedChanges[] = [];
+    for (const target of ['toObsidian', 'toCalDAV'] as const) {
+      const reason = blocked[target];
+      if (!reason || changeset[target].length === 0) continue;
+      skipped.push({ calendarName: binding.calendarName, target, reason, changes: changeset[target] });
+      changeset[target] = [];
+    }
+    return skipped;
+  }
+
+  /**
+   * Summary line for skipped changes, empty if there were none.
+   */
+  private describeSkipped(result: SyncResult): string {
+    const count = result.details.skipped.reduce((n, s) => n + s.changes.length, 0);
+    return count > 0 ? `\nSkipped: ${count} change(s) blocked by calendar sync direction or permissions` : '';
+  }
+
+  /**
+   * Set a result's change and conflict counts from a changeset.
+   */
+  private countChanges(result: SyncResult, changeset: Changeset): void {
+    result.created = { toObsidian: 0, toCalDAV: 0 };
+    result.updated = { toObsidian: 0, toCalDAV: 0 };
+    result.deleted = { toObsidian: 0, toCalDAV: 0 };
+    for (const change of changeset.toObsidian) {
+      result[change.type === 'create' ? 'created' : change.type === 'update' ? 'updated' : 'deleted'].toObsidian++;
+    }
+    for (const change of changeset.toCalDAV) {
+      result[change.type === 'create' ? 'created' : change.type === 'update' ? 'updated' : 'deleted'].toCalDAV++;
+    }
+    result.conflicts = changeset.conflicts.length;
+  }
+
+  /**
+   * Re-run the three-way merge for tasks whose CalDAV write was rejected
+   * with 412 because they were edited or deleted on the server mid-sync,
+   * using the freshly fetched copy. The merged writes are retried once; a
+   * task rejected again is reported as a conflict and left for the next sync.
+   * Updates the changeset in place, adds retries that failed to
+   * `context.failed` and returns the uids left unresolved.
+   */
+  private async remergeRejectedWrites(
+    rejected: RejectedWrite[],
+    context: {
+      obsidianTasks: CommonTask[];
+      baseline: CommonTask[];
+      changeset: Changeset;
+      strategy: ConflictStrategy;
+      calendar: CalendarSync;
+      uidMapping: Map<string, string>;
+      locations: Map<string, ResourceLocation>;
+      objects: Map<string, CalendarObject>;
+      failed: FailedWrite[];
+    },
+  ): Promise<Set<string>> {
+    const { changeset, calendar, uidMapping, locations } = context;
+    const unresolved = new Set<string>();
+
+    for (const { change, current } of rejected) {
+      const uid = change.task.uid;
+      changeset.toCalDAV.splice(changeset.toCalDAV.indexOf(change), 1);
+
+      const obs = context.obsidianTasks.find(t => t.uid === uid);
+      const base = context.baseline.find(t => t.uid === uid);
+      const cal = current ? this.caldavAdapter.normalize([current], uidMapping)[0] : undefined;
+      const merged = diff(obs ? [obs] : [], cal ? [cal] : [], base ? [base] : [], context.strategy);
+
+      await this.applyObsidianChanges(merged.toObsidian, calendar, context.obsidianTasks);
+      changeset.toObsidian.push(...merged.toObsidian);
+      changeset.conflicts.push(...merged.conflicts);
+
+      const retried = partitionWrites(await this.caldavAdapter.applyChanges(
+        merged.toCalDAV, this.caldavClient, uidMapping, locations,
+        { concurrency: this.settings.writeConcurrency, objects: context.objects }));
+      const rejectedAgain = retried.rejected;
+      context.failed.push(...retried.failed);
+      changeset.toCalDAV.push(...merged.toCalDAV.filter(c =>
+        !rejectedAgain.some(r => r.change === c) && !retried.failed.some(f => f.change === c)));
+      if (retried.failed.length > 0) {
+        unresolved.add(uid);
+      }
+
+      if (rejectedAgain.length > 0) {
+        console.warn(`[SyncEngine] Task ${uid} changed on the server again, leaving it for the next sync`);
+        unresolved.add(uid);
+        const baselineVersion = base ?? obs ?? cal;
+        if (baselineVersion && !merged.conflicts.some(c => c.uid === uid)) {
+          changeset.conflicts.push({
+            uid,
+            obsidianVersion: obs ?? baselineVersion,
+            caldavVersion: cal ?? baselineVersion,
+            baselineVersion,
+          });
+        }
+      }
+    }
+
+    return unresolved;
+  }
+
+  /**
+   * Add one calendar's counts and details to the overall result.
+   */
+  private mergeResult(total: SyncResult, part: SyncResult): void {
+    for (const key of ['created', 'updated', 'deleted'] as const) {
+      total[key].toObsidian += part[key].toObsidian;
+      total[key].toCalDAV += part[key].toCalDAV;
+    }
+    total.success = total.success && part.success;
+    total.conflicts += part.conflicts;
+    total.details.toObsidian.push(...part.details.toObsidian);
+    total.details.toCalDAV.push(...part.details.toCalDAV);
+    total.details.conflictDetails.push(...part.details.conflictDetails);
+    total.details.skipped.push(...part.details.skipped);
+    total.details.errors.push(...part.details.errors);
+    total.details.obsidianTasks = [...(total.details.obsidianTasks ?? []), ...(part.details.obsidianTasks ?? [])];
+    total.details.caldavTasks = [...(total.details.caldavTasks ?? []), ...(part.details.caldavTasks ?? [])];
+    total.details.baselineTasks = [...(total.details.baselineTasks ?? []), ...(part.details.baselineTasks ?? [])];
+  }
+
+  /**
+   * Find the calendar that owns a vault task: the one it is already mapped
+   * to, otherwise the first binding whose folder/tag/frontmatter scope matches.
+   */
+  private assignCalendar(task: ObsidianTask): CalendarSync | null {
+    const taskId = this.taskManager.getTaskId(task);
+    const mapped = taskId
+      ? this.calendars.find(c => c.storage.getMapping().tasks[taskId])
+      : undefined;
+
+    const filePath = task.taskLocation._tasksFile._path;
+    const binding = assignBinding(
+      this.calendars.map(c => c.binding),
+      {
+        filePath,
+        tags: task.tags ?? [],
+        getFrontmatter: () => this.app.metadataCache.getCache(filePath)?.frontmatter,
+      },
+      mapped?.binding.id,
+    );
+
+    return binding ? this.calendars.find(c => c.binding === binding) ?? null : null;
+  }
+
+  /**
+   * Read the selected calendar's change markers.
+   * Returns null if the server rejects the PROPFIND, which only disables
+   * the pre-flight shortcut rather than failing the sync.
+   */
+  private async fetchCalendarVersion(): Promise<CalendarVersion | null> {
+    try {
+      return await this.caldavClient.fetchCalendarVersion();
+    } catch (error) {
+      console.warn('[SyncEngine] Could not read calendar ctag/sync-token:', error);
+      return null;
+    }
   }
 
   /**
@@ -207,12 +853,12 @@ export class SyncEngine {
    * or if its CATEGORIES contain the sync tag.
    * When no sync tag is configured, include all tasks.
    */
-  private filterCalDAVBySyncTag(tasks: CommonTask[], uidMapping: Map<string, string>): CommonTask[] {
+  private filterCalDAVBySyncTag(tasks: CommonTask[], storage: SyncStorage): CommonTask[] {
     const syncTag = this.settings.syncTag;
     if (!syncTag || syncTag.trim() === '') return tasks;
 
     const tagLower = syncTag.toLowerCase().replace(/^#/, '');
-    const mapping = this.storage.getMapping();
+    const mapping = storage.getMapping();
 
     return tasks.filter(task => {
       // Always include tasks that are already mapped (previously synced)
@@ -223,6 +869,27 @@ export class SyncEngine {
     });
   }
 
+  /**
+   * Server-side filter for the full fetch: no completed or cancelled tasks
+   * older than completedTaskMaxAge unless syncCompletedTasks, and only
+   * tasks with the sync tag if filterTagOnServer. Synced tasks the filter leaves out are
+   * fetched by href instead, so none without a known href may be left
+   * out — until then, everything is fetched.
+   */
+  private vtodoQueryFilter(storage: SyncStorage): VTODOQueryFilter | undefined {
+    if (Object.values(storage.getMapping().tasks).some(entry => !entry.caldavHref)) return undefined;
+
+    const filter: VTODOQueryFilter = {};
+    if (!this.settings.syncCompletedTasks) {
+      filter.completedSince = new Date(Date.now() - this.settings.completedTaskMaxAge * DAY_MS).toISOString();
+    }
+    const syncTag = this.settings.syncTag?.trim().replace(/^#/, '');
+    if (syncTag && this.settings.filterTagOnServer) {
+      filter.category = syncTag;
+    }
+    return filter.completedSince || filter.category ? filter : undefined;
+  }
+
   /**
    * Seed baseline from existing mapping data.
    * Used on first sync with the new engine to avoid duplicating
@@ -230,8 +897,12 @@ export class SyncEngine {
    * For each mapped task, use whichever side has it — preferring
    * Obsidian (since it's the source of truth for content).
    */
-  private seedBaselineFromMapping(obsidianTasks: CommonTask[], caldavTasks: CommonTask[]): CommonTask[] {
-    const mapping = this.storage.getMapping();
+  private seedBaselineFromMapping(
+    storage: SyncStorage,
+    obsidianTasks: CommonTask[],
+    caldavTasks: CommonTask[],
+  ): CommonTask[] {
+    const mapping = storage.getMapping();
     const obsidianByUid = new Map(obsidianTasks.map(t => [t.uid, t]));
     const caldavByUid = new Map(caldavTasks.map(t => [t.uid, t]));
     const baseline: CommonTask[] = [];
@@ -252,8 +923,8 @@ export class SyncEngine {
   /**
    * Build CalDAV UID → Obsidian task ID mapping from storage.
    */
-  private buildUidMapping(): Map<string, string> {
-    const mapping = this.storage.getMapping();
+  private buildUidMapping(storage: SyncStorage): Map<string, string> {
+    const mapping = storage.getMapping();
     const uidMap = new Map<string, string>();
 
     for (const [taskId, taskMapping] of Object.entries(mapping.tasks)) {
@@ -265,9 +936,16 @@ export class SyncEngine {
 
   /**
    * Apply changes to Obsidian vault (creates, updates, deletes).
+   * New subtasks go below their parent's line, parents created in the
+   * same sync first; those whose parent is not in the vault go to the
+   * new tasks destination. Updates that give a task another parent than
+   * its nesting in `obsidianTasks` move it below that parent.
    */
-  private async applyObsidianChanges(changes: SyncChange[]): Promise<void> {
-    for (const change of changes) {
+  private async applyObsidianChanges(changes: SyncChange[], calendar: CalendarSync, obsidianTasks: CommonTask[]): Promise<void> {
+    const { binding, storage } = calendar;
+    // Tasks created so far, by the uid they came with
+    const created = new Map<string, { id: string; path: string }>();
+    for (const change of parentsFirst(changes)) {
       try {
         switch (change.type) {
           case 'create': {
@@ -278,14 +956,21 @@ export class SyncEngine {
               this.settings.syncTag,
             );
 
-            await this.taskManager.createTask(
-              markdown,
-              this.settings.newTasksDestination,
-              this.settings.newTasksSection,
-            );
+            const parent = change.task.parentUid ? this.locateTask(change.task.parentUid, created) : null;
+            let path = binding.newTasksDestination;
+            if (parent && await this.taskManager.createSubtask(markdown, parent.path, parent.id)) {
+              path = parent.path;
+            } else {
+              await this.taskManager.createTask(
+                markdown,
+                binding.newTasksDestination,
+                binding.newTasksSection,
+              );
+            }
+            created.set(change.task.uid, { id: taskId, path });
 
             // Add mapping: the task's uid from CalDAV becomes mapped to new obsidian task ID
-            this.storage.addTaskMapping(taskId, change.task.uid, this.settings.newTasksDestination);
+            storage.addTaskMapping(taskId, change.task.uid, path);
             break;
           }
 
@@ -299,6 +984,16 @@ export class SyncEngine {
               this.settings.syncTag,
             );
 
+            // Moved to another parent on the server: move the line too, or
+            // the old nesting would be read back as a change in the vault
+            const parentUid = change.task.parentUid;
+            const current = obsidianTasks.find(t => t.uid === change.task.uid);
+            const parent = parentUid ? this.locateTask(parentUid, created) : null;
+            if (current && current.parentUid !== parentUid && (parent || !parentUid)
+              && await this.taskManager.moveTaskInVault(existingTask, markdown, parent)) {
+              break;
+            }
+
             await this.taskManager.updateTaskInVault(existingTask, markdown);
             break;
           }
@@ -306,7 +1001,7 @@ export class SyncEngine {
           case 'delete': {
             // For now, log the delete. Full delete from vault requires careful handling.
             // Remove from mapping so it won't be synced back.
-            this.storage.removeTaskMapping(change.task.uid);
+            storage.removeTaskMapping(change.task.uid);
             break;
           }
         }
@@ -316,10 +1011,26 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * ID and file of a task in the vault: one created earlier in this sync,
+   * by the uid it came with, or one already there, by its ID.
+   */
+  private locateTask(uid: string, created: Map<string, { id: string; path: string }>): { id: string; path: string } | null {
+    const fresh = created.get(uid);
+    if (fresh) return fresh;
+    const existing = this.taskManager.findTaskById(uid);
+    return existing ? { id: uid, path: existing.taskLocation._tasksFile._path } : null;
+  }
+
   /**
    * Update mappings after sync to track newly created tasks.
    */
-  private updateMappingsAfterSync(changeset: { toObsidian: SyncChange[]; toCalDAV: SyncChange[] }): void {
+  private updateMappingsAfterSync(
+    changeset: { toObsidian: SyncChange[]; toCalDAV: SyncChange[] },
+    calendar: CalendarSync,
+  ): void {
+    const { binding, storage } = calendar;
+
     // For tasks created on CalDAV side, the mapping was already added in applyObsidianChanges.
 
     // For tasks created on CalDAV from Obsidian, add mapping.
@@ -329,12 +1040,12 @@ export class SyncEngine {
         const existingTask = this.taskManager.findTaskById(change.task.uid);
         const sourceFile = existingTask
           ? existingTask.taskLocation._tasksFile._path
-          : this.settings.newTasksDestination;
-        this.storage.addTaskMapping(change.task.uid, caldavUID, sourceFile);
+          : binding.newTasksDestination;
+        storage.addTaskMapping(change.task.uid, caldavUID, sourceFile);
       }
 
       if (change.type === 'delete') {
-        this.storage.removeTaskMapping(change.task.uid);
+        storage.removeTaskMapping(change.task.uid);
       }
     }
 
@@ -342,11 +1053,12 @@ export class SyncEngine {
   }
 
   /**
-   * Build a map of taskId → notes by reading vault files and extracting
-   * indented bullets below each task line.
+   * Read the vault files holding the tasks for their notes, the indented
+   * bullets below each task line, and their parents, the tasks they are
+   * indented under.
    */
-  private async buildNotesMap(tasks: ObsidianTask[]): Promise<Map<string, string>> {
-    const notesMap = new Map<string, string>();
+  private async readOutline(tasks: ObsidianTask[]): Promise<TaskOutline> {
+    const outline: TaskOutline = { notes: new Map(), parents: new Map() };
 
     // Group tasks by file to avoid re-reading the same file
     const tasksByFile = new Map<string, ObsidianTask[]>();
@@ -376,15 +1088,19 @@ export class SyncEngine {
 
           const notes = this.obsidianAdapter.extractNotesFromFile(content, lineIndex);
           if (notes) {
-            notesMap.set(taskId, notes);
+            outline.notes.set(taskId, notes);
+          }
+          const parentId = this.obsidianAdapter.extractParentIdFromFile(content, lineIndex);
+          if (parentId) {
+            outline.parents.set(taskId, parentId);
           }
         }
       } catch (error) {
-        console.error(`[SyncEngine] Failed to read file for notes: ${filePath}`, error);
+        console.error(`[SyncEngine] Failed to read file for notes and subtasks: ${filePath}`, error);
       }
     }
 
-    return notesMap;
+    return outline;
   }
 
   /**
@@ -430,3 +1146,55 @@ export class SyncEngine {
     return Array.from(baselineMap.values());
   }
 }
+
+/**
+ * Changes reordered so that a task created or moved below a parent
+ * created in the same changes comes after it, and otherwise kept in
+ * order.
+ */
+function parentsFirst(changes: SyncChange[]): SyncChange[] {
+  const parents = new Map(changes.filter(c => c.type === 'create').map(c => [c.task.uid, c.task.parentUid]));
+  const depth = (change: SyncChange): number => {
+    if (change.type === 'delete') return 0;
+    const seen = new Set([change.task.uid]);
+    let parent = change.task.parentUid;
+    while (parent && parents.has(parent) && !seen.has(parent)) {
+      seen.add(parent);
+      parent = parents.get(parent) ?? null;
+    }
+    return seen.size - 1;
+  };
+  return changes
+    .map((change, index) => ({ change, index, depth: depth(change) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map(entry => entry.change);
+}
+
+/**
+ * The writes among `results` that were rejected with 412, and those that failed.
+ */
+function partitionWrites(results: WriteResult[]): { rejected: RejectedWrite[]; failed: FailedWrite[] } {
+  const rejected: RejectedWrite[] = [];
+  const failed: FailedWrite[] = [];
+  for (const result of results) {
+    if (result.status === 'rejected') rejected.push(result);
+    if (result.status === 'failed') failed.push(result);
+  }
+  return { rejected, failed };
+}
+
+/**
+ * The structured form of an error thrown during sync.
+ */
+function toSyncError(error: unknown, calendarName?: string): SyncError {
+  if (error instanceof CalDAVError) {
+    return {
+      calendarName,
+      kind: error.kind,
+      message: error.message,
+      remediation: error.remediation,
+      request: { method: error.method, url: error.url, status: error.status },
+    };
+  }
+  return { calendarName, kind: 'unknown', message: error instanceof Error ? error.message : 'Unknown error' };
+}
@@ -6,13 +6,17 @@ export interface CommonTask {
   title: string;
   status: TaskStatus;
   dueDate: string | null;       // 'YYYY-MM-DD'
+  dueTime: string | null;       // 'HH:mm' in the user's zone, null = all day
   startDate: string | null;     // 'YYYY-MM-DD'
+  startTime: string | null;     // 'HH:mm' in the user's zone, null = all day
   scheduledDate: string | null; // 'YYYY-MM-DD'
   completedDate: string | null; // 'YYYY-MM-DD'
+  reminders: string[];          // 'YYYY-MM-DD HH:mm' in the user's zone
   priority: TaskPriority;
   tags: string[];               // without # prefix
   recurrenceRule: string;       // RRULE string or ''
   notes: string;                // multi-line notes/body text, '' = no notes
+  parentUid: string | null;     // uid of the task it is a subtask of, null = top level
 }
 
 export interface SyncChange {
@@ -35,3 +39,14 @@ export interface Conflict {
 }
 
 export type ConflictStrategy = 'caldav-wins' | 'obsidian-wins';
+
+/**
+ * A vault change recorded while the server was unreachable, to be sent
+ * once it is back.
+ */
+export interface QueuedChange {
+  type: SyncChange['type'];
+  task: CommonTask; // version to write; for deletes, the version being deleted
+  baseline: CommonTask | null; // server version the change was made against, null for creates
+  queuedAt: string; // ISO timestamp
+}
@@ -702,6 +702,34 @@ More text`;
             expect(lines[2]).toBe('- [ ] Next task');
         });
 
+        it('should keep the indentation and subtasks of a nested task', async () => {
+            const fileContent = `- [ ] Parent 🆔 p
+    - [ ] Child 🆔 c
+        - Old note
+        - [ ] Grandchild 🆔 g
+    - [ ] Sibling 🆔 s`;
+
+            const task = createMockTask({
+                originalMarkdown: '    - [ ] Child 🆔 c',
+                taskLocation: {
+                    _tasksFile: { _path: 'test.md' },
+                    _lineNumber: 1
+                }
+            });
+
+            mockApp.vault.getAbstractFileByPath.mockReturnValue(mockFile);
+            mockApp.vault.read.mockResolvedValue(fileContent);
+            mockApp.vault.modify.mockResolvedValue(undefined);
+
+            await taskManager.updateTaskInVault(task, '- [x] Child 🆔 c\n    - New note');
+
+            expect(mockApp.vault.modify.mock.calls[0][1]).toBe(`- [ ] Parent 🆔 p
+    - [x] Child 🆔 c
+        - New note
+        - [ ] Grandchild 🆔 g
+    - [ ] Sibling 🆔 s`);
+        });
+
         it('should not create duplicate tasks when adding ID', async () => {
             // This test simulates the bug that was fixed
             const fileContent = `# Tasks
@@ -738,4 +766,102 @@ More content`;
             expect(tasksWithoutId).toHaveLength(0);
         });
     });
+    describe('createSubtask', () => {
+        beforeEach(() => {
+            jest.clearAllMocks();
+            mockApp.vault.getAbstractFileByPath.mockReturnValue(new MockTFile('test.md'));
+            mockApp.vault.modify.mockResolvedValue(undefined);
+        });
+
+        it('should add the task indented below the parent, after its notes and subtasks', async () => {
+            mockApp.vault.read.mockResolvedValue(`- [ ] Parent 🆔 p
+    - Note
+    - [ ] First child 🆔 c
+
+- [ ] Other 🆔 o`);
+
+            const created = await taskManager.createSubtask('- [ ] New child 🆔 n\n    - Child note', 'test.md', 'p');
+
+            expect(created).toBe(true);
+            expect(mockApp.vault.modify.mock.calls[0][1]).toBe(`- [ ] Parent 🆔 p
+    - Note
+    - [ ] First child 🆔 c
+    - [ ] New child 🆔 n
+        - Child note
+
+- [ ] Other 🆔 o`);
+        });
+
+        it('should indent with tabs below a tab-indented parent', async () => {
+            mockApp.vault.read.mockResolvedValue('- [ ] Top\n\t- [ ] Parent 🆔 p');
+
+            await taskManager.createSubtask('- [ ] Child 🆔 c', 'test.md', 'p');
+
+            expect(mockApp.vault.modify.mock.calls[0][1]).toBe('- [ ] Top\n\t- [ ] Parent 🆔 p\n\t\t- [ ] Child 🆔 c');
+        });
+
+        it('should report a parent that is not in the file', async () => {
+            mockApp.vault.read.mockResolvedValue('- [ ] Other 🆔 o\n    - Mentions 🆔 p');
+
+            expect(await taskManager.createSubtask('- [ ] Child 🆔 c', 'test.md', 'p')).toBe(false);
+            expect(mockApp.vault.modify).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('moveTaskInVault', () => {
+        const file = `- [ ] Old parent 🆔 a
+    - [ ] Child 🆔 c
+        - Child note
+        - [ ] Grandchild 🆔 g
+    - [ ] Sibling 🆔 s
+- [ ] New parent 🆔 b
+    - Note`;
+        const child = createMockTask({ originalMarkdown: '- [ ] Child 🆔 c' });
+
+        beforeEach(() => {
+            jest.clearAllMocks();
+            mockApp.vault.getAbstractFileByPath.mockImplementation((path: string) => new MockTFile(path));
+            mockApp.vault.read.mockResolvedValue(file);
+            mockApp.vault.modify.mockResolvedValue(undefined);
+        });
+
+        it('should move the task with its subtasks below the new parent', async () => {
+            const moved = await taskManager.moveTaskInVault(child, '- [ ] Child renamed 🆔 c\n    - New note', { id: 'b', path: 'test.md' });
+
+            expect(moved).toBe(true);
+            expect(mockApp.vault.modify.mock.calls[0][1]).toBe(`- [ ] Old parent 🆔 a
+    - [ ] Sibling 🆔 s
+- [ ] New parent 🆔 b
+    - Note
+    - [ ] Child renamed 🆔 c
+        - New note
+        - [ ] Grandchild 🆔 g`);
+        });
+
+        it('should move the task to the top level after the task it was nested in', async () => {
+            await taskManager.moveTaskInVault(child, '- [ ] Child 🆔 c', null);
+
+            expect(mockApp.vault.modify.mock.calls[0][1]).toBe(`- [ ] Old parent 🆔 a
+    - [ ] Sibling 🆔 s
+- [ ] Child 🆔 c
+    - [ ] Grandchild 🆔 g
+- [ ] New parent 🆔 b
+    - Note`);
+        });
+
+        it('should add the task to the parent\'s file before removing it from its own', async () => {
+            mockApp.vault.read.mockImplementation(async (f: MockTFile) => (f.path === 'other.md' ? '- [ ] Elsewhere 🆔 e' : file));
+
+            await taskManager.moveTaskInVault(child, '- [ ] Child 🆔 c', { id: 'e', path: 'other.md' });
+
+            expect(mockApp.vault.modify.mock.calls.map(([f]: [MockTFile]) => f.path)).toEqual(['other.md', 'test.md']);
+            expect(mockApp.vault.modify.mock.calls[0][1]).toBe('- [ ] Elsewhere 🆔 e\n    - [ ] Child 🆔 c\n        - [ ] Grandchild 🆔 g');
+        });
+
+        it('should not move a task below a missing parent or one nested in itself', async () => {
+            expect(await taskManager.moveTaskInVault(child, '- [ ] Child 🆔 c', { id: 'g', path: 'test.md' })).toBe(false);
+            expect(await taskManager.moveTaskInVault(child, '- [ ] Child 🆔 c', { id: 'x', path: 'test.md' })).toBe(false);
+            expect(mockApp.vault.modify).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -1,5 +1,6 @@
 import { App, TFile } from 'obsidian';
 import { ensureTaskId, extractTaskId } from '../utils/taskIdGenerator';
+import { blockEnd, indentWidth, indentation, isCheckboxLine, noteText } from '../utils/outline';
 
 /**
  * Represents a task from obsidian-tasks plugin
@@ -206,7 +207,8 @@ export class TaskManager {
     }
 
     /**
-     * Update a task's content in the vault
+     * Update a task's content in the vault. The task's indentation is kept
+     * for all lines of the new content, and subtasks below it stay.
      */
     async updateTaskInVault(task: ObsidianTask, newContent: string): Promise<void> {
         const filePath = task.taskLocation._tasksFile._path;
@@ -229,10 +231,11 @@ export class TaskManager {
             throw new Error(`Could not find task in file: ${originalMarkdown}`);
         }
 
-        // Count indented note lines below the task
+        // Count indented note lines below the task, up to its first subtask
+        const taskWidth = indentWidth(lines[taskIndex]);
         let noteLineCount = 0;
         for (let i = taskIndex + 1; i < lines.length; i++) {
-            if (/^(?:\s{2,}|\t)- /.test(lines[i])) {
+            if (noteText(lines[i], taskWidth) !== null) {
                 noteLineCount++;
             } else {
                 break;
@@ -240,7 +243,8 @@ export class TaskManager {
         }
 
         // Replace the task line + any note lines with new content
-        const newLines = newContent.split('\n');
+        const indent = indentation(lines[taskIndex]);
+        const newLines = newContent.split('\n').map((line, i) => indent + (i === 0 ? line.trimStart() : line));
         lines.splice(taskIndex, 1 + noteLineCount, ...newLines);
 
         // Write back to file
@@ -300,6 +304,114 @@ export class TaskManager {
         await this.app.vault.modify(file, content);
     }
 
+    /**
+     * Add a task as a subtask of the task with the given ID: indented one
+     * level deeper, after the parent's notes and existing subtasks.
+     * @param taskContent The task markdown, as for createTask()
+     * @param filePath Path to the file holding the parent task
+     * @returns false if the parent is not in the file
+     */
+    async createSubtask(taskContent: string, filePath: string, parentId: string): Promise<boolean> {
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (!file || !(file instanceof TFile)) {
+            return false;
+        }
+
+        const content = await this.app.vault.read(file);
+        const lines = content.split('\n');
+        if (!this.insertSubtask(lines, taskContent.split('\n'), parentId)) {
+            return false;
+        }
+
+        await this.app.vault.modify(file, lines.join('\n'));
+        return true;
+    }
+
+    /**
+     * Update a task like updateTaskInVault() and move it, with its notes
+     * and subtasks, below another task (placed as by createSubtask()) or,
+     * when `parent` is null, to the top level after the top-level task it
+     * was nested in.
+     * @param parent ID of the new parent and path of the file holding it
+     * @returns false, leaving the vault unchanged, if the new parent is
+     *   not found or is nested in the task itself
+     */
+    async moveTaskInVault(
+        task: ObsidianTask,
+        newContent: string,
+        parent: { id: string; path: string } | null
+    ): Promise<boolean> {
+        const filePath = task.taskLocation._tasksFile._path;
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (!file || !(file instanceof TFile)) {
+            throw new Error(`File not found: ${filePath}`);
+        }
+
+        const lines = (await this.app.vault.read(file)).split('\n');
+        const taskIndex = lines.findIndex(line => line.trim() === task.originalMarkdown.trim());
+        if (taskIndex === -1) {
+            throw new Error(`Could not find task in file: ${task.originalMarkdown}`);
+        }
+
+        // Take out the task's block: the new content replaces the task
+        // line and its notes, its subtasks keep their relative indentation
+        const taskIndent = indentation(lines[taskIndex]);
+        const end = blockEnd(lines, taskIndex);
+        let subtasksStart = taskIndex + 1;
+        while (subtasksStart < end && noteText(lines[subtasksStart], indentWidth(taskIndent)) !== null) {
+            subtasksStart++;
+        }
+        const block = [
+            ...newContent.split('\n').map((line, i) => (i === 0 ? line.trimStart() : line)),
+            ...lines.slice(subtasksStart, end).map(line =>
+                line.startsWith(taskIndent) ? line.slice(taskIndent.length) : line.trimStart()),
+        ];
+        lines.splice(taskIndex, end - taskIndex);
+
+        if (!parent) {
+            let root = taskIndex - 1;
+            while (root >= 0 && (lines[root].trim() === '' || indentWidth(lines[root]) > 0)) {
+                root--;
+            }
+            lines.splice(root === -1 ? taskIndex : blockEnd(lines, root), 0, ...block);
+        } else if (parent.path === filePath) {
+            if (!this.insertSubtask(lines, block, parent.id)) {
+                return false;
+            }
+        } else {
+            const parentFile = this.app.vault.getAbstractFileByPath(parent.path);
+            if (!parentFile || !(parentFile instanceof TFile)) {
+                return false;
+            }
+            const parentLines = (await this.app.vault.read(parentFile)).split('\n');
+            if (!this.insertSubtask(parentLines, block, parent.id)) {
+                return false;
+            }
+            // Add before removing: an interrupted move leaves a copy, not a loss
+            await this.app.vault.modify(parentFile, parentLines.join('\n'));
+        }
+
+        await this.app.vault.modify(file, lines.join('\n'));
+        return true;
+    }
+
+    /**
+     * Insert lines as a subtask of the task with the given ID: indented
+     * one level deeper, in the parent's style, after the parent's notes
+     * and existing subtasks. False if the parent is not among the lines.
+     */
+    private insertSubtask(lines: string[], taskLines: string[], parentId: string): boolean {
+        const parentIndex = lines.findIndex(line => isCheckboxLine(line) && extractTaskId(line) === parentId);
+        if (parentIndex === -1) {
+            return false;
+        }
+
+        const parentIndent = indentation(lines[parentIndex]);
+        const indent = parentIndent + (parentIndent.includes('\t') ? '\t' : '    ');
+        lines.splice(blockEnd(lines, parentIndex), 0, ...taskLines.map(line => indent + line));
+        return true;
+    }
+
     /**
      * Get statistics about tasks
      */
@@ -1,37 +1,106 @@
+// Which vault tasks belong to a calendar binding
+export type CalendarScopeType = 'vault' | 'folder' | 'frontmatter' | 'tag';
+
+// Which way changes flow between the vault and a calendar
+export type SyncDirection = 'bidirectional' | 'pull-only' | 'push-only';
+
+// One calendar synced with the vault, and the part of the vault it owns
+export interface CalendarBinding {
+  id: string; // stable key for per-calendar sync data ('default' = legacy root storage)
+  calendarName: string;
+  calendarUrl?: string; // set when picked from the server's list; preferred over the name
+  scopeType: CalendarScopeType;
+  scopeValue: string; // folder path, tag name, or expected frontmatter value
+  frontmatterKey: string; // frontmatter key read when scopeType is 'frontmatter'
+  newTasksDestination: string;
+  newTasksSection?: string;
+  syncDirection?: SyncDirection; // unset = 'bidirectional'
+}
+
+// How a task's due and start times are written in the vault:
+// `⏰ 09:00` / `🛫 08:00`, or Dataview fields `[dueTime:: 09:00]` / `[startTime:: 08:00]`
+export type TimeFormat = 'emoji' | 'dataview';
+
+// How reminders are written in the vault, in the syntax of the Reminder
+// plugin: `⏰ 2026-03-01 08:45` (Tasks format) or `(@2026-03-01 08:45)`
+export type ReminderFormat = 'emoji' | 'reminder';
+
+// How requests authenticate against the server
+export type AuthType = 'basic' | 'digest' | 'bearer';
+
+// Secrets for the server account, kept in the device-local credential store
+export interface Credentials {
+  password: string; // basic and digest
+  accessToken: string; // bearer
+  refreshToken: string; // bearer, '' = no refresh
+  tokenExpiresAt: number; // epoch ms when accessToken expires, 0 = unknown
+}
+
+export const EMPTY_CREDENTIALS: Credentials = {
+  password: '',
+  accessToken: '',
+  refreshToken: '',
+  tokenExpiresAt: 0,
+};
+
 // CalDAV connection settings
 export interface CalDAVSettings {
   serverUrl: string;
-  username: string;
-  password: string;
-  calendarName: string;
+  authType: AuthType;
+  username: string; // basic and digest
+  credentialId: string; // key of the account's secrets in the credential store, '' = none yet
+  tokenUrl: string; // OAuth2 token endpoint used to refresh
+  clientId: string; // OAuth2 client id sent with refreshes
+  calendarName: string; // legacy single-calendar setting, migrated into `calendars`
+  calendars: CalendarBinding[];
   syncTag: string; // Tag for sync filtering (e.g., "sync"). Empty = sync all tasks.
+  filterTagOnServer: boolean; // also ask the server for tasks with the sync tag only, see vtodoQueryFilter
+  timeFormat: TimeFormat;
+  reminderFormat: ReminderFormat;
   syncInterval: number; // minutes
-  newTasksDestination: string;
-  newTasksSection?: string;
+  requestTimeout: number; // seconds per HTTP request, 0 = no timeout
+  maxRetries: number; // retries for failed or rate-limited HTTP requests
+  writeConcurrency: number; // task writes (PUT/DELETE) sent at the same time
+  newTasksDestination: string; // legacy, see calendarName
+  newTasksSection?: string; // legacy, see calendarName
   requireManualConflictResolution: boolean;
   autoResolveObsidianWins: boolean;
   syncCompletedTasks: boolean;
+  completedTaskMaxAge: number; // days; unless syncCompletedTasks, older completed/cancelled tasks are not fetched
   deleteBehavior: 'ask' | 'deleteCalDAV' | 'deleteObsidian' | 'keepBoth';
 }
 
 export const DEFAULT_CALDAV_SETTINGS: CalDAVSettings = {
   serverUrl: '',
+  authType: 'basic',
   username: '',
-  password: '',
+  credentialId: '',
+  tokenUrl: '',
+  clientId: '',
   calendarName: '',
+  calendars: [],
   syncTag: 'sync', // Default to #sync tag
+  filterTagOnServer: false,
+  timeFormat: 'emoji',
+  reminderFormat: 'emoji',
   syncInterval: 5,
+  requestTimeout: 30,
+  maxRetries: 3,
+  writeConcurrency: 4,
   newTasksDestination: 'Inbox.md',
   newTasksSection: undefined,
   requireManualConflictResolution: true,
   autoResolveObsidianWins: false,
   syncCompletedTasks: false,
+  completedTaskMaxAge: 30,
   deleteBehavior: 'ask'
 };
 
 // Task mapping
 export interface TaskMapping {
   caldavUID: string;
+  caldavHref?: string; // absolute URL of the calendar object, once known
+  caldavEtag?: string; // etag at the last fetch or write, without quotes
   sourceFile: string;
   lastSyncedObsidian: string;
   lastSyncedCalDAV: string;
@@ -40,10 +109,17 @@ export interface TaskMapping {
 }
 
 export interface MappingData {
+  version?: number; // absent in files written before href/etag tracking
   tasks: Record<string, TaskMapping>; // taskId -> mapping
   caldavToTask: Record<string, string>; // caldavUID -> taskId
 }
 
+// Where a calendar object lives on the server
+export interface ResourceLocation {
+  href: string;
+  etag?: string;
+}
+
 // Conflict info
 export interface ConflictInfo {
   taskId: string;
@@ -52,7 +128,27 @@ export interface ConflictInfo {
   caldavVersion: string;
 }
 
+// Server-side change markers of a calendar collection
+export interface CalendarVersion {
+  calendarUrl: string;
+  ctag: string | null;
+  syncToken: string | null;
+}
+
 export interface SyncState {
   lastSyncTime: string;
   conflicts: ConflictInfo[];
+  calendarVersion?: CalendarVersion; // as seen at the last successful sync
+}
+
+// How the server handled a scratch task during the capability probe
+export interface ServerProfile {
+  version: 1;
+  serverUrl: string; // server the profile was recorded for
+  probedAt: string; // ISO timestamp
+  principalUrl: string | null; // where discovery ended, e.g. an iCloud partition host
+  etagOnPut: boolean; // PUT responses carry the stored object's ETag
+  categories: 'comma' | 'repeated'; // one CATEGORIES line with commas, or one line per category
+  syncCollection: boolean; // RFC 6578 sync-collection REPORT works
+  vtodoDtstart: boolean; // DTSTART on a VTODO is accepted and kept
 }
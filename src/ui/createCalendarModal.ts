@@ -0,0 +1,64 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Asks for the display name and color of a new task calendar.
+ * Errors from `onSubmit` are shown in the modal so the user can retry.
+ */
+export class CreateCalendarModal extends Modal {
+  private onSubmit: (displayName: string, color: string) => Promise<void>;
+  private displayName = '';
+  private color = '#3a87ad';
+
+  constructor(app: App, onSubmit: (displayName: string, color: string) => Promise<void>) {
+    super(app);
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.setTitle('Create task calendar');
+
+    new Setting(contentEl)
+      .setName('Name')
+      .addText(text => text
+        .setPlaceholder('Tasks')
+        .onChange(value => {
+          this.displayName = value;
+        }));
+
+    new Setting(contentEl)
+      .setName('Color')
+      .addColorPicker(picker => picker
+        .setValue(this.color)
+        .onChange(value => {
+          this.color = value;
+        }));
+
+    const errorEl = contentEl.createDiv({ cls: 'caldav-connection-status is-error' });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('Create')
+        .setCta()
+        .onClick(async () => {
+          const name = this.displayName.trim();
+          if (!name) {
+            errorEl.setText('Enter a name for the calendar');
+            return;
+          }
+          button.setDisabled(true);
+          errorEl.setText('');
+          try {
+            await this.onSubmit(name, this.color);
+            this.close();
+          } catch (error) {
+            errorEl.setText(error instanceof Error ? error.message : 'Unknown error');
+            button.setDisabled(false);
+          }
+        }));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -1,5 +1,5 @@
 import { App, Modal } from 'obsidian';
-import { SyncResult } from '../sync/syncEngine';
+import { SkippedChanges, SyncError, SyncResult } from '../sync/syncEngine';
 import { CommonTask, Conflict, SyncChange } from '../sync/types';
 
 export class SyncResultModal extends Modal {
@@ -24,6 +24,13 @@ export class SyncResultModal extends Modal {
 
     const details = this.result.details;
 
+    // Errors section (expanded if any)
+    if (details.errors.length > 0) {
+      this.renderSection(contentEl, `Errors (${details.errors.length})`, (container) => {
+        this.renderErrors(container, details.errors);
+      }, false);
+    }
+
     // Inputs section (collapsed)
     if (details.obsidianTasks || details.caldavTasks || details.baselineTasks) {
       this.renderSection(contentEl, 'Inputs', (container) => {
@@ -64,8 +71,16 @@ export class SyncResultModal extends Modal {
       }, false);
     }
 
+    // Skipped section (expanded if any)
+    const skippedCount = details.skipped.reduce((n, s) => n + s.changes.length, 0);
+    if (skippedCount > 0) {
+      this.renderSection(contentEl, `Skipped (${skippedCount})`, (container) => {
+        this.renderSkipped(container, details.skipped);
+      }, false);
+    }
+
     // No changes message
-    if (!hasChanges && details.conflictDetails.length === 0) {
+    if (!hasChanges && details.conflictDetails.length === 0 && skippedCount === 0) {
       contentEl.createEl('p', {
         text: 'Everything is in sync. No changes needed.',
         cls: 'sync-no-changes',
@@ -108,6 +123,11 @@ export class SyncResultModal extends Modal {
       parts.push(`${r.conflicts} conflict${r.conflicts > 1 ? 's' : ''}`);
     }
 
+    const skipped = r.details.skipped.reduce((n, s) => n + s.changes.length, 0);
+    if (skipped > 0) {
+      parts.push(`${skipped} skipped`);
+    }
+
     if (parts.length === 0) {
       parts.push('No changes');
     }
@@ -120,7 +140,10 @@ export class SyncResultModal extends Modal {
 
     if (!this.result.success) {
       const errorBadge = summary.createSpan({ cls: 'sync-summary-item sync-summary-error' });
-      errorBadge.textContent = `Error: ${this.result.message}`;
+      const errors = this.result.details.errors.length;
+      errorBadge.textContent = errors > 0
+        ? `${errors} error${errors > 1 ? 's' : ''}`
+        : `Error: ${this.result.message}`;
     }
   }
 
@@ -190,6 +213,30 @@ export class SyncResultModal extends Modal {
     }
   }
 
+  private renderErrors(container: HTMLElement, errors: SyncError[]): void {
+    for (const error of errors) {
+      const errorEl = container.createDiv({ cls: 'sync-error' });
+      errorEl.createEl('h4', { text: error.calendarName ?? 'Sync' });
+      errorEl.createEl('p', { text: error.message });
+      if (error.remediation) {
+        errorEl.createEl('p', { text: error.remediation, cls: 'sync-error-hint' });
+      }
+      if (error.request) {
+        const status = error.request.status !== undefined ? ` → ${error.request.status}` : '';
+        errorEl.createEl('code', { text: `${error.request.method} ${error.request.url}${status}`, cls: 'sync-error-request' });
+      }
+    }
+  }
+
+  private renderSkipped(container: HTMLElement, skipped: SkippedChanges[]): void {
+    for (const group of skipped) {
+      const arrow = group.target === 'toObsidian' ? '→ Obsidian' : '→ CalDAV';
+      container.createEl('h4', { text: `${group.calendarName} ${arrow} (${group.changes.length})` });
+      container.createEl('p', { text: `${group.reason}, so these changes were not applied.`, cls: 'sync-skip-reason' });
+      this.renderChanges(container, group.changes);
+    }
+  }
+
   private renderConflicts(container: HTMLElement, conflicts: Conflict[]): void {
     for (const conflict of conflicts) {
       const conflictEl = container.createDiv({ cls: 'sync-conflict' });
@@ -0,0 +1,76 @@
+import { PoolJob, runBounded } from './boundedPool';
+
+/**
+ * Jobs that record when they start and finish, each finishing when
+ * released by the test.
+ */
+function jobs(count: number, after: Record<number, number[]> = {}) {
+  const log: string[] = [];
+  const releases: Array<() => void> = [];
+  const list: PoolJob[] = Array.from({ length: count }, (_, i) => ({
+    after: after[i] ?? [],
+    run: () => new Promise<void>(resolve => {
+      log.push(`start ${i}`);
+      releases[i] = () => {
+        log.push(`end ${i}`);
+        resolve();
+      };
+    }),
+  }));
+  return { list, log, release: async (i: number) => { releases[i](); await flush(); } };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+describe('runBounded', () => {
+  it('should keep at most `limit` jobs in flight, starting them in order', async () => {
+    const { list, log, release } = jobs(4);
+
+    const done = runBounded(list, 2);
+    await flush();
+    expect(log).toEqual(['start 0', 'start 1']);
+
+    await release(1);
+    expect(log).toEqual(['start 0', 'start 1', 'end 1', 'start 2']);
+
+    await release(0);
+    await release(2);
+    await release(3);
+    await done;
+    expect(log.filter(l => l.startsWith('start'))).toHaveLength(4);
+  });
+
+  it('should start a job only after the jobs it depends on', async () => {
+    // 0 is a child created before its parent 2
+    const { list, log, release } = jobs(3, { 0: [2] });
+
+    const done = runBounded(list, 4);
+    await flush();
+    expect(log).toEqual(['start 1', 'start 2']);
+
+    await release(2);
+    expect(log).toContain('start 0');
+
+    await release(0);
+    await release(1);
+    await done;
+  });
+
+  it('should break dependency cycles instead of hanging', async () => {
+    const { list, log, release } = jobs(2, { 0: [1], 1: [0] });
+
+    const done = runBounded(list, 2);
+    await flush();
+    expect(log).toEqual(['start 0']);
+
+    await release(0);
+    await release(1);
+    await done;
+  });
+
+  it('should resolve at once without jobs', async () => {
+    await expect(runBounded([], 4)).resolves.toBeUndefined();
+  });
+});
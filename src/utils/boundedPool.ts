@@ -0,0 +1,55 @@
+/**
+ * A unit of work for runBounded(), with the indexes of the jobs that
+ * must settle before it starts.
+ */
+export interface PoolJob {
+  after: number[];
+  run: () => Promise<void>;
+}
+
+/**
+ * Run jobs with at most `limit` in flight, starting each as soon as a
+ * slot is free and the jobs in its `after` have settled (succeeded or
+ * failed); among the jobs ready to start, earlier ones go first. When
+ * only a dependency cycle is left, its earliest job is started anyway.
+ * Resolves once every job has settled, and rejects with the first
+ * rejection: jobs are expected to handle their own errors.
+ */
+export function runBounded(jobs: PoolJob[], limit: number): Promise<void> {
+  const slots = Math.max(1, Math.floor(limit));
+  const started = new Set<number>();
+  const settled = new Set<number>();
+  let running = 0;
+
+  return new Promise((resolve, reject) => {
+    let failed = false;
+
+    const fill = (): void => {
+      if (failed) return;
+      if (settled.size === jobs.length) {
+        resolve();
+        return;
+      }
+      while (running < slots) {
+        let index = jobs.findIndex((job, i) => !started.has(i) && job.after.every(j => j === i || settled.has(j)));
+        if (index === -1 && running === 0) {
+          index = jobs.findIndex((_, i) => !started.has(i));
+        }
+        if (index === -1) return;
+
+        started.add(index);
+        running++;
+        jobs[index].run().then(() => {
+          running--;
+          settled.add(index);
+          fill();
+        }, (error: unknown) => {
+          failed = true;
+          reject(error instanceof Error ? error : new Error(String(error)));
+        });
+      }
+    };
+
+    fill();
+  });
+}
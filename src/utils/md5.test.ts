@@ -0,0 +1,22 @@
+import { md5 } from './md5';
+
+describe('md5', () => {
+  it('should match the RFC 1321 test suite', () => {
+    expect(md5('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(md5('a')).toBe('0cc175b9c0f1b6a831c399e269772661');
+    expect(md5('abc')).toBe('900150983cd24fb0d6963f7d28e17f72');
+    expect(md5('message digest')).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+    expect(md5('abcdefghijklmnopqrstuvwxyz')).toBe('c3fcd3d76192e4007dfb496cca67e13b');
+    expect(md5('12345678901234567890123456789012345678901234567890123456789012345678901234567890'))
+      .toBe('57edf4a22be3c955ac49da2e2107b67a');
+  });
+
+  it('should hash the UTF-8 bytes of non-ASCII input', () => {
+    // The bytes c3 a9, not the code unit e9
+    expect(md5('é')).toBe('66ddcd97cfdeabb2f6fb8a999b4bc76f');
+  });
+
+  it('should handle inputs spanning several blocks', () => {
+    expect(md5('a'.repeat(1000))).toBe('cabe45dcc9ae5b66ba86600cca6b8ba8');
+  });
+});
@@ -0,0 +1,30 @@
+import { indentWidth, indentation, isCheckboxLine, noteText } from './outline';
+
+describe('outline', () => {
+  it('should measure indentation, a tab counting as four spaces', () => {
+    expect(indentation('  \t- [ ] Task')).toBe('  \t');
+    expect(indentWidth('  \t- [ ] Task')).toBe(6);
+    expect(indentWidth('- [ ] Task')).toBe(0);
+  });
+
+  it('should recognize checkbox list items', () => {
+    expect(isCheckboxLine('    - [ ] Task')).toBe(true);
+    expect(isCheckboxLine('* [x] Done')).toBe(true);
+    expect(isCheckboxLine('    - Note')).toBe(false);
+    expect(isCheckboxLine('[ ] Not a list item')).toBe(false);
+  });
+
+  describe('noteText', () => {
+    it('should read bullets at least two spaces deeper than the task', () => {
+      expect(noteText('  - Note', 0)).toBe('Note');
+      expect(noteText('\t- Note', 0)).toBe('Note');
+      expect(noteText('        - Note', 4)).toBe('Note');
+    });
+
+    it('should reject subtasks, shallow bullets and other lines', () => {
+      expect(noteText('    - [ ] Subtask', 0)).toBeNull();
+      expect(noteText('    - Sibling note', 4)).toBeNull();
+      expect(noteText('    Not a bullet', 0)).toBeNull();
+    });
+  });
+});
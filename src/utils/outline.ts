@@ -0,0 +1,57 @@
+/**
+ * Reading the nesting of Markdown list lines: tasks, their notes (the
+ * bullets indented below them) and their subtasks (the checkboxes
+ * indented below them).
+ */
+
+/** Spaces a tab counts for when comparing indentation. */
+const TAB_WIDTH = 4;
+
+/**
+ * The leading whitespace of a line.
+ */
+export function indentation(line: string): string {
+  return /^[ \t]*/.exec(line)![0];
+}
+
+/**
+ * Width of a line's leading whitespace, a tab counting as four spaces.
+ */
+export function indentWidth(line: string): number {
+  let width = 0;
+  for (const c of indentation(line)) {
+    width += c === '\t' ? TAB_WIDTH : 1;
+  }
+  return width;
+}
+
+/**
+ * Whether a line is a checkbox list item, `- [ ] ...` or `- [x] ...`.
+ */
+export function isCheckboxLine(line: string): boolean {
+  return /^[ \t]*[-*+] \[.\]/.test(line);
+}
+
+/**
+ * The text of a note of the task line indented `taskWidth`: a bullet at
+ * least two spaces (or a tab) deeper that is not a checkbox. Null for
+ * other lines.
+ */
+export function noteText(line: string, taskWidth: number): string | null {
+  const match = /^[ \t]*- (.*)$/.exec(line);
+  if (!match || isCheckboxLine(line) || indentWidth(line) < taskWidth + 2) return null;
+  return match[1];
+}
+
+/**
+ * Index just past the block of the list line at `index`: the following
+ * non-blank lines indented deeper than it (its notes and subtasks).
+ */
+export function blockEnd(lines: string[], index: number): number {
+  const width = indentWidth(lines[index]);
+  let end = index + 1;
+  while (end < lines.length && lines[end].trim() !== '' && indentWidth(lines[end]) > width) {
+    end++;
+  }
+  return end;
+}
@@ -1,4 +1,5 @@
 import { CalDAVClientDirect } from '../../src/caldav/calDAVClientDirect';
+import { BasicAuthProvider } from '../../src/caldav/auth';
 import { CalDAVAdapter } from '../../src/sync/caldavAdapter';
 import { CommonTask } from '../../src/sync/types';
 import { FetchHttpClient } from '../helpers/fetchHttpClient';
@@ -14,18 +15,30 @@ function makeClient(): CalDAVClientDirect {
   return new CalDAVClientDirect(
     {
       serverUrl: RADICALE.baseUrl,
+      authType: 'basic',
       username: RADICALE.username,
-      password: RADICALE.password,
+      credentialId: '',
+      tokenUrl: '',
+      clientId: '',
       calendarName,
+      calendars: [],
       syncTag: '',
+      filterTagOnServer: false,
+      timeFormat: 'emoji',
+      reminderFormat: 'emoji',
       syncInterval: 5,
+      requestTimeout: 30,
+      maxRetries: 3,
+      writeConcurrency: 4,
       newTasksDestination: 'Inbox.md',
       requireManualConflictResolution: false,
       autoResolveObsidianWins: false,
       syncCompletedTasks: false,
+      completedTaskMaxAge: 30,
       deleteBehavior: 'ask',
     },
     httpClient,
+    new BasicAuthProvider(RADICALE.username, RADICALE.password),
   );
 }
 
@@ -115,13 +128,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Round trip test',
         status: 'TODO',
         dueDate: '2025-07-01',
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: '2025-06-28',
         completedDate: null,
+        reminders: [],
         priority: 'high',
         tags: ['sync', 'test'],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const caldavUID = `e2e-roundtrip-${Date.now()}`;
@@ -150,13 +167,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Completed task',
         status: 'DONE',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: '2025-06-10',
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const caldavUID = `e2e-done-${Date.now()}`;
@@ -181,13 +202,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Task with notes',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: 'Remember to check the farmers market\nAlso need cleaning supplies',
+        parentUid: null,
       };
 
       const caldavUID = `e2e-desc-rt-${Date.now()}`;
@@ -210,13 +235,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Special chars test',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: 'Commas, semicolons; colons: and backslashes\\',
+        parentUid: null,
       };
 
       const caldavUID = `e2e-desc-special-${Date.now()}`;
@@ -260,13 +289,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Task to update',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: 'New description added',
+        parentUid: null,
       };
 
       const uidMapping = new Map([[caldavUID, 'update-desc-id']]);
@@ -310,13 +343,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Brand new task',
         status: 'TODO',
         dueDate: '2025-08-01',
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'medium',
         tags: ['sync'],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const updatedTask: CommonTask = {
@@ -324,13 +361,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'Updated existing task',
         status: 'DONE',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: '2025-07-15',
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       const deletedTask: CommonTask = {
@@ -338,13 +379,17 @@ describe('CalDAVAdapter E2E', () => {
         title: 'To delete',
         status: 'TODO',
         dueDate: null,
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'none',
         tags: [],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       };
 
       await adapter.applyChanges(
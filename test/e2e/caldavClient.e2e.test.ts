@@ -1,4 +1,5 @@
 import { CalDAVClientDirect } from '../../src/caldav/calDAVClientDirect';
+import { BasicAuthProvider } from '../../src/caldav/auth';
 import { VTODOMapper } from '../../src/caldav/vtodoMapper';
 import { FetchHttpClient } from '../helpers/fetchHttpClient';
 import { RADICALE, createIsolatedCalendar } from '../helpers/radicaleSetup';
@@ -14,18 +15,30 @@ function makeClient(): CalDAVClientDirect {
   return new CalDAVClientDirect(
     {
       serverUrl: RADICALE.baseUrl,
+      authType: 'basic',
       username: RADICALE.username,
-      password: RADICALE.password,
+      credentialId: '',
+      tokenUrl: '',
+      clientId: '',
       calendarName,
+      calendars: [],
       syncTag: '',
+      filterTagOnServer: false,
+      timeFormat: 'emoji',
+      reminderFormat: 'emoji',
       syncInterval: 5,
+      requestTimeout: 30,
+      maxRetries: 3,
+      writeConcurrency: 4,
       newTasksDestination: 'Inbox.md',
       requireManualConflictResolution: false,
       autoResolveObsidianWins: false,
       syncCompletedTasks: false,
+      completedTaskMaxAge: 30,
       deleteBehavior: 'ask',
     },
     httpClient,
+    new BasicAuthProvider(RADICALE.username, RADICALE.password),
   );
 }
 
@@ -73,18 +86,30 @@ describe('Calendar discovery', () => {
     const client = new CalDAVClientDirect(
       {
         serverUrl: RADICALE.baseUrl,
+        authType: 'basic',
         username: RADICALE.username,
-        password: RADICALE.password,
+        credentialId: '',
+        tokenUrl: '',
+        clientId: '',
         calendarName: 'nonexistent-calendar',
+        calendars: [],
         syncTag: '',
+        filterTagOnServer: false,
+        timeFormat: 'emoji',
+        reminderFormat: 'emoji',
         syncInterval: 5,
+        requestTimeout: 30,
+        maxRetries: 3,
+        writeConcurrency: 4,
         newTasksDestination: 'Inbox.md',
         requireManualConflictResolution: false,
         autoResolveObsidianWins: false,
         syncCompletedTasks: false,
+        completedTaskMaxAge: 30,
         deleteBehavior: 'ask',
       },
       httpClient,
+      new BasicAuthProvider(RADICALE.username, RADICALE.password),
     );
     await expect(client.connect()).rejects.toThrow(/not found/i);
   });
@@ -1,4 +1,5 @@
 import { CalDAVClientDirect } from '../../src/caldav/calDAVClientDirect';
+import { BasicAuthProvider } from '../../src/caldav/auth';
 import { CalDAVAdapter } from '../../src/sync/caldavAdapter';
 import { ObsidianAdapter } from '../../src/sync/obsidianAdapter';
 import { diff } from '../../src/sync/diff';
@@ -18,18 +19,30 @@ function makeClient(): CalDAVClientDirect {
   return new CalDAVClientDirect(
     {
       serverUrl: RADICALE.baseUrl,
+      authType: 'basic',
       username: RADICALE.username,
-      password: RADICALE.password,
+      credentialId: '',
+      tokenUrl: '',
+      clientId: '',
       calendarName,
+      calendars: [],
       syncTag: '',
+      filterTagOnServer: false,
+      timeFormat: 'emoji',
+      reminderFormat: 'emoji',
       syncInterval: 5,
+      requestTimeout: 30,
+      maxRetries: 3,
+      writeConcurrency: 4,
       newTasksDestination: 'Inbox.md',
       requireManualConflictResolution: false,
       autoResolveObsidianWins: false,
       syncCompletedTasks: false,
+      completedTaskMaxAge: 30,
       deleteBehavior: 'ask',
     },
     httpClient,
+    new BasicAuthProvider(RADICALE.username, RADICALE.password),
   );
 }
 
@@ -111,13 +124,17 @@ describe('Sync round-trip E2E', () => {
         title: 'Task from Obsidian',
         status: 'TODO',
         dueDate: '2025-08-01',
+        dueTime: null,
         startDate: null,
+        startTime: null,
         scheduledDate: null,
         completedDate: null,
+        reminders: [],
         priority: 'high',
         tags: ['sync'],
         recurrenceRule: '',
         notes: '',
+        parentUid: null,
       },
     ];
 
@@ -0,0 +1,60 @@
+import { HttpClient, HttpRequest, HttpResponse } from '../../src/caldav/httpClient';
+
+/**
+ * Fake HTTP responses and clients shared by the CalDAV unit tests.
+ */
+
+export function respond(status: number, text: string = '', headers: Record<string, string> = {}): HttpResponse {
+  return { status, text, headers };
+}
+
+export function multistatus(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:cs="http://calendarserver.org/ns/">${body}</d:multistatus>`;
+}
+
+export function propResponse(href: string, props: string): string {
+  return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+}
+
+export type ScriptEntry = HttpResponse | Error | 'hang';
+
+/**
+ * Fake HttpClient answering from a script, one entry per request, and
+ * recording every request. An Error entry is thrown, as a network failure
+ * would be; 'hang' never answers. Answers 200 once the script runs out.
+ */
+export class ScriptedHttpClient implements HttpClient {
+  requests: HttpRequest[] = [];
+  private script: ScriptEntry[];
+
+  constructor(script: ScriptEntry[]) {
+    this.script = script;
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    this.requests.push(params);
+    const next = this.script.shift() ?? respond(200);
+    if (next === 'hang') return new Promise<HttpResponse>(() => undefined);
+    if (next instanceof Error) throw next;
+    return next;
+  }
+}
+
+/**
+ * Fake HttpClient answering by URL, 404 for unknown ones, and recording
+ * every request.
+ */
+export class RoutingHttpClient implements HttpClient {
+  requests: HttpRequest[] = [];
+  private routes: Record<string, HttpResponse>;
+
+  constructor(routes: Record<string, HttpResponse>) {
+    this.routes = routes;
+  }
+
+  async request(params: HttpRequest): Promise<HttpResponse> {
+    this.requests.push(params);
+    return this.routes[params.url] ?? respond(404);
+  }
+}